@@ -3,6 +3,7 @@
 // </copyright>
 
 import axios from "./axios-decorator";
+import { ApiResult } from "../models/type";
 
 const baseAxiosUrl = window.location.origin;
 
@@ -10,8 +11,9 @@ const baseAxiosUrl = window.location.origin;
 * Get authentication meta data from API
 * @param {String} windowLocationOriginDomain window location origin domain
 * @param {String | Null} login_hint login hint
+* @param {AbortSignal} signal Signal to cancel the request.
 */
-export const getAuthenticationConsentMetadata = async (windowLocationOriginDomain: string, login_hint: string): Promise<any> => {
+export const getAuthenticationConsentMetadata = async (windowLocationOriginDomain: string, login_hint: string, signal?: AbortSignal): Promise<ApiResult<string>> => {
     let url = `${baseAxiosUrl}/api/authenticationMetadata/consentUrl?windowLocationOriginDomain=${windowLocationOriginDomain}&loginhint=${login_hint}`;
-    return await axios.get(url, undefined, false);
+    return await axios.get(url, undefined, false, undefined, signal);
 }
\ No newline at end of file
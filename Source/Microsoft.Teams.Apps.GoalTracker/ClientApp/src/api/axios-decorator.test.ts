@@ -0,0 +1,206 @@
+﻿// <copyright file="axios-decorator.test.ts" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import axios, { AxiosError, AxiosRequestConfig, AxiosResponse } from "axios";
+import * as microsoftTeams from "@microsoft/teams-js";
+import { AxiosJWTDecorator } from "./axios-decorator";
+
+const retryPolicy = { maxRetries: 3, baseDelayInMilliseconds: 10, maxDelayInMilliseconds: 40 };
+
+/**
+* Serve requests from given statuses in order, and record sent requests. Last status is repeated once others are used.
+* @param statuses {Number[]} Status of each response, 0 for network failure.
+* @param headers {Object} Headers of every response.
+*/
+const respondWith = (statuses: number[], headers: any = {}) => {
+    let requests: AxiosRequestConfig[] = [];
+    axios.defaults.adapter = (config: AxiosRequestConfig): Promise<AxiosResponse> => {
+        let status = statuses[Math.min(requests.length, statuses.length - 1)];
+        requests.push({ ...config, headers: { ...config.headers } });
+        let response: AxiosResponse = { data: "", status: status, statusText: "", headers: headers, config: config };
+        if (status >= 200 && status < 300) {
+            return Promise.resolve(response);
+        }
+
+        let error = new Error(status ? `Request failed with status code ${status}` : "Network Error") as AxiosError;
+        error.config = config;
+        error.response = status ? response : undefined;
+        error.isAxiosError = true;
+        return Promise.reject(error);
+    };
+
+    return requests;
+}
+
+/**
+* Create JWT token expiring after given time.
+* @param name {String} Name of user, to tell tokens apart.
+* @param expiresInMilliseconds {Number} Time after which token expires.
+*/
+const createToken = (name: string, expiresInMilliseconds: number) => {
+    let claims = { name: name, exp: Math.floor((Date.now() + expiresInMilliseconds) / 1000) };
+    return `header.${btoa(JSON.stringify(claims)).replace(/=+$/, "").replace(/\+/g, "-").replace(/\//g, "_")}.signature`;
+}
+
+/**
+* Make Teams SDK return given tokens in order.
+* @param tokens {String[]} Tokens returned by Teams.
+* @returns Mock of Teams getAuthToken function.
+*/
+const issueTokens = (tokens: string[]) => {
+    let teamsSdk: any = microsoftTeams;
+    teamsSdk.initialize = () => undefined;
+    let getAuthToken = jest.fn((authTokenRequest: microsoftTeams.authentication.AuthTokenRequest) => {
+        let token = tokens[getAuthToken.mock.calls.length - 1];
+        setTimeout(() => authTokenRequest.successCallback!(token));
+    });
+    Object.assign(microsoftTeams.authentication, { getAuthToken: getAuthToken });
+
+    return getAuthToken;
+}
+
+/**
+* Get delays of timers started by test, in milliseconds.
+* @param setTimeoutSpy {Object} Spy on setTimeout.
+*/
+const getTimerDelays = (setTimeoutSpy: jest.SpyInstance) => setTimeoutSpy.mock.calls.map(call => call[1]);
+
+describe("AxiosJWTDecorator retries", () => {
+    let setTimeoutSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+        setTimeoutSpy = jest.spyOn(window, "setTimeout");
+        jest.spyOn(Math, "random").mockReturnValue(0.5);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it("retries transient failures with exponential backoff and full jitter", async () => {
+        let requests = respondWith([503, 0, 502, 200]);
+
+        let result = await new AxiosJWTDecorator(retryPolicy).get("/api/personalgoals", undefined, false);
+
+        expect(result.isSuccess).toBe(true);
+        expect(requests).toHaveLength(4);
+        expect(getTimerDelays(setTimeoutSpy)).toEqual([5, 10, 20]);
+    });
+
+    it("caps backoff at maximum delay and gives up after maximum number of retries", async () => {
+        let requests = respondWith([500]);
+
+        let result = await new AxiosJWTDecorator({ ...retryPolicy, maxDelayInMilliseconds: 15 }).get("/api/personalgoals", undefined, false);
+
+        expect(result).toMatchObject({ isSuccess: false, status: 500, errorCode: "serverError", isRetryable: true });
+        expect(requests).toHaveLength(4);
+        expect(getTimerDelays(setTimeoutSpy)).toEqual([5, 7.5, 7.5]);
+    });
+
+    it("does not retry failures caused by request", async () => {
+        let requests = respondWith([400]);
+
+        let result = await new AxiosJWTDecorator(retryPolicy).put("/api/notes", [], undefined, false);
+
+        expect(result).toMatchObject({ isSuccess: false, errorCode: "badRequest", isRetryable: false });
+        expect(requests).toHaveLength(1);
+    });
+
+    it("waits as long as server asks in Retry-After header", async () => {
+        let requests = respondWith([429, 200], { "retry-after": "0.03" });
+
+        let result = await new AxiosJWTDecorator(retryPolicy).get("/api/personalgoals", undefined, false);
+
+        expect(result.isSuccess).toBe(true);
+        expect(requests).toHaveLength(2);
+        expect(getTimerDelays(setTimeoutSpy)).toEqual([30]);
+    });
+
+    it("gives up when server asks to wait longer than maximum delay", async () => {
+        let requests = respondWith([429, 200], { "retry-after": "120" });
+
+        let result = await new AxiosJWTDecorator(retryPolicy).get("/api/personalgoals", undefined, false);
+
+        expect(result).toMatchObject({ isSuccess: false, errorCode: "tooManyRequests" });
+        expect(requests).toHaveLength(1);
+    });
+
+    it("retries post request only when retry policy is passed", async () => {
+        let requests = respondWith([503, 503, 200]);
+        let decorator = new AxiosJWTDecorator(retryPolicy);
+
+        expect((await decorator.post("/api/personalgoals", [], undefined, false)).isSuccess).toBe(false);
+        expect(requests).toHaveLength(1);
+
+        expect((await decorator.post("/api/personalgoals", [], undefined, false, retryPolicy)).isSuccess).toBe(true);
+        expect(requests).toHaveLength(3);
+    });
+
+    it("stops waiting for retry when request is cancelled", async () => {
+        let controller = new AbortController();
+        let requests = respondWith([503, 200]);
+        let decorator = new AxiosJWTDecorator({ ...retryPolicy, baseDelayInMilliseconds: 60000, maxDelayInMilliseconds: 60000 });
+
+        let pendingResult = decorator.get("/api/personalgoals", undefined, false, undefined, controller.signal);
+        await new Promise(resolve => setTimeout(resolve, 0));
+        controller.abort();
+
+        expect(await pendingResult).toMatchObject({ isSuccess: false, errorCode: "cancelled" });
+        expect(requests).toHaveLength(1);
+    });
+
+    it("removes abort listeners once retried request completes", async () => {
+        let controller = new AbortController();
+        let addEventListenerSpy = jest.spyOn(controller.signal, "addEventListener");
+        let removeEventListenerSpy = jest.spyOn(controller.signal, "removeEventListener");
+        respondWith([503, 503, 200]);
+
+        let result = await new AxiosJWTDecorator(retryPolicy).get("/api/personalgoals", undefined, false, undefined, controller.signal);
+
+        expect(result.isSuccess).toBe(true);
+        expect(addEventListenerSpy).toHaveBeenCalledTimes(3);
+        expect(removeEventListenerSpy).toHaveBeenCalledTimes(3);
+    });
+});
+
+describe("AxiosJWTDecorator tokens", () => {
+    it("shares single token request between concurrent requests and reuses token until it is about to expire", async () => {
+        let token = createToken("first", 60 * 60 * 1000);
+        let getAuthToken = issueTokens([token, createToken("second", 60 * 60 * 1000)]);
+        let requests = respondWith([200]);
+        let decorator = new AxiosJWTDecorator(retryPolicy);
+
+        await Promise.all([decorator.get("/api/personalgoals"), decorator.get("/api/notes"), decorator.get("/api/teamgoals")]);
+        await decorator.get("/api/personalgoals");
+
+        expect(getAuthToken).toHaveBeenCalledTimes(1);
+        expect(requests.map(request => request.headers["Authorization"])).toEqual(Array(4).fill(`Bearer ${token}`));
+    });
+
+    it("requests new token when cached token expires within buffer", async () => {
+        let token = createToken("second", 60 * 60 * 1000);
+        let getAuthToken = issueTokens([createToken("first", 60 * 1000), token]);
+        let requests = respondWith([200]);
+        let decorator = new AxiosJWTDecorator(retryPolicy);
+
+        await decorator.get("/api/personalgoals");
+        await decorator.get("/api/personalgoals");
+        await decorator.get("/api/personalgoals");
+
+        expect(getAuthToken).toHaveBeenCalledTimes(2);
+        expect(requests[2].headers["Authorization"]).toBe(`Bearer ${token}`);
+    });
+
+    it("does not reuse token which could not be decoded or was rejected by service", async () => {
+        let getAuthToken = issueTokens(["not-a-jwt", createToken("second", 60 * 60 * 1000), createToken("third", 60 * 60 * 1000)]);
+        respondWith([200, 401, 200]);
+        let decorator = new AxiosJWTDecorator(retryPolicy);
+
+        await decorator.get("/api/personalgoals");
+        expect((await decorator.get("/api/personalgoals")).isSuccess).toBe(false);
+        await decorator.get("/api/personalgoals");
+
+        expect(getAuthToken).toHaveBeenCalledTimes(3);
+    });
+});
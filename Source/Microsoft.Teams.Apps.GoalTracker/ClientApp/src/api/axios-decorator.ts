@@ -2,22 +2,45 @@
 // Copyright (c) Microsoft. All rights reserved.
 // </copyright>
 
-import axios, { AxiosResponse, AxiosRequestConfig } from "axios";
+import axios, { AxiosResponse, AxiosRequestConfig, AxiosError, CancelToken } from "axios";
 import * as microsoftTeams from "@microsoft/teams-js";
+import { ApiResult, ApiErrorCode, IApiFailureResult, IApiSuccessResult, IRetryPolicy } from "../models/type";
+import Constants from "../constants";
+import { createCancelledResult } from "../helpers/request-cancellation";
 
 export class AxiosJWTDecorator {
+    retryPolicy: IRetryPolicy;
+    cachedToken: string | null = null;
+    cachedTokenExpiresOn: number = 0;
+    pendingTokenRequest: Promise<string> | null = null;
+
+    /**
+    * Creates decorator with retry policy applied to idempotent requests.
+    * @param retryPolicy {Object} Retry policy used for GET, PUT and DELETE requests unless overridden per call.
+    */
+    constructor(retryPolicy?: IRetryPolicy) {
+        this.retryPolicy = retryPolicy || {
+            maxRetries: Constants.apiMaxRetries,
+            baseDelayInMilliseconds: Constants.apiRetryBaseDelayInMilliseconds,
+            maxDelayInMilliseconds: Constants.apiRetryMaxDelayInMilliseconds
+        };
+    }
 
     /**
 	* Delete data
 	* @param  {String} url Resource URI
+	* @param  {Object | Null} retryPolicy Retry policy for this call, null disables retries.
+	* @param  {AbortSignal} signal Signal to cancel the request.
 	*/
-    public async delete<T = any, R = AxiosResponse<T>>(
+    public async delete<T = any>(
         url: string,
         data?: any,
         config?: AxiosRequestConfig,
-        needAuthorizationHeader: boolean = true
-    ): Promise<R> {
-        try {
+        needAuthorizationHeader: boolean = true,
+        retryPolicy: IRetryPolicy | null = this.retryPolicy,
+        signal?: AbortSignal
+    ): Promise<ApiResult<T>> {
+        return this.executeRequest<T>(async (cancelToken: CancelToken) => {
             let config: AxiosRequestConfig = axios.defaults;
             if (needAuthorizationHeader) {
                 config = await this.setupAuthorizationHeader(config);
@@ -27,95 +50,280 @@ export class AxiosJWTDecorator {
                 config.data = data;
             }
 
-            return await axios.delete(url, config);
-        } catch (error) {
-            return error.response;
-        }
+            return await axios.delete(url, { ...config, cancelToken: cancelToken });
+        }, retryPolicy, signal);
     }
 
 	/**
-	* Post data to API
+	* Post data to API. Post requests are not retried unless a retry policy is passed explicitly.
 	* @param  {String} url Resource URI
 	* @param  {Object} data Request body data
+	* @param  {Object | Null} retryPolicy Retry policy for this call, null disables retries.
+	* @param  {AbortSignal} signal Signal to cancel the request.
 	*/
-    public async post<T = any, R = AxiosResponse<T>>(
+    public async post<T = any>(
         url: string,
         data?: any,
         config?: AxiosRequestConfig,
-        needAuthorizationHeader: boolean = true
-    ): Promise<R> {
-        try {
+        needAuthorizationHeader: boolean = true,
+        retryPolicy: IRetryPolicy | null = null,
+        signal?: AbortSignal
+    ): Promise<ApiResult<T>> {
+        return this.executeRequest<T>(async (cancelToken: CancelToken) => {
             let config: AxiosRequestConfig = axios.defaults;
             if (needAuthorizationHeader) {
                 config = await this.setupAuthorizationHeader(config);
             }
 
-            return await axios.post(url, data, config);
-        } catch (error) {
-            return error.response;
-        }
+            return await axios.post(url, data, { ...config, cancelToken: cancelToken });
+        }, retryPolicy, signal);
     }
 
 	/**
 	* Update data
 	* @param  {String} url Resource URI
 	* @param  {Object} data Request body data
+	* @param  {Object | Null} retryPolicy Retry policy for this call, null disables retries.
+	* @param  {AbortSignal} signal Signal to cancel the request.
 	*/
-    public async put<T = any, R = AxiosResponse<T>>(
+    public async put<T = any>(
         url: string,
         data?: any,
         config?: AxiosRequestConfig,
-        needAuthorizationHeader: boolean = true
-    ): Promise<R> {
-        try {
+        needAuthorizationHeader: boolean = true,
+        retryPolicy: IRetryPolicy | null = this.retryPolicy,
+        signal?: AbortSignal
+    ): Promise<ApiResult<T>> {
+        return this.executeRequest<T>(async (cancelToken: CancelToken) => {
             if (needAuthorizationHeader) {
                 config = await this.setupAuthorizationHeader(config);
             }
 
-            return await axios.put(url, data, config);
-        } catch (error) {
-            return error.response;
-        }
+            return await axios.put(url, data, { ...config, cancelToken: cancelToken });
+        }, retryPolicy, signal);
     }
 
     /**
-	* Update data with patch request
+	* Update data with patch request. Patch requests are not retried unless a retry policy is passed explicitly.
 	* @param  {String} url Resource URI
 	* @param  {Object} data Request body data
+	* @param  {Object | Null} retryPolicy Retry policy for this call, null disables retries.
+	* @param  {AbortSignal} signal Signal to cancel the request.
 	*/
-    public async patch<T = any, R = AxiosResponse<T>>(
+    public async patch<T = any>(
         url: string,
         data?: any,
         config?: AxiosRequestConfig,
-        needAuthorizationHeader: boolean = true
-    ): Promise<R> {
-        try {
+        needAuthorizationHeader: boolean = true,
+        retryPolicy: IRetryPolicy | null = null,
+        signal?: AbortSignal
+    ): Promise<ApiResult<T>> {
+        return this.executeRequest<T>(async (cancelToken: CancelToken) => {
             if (needAuthorizationHeader) {
                 config = await this.setupAuthorizationHeader(config);
             }
 
-            return await axios.patch(url, data, config);
-        } catch (error) {
-            return error.response;
-        }
+            return await axios.patch(url, data, { ...config, cancelToken: cancelToken });
+        }, retryPolicy, signal);
     }
 
 	/**
 	* Get data from API
+	* @param  {String} url Resource URI
+	* @param  {Object | Null} retryPolicy Retry policy for this call, null disables retries.
+	* @param  {AbortSignal} signal Signal to cancel the request.
 	*/
-    public async get<T = any, R = AxiosResponse<T>>(
+    public async get<T = any>(
         url: string,
         config?: AxiosRequestConfig,
-        needAuthorizationHeader: boolean = true
-    ): Promise<R> {
-        try {
+        needAuthorizationHeader: boolean = true,
+        retryPolicy: IRetryPolicy | null = this.retryPolicy,
+        signal?: AbortSignal
+    ): Promise<ApiResult<T>> {
+        return this.executeRequest<T>(async (cancelToken: CancelToken) => {
             if (needAuthorizationHeader) {
                 config = await this.setupAuthorizationHeader(config);
             }
 
-            return await axios.get(url, config);
-        } catch (error) {
-            return error.response;
+            return await axios.get(url, { ...config, cancelToken: cancelToken });
+        }, retryPolicy, signal);
+    }
+
+    /**
+    * Executes request and retries transient failures with exponential backoff and full jitter.
+    * Abort signal is mapped to axios cancel token, and also stops waiting for next retry.
+    * @param request {Function} Function which sends the request with given cancel token.
+    * @param retryPolicy {Object | Null} Retry policy to apply, null disables retries.
+    * @param signal {AbortSignal} Signal to cancel the request.
+    */
+    private async executeRequest<T>(
+        request: (cancelToken: CancelToken) => Promise<AxiosResponse<T>>,
+        retryPolicy: IRetryPolicy | null,
+        signal?: AbortSignal
+    ): Promise<ApiResult<T>> {
+        if (signal && signal.aborted) {
+            return createCancelledResult();
+        }
+
+        const cancelTokenSource = axios.CancelToken.source();
+        const onAbort = () => cancelTokenSource.cancel();
+        if (signal) {
+            signal.addEventListener("abort", onAbort);
+        }
+
+        try {
+            for (let attempt = 0; ; attempt++) {
+                try {
+                    return this.createSuccessResult(await request(cancelTokenSource.token));
+                } catch (error) {
+                    if (axios.isCancel(error)) {
+                        return createCancelledResult();
+                    }
+
+                    const failureResult = error.isAxiosError ? this.createFailureResult(error) : this.createAuthenticationFailureResult(error);
+                    if (error.isAxiosError && failureResult.status === 401) {
+                        // Token was rejected by service, e.g. because it was revoked, so new token is requested next time.
+                        this.clearCachedToken();
+                    }
+
+                    if (!retryPolicy || !failureResult.isRetryable || attempt >= retryPolicy.maxRetries) {
+                        return failureResult;
+                    }
+
+                    const retryDelay = this.getRetryDelay(error, attempt, retryPolicy);
+                    if (retryDelay === null) {
+                        return failureResult;
+                    }
+
+                    await this.waitForRetry(retryDelay, signal);
+                    if (signal && signal.aborted) {
+                        return createCancelledResult();
+                    }
+                }
+            }
+        }
+        finally {
+            if (signal) {
+                signal.removeEventListener("abort", onAbort);
+            }
+        }
+    }
+
+    /**
+    * Waits before next retry. Waiting ends early if request is cancelled. Abort listener is removed once waiting ends,
+    * so that retries do not pile up listeners on long-lived signals.
+    * @param delay {Number} Delay in milliseconds.
+    * @param signal {AbortSignal} Signal to cancel the request.
+    */
+    private waitForRetry(delay: number, signal?: AbortSignal): Promise<void> {
+        return new Promise<void>((resolve) => {
+            const onAbort = () => {
+                clearTimeout(timeout);
+                resolve();
+            };
+            const timeout = setTimeout(() => {
+                if (signal) {
+                    signal.removeEventListener("abort", onAbort);
+                }
+                resolve();
+            }, delay);
+            if (signal) {
+                signal.addEventListener("abort", onAbort);
+            }
+        });
+    }
+
+    /**
+    * Gets delay before next retry. Retry-After header sent by server takes precedence over computed backoff.
+    * @param error {Object} Error thrown by axios.
+    * @param attempt {Number} Zero based index of failed attempt.
+    * @param retryPolicy {Object} Retry policy to apply.
+    * @returns Delay in milliseconds or null when server asks to wait longer than policy allows.
+    */
+    private getRetryDelay(error: AxiosError, attempt: number, retryPolicy: IRetryPolicy): number | null {
+        const retryAfter = error.response && error.response.headers ? error.response.headers["retry-after"] : undefined;
+        if (retryAfter) {
+            const retryAfterInSeconds = Number(retryAfter);
+            const retryAfterInMilliseconds = isNaN(retryAfterInSeconds)
+                ? new Date(retryAfter).getTime() - Date.now()
+                : retryAfterInSeconds * 1000;
+
+            if (!isNaN(retryAfterInMilliseconds)) {
+                return retryAfterInMilliseconds > retryPolicy.maxDelayInMilliseconds ? null : Math.max(retryAfterInMilliseconds, 0);
+            }
+        }
+
+        const backoffDelay = Math.min(retryPolicy.maxDelayInMilliseconds, retryPolicy.baseDelayInMilliseconds * Math.pow(2, attempt));
+        return Math.random() * backoffDelay;
+    }
+
+    /**
+    * Wraps a successful axios response in a success result.
+    * @param response {Object} Response received from API.
+    */
+    private createSuccessResult<T>(response: AxiosResponse<T>): IApiSuccessResult<T> {
+        return {
+            isSuccess: true,
+            status: response.status,
+            data: response.data
+        };
+    }
+
+    /**
+    * Normalizes an error thrown by axios into a failure result. Network failures carry no response and are reported with status 0.
+    * @param error {Object} Error thrown by axios.
+    */
+    private createFailureResult(error: AxiosError): IApiFailureResult {
+        const status = error.response ? error.response.status : 0;
+        const responseData = error.response ? error.response.data : undefined;
+
+        return {
+            isSuccess: false,
+            status: status,
+            errorCode: this.getErrorCode(status),
+            message: typeof responseData === "string" && responseData ? responseData : error.message,
+            isRetryable: status === 0 || status === 408 || status === 429 || status >= 500
+        };
+    }
+
+    /**
+    * Creates failure result for request which could not be sent because token could not be acquired.
+    * If user has to grant consent, user is already being redirected to sign in page, so result is not reported as unauthorized.
+    * @param error {Object} Error received while acquiring token.
+    */
+    private createAuthenticationFailureResult(error: Error): IApiFailureResult {
+        return {
+            isSuccess: false,
+            status: 401,
+            errorCode: error.message === Constants.resourceRequiresConsent ? "consentRequired" : "unauthorized",
+            message: error.message,
+            isRetryable: false
+        };
+    }
+
+    /**
+    * Maps HTTP status code to error code.
+    * @param status {Number} HTTP status code of failed request.
+    */
+    private getErrorCode(status: number): ApiErrorCode {
+        switch (status) {
+            case 0:
+                return "networkError";
+            case 400:
+                return "badRequest";
+            case 401:
+                return "unauthorized";
+            case 403:
+                return "forbidden";
+            case 404:
+                return "notFound";
+            case 409:
+            case 412:
+                return "conflict";
+            case 429:
+                return "tooManyRequests";
+            default:
+                return status >= 500 ? "serverError" : "unknown";
         }
     }
 
@@ -125,30 +333,91 @@ export class AxiosJWTDecorator {
     private async setupAuthorizationHeader(
         config?: AxiosRequestConfig
     ): Promise<AxiosRequestConfig> {
+        const token = await this.getAuthToken();
+        if (!config) {
+            config = axios.defaults;
+        }
+        config.headers["Authorization"] = `Bearer ${token}`;
+
+        return config;
+    }
+
+    /**
+    * Gets token from cache, or from Teams when cached token is missing or about to expire.
+    * Concurrent callers share single pending token request.
+    */
+    private getAuthToken(): Promise<string> {
+        if (this.cachedToken && Date.now() < this.cachedTokenExpiresOn - Constants.tokenExpiryBufferInMilliseconds) {
+            return Promise.resolve(this.cachedToken);
+        }
+
+        if (!this.pendingTokenRequest) {
+            this.pendingTokenRequest = this.requestAuthToken()
+                .then((token: string) => {
+                    this.cachedToken = token;
+                    this.cachedTokenExpiresOn = this.getTokenExpiry(token);
+                    return token;
+                })
+                .finally(() => {
+                    this.pendingTokenRequest = null;
+                });
+        }
+
+        return this.pendingTokenRequest;
+    }
+
+    /**
+    * Clears cached token, so new token is requested from Teams for next request.
+    */
+    public clearCachedToken() {
+        this.cachedToken = null;
+        this.cachedTokenExpiresOn = 0;
+    }
+
+    /**
+    * Requests new token from Teams.
+    */
+    private requestAuthToken(): Promise<string> {
         microsoftTeams.initialize();
 
-        return new Promise<AxiosRequestConfig>((resolve, reject) => {
+        return new Promise<string>((resolve, reject) => {
             const authTokenRequest = {
                 successCallback: (token: string) => {
-                    if (!config) {
-                        config = axios.defaults;
-                    }
-                    config.headers["Authorization"] = `Bearer ${token}`;
-                    resolve(config);
+                    resolve(token);
                 },
                 failureCallback: (error: string) => {
                     // When the getAuthToken function returns a "resourceRequiresConsent" error, 
                     // it means Azure AD needs the user's consent before issuing a token to the app. 
                     // The following code redirects the user to the "Sign in" page where the user can grant the consent. 
-                    // Right now, the app redirects to the consent page for any error.
+                    // Any other error is reported back to the caller.
                     console.error("Error from getAuthToken: ", error);
-                    window.location.href = "/signin";
+                    if (error === Constants.resourceRequiresConsent) {
+                        window.location.href = "/signin";
+                    }
+
+                    reject(new Error(error));
                 },
                 resources: []
             };
             microsoftTeams.authentication.getAuthToken(authTokenRequest);
         });
     }
+
+    /**
+    * Gets expiry time of token from its "exp" claim.
+    * @param token {String} JWT token received from Teams.
+    * @returns Expiry time in milliseconds since epoch, or 0 when token could not be decoded so it is not reused.
+    */
+    private getTokenExpiry(token: string): number {
+        try {
+            const payload = token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+            const claims = JSON.parse(atob(payload.padEnd(payload.length + (4 - payload.length % 4) % 4, "=")));
+
+            return typeof claims.exp === "number" ? claims.exp * 1000 : 0;
+        } catch (error) {
+            return 0;
+        }
+    }
 }
 
 const axiosJWTDecoratorInstance = new AxiosJWTDecorator();
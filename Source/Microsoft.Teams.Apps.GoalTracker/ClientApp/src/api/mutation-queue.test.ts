@@ -0,0 +1,227 @@
+﻿// <copyright file="mutation-queue.test.ts" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import axios, { AxiosError, AxiosRequestConfig, AxiosResponse } from "axios";
+import * as microsoftTeams from "@microsoft/teams-js";
+import { startMutationQueue, subscribeToMutationQueue, refreshMutationQueue, dismissMutationConflicts } from "./mutation-queue";
+import { updatePersonalGoalDetail, deletePersonalGoalDetail } from "./personal-goal-api";
+import { installFakeIndexedDB } from "../mock/fake-indexed-db";
+import Constants from "../constants";
+import { IMutationQueueState, IPersonalGoalDetail } from "../models/type";
+
+let isOnline = true;
+let isServerUnreachable = false;
+let serverGoals: { [personalGoalId: string]: IPersonalGoalDetail } = {};
+let sentMutations: string[] = [];
+let mutationResponseDelay: Promise<void> | null = null;
+let queueState: IMutationQueueState;
+let stopMutationQueue: () => void;
+let unsubscribeFromMutationQueue: () => void;
+
+/**
+* Create personal goal as stored on server.
+* @param personalGoalId {String} Id of goal.
+* @param goalName {String} Name of goal.
+*/
+const createGoal = (personalGoalId: string, goalName: string): IPersonalGoalDetail => ({
+    AdaptiveCardActivityId: "",
+    IsActive: true,
+    IsAligned: false,
+    IsDeleted: false,
+    CreatedOn: "2020-06-01T10:00:00Z",
+    LastModifiedOn: "2020-06-01T10:00:00Z",
+    GoalName: goalName,
+    PersonalGoalId: personalGoalId,
+    ReminderFrequency: 0,
+    IsReminderActive: false,
+    Status: 0,
+    StartDate: "2020-06-01",
+    EndDate: "2020-06-30",
+    ServiceURL: null,
+    EndDateUTC: "2020-06-30T00:00:00Z",
+    NotesCount: 0,
+    GoalCycleId: "goal-cycle",
+});
+
+/**
+* Create response of fake server, rejected like axios does for failure status.
+* @param config {Object} Config of request.
+* @param status {Number} Status of response.
+* @param data {Object} Body of response.
+*/
+const respond = (config: AxiosRequestConfig, status: number, data: any): Promise<AxiosResponse> => {
+    let response: AxiosResponse = { data: data, status: status, statusText: "", headers: {}, config: config };
+    if (status >= 200 && status < 300) {
+        return Promise.resolve(response);
+    }
+
+    let error = new Error(`Request failed with status code ${status}`) as AxiosError;
+    error.config = config;
+    error.response = response;
+    error.isAxiosError = true;
+    return Promise.reject(error);
+}
+
+/**
+* Serve personal goal requests from goals stored on fake server, and record sent mutations.
+* Mutations fail as network errors while server is unreachable, and are answered once delay set by test completes.
+* @param config {Object} Config of request.
+*/
+const handleRequest = (config: AxiosRequestConfig): Promise<AxiosResponse> => {
+    let personalGoalId = config.url!.split("/").pop()!;
+    let goal = serverGoals[personalGoalId];
+    if (config.method !== "get" && isServerUnreachable) {
+        let error = new Error("Network Error") as AxiosError;
+        error.config = config;
+        error.isAxiosError = true;
+        return Promise.reject(error);
+    }
+    else if (config.method !== "get") {
+        sentMutations.push(`${config.method} ${personalGoalId}`);
+    }
+
+    if (!goal) {
+        return respond(config, 404, config.method === "delete" ? "The personal goal user trying to delete does not exist." : "");
+    }
+
+    if (config.method === "patch") {
+        serverGoals[personalGoalId] = { ...JSON.parse(config.data), LastModifiedOn: new Date().toISOString() };
+    }
+    else if (config.method === "delete") {
+        delete serverGoals[personalGoalId];
+    }
+
+    if (config.method !== "get" && mutationResponseDelay) {
+        return mutationResponseDelay.then(() => respond(config, 200, true));
+    }
+
+    return respond(config, 200, config.method === "get" ? goal : true);
+}
+
+/**
+* Wait until condition is met by replay running in background.
+* @param condition {Function} Function returning true once condition is met.
+*/
+const waitFor = async (condition: () => boolean) => {
+    for (let attempt = 0; !condition(); attempt++) {
+        if (attempt > 100) {
+            throw new Error("Condition was not met in time.");
+        }
+
+        await new Promise(resolve => setTimeout(resolve, 20));
+    }
+}
+
+describe("mutation queue", () => {
+    beforeEach(() => {
+        let teamsSdk: any = microsoftTeams;
+        teamsSdk.initialize = () => undefined;
+        Object.assign(microsoftTeams.authentication, {
+            getAuthToken: (authTokenRequest: microsoftTeams.authentication.AuthTokenRequest) => authTokenRequest.successCallback!("token"),
+        });
+
+        installFakeIndexedDB();
+        Object.defineProperty(window.navigator, "onLine", { configurable: true, get: () => isOnline });
+        axios.defaults.adapter = handleRequest;
+        serverGoals = {
+            "goal-1": createGoal("goal-1", "Publish weekly newsletter"),
+            "goal-2": createGoal("goal-2", "Draft campaign landing page copy"),
+        };
+        sentMutations = [];
+        stopMutationQueue = startMutationQueue();
+        unsubscribeFromMutationQueue = subscribeToMutationQueue(state => queueState = state);
+    });
+
+    afterEach(() => {
+        stopMutationQueue();
+        unsubscribeFromMutationQueue();
+        jest.restoreAllMocks();
+        isOnline = true;
+        isServerUnreachable = false;
+        mutationResponseDelay = null;
+    });
+
+    it("queues mutations while offline and replays them in order once online", async () => {
+        isOnline = false;
+
+        expect(await updatePersonalGoalDetail({ ...serverGoals["goal-1"], Status: 2 })).toEqual({ isSuccess: true, status: 202, data: undefined, isQueued: true });
+        expect((await deletePersonalGoalDetail("goal-2")).isSuccess).toBe(true);
+        expect(queueState.pendingMutations.map(mutation => mutation.method)).toEqual(["patch", "delete"]);
+        expect(sentMutations).toEqual([]);
+
+        isOnline = true;
+        await refreshMutationQueue();
+
+        expect(sentMutations).toEqual(["patch goal-1", "delete goal-2"]);
+        expect(queueState.pendingMutations).toEqual([]);
+        expect(serverGoals["goal-1"].Status).toBe(2);
+        expect(serverGoals["goal-2"]).toBeUndefined();
+    });
+
+    it("queues mutation sent while last queued mutation is being replayed", async () => {
+        let completeReplayedMutation = () => { };
+        mutationResponseDelay = new Promise(resolve => completeReplayedMutation = resolve);
+        isOnline = false;
+        await updatePersonalGoalDetail({ ...serverGoals["goal-1"], Status: 2 });
+
+        isOnline = true;
+        let replay = refreshMutationQueue();
+        await waitFor(() => sentMutations.length === 1);
+
+        expect((await deletePersonalGoalDetail("goal-2")).isSuccess).toBe(true);
+        expect(sentMutations).toEqual(["patch goal-1"]);
+
+        completeReplayedMutation();
+        await replay;
+
+        expect(sentMutations).toEqual(["patch goal-1", "delete goal-2"]);
+        expect(queueState.pendingMutations).toEqual([]);
+    });
+
+    it("reports conflict instead of replaying mutation of goal changed elsewhere", async () => {
+        isOnline = false;
+        await updatePersonalGoalDetail({ ...serverGoals["goal-1"], Status: 2 });
+
+        serverGoals["goal-1"] = { ...serverGoals["goal-1"], GoalName: "Publish monthly newsletter", LastModifiedOn: "2020-06-02T10:00:00Z" };
+        isOnline = true;
+        await refreshMutationQueue();
+
+        expect(queueState.conflicts).toHaveLength(1);
+        expect(queueState.conflicts[0]).toMatchObject({ personalGoalId: "goal-1", conflictingEntityIds: ["goal-1"], reason: "conflict" });
+        expect(sentMutations).toEqual([]);
+        expect(serverGoals["goal-1"].Status).toBe(0);
+
+        await dismissMutationConflicts();
+        expect(queueState.conflicts).toEqual([]);
+    });
+
+    it("reports mutation rejected by server during replay", async () => {
+        isOnline = false;
+        await deletePersonalGoalDetail("goal-3");
+
+        isOnline = true;
+        await refreshMutationQueue();
+
+        expect(queueState.conflicts).toHaveLength(1);
+        expect(queueState.conflicts[0]).toMatchObject({ personalGoalId: "goal-3", reason: "rejected", message: "The personal goal user trying to delete does not exist." });
+        expect(queueState.pendingMutations).toEqual([]);
+    });
+
+    it("retries replay when server could not be reached although browser is online", async () => {
+        let setTimeoutSpy = jest.spyOn(window, "setTimeout");
+        isServerUnreachable = true;
+
+        expect((await updatePersonalGoalDetail({ ...serverGoals["goal-1"], Status: 2 })).isSuccess).toBe(true);
+        await waitFor(() => setTimeoutSpy.mock.calls.some(call => call[1] === Constants.mutationReplayRetryBaseDelayInMilliseconds));
+        expect(queueState.pendingMutations).toHaveLength(1);
+
+        isServerUnreachable = false;
+        Object.defineProperty(document, "visibilityState", { configurable: true, get: () => "visible" });
+        document.dispatchEvent(new Event("visibilitychange"));
+        await waitFor(() => queueState.pendingMutations.length === 0);
+
+        expect(sentMutations).toEqual(["patch goal-1"]);
+        expect(serverGoals["goal-1"].Status).toBe(2);
+    });
+});
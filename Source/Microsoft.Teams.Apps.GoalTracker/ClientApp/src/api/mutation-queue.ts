@@ -0,0 +1,375 @@
+﻿// <copyright file="mutation-queue.ts" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import axios from "./axios-decorator";
+import { invalidateQueries } from "./query-cache";
+import { ApiResult, IQueuedMutation, IMutationConflict, IMutationQueueState } from "../models/type";
+import Constants from "../constants";
+
+let mutationQueueState: IMutationQueueState = { pendingMutations: [], conflicts: [] };
+let listeners: ((state: IMutationQueueState) => void)[] = [];
+let isReplayInProgress = false;
+let isReplayRequested = false;
+let replayRetryTimer: number | undefined;
+let replayRetryCount = 0;
+
+/**
+* Send PUT, PATCH or DELETE request. Request is queued in IndexedDB when user is offline or earlier requests are still queued or being replayed,
+* so that edits are not lost and are sent to server in order once connectivity returns. Cancelled requests are not queued.
+* @param mutation {Object} Request to be sent.
+* @param signal {AbortSignal} Signal to cancel the request. Queued requests are not cancelled.
+* @returns Result of request, which carries no data if request was queued.
+*/
+export const sendMutation = async <T = void>(mutation: IQueuedMutation, signal?: AbortSignal): Promise<ApiResult<T | undefined>> => {
+    let result: ApiResult<T> | null = null;
+    // Replay removes mutation from queue before sending it, so queue looks empty while its last mutation is being replayed.
+    if (navigator.onLine && !(await hasPendingMutations()) && !isReplayInProgress) {
+        result = await executeMutation<T>(mutation, signal);
+        if (result.isSuccess || result.errorCode !== "networkError") {
+            invalidateQueries(...mutation.invalidatedQueryKeys);
+            return result;
+        }
+    }
+
+    try {
+        await putRecord(Constants.mutationStoreName, { ...mutation, queuedOn: Date.now() });
+    }
+    catch (error) {
+        console.error("Unable to queue request: ", error);
+        return result || await executeMutation<T>(mutation, signal);
+    }
+
+    await loadMutationQueueState();
+    if (navigator.onLine) {
+        replayMutations();
+    }
+
+    return { isSuccess: true, status: 202, data: undefined, isQueued: true };
+}
+
+/**
+* Replay mutations queued in earlier sessions and whenever connectivity returns. Called once when app is started.
+* @returns Function to stop replaying mutations when connectivity returns.
+*/
+export const startMutationQueue = () => {
+    window.addEventListener("online", onOnline);
+    window.addEventListener("focus", onPageShown);
+    document.addEventListener("visibilitychange", onPageShown);
+    refreshMutationQueue();
+
+    return () => {
+        window.removeEventListener("online", onOnline);
+        window.removeEventListener("focus", onPageShown);
+        document.removeEventListener("visibilitychange", onPageShown);
+        window.clearTimeout(replayRetryTimer);
+        replayRetryTimer = undefined;
+    };
+}
+
+/**
+* Subscribe to changes of pending mutations and sync conflicts, including mutations rejected by server during replay.
+* @param listener {Function} Function called with current state and on every change.
+* @returns Function to unsubscribe listener.
+*/
+export const subscribeToMutationQueue = (listener: (state: IMutationQueueState) => void) => {
+    listeners.push(listener);
+    listener(mutationQueueState);
+
+    return () => {
+        listeners = listeners.filter(existingListener => existingListener !== listener);
+    };
+}
+
+/**
+* Reload queue state from IndexedDB, as mutations may have been queued by another task module, and replay queued mutations.
+*/
+export const refreshMutationQueue = async () => {
+    await loadMutationQueueState();
+    if (mutationQueueState.pendingMutations.length > 0) {
+        await replayMutations();
+    }
+}
+
+/**
+* Remove reported sync conflicts once user has seen them.
+*/
+export const dismissMutationConflicts = async () => {
+    try {
+        await clearRecords(Constants.mutationConflictStoreName);
+    }
+    catch (error) {
+        console.error("Unable to clear sync conflicts: ", error);
+    }
+
+    await loadMutationQueueState();
+}
+
+/**
+* Load pending mutations and sync conflicts from IndexedDB and notify listeners.
+*/
+const loadMutationQueueState = async () => {
+    try {
+        mutationQueueState = {
+            pendingMutations: await getAllRecords<IQueuedMutation>(Constants.mutationStoreName),
+            conflicts: await getAllRecords<IMutationConflict>(Constants.mutationConflictStoreName),
+        };
+    }
+    catch (error) {
+        console.error("Unable to read offline mutation queue: ", error);
+    }
+
+    listeners.forEach(listener => listener(mutationQueueState));
+}
+
+/**
+* Replay queued mutations once connectivity returns.
+*/
+const onOnline = () => {
+    replayMutations();
+}
+
+/**
+* Replay queued mutations when user returns to the page, as server may have become reachable without browser reporting connectivity change.
+*/
+const onPageShown = () => {
+    if (document.visibilityState === "visible") {
+        refreshMutationQueue();
+    }
+}
+
+/**
+* Retry replay with exponential backoff, as online event is not raised when server could not be reached while browser is online.
+*/
+const scheduleReplayRetry = () => {
+    if (replayRetryTimer !== undefined) {
+        return;
+    }
+
+    let delay = Math.min(Constants.mutationReplayRetryMaxDelayInMilliseconds, Constants.mutationReplayRetryBaseDelayInMilliseconds * Math.pow(2, replayRetryCount));
+    replayRetryCount++;
+    replayRetryTimer = window.setTimeout(() => {
+        replayRetryTimer = undefined;
+        replayMutations();
+    }, delay);
+}
+
+/**
+* Check if there are mutations waiting to be replayed. Queue is treated as empty if IndexedDB is not available.
+*/
+const hasPendingMutations = async () => {
+    try {
+        return (await getAllRecords<IQueuedMutation>(Constants.mutationStoreName)).length > 0;
+    }
+    catch (error) {
+        return false;
+    }
+}
+
+/**
+* Send queued mutations to server in order they were queued. Replay stops at first network failure and resumes when connectivity returns
+* or once retry delay has passed.
+*/
+const replayMutations = async () => {
+    if (isReplayInProgress) {
+        // Mutation may have been queued after running replay took last queued mutation, so replay runs again once it completes.
+        isReplayRequested = true;
+        return;
+    }
+
+    if (!navigator.onLine) {
+        return;
+    }
+
+    let isServerUnreachable = false;
+    isReplayInProgress = true;
+    isReplayRequested = false;
+    try {
+        let mutation = await takeFirstRecord<IQueuedMutation>(Constants.mutationStoreName);
+        while (mutation) {
+            let conflictingEntityIds = await getConflictingEntityIds(mutation);
+            if (conflictingEntityIds === null) {
+                // Server could not be reached, put mutation back at its original position.
+                await putRecord(Constants.mutationStoreName, mutation);
+                isServerUnreachable = true;
+                break;
+            }
+
+            if (conflictingEntityIds.length > 0) {
+                await putRecord(Constants.mutationConflictStoreName, { personalGoalId: mutation.personalGoalId, conflictingEntityIds: conflictingEntityIds, detectedOn: Date.now(), reason: "conflict" });
+            }
+            else {
+                let result = await executeMutation(mutation);
+                if (!result.isSuccess && result.isRetryable) {
+                    await putRecord(Constants.mutationStoreName, mutation);
+                    isServerUnreachable = true;
+                    break;
+                }
+
+                if (!result.isSuccess) {
+                    // Rejected mutation is not retried, so it is reported to user along with conflicts instead of being dropped silently.
+                    await putRecord(Constants.mutationConflictStoreName, {
+                        personalGoalId: mutation.personalGoalId,
+                        conflictingEntityIds: mutation.personalGoalId ? [mutation.personalGoalId] : [],
+                        detectedOn: Date.now(),
+                        reason: result.errorCode === "conflict" ? "conflict" : "rejected",
+                        message: result.message,
+                    });
+                }
+                else {
+                    await skipVersionCheckOfLaterMutations(mutation);
+                }
+            }
+
+            invalidateQueries(...mutation.invalidatedQueryKeys);
+            mutation = await takeFirstRecord<IQueuedMutation>(Constants.mutationStoreName);
+        }
+    }
+    catch (error) {
+        console.error("Unable to replay offline mutation queue: ", error);
+    }
+    finally {
+        isReplayInProgress = false;
+    }
+
+    if (isServerUnreachable) {
+        scheduleReplayRetry();
+    }
+    else {
+        replayRetryCount = 0;
+    }
+
+    await loadMutationQueueState();
+    if (isReplayRequested && !isServerUnreachable) {
+        await replayMutations();
+    }
+}
+
+/**
+* Send mutation to server.
+* @param mutation {Object} Mutation to be sent.
+* @param signal {AbortSignal} Signal to cancel the request.
+*/
+const executeMutation = <T = void>(mutation: IQueuedMutation, signal?: AbortSignal): Promise<ApiResult<T>> => {
+    let config = mutation.headers ? { headers: mutation.headers } : undefined;
+    switch (mutation.method) {
+        case "put":
+            return axios.put(mutation.url, mutation.data, config, true, undefined, signal);
+        case "patch":
+            return axios.patch(mutation.url, mutation.data, config, true, undefined, signal);
+        default:
+            return axios.delete(mutation.url, mutation.data, config, true, undefined, signal);
+    }
+}
+
+/**
+* Get ids of entities which were changed on server since mutation was queued, by comparing their LastModifiedOn.
+* @param mutation {Object} Queued mutation.
+* @returns Ids of changed entities or null if server could not be reached.
+*/
+const getConflictingEntityIds = async (mutation: IQueuedMutation): Promise<string[] | null> => {
+    let versionCheck = mutation.versionCheck;
+    if (!versionCheck) {
+        return [];
+    }
+
+    let result = await axios.get(versionCheck.url);
+    if (!result.isSuccess) {
+        return result.isRetryable ? null : [];
+    }
+
+    let serverEntities: any[] = [].concat(result.data);
+    return serverEntities
+        .filter(entity => versionCheck!.lastModifiedOn[entity[versionCheck!.idPropertyName]] !== undefined
+            && versionCheck!.lastModifiedOn[entity[versionCheck!.idPropertyName]] !== entity.LastModifiedOn)
+        .map(entity => entity[versionCheck!.idPropertyName]);
+}
+
+/**
+* Later mutations of same entities were based on changes of replayed mutation, so they must not be reported as conflicts.
+* Their preconditions are removed as well, as replayed mutation changed last modified time of entities.
+* @param replayedMutation {Object} Mutation which was replayed successfully.
+*/
+const skipVersionCheckOfLaterMutations = async (replayedMutation: IQueuedMutation) => {
+    if (!replayedMutation.versionCheck) {
+        return;
+    }
+
+    let pendingMutations = await getAllRecords<IQueuedMutation>(Constants.mutationStoreName);
+    for (let pendingMutation of pendingMutations) {
+        if (pendingMutation.versionCheck && pendingMutation.versionCheck.url === replayedMutation.versionCheck.url) {
+            await putRecord(Constants.mutationStoreName, { ...pendingMutation, versionCheck: undefined, headers: undefined });
+        }
+    }
+}
+
+/**
+* Open IndexedDB database of mutation queue.
+*/
+const openDatabase = (): Promise<IDBDatabase> => {
+    return new Promise<IDBDatabase>((resolve, reject) => {
+        let request = window.indexedDB.open(Constants.mutationQueueDatabaseName, 1);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(Constants.mutationStoreName, { keyPath: "id", autoIncrement: true });
+            request.result.createObjectStore(Constants.mutationConflictStoreName, { keyPath: "id", autoIncrement: true });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+* Run request against object store in a transaction.
+* @param storeName {String} Name of object store.
+* @param mode {String} Transaction mode.
+* @param createRequest {Function} Function which creates request on object store.
+*/
+const runStoreRequest = async <T>(storeName: string, mode: IDBTransactionMode, createRequest: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+    let database = await openDatabase();
+    return new Promise<T>((resolve, reject) => {
+        let transaction = database.transaction(storeName, mode);
+        let request = createRequest(transaction.objectStore(storeName));
+        transaction.oncomplete = () => {
+            database.close();
+            resolve(request.result);
+        };
+        transaction.onerror = () => {
+            database.close();
+            reject(transaction.error);
+        };
+    });
+}
+
+const getAllRecords = <T>(storeName: string) => runStoreRequest<T[]>(storeName, "readonly", store => store.getAll());
+
+const putRecord = (storeName: string, record: any) => runStoreRequest<IDBValidKey>(storeName, "readwrite", store => store.put(record));
+
+const clearRecords = (storeName: string) => runStoreRequest<undefined>(storeName, "readwrite", store => store.clear());
+
+/**
+* Remove first record from object store and return it. Removing the record claims it, so it is not replayed twice by task modules open at same time.
+* @param storeName {String} Name of object store.
+*/
+const takeFirstRecord = async <T>(storeName: string): Promise<T | undefined> => {
+    let database = await openDatabase();
+    return new Promise<T | undefined>((resolve, reject) => {
+        let record: T | undefined;
+        let transaction = database.transaction(storeName, "readwrite");
+        let request = transaction.objectStore(storeName).openCursor();
+        request.onsuccess = () => {
+            let cursor = request.result;
+            if (cursor) {
+                record = cursor.value;
+                cursor.delete();
+            }
+        };
+        transaction.oncomplete = () => {
+            database.close();
+            resolve(record);
+        };
+        transaction.onerror = () => {
+            database.close();
+            reject(transaction.error);
+        };
+    });
+}
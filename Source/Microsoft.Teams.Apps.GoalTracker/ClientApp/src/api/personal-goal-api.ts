@@ -3,52 +3,118 @@
 // </copyright>
 
 import axios from "./axios-decorator";
-import { IPersonalGoalDetail } from "../models/type";
-import { AxiosResponse } from "axios";
+import { IPersonalGoalDetail, IPersonalGoalBatchRequest, IPersonalGoalBatchResult, ApiResult } from "../models/type";
+import { fetchQuery, invalidateQueries, queryKeys } from "./query-cache";
+import { sendMutation } from "./mutation-queue";
 
 const baseAxiosUrl = window.location.origin;
 
 /**
 * Get personal goal details by user AAD object id.
+* @param signal {AbortSignal} Signal to cancel the request.
 */
-export const getPersonalGoalDetails = async (): Promise<AxiosResponse<IPersonalGoalDetail[]>> => {
+export const getPersonalGoalDetails = async (signal?: AbortSignal): Promise<ApiResult<IPersonalGoalDetail[]>> => {
     let url = baseAxiosUrl + `/api/personalgoals`;
-    return await axios.get(url);
+    return await fetchQuery(queryKeys.personalGoals(), querySignal => axios.get(url, undefined, true, undefined, querySignal), signal);
+}
+
+/**
+* Get personal goal details of user's ended goal cycles.
+* @param signal {AbortSignal} Signal to cancel the request.
+*/
+export const getPastPersonalGoalDetails = async (signal?: AbortSignal): Promise<ApiResult<IPersonalGoalDetail[]>> => {
+    let url = baseAxiosUrl + `/api/personalgoals/past`;
+    return await fetchQuery(queryKeys.pastPersonalGoals(), querySignal => axios.get(url, undefined, true, undefined, querySignal), signal);
+}
+
+/**
+* Get personal goals deleted by user which can be restored until they are removed from storage.
+* @param signal {AbortSignal} Signal to cancel the request.
+*/
+export const getDeletedPersonalGoalDetails = async (signal?: AbortSignal): Promise<ApiResult<IPersonalGoalDetail[]>> => {
+    let url = baseAxiosUrl + `/api/personalgoals/deleted`;
+    return await fetchQuery(queryKeys.deletedPersonalGoals(), querySignal => axios.get(url, undefined, true, undefined, querySignal), signal);
 }
 
 /**
 * Get personal goal detail by personal goal id.
 * @param personalGoalId {String | Null} Unique identifier of personal goal detail entity.
+* @param signal {AbortSignal} Signal to cancel the request.
 */
-export const getPersonalGoalDetailByGoalIdAsync = async (personalGoalId?: string): Promise<AxiosResponse<IPersonalGoalDetail>> => {
+export const getPersonalGoalDetailByGoalIdAsync = async (personalGoalId?: string, signal?: AbortSignal): Promise<ApiResult<IPersonalGoalDetail>> => {
 
     let url = baseAxiosUrl + `/api/personalgoals/${personalGoalId}`;
-    return await axios.get(url);   
+    return await fetchQuery(queryKeys.personalGoal(personalGoalId), querySignal => axios.get(url, undefined, true, undefined, querySignal), signal);
 }
 
 /**
-* Save a personal goal detail in storage.
+* Save a personal goal detail in storage. Request is queued if user is offline.
+* Loaded last modified time is sent as precondition, so update fails with conflict if goal was changed by another client.
 * @param personalGoalDetail {Object} Personal goal detail to be stored in storage.
+* @param signal {AbortSignal} Signal to cancel the request.
+* @returns Result with stored goal and its new last modified time, or without data if request was queued.
 */
-export const updatePersonalGoalDetail = async (personalGoalDetail: IPersonalGoalDetail): Promise<AxiosResponse<void>> => {
+export const updatePersonalGoalDetail = async (personalGoalDetail: IPersonalGoalDetail, signal?: AbortSignal): Promise<ApiResult<IPersonalGoalDetail | undefined>> => {
     let url = baseAxiosUrl + `/api/personalgoals/${personalGoalDetail.PersonalGoalId}`;
-    return await axios.patch(url, personalGoalDetail);
+    return await sendMutation<IPersonalGoalDetail>({
+        method: "patch",
+        url: url,
+        data: personalGoalDetail,
+        headers: personalGoalDetail.LastModifiedOn ? { "If-Match": `"${personalGoalDetail.LastModifiedOn}"` } : undefined,
+        personalGoalId: personalGoalDetail.PersonalGoalId,
+        versionCheck: { url: url, idPropertyName: "PersonalGoalId", lastModifiedOn: { [personalGoalDetail.PersonalGoalId]: personalGoalDetail.LastModifiedOn } },
+        invalidatedQueryKeys: [queryKeys.personalGoals()],
+    }, signal);
 }
 
 /**
-* Save all personal goal details in storage.
+* Save all personal goal details in storage. Request is never retried as it is not idempotent.
 * @param personalGoalDetails {Object} Personal goal details to be stored in storage.
+* @param signal {AbortSignal} Signal to cancel the request.
 */
-export const savePersonalGoalDetails = async (personalGoalDetails: {}): Promise<AxiosResponse<void>> => {
+export const savePersonalGoalDetails = async (personalGoalDetails: {}, signal?: AbortSignal): Promise<ApiResult<void>> => {
     let url = baseAxiosUrl + "/api/personalgoals";
-    return await axios.post(url, personalGoalDetails);    
+    let result = await axios.post(url, personalGoalDetails, undefined, true, null, signal);
+    invalidateQueries(queryKeys.personalGoals(), queryKeys.personalGoalNotesCount());
+    return result;
+}
+
+/**
+* Apply same action to multiple personal goals. Result of each goal is returned, so some goals may be updated while others fail.
+* Request is not queued while offline as user needs to see which goals could not be updated.
+* @param batchRequest {Object} Action and unique identifiers of personal goals it is applied to.
+* @param signal {AbortSignal} Signal to cancel the request.
+*/
+export const updatePersonalGoalDetailsInBatch = async (batchRequest: IPersonalGoalBatchRequest, signal?: AbortSignal): Promise<ApiResult<IPersonalGoalBatchResult[]>> => {
+    let url = baseAxiosUrl + "/api/personalgoals/batch";
+    let result = await axios.post(url, batchRequest, undefined, true, null, signal);
+    invalidateQueries(queryKeys.personalGoals(), queryKeys.personalGoalNotesCount());
+    return result;
+}
+
+/**
+* Restore personal goal deleted by user.
+* @param personalGoalId {String} Unique identifier of deleted personal goal.
+* @param signal {AbortSignal} Signal to cancel the request.
+*/
+export const restorePersonalGoalDetail = async (personalGoalId: string, signal?: AbortSignal): Promise<ApiResult<void>> => {
+    let url = baseAxiosUrl + `/api/personalgoals/${personalGoalId}/restore`;
+    let result = await axios.post(url, undefined, undefined, true, null, signal);
+    invalidateQueries(queryKeys.personalGoals(), queryKeys.personalGoalNotesCount());
+    return result;
 }
 
 /**
-* delete specified personal goal detail.
+* delete specified personal goal detail. Request is queued if user is offline.
 * @param personalGoalDetails {Object} Personal goal detail to be deleted from storage.
+* @param signal {AbortSignal} Signal to cancel the request.
 */
-export const deletePersonalGoalDetail = async (personalGoalId: {}): Promise<AxiosResponse<void>> => {
+export const deletePersonalGoalDetail = async (personalGoalId: string, signal?: AbortSignal): Promise<ApiResult<void>> => {
     let url = baseAxiosUrl + `/api/personalgoals/${personalGoalId}`;
-    return await axios.delete(url);
+    return await sendMutation({
+        method: "delete",
+        url: url,
+        personalGoalId: personalGoalId,
+        invalidatedQueryKeys: [queryKeys.personalGoals(), queryKeys.personalGoalNotesCount()],
+    }, signal);
 }
\ No newline at end of file
@@ -5,44 +5,91 @@
 */
 
 import axios from "./axios-decorator";
-import { IPersonalGoalNoteDetail } from "../models/type";
-import { AxiosResponse } from "axios";
+import { IPersonalGoalNoteDetail, ApiResult } from "../models/type";
+import { fetchQuery, queryKeys } from "./query-cache";
+import { sendMutation } from "./mutation-queue";
 
 const baseAxiosUrl = window.location.origin;
 
 /**
 * Get personal goal note details by user Azure Active Directory object id.
+* @param signal {AbortSignal} Signal to cancel the request.
 */
-export const getPersonalGoalNotesCount = async (): Promise<AxiosResponse<IPersonalGoalNoteDetail[]>> => {
+export const getPersonalGoalNotesCount = async (signal?: AbortSignal): Promise<ApiResult<IPersonalGoalNoteDetail[]>> => {
 
     let url = baseAxiosUrl + `/api/notes/count`;
-    return await axios.get(url);
+    return await fetchQuery(queryKeys.personalGoalNotesCount(), querySignal => axios.get(url, undefined, true, undefined, querySignal), signal);
+}
+
+/**
+* Get all personal goal note details of user.
+* @param signal {AbortSignal} Signal to cancel the request.
+*/
+export const getUserPersonalGoalNoteDetails = async (signal?: AbortSignal): Promise<ApiResult<IPersonalGoalNoteDetail[]>> => {
+
+    let url = baseAxiosUrl + `/api/notes`;
+    return await fetchQuery(queryKeys.userPersonalGoalNotes(), querySignal => axios.get(url, undefined, true, undefined, querySignal), signal);
+}
+
+/**
+* Get personal goal note details of user's ended goal cycles.
+* @param signal {AbortSignal} Signal to cancel the request.
+*/
+export const getPastPersonalGoalNoteDetails = async (signal?: AbortSignal): Promise<ApiResult<IPersonalGoalNoteDetail[]>> => {
+
+    let url = baseAxiosUrl + `/api/notes/past`;
+    return await fetchQuery(queryKeys.pastPersonalGoalNotes(), querySignal => axios.get(url, undefined, true, undefined, querySignal), signal);
 }
 
 /**
 * Get personal goal details by personal goal id.
 * @param personalGoalId {String | Null} Unique identifier of personal goal detail entity.
+* @param signal {AbortSignal} Signal to cancel the request.
 */
-export const getPersonalGoalNoteDetails = async (personalGoalId?: string): Promise<AxiosResponse<IPersonalGoalNoteDetail[]>> => {
+export const getPersonalGoalNoteDetails = async (personalGoalId?: string, signal?: AbortSignal): Promise<ApiResult<IPersonalGoalNoteDetail[]>> => {
 
     let url = baseAxiosUrl + `/api/notes/goal/${personalGoalId}`;
-    return await axios.get(url);
+    return await fetchQuery(queryKeys.personalGoalNotes(personalGoalId), querySignal => axios.get(url, undefined, true, undefined, querySignal), signal);
 }
 
 /**
-* Save personal goal note details from storage.
-* @param personalGoalNoteDetails {Object} Personal goal note details to be stored in storage.
+* Save personal goal note details from storage. Request is queued if user is offline.
+* @param personalGoalNoteDetails {Object} Personal goal note details of a personal goal to be stored in storage.
+* @param signal {AbortSignal} Signal to cancel the request.
 */
-export const savePersonalGoalNoteDetails = async (personalGoalNoteDetails: {}): Promise<AxiosResponse<void>> => {
+export const savePersonalGoalNoteDetails = async (personalGoalNoteDetails: IPersonalGoalNoteDetail[], signal?: AbortSignal): Promise<ApiResult<void>> => {
     let url = baseAxiosUrl + "/api/notes";
-    return await axios.put(url, personalGoalNoteDetails);
+    let personalGoalId = personalGoalNoteDetails.length > 0 ? personalGoalNoteDetails[0].PersonalGoalId : null;
+    let lastModifiedOn: { [personalGoalNoteId: string]: string } = {};
+    personalGoalNoteDetails.forEach((personalGoalNoteDetail) => {
+        if (personalGoalNoteDetail.LastModifiedOn) {
+            lastModifiedOn[personalGoalNoteDetail.PersonalGoalNoteId] = personalGoalNoteDetail.LastModifiedOn;
+        }
+    });
+
+    return await sendMutation({
+        method: "put",
+        url: url,
+        data: personalGoalNoteDetails,
+        personalGoalId: personalGoalId,
+        versionCheck: { url: baseAxiosUrl + `/api/notes/goal/${personalGoalId}`, idPropertyName: "PersonalGoalNoteId", lastModifiedOn: lastModifiedOn },
+        invalidatedQueryKeys: [queryKeys.allPersonalGoalNotes()],
+    }, signal);
 }
 
 /**
-* Delete personal goal note details from storage.
+* Delete personal goal note details from storage. Request is queued if user is offline.
 * @param personalGoalNoteIds {Object} Collection of personal goal note ids to be deleted from storage.
+* @param personalGoalId {String | Null} Unique identifier of personal goal the notes belong to.
+* @param signal {AbortSignal} Signal to cancel the request.
 */
-export const deletePersonalGoalNoteDetails = async (personalGoalNoteIds: {}): Promise<AxiosResponse<void>> => {
+export const deletePersonalGoalNoteDetails = async (personalGoalNoteIds: string[], personalGoalId?: string | null, signal?: AbortSignal): Promise<ApiResult<void>> => {
     let url = baseAxiosUrl + "/api/notes";
-    return await axios.delete(url, personalGoalNoteIds);
+    return await sendMutation({
+        method: "delete",
+        url: url,
+        data: personalGoalNoteIds,
+        personalGoalId: personalGoalId,
+        invalidatedQueryKeys: [queryKeys.allPersonalGoalNotes()],
+    }, signal);
 }
\ No newline at end of file
@@ -0,0 +1,108 @@
+﻿// <copyright file="query-cache.test.ts" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import { fetchQuery, getCachedQueryData, invalidateQueries } from "./query-cache";
+import Constants from "../constants";
+import { ApiResult } from "../models/type";
+
+/**
+* Create request which completes once test resolves it, and records signals it was sent with.
+*/
+const createDeferredRequest = () => {
+    let resolvers: ((result: ApiResult<any>) => void)[] = [];
+    let signals: AbortSignal[] = [];
+    let request = jest.fn((signal: AbortSignal) => {
+        signals.push(signal);
+        return new Promise<ApiResult<any>>(resolve => resolvers.push(resolve));
+    });
+
+    return {
+        request: request,
+        signals: signals,
+        resolve: (data: any, index: number = resolvers.length - 1) => resolvers[index]({ isSuccess: true, status: 200, data: data }),
+    };
+}
+
+describe("query cache", () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+        invalidateQueries("test");
+    });
+
+    it("caches response so it is rendered while fresh data is fetched, until it is too old", async () => {
+        let deferredRequest = createDeferredRequest();
+        let pendingResult = fetchQuery("test/goals", deferredRequest.request);
+        expect(getCachedQueryData("test/goals")).toBeUndefined();
+
+        deferredRequest.resolve([{ GoalName: "Ship feature" }]);
+        await pendingResult;
+
+        let cachedGoals = getCachedQueryData<any[]>("test/goals")!;
+        cachedGoals[0].GoalName = "Changed by component";
+        expect(getCachedQueryData("test/goals")).toEqual([{ GoalName: "Ship feature" }]);
+        expect(JSON.parse(window.sessionStorage.getItem(Constants.queryCacheStorageKey)!)["test/goals"].data).toEqual([{ GoalName: "Ship feature" }]);
+
+        let now = Date.now();
+        jest.spyOn(Date, "now").mockReturnValue(now + Constants.queryCacheMaxAgeInMilliseconds + 1);
+        expect(getCachedQueryData("test/goals")).toBeUndefined();
+    });
+
+    it("shares single request between concurrent callers", async () => {
+        let deferredRequest = createDeferredRequest();
+        let results = Promise.all([fetchQuery("test/goals", deferredRequest.request), fetchQuery("test/goals", deferredRequest.request)]);
+
+        deferredRequest.resolve(["Ship feature"]);
+
+        expect((await results).map(result => result.isSuccess && result.data)).toEqual([["Ship feature"], ["Ship feature"]]);
+        expect(deferredRequest.request).toHaveBeenCalledTimes(1);
+    });
+
+    it("does not cache response of request sent before queries were invalidated", async () => {
+        let deferredRequest = createDeferredRequest();
+        let outdatedResult = fetchQuery("test/goals", deferredRequest.request);
+
+        invalidateQueries("test");
+        let freshResult = fetchQuery("test/goals", deferredRequest.request);
+        expect(deferredRequest.request).toHaveBeenCalledTimes(2);
+
+        deferredRequest.resolve(["Goal before edit"], 0);
+        await outdatedResult;
+        expect(getCachedQueryData("test/goals")).toBeUndefined();
+
+        deferredRequest.resolve(["Goal after edit"], 1);
+        await freshResult;
+        expect(getCachedQueryData("test/goals")).toEqual(["Goal after edit"]);
+    });
+
+    it("removes cached queries by key prefix", async () => {
+        for (let key of ["test/team/1", "test/team/1/goal", "test/team/10"]) {
+            let deferredRequest = createDeferredRequest();
+            let pendingResult = fetchQuery(key, deferredRequest.request);
+            deferredRequest.resolve(key);
+            await pendingResult;
+        }
+
+        invalidateQueries("test/team/1");
+
+        expect(getCachedQueryData("test/team/1")).toBeUndefined();
+        expect(getCachedQueryData("test/team/1/goal")).toBeUndefined();
+        expect(getCachedQueryData("test/team/10")).toBe("test/team/10");
+    });
+
+    it("cancels shared request only after every caller has cancelled", async () => {
+        let deferredRequest = createDeferredRequest();
+        let firstController = new AbortController();
+        let secondController = new AbortController();
+        let firstResult = fetchQuery("test/goals", deferredRequest.request, firstController.signal);
+        let secondResult = fetchQuery("test/goals", deferredRequest.request, secondController.signal);
+
+        firstController.abort();
+        expect(await firstResult).toMatchObject({ isSuccess: false, errorCode: "cancelled" });
+        expect(deferredRequest.signals[0].aborted).toBe(false);
+
+        secondController.abort();
+        expect(await secondResult).toMatchObject({ isSuccess: false, errorCode: "cancelled" });
+        expect(deferredRequest.signals[0].aborted).toBe(true);
+    });
+});
@@ -0,0 +1,171 @@
+﻿// <copyright file="query-cache.ts" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import { ApiResult, IQueryCacheEntry, IPendingQuery } from "../models/type";
+import Constants from "../constants";
+import { createCancelledResult } from "../helpers/request-cancellation";
+
+let queryCache: { [key: string]: IQueryCacheEntry } | null = null;
+let pendingQueries: { [key: string]: IPendingQuery } = {};
+let invalidationVersion = 0;
+
+/**
+* Keys of cached queries. Keys are built from endpoint and team or goal id so related queries can be invalidated by prefix.
+*/
+export const queryKeys = {
+    personalGoals: () => "personalgoals",
+    pastPersonalGoals: () => "personalgoals/past",
+    deletedPersonalGoals: () => "personalgoals/deleted",
+    personalGoal: (personalGoalId?: string | null) => `personalgoals/${personalGoalId}`,
+    allTeamGoals: () => "teamgoals",
+    teamGoals: (teamId?: string | null) => `teamgoals/${teamId}`,
+    teamGoal: (teamId?: string | null, teamGoalId?: string | null) => `teamgoals/${teamId}/${teamGoalId}`,
+    goalTemplates: (teamId?: string | null) => `goaltemplates/${teamId}`,
+    allPersonalGoalNotes: () => "notes",
+    personalGoalNotesCount: () => "notes/count",
+    userPersonalGoalNotes: () => "notes/user",
+    pastPersonalGoalNotes: () => "notes/past",
+    personalGoalNotes: (personalGoalId?: string | null) => `notes/goal/${personalGoalId}`,
+};
+
+/**
+* Get copy of data cached for query. Components render this data while fresh data is fetched.
+* @param key {String} Query key.
+* @returns Cached data or undefined if query is not cached or cached data is too old.
+*/
+export const getCachedQueryData = <T>(key: string): T | undefined => {
+    let cacheEntry = getQueryCache()[key];
+    if (!cacheEntry || Date.now() - cacheEntry.cachedOn > Constants.queryCacheMaxAgeInMilliseconds) {
+        return undefined;
+    }
+
+    return cloneData(cacheEntry.data);
+}
+
+/**
+* Fetch data for query and cache successful response. Concurrent requests for same query share single request,
+* which is cancelled only after every caller sharing it has cancelled.
+* @param key {String} Query key.
+* @param request {Function} Function which sends the request with given abort signal.
+* @param signal {AbortSignal} Signal to cancel the request.
+*/
+export const fetchQuery = async <T>(key: string, request: (signal: AbortSignal) => Promise<ApiResult<T>>, signal?: AbortSignal): Promise<ApiResult<T>> => {
+    if (signal && signal.aborted) {
+        return createCancelledResult();
+    }
+
+    if (!pendingQueries[key]) {
+        let requestVersion = invalidationVersion;
+        let controller = new AbortController();
+        let pendingQuery: IPendingQuery = {
+            controller: controller,
+            subscriberCount: 0,
+            result: request(controller.signal).then((result) => {
+                if (pendingQueries[key] === pendingQuery) {
+                    delete pendingQueries[key];
+                }
+
+                // Response of request sent before a mutation may be outdated, so it is not cached.
+                if (result.isSuccess && requestVersion === invalidationVersion) {
+                    getQueryCache()[key] = { data: result.data, cachedOn: Date.now() };
+                    persistQueryCache();
+                }
+
+                return result;
+            }),
+        };
+        pendingQueries[key] = pendingQuery;
+    }
+
+    let result: ApiResult<T> = await subscribeToPendingQuery(key, pendingQueries[key], signal);
+    return result.isSuccess ? { ...result, data: cloneData(result.data) } : result;
+}
+
+/**
+* Remove cached queries after a mutation.
+* @param keyPrefixes {String[]} Key prefixes of queries to be removed, e.g. "personalgoals" removes personal goal list and all personal goals.
+*/
+export const invalidateQueries = (...keyPrefixes: string[]) => {
+    let cache = getQueryCache();
+    invalidationVersion++;
+    Object.keys(cache).forEach((key) => {
+        if (keyPrefixes.some(keyPrefix => key === keyPrefix || key.startsWith(`${keyPrefix}/`))) {
+            delete cache[key];
+        }
+    });
+
+    pendingQueries = {};
+    persistQueryCache();
+}
+
+/**
+* Wait for shared request, or until caller cancels. Shared request is cancelled when its last subscriber cancels.
+* @param key {String} Query key.
+* @param pendingQuery {Object} Shared request.
+* @param signal {AbortSignal} Signal to cancel the request.
+*/
+const subscribeToPendingQuery = (key: string, pendingQuery: IPendingQuery, signal?: AbortSignal): Promise<ApiResult<any>> => {
+    pendingQuery.subscriberCount++;
+    if (!signal) {
+        return pendingQuery.result;
+    }
+
+    return new Promise<ApiResult<any>>((resolve) => {
+        const onAbort = () => {
+            pendingQuery.subscriberCount--;
+            if (pendingQuery.subscriberCount === 0) {
+                if (pendingQueries[key] === pendingQuery) {
+                    delete pendingQueries[key];
+                }
+
+                pendingQuery.controller.abort();
+            }
+
+            resolve(createCancelledResult());
+        };
+
+        signal.addEventListener("abort", onAbort);
+        pendingQuery.result.then((result) => {
+            signal.removeEventListener("abort", onAbort);
+            resolve(result);
+        });
+    });
+}
+
+/**
+* Get in-memory cache, restoring it from session storage on first use.
+*/
+const getQueryCache = (): { [key: string]: IQueryCacheEntry } => {
+    if (!queryCache) {
+        try {
+            let storedCache = window.sessionStorage.getItem(Constants.queryCacheStorageKey);
+            queryCache = storedCache ? JSON.parse(storedCache) : {};
+        }
+        catch (error) {
+            queryCache = {};
+        }
+    }
+
+    return queryCache!;
+}
+
+/**
+* Save in-memory cache to session storage. Failures are ignored as cache is only an optimization.
+*/
+const persistQueryCache = () => {
+    try {
+        window.sessionStorage.setItem(Constants.queryCacheStorageKey, JSON.stringify(getQueryCache()));
+    }
+    catch (error) {
+        console.error("Unable to persist query cache: ", error);
+    }
+}
+
+/**
+* Deep copy data so components can modify it without changing cached data.
+* @param data {Object} Data to be copied.
+*/
+const cloneData = (data: any) => {
+    return data === undefined ? data : JSON.parse(JSON.stringify(data));
+}
@@ -3,44 +3,74 @@
 // </copyright>
 
 import axios from "./axios-decorator";
-import { ITeamGoalDetail, ITeamOwnerDetail } from "../models/type";
-import { AxiosResponse } from "axios";
+import { ITeamGoalDetail, ITeamOwnerDetail, IGoalTemplate, ApiResult } from "../models/type";
+import { fetchQuery, invalidateQueries, queryKeys } from "./query-cache";
 
 const baseAxiosUrl = window.location.origin;
 
 /**
 * Get team goal details by Microsoft Teams' team Id.
 * @param teamId {String | Null} Microsoft Teams' team id to fetch specific Team goals.
+* @param signal {AbortSignal} Signal to cancel the request.
 */
-export const getTeamGoalDetailsByTeamId = async (teamId?: string | null): Promise<AxiosResponse<ITeamGoalDetail[]>> => {
+export const getTeamGoalDetailsByTeamId = async (teamId?: string | null, signal?: AbortSignal): Promise<ApiResult<ITeamGoalDetail[]>> => {
     let url = baseAxiosUrl + `/api/teamgoals?teamId=${teamId}`;
-    return await axios.get(url);
+    return await fetchQuery(queryKeys.teamGoals(teamId), querySignal => axios.get(url, undefined, true, undefined, querySignal), signal);
 }
 
 /**
 * Validate if user is team owner.
 * @param teamId {String | Null} Microsoft Teams' team id to fetch specific Team goals.
+* @param signal {AbortSignal} Signal to cancel the request.
 */
-export const getTeamOwnerDetails = async (teamGroupId?: string | null): Promise<AxiosResponse<ITeamOwnerDetail[]>> => {
+export const getTeamOwnerDetails = async (teamGroupId?: string | null, signal?: AbortSignal): Promise<ApiResult<ITeamOwnerDetail[]>> => {
     let url = baseAxiosUrl + `/api/teamgoals/${teamGroupId}/checkteamowner`;
-    return await axios.get(url);
+    return await axios.get(url, undefined, true, undefined, signal);
 }
 
 /**
-* Save team goal details from storage.
+* Save team goal details from storage. Cached personal goals are invalidated too as they refer to team goals they are aligned with.
 * @param teamGoalDetails {Object} Team goal details to be stored in storage.
+* @param signal {AbortSignal} Signal to cancel the request.
 */
-export const saveTeamGoalDetails = async (teamGoalDetails: {}, teamGroupId?: string | null): Promise<AxiosResponse<void>> => {
+export const saveTeamGoalDetails = async (teamGoalDetails: {}, teamGroupId?: string | null, signal?: AbortSignal): Promise<ApiResult<void>> => {
     let url = baseAxiosUrl + `/api/teamgoals/${teamGroupId}`;
-    return await axios.post(url, teamGoalDetails);
+    let result = await axios.post(url, teamGoalDetails, undefined, true, undefined, signal);
+    invalidateQueries(queryKeys.allTeamGoals(), queryKeys.personalGoals());
+    return result;
 }
 
 /**
 * Get specific team goal detail by team goal id.
 * @param teamGoalId {String | Null} Team goal id to fetch specific team goal detail.
 * @param teamId {String | Null} Microsoft Teams' team id to fetch specific Team goals.
+* @param signal {AbortSignal} Signal to cancel the request.
 */
-export const getTeamGoalDetailByTeamGoalId = async (teamGoalId?: string | null, teamId?: string | null): Promise<AxiosResponse<ITeamGoalDetail>> => {
+export const getTeamGoalDetailByTeamGoalId = async (teamGoalId?: string | null, teamId?: string | null, signal?: AbortSignal): Promise<ApiResult<ITeamGoalDetail>> => {
     let url = baseAxiosUrl + `/api/teamgoals/goal?teamId=${teamId}&teamGoalId=${teamGoalId}`;
-    return await axios.get(url);
-}
\ No newline at end of file
+    return await fetchQuery(queryKeys.teamGoal(teamId, teamGoalId), querySignal => axios.get(url, undefined, true, undefined, querySignal), signal);
+}
+
+/**
+* Get goal templates published by team owners in team.
+* @param teamId {String | Null} Microsoft Teams' team id to fetch goal templates of team.
+* @param signal {AbortSignal} Signal to cancel the request.
+*/
+export const getGoalTemplatesByTeamId = async (teamId?: string | null, signal?: AbortSignal): Promise<ApiResult<IGoalTemplate[]>> => {
+    let url = baseAxiosUrl + `/api/teamgoals/templates?teamId=${teamId}`;
+    return await fetchQuery(queryKeys.goalTemplates(teamId), querySignal => axios.get(url, undefined, true, undefined, querySignal), signal);
+}
+
+/**
+* Replace goal templates of team in storage. Stored templates which are not in given templates are deleted.
+* @param goalTemplates {Object[]} Goal templates of team.
+* @param teamGroupId {String | Null} AAD group id of team.
+* @param teamId {String | Null} Microsoft Teams' team id.
+* @param signal {AbortSignal} Signal to cancel the request.
+*/
+export const saveGoalTemplates = async (goalTemplates: IGoalTemplate[], teamGroupId?: string | null, teamId?: string | null, signal?: AbortSignal): Promise<ApiResult<void>> => {
+    let url = baseAxiosUrl + `/api/teamgoals/${teamGroupId}/templates?teamId=${teamId}`;
+    let result = await axios.post(url, goalTemplates, undefined, true, undefined, signal);
+    invalidateQueries(queryKeys.goalTemplates(teamId));
+    return result;
+}
@@ -7,47 +7,27 @@
 import * as React from "react";
 import { AppRoute } from "./router/router";
 import { Provider, themes } from "@fluentui/react-northstar";
-import * as microsoftTeams from "@microsoft/teams-js";
 import Constants from "./constants";
-import i18n from "./i18n";
+import { TeamsContextProvider, TeamsContextConsumer } from "./helpers/teams-context";
+import { startMutationQueue } from "./api/mutation-queue";
 
-export interface IAppState {
-	theme: string;
-	themeStyle: any;
-}
-
-export default class App extends React.Component<{}, IAppState> {
-	theme?: string | null;
-	constructor(props: any) {
-		super(props);
-		let search = window.location.search;
-		let params = new URLSearchParams(search);
-		this.theme = params.get("theme");
-
-		this.state = {
-			theme: this.theme ? this.theme : Constants.default,
-			themeStyle: themes.teams,
-		}
-	}
+export default class App extends React.Component<{}> {
+	private stopMutationQueue: (() => void) | null = null;
 
 	/** Called once component is mounted. */
-	async componentDidMount() {
-		microsoftTeams.initialize();
-		microsoftTeams.getContext((context: microsoftTeams.Context) => {
-			this.setState({ theme: context.theme! });
-			i18n.changeLanguage(context.locale);
-			this.setThemeComponent();
-		});
+	public componentDidMount() {
+		this.stopMutationQueue = startMutationQueue();
+	}
 
-		microsoftTeams.registerOnThemeChangeHandler((theme: string) => {
-			this.setState({ theme: theme! }, () => {
-				this.forceUpdate();
-			});
-		});
+	/** Called when component is unmounted. */
+	public componentWillUnmount() {
+		if (this.stopMutationQueue) {
+			this.stopMutationQueue();
+		}
 	}
 
-	public setThemeComponent = () => {
-		if (this.state.theme === Constants.dark) {
+	public setThemeComponent = (theme: string) => {
+		if (theme === Constants.dark) {
 			return (
 				<Provider theme={themes.teamsDark}>
 					<div className="dark-container">
@@ -56,7 +36,7 @@ export default class App extends React.Component<{}, IAppState> {
 				</Provider>
 			);
 		}
-		else if (this.state.theme === Constants.contrast) {
+		else if (theme === Constants.contrast) {
 			return (
 				<Provider theme={themes.teamsHighContrast}>
 					<div className="high-contrast-container">
@@ -88,7 +68,11 @@ export default class App extends React.Component<{}, IAppState> {
 	public render(): JSX.Element {
 		return (
 			<div>
-				{this.setThemeComponent()}
+				<TeamsContextProvider>
+					<TeamsContextConsumer>
+						{(teamsContext) => this.setThemeComponent(teamsContext.theme)}
+					</TeamsContextConsumer>
+				</TeamsContextProvider>
 			</div>
 		);
 	}
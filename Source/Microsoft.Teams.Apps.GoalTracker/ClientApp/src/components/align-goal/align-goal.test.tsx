@@ -0,0 +1,41 @@
+﻿// <copyright file="align-goal.test.tsx" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import * as React from "react";
+import AlignGoal from "./align-goal";
+import { setupTestHarness, renderRoute, cleanupRoute, waitFor, findButton, click } from "../../mock/test-harness";
+import { getMockBackendData } from "../../mock/mock-backend";
+
+describe("AlignGoal", () => {
+    afterEach(cleanupRoute);
+
+    it("shows personal goals aligned with team goals of team", async () => {
+        let fakeTeamsHost = setupTestHarness();
+        let container = await renderRoute(<AlignGoal />, `/align-goal?teamId=${encodeURIComponent(fakeTeamsHost.context.teamId!)}`);
+
+        await waitFor(() => container.textContent!.includes("Publish weekly newsletter"));
+        expect(container.textContent).toContain("Grow newsletter subscribers by 20%");
+        expect(container.textContent).toContain("Draft campaign landing page copy");
+    });
+
+    it("saves unaligned goal and closes task module", async () => {
+        let fakeTeamsHost = setupTestHarness();
+        let container = await renderRoute(<AlignGoal />, `/align-goal?teamId=${encodeURIComponent(fakeTeamsHost.context.teamId!)}`);
+        await waitFor(() => container.textContent!.includes("Publish weekly newsletter"));
+
+        await click(container.querySelector("button[title='Unaligned']")!);
+        await click(findButton(container, "Done")!);
+        await waitFor(() => container.textContent!.includes("Goals aligned successfully!"));
+
+        let personalGoals = getMockBackendData().personalGoals;
+        expect(personalGoals.find(goal => goal.GoalName === "Publish weekly newsletter")!.IsAligned).toBe(false);
+        expect(personalGoals.find(goal => goal.GoalName === "Draft campaign landing page copy")!.IsAligned).toBe(true);
+        expect(personalGoals.find(goal => goal.GoalName === "Draft campaign landing page copy")!.Priority).toBe(2);
+        expect(personalGoals.find(goal => goal.GoalName === "Publish weekly newsletter")!.Description).toBe("One issue every Friday with product news and a customer story.");
+
+        await click(findButton(container, "Done")!);
+        await waitFor(() => fakeTeamsHost.submittedTasks.length > 0);
+        expect(fakeTeamsHost.submittedTasks).toEqual([undefined]);
+    });
+});
@@ -4,7 +4,6 @@
 
 import * as React from "react";
 import { SeverityLevel } from "@microsoft/applicationinsights-web";
-import * as microsoftTeams from "@microsoft/teams-js";
 import moment from "moment";
 import { WithTranslation, withTranslation } from "react-i18next";
 import { TFunction } from "i18next";
@@ -14,8 +13,12 @@ import { getApplicationInsightsInstance } from "../../helpers/app-insights";
 import { getTeamGoalDetailsByTeamId } from "../../api/team-goal-api";
 import { getPersonalGoalDetails, savePersonalGoalDetails } from "../../api/personal-goal-api";
 import { handleError } from "../../helpers/goal-helper";
-import { IPersonalGoalDetail } from "../../models/type";
+import { getCachedQueryData, queryKeys } from "../../api/query-cache";
+import { createRequestCanceller, isRequestCancelled, submitTask } from "../../helpers/request-cancellation";
+import { withTeamsContext } from "../../helpers/teams-context";
+import { IPersonalGoalDetail, ITeamGoalDetail, IRequestCanceller, ITeamsContextProps } from "../../models/type";
 import AlignGoalSuccessScreen from './align-goal-success-screen'
+import GoalDefinitionView from "../goal-definition/goal-definition-view";
 import Constants from "../../constants";
 import "../../styles/style.css";
 import { Separator } from "office-ui-fabric-react";
@@ -27,6 +30,8 @@ interface ITeamGoalProps {
     TeamGoalName: string,
     TeamGoalStartDate: string,
     TeamGoalEndDate: string,
+    Description?: string | null,
+    DefinitionOfDone?: string | null,
 };
 
 interface IPersonalGoalProps {
@@ -59,7 +64,7 @@ interface IState {
 const browserHistory = createBrowserHistory({ basename: "" });
 
 /** Component for displaying align goal. */
-class AlignGoal extends React.Component<WithTranslation, IState>
+class AlignGoal extends React.Component<WithTranslation & ITeamsContextProps, IState>
 {
     localize: TFunction;
     teamId?: string | null = null;
@@ -70,6 +75,7 @@ class AlignGoal extends React.Component<WithTranslation, IState>
     personalGoalSelectedValue: any;
     personalGoalSelectedId: any;
     teamGoalCycle: string;
+    requestCanceller: IRequestCanceller;
 
     constructor(props: any) {
         super(props);
@@ -100,19 +106,23 @@ class AlignGoal extends React.Component<WithTranslation, IState>
         this.teamId = params.get("teamId");
         this.telemetry = params.get("telemetry");
         this.teamGoalCycle = "";
+        this.requestCanceller = createRequestCanceller();
     }
 
     /** Called once component is mounted. */
     async componentDidMount() {
-        microsoftTeams.initialize();
-        microsoftTeams.getContext(async (context) => {
-            this.appInsights = getApplicationInsightsInstance(this.telemetry, browserHistory);
-
-            await this.getTeamGoalDetails();
-            await this.getPersonalAndAlignedGoalDetails();
-            window.addEventListener("resize", this.update.bind(this));
-            this.update();
-        });
+        this.appInsights = getApplicationInsightsInstance(this.telemetry, browserHistory);
+
+        this.setState({ loading: !this.renderCachedGoalDetails() });
+        await this.getTeamGoalDetails();
+        await this.getPersonalAndAlignedGoalDetails();
+        window.addEventListener("resize", this.update.bind(this));
+        this.update();
+    }
+
+    /** Called before component is unmounted. Cancels requests which are still in progress. */
+    componentWillUnmount() {
+        this.requestCanceller.cancel();
     }
 
     /**
@@ -129,32 +139,15 @@ class AlignGoal extends React.Component<WithTranslation, IState>
     * */
     getTeamGoalDetails = async () => {
         this.appInsights.trackTrace({ message: `'getTeamGoalDetails' - Request initiated to fetch team goal details`, severityLevel: SeverityLevel.Information });
-        this.setState({ loading: true });
-        let teamGoalDetailsResponse = await getTeamGoalDetailsByTeamId(this.teamId);
-        if (teamGoalDetailsResponse) {
-            if (teamGoalDetailsResponse.status === 200) {
-                let teamGoalDetailsData: ITeamGoalProps[] = [];
-                teamGoalDetailsResponse.data.forEach((teamGoalDetail) => {
-                    teamGoalDetailsData.push({
-                        key: teamGoalDetail.TeamGoalId,
-                        header: teamGoalDetail.TeamGoalName,
-                        TeamGoalId: teamGoalDetail.TeamGoalId,
-                        TeamGoalName: teamGoalDetail.TeamGoalName,
-                        TeamGoalStartDate: teamGoalDetail.TeamGoalStartDate,
-                        TeamGoalEndDate: teamGoalDetail.TeamGoalEndDate,
-                    });
-                });
-
-                this.setState({ teamGoalDetails: teamGoalDetailsData });
-
-                if (teamGoalDetailsData.length > 0) {
-                    // Set team goal cycle to be shown in the align goal task module
-                    this.teamGoalCycle = `${moment(teamGoalDetailsData[0].TeamGoalStartDate).format(Constants.goalCycleDateTimeFormat)} ${this.localize("goalCycleToText")} ${moment(teamGoalDetailsData[0].TeamGoalEndDate).format(Constants.goalCycleDateTimeFormat)}`;
-                }
-            }
-            else {
-                handleError(teamGoalDetailsResponse);
-            }
+        let teamGoalDetailsResponse = await getTeamGoalDetailsByTeamId(this.teamId, this.requestCanceller.signal);
+        if (isRequestCancelled(teamGoalDetailsResponse)) {
+            return;
+        }
+        else if (teamGoalDetailsResponse.isSuccess) {
+            this.setTeamGoalDetails(teamGoalDetailsResponse.data);
+        }
+        else {
+            handleError(teamGoalDetailsResponse);
         }
         this.setState({ loading: false });
     };
@@ -164,71 +157,99 @@ class AlignGoal extends React.Component<WithTranslation, IState>
     * */
     getPersonalAndAlignedGoalDetails = async () => {
         this.appInsights.trackTrace({ message: `'getPersonalAndAlignedGoalDetails' - Request initiated to fetch personal goal and aligned goal details`, severityLevel: SeverityLevel.Information });
-        this.setState({ loading: true });
-        let personalGoalDetailsResponse = await getPersonalGoalDetails();
-        if (personalGoalDetailsResponse) {
-            if (personalGoalDetailsResponse.status === 200) {
-                let personalGoals: IPersonalGoalDetail[] = personalGoalDetailsResponse.data;
-                personalGoals.forEach((personalGoalDetail) => {
-                    personalGoalDetail.TeamGoalName = this.state.teamGoalDetails.find(teamGoalDetail => teamGoalDetail.TeamGoalId === personalGoalDetail.TeamGoalId)?.TeamGoalName
-                });
-                this.setState({ allPersonalGoalDetails: personalGoals });
-
-                if (personalGoals.length > 0) {
-                    this.appInsights.trackTrace({ message: `'getPersonalAndAlignedGoalDetails' - Request initiated to add align goals`, severityLevel: SeverityLevel.Information });
-                    let alignedGoalDetails: IPersonalGoalDetail[] = [];
-                    personalGoals.forEach((personalGoalDetail) => {
-                        if (personalGoalDetail.IsAligned) {
-                            personalGoalDetail.TeamGoalId?.split(",").forEach((alignedTeamGoalId) => {
-                                let alignedGoal: IPersonalGoalDetail = {} as IPersonalGoalDetail;
-                                alignedGoal.UserAadObjectId = personalGoalDetail.UserAadObjectId;
-                                alignedGoal.AdaptiveCardActivityId = personalGoalDetail.AdaptiveCardActivityId;
-                                alignedGoal.ConversationId = personalGoalDetail.ConversationId;
-                                alignedGoal.CreatedOn = personalGoalDetail.CreatedOn;
-                                alignedGoal.CreatedBy = personalGoalDetail.CreatedBy;
-                                alignedGoal.LastModifiedOn = personalGoalDetail.LastModifiedOn;
-                                alignedGoal.LastModifiedBy = personalGoalDetail.LastModifiedBy;
-                                alignedGoal.IsActive = personalGoalDetail.IsActive;
-                                alignedGoal.IsAligned = personalGoalDetail.IsAligned;
-                                alignedGoal.IsDeleted = personalGoalDetail.IsDeleted;
-                                alignedGoal.IsReminderActive = personalGoalDetail.IsReminderActive;
-                                alignedGoal.GoalName = personalGoalDetail.GoalName;
-                                alignedGoal.PersonalGoalId = personalGoalDetail.PersonalGoalId;
-                                alignedGoal.ReminderFrequency = personalGoalDetail.ReminderFrequency;
-                                alignedGoal.Status = personalGoalDetail.Status;
-                                alignedGoal.StartDate = personalGoalDetail.StartDate;
-                                alignedGoal.EndDate = personalGoalDetail.EndDate;
-                                alignedGoal.ServiceURL = personalGoalDetail.ServiceURL;
-                                alignedGoal.TeamId = personalGoalDetail.TeamId;
-                                alignedGoal.TeamGoalId = alignedTeamGoalId;
-                                alignedGoal.TeamGoalName = this.state.teamGoalDetails.find(teamGoalDetail => teamGoalDetail.TeamGoalId === alignedTeamGoalId)?.TeamGoalName;
-                                alignedGoal.EndDateUTC = personalGoalDetail.EndDateUTC;
-                                alignedGoal.NotesCount = personalGoalDetail.NotesCount;
-                                alignedGoal.GoalCycleId = personalGoalDetail.GoalCycleId;
-
-                                alignedGoalDetails.push(alignedGoal);
-                            });
-                        }
-                    });
-                    this.setState({ alignGoalDetails: alignedGoalDetails });
-                }
+        let personalGoalDetailsResponse = await getPersonalGoalDetails(this.requestCanceller.signal);
+        if (isRequestCancelled(personalGoalDetailsResponse)) {
+            return;
+        }
+        else if (personalGoalDetailsResponse.isSuccess) {
+            this.setPersonalAndAlignedGoalDetails(personalGoalDetailsResponse.data);
+        }
+        else {
+            handleError(personalGoalDetailsResponse);
+        }
+        this.setState({ loading: false });
+    };
+
+    /**
+    *  Renders goal details cached by earlier visit so task module does not open with loader.
+    *  @returns True if team goals and personal goals were cached.
+    * */
+    renderCachedGoalDetails = () => {
+        let teamGoalDetails = getCachedQueryData<ITeamGoalDetail[]>(queryKeys.teamGoals(this.teamId));
+        let personalGoals = getCachedQueryData<IPersonalGoalDetail[]>(queryKeys.personalGoals());
+        if (!teamGoalDetails || !personalGoals) {
+            return false;
+        }
+
+        this.setTeamGoalDetails(teamGoalDetails);
+        this.setPersonalAndAlignedGoalDetails(personalGoals);
+        return true;
+    };
+
+    /**
+    *  Sets team goals to be shown in team goal drop down.
+    * */
+    setTeamGoalDetails = (teamGoalDetails: ITeamGoalDetail[]) => {
+        let teamGoalDetailsData: ITeamGoalProps[] = [];
+        teamGoalDetails.forEach((teamGoalDetail) => {
+            teamGoalDetailsData.push({
+                key: teamGoalDetail.TeamGoalId,
+                header: teamGoalDetail.TeamGoalName,
+                TeamGoalId: teamGoalDetail.TeamGoalId,
+                TeamGoalName: teamGoalDetail.TeamGoalName,
+                TeamGoalStartDate: teamGoalDetail.TeamGoalStartDate,
+                TeamGoalEndDate: teamGoalDetail.TeamGoalEndDate,
+                Description: teamGoalDetail.Description,
+                DefinitionOfDone: teamGoalDetail.DefinitionOfDone,
+            });
+        });
 
-                let personalGoalsDataForDropDown: IPersonalGoalProps[] = [];
-                personalGoals.forEach((personalGoalDetail) => {
-                    personalGoalsDataForDropDown.push({
-                        key: personalGoalDetail.PersonalGoalId,
-                        header: personalGoalDetail.GoalName,
-                        PersonalGoalId: personalGoalDetail.PersonalGoalId,
-                        GoalName: personalGoalDetail.GoalName,
+        this.setState({ teamGoalDetails: teamGoalDetailsData });
+
+        if (teamGoalDetailsData.length > 0) {
+            // Set team goal cycle to be shown in the align goal task module
+            this.teamGoalCycle = `${moment(teamGoalDetailsData[0].TeamGoalStartDate).format(Constants.goalCycleDateTimeFormat)} ${this.localize("goalCycleToText")} ${moment(teamGoalDetailsData[0].TeamGoalEndDate).format(Constants.goalCycleDateTimeFormat)}`;
+        }
+    };
+
+    /**
+    *  Sets personal goals to be shown in personal goal drop down and goals which are already aligned.
+    * */
+    setPersonalAndAlignedGoalDetails = (personalGoals: IPersonalGoalDetail[]) => {
+        personalGoals.forEach((personalGoalDetail) => {
+            personalGoalDetail.TeamGoalName = this.state.teamGoalDetails.find(teamGoalDetail => teamGoalDetail.TeamGoalId === personalGoalDetail.TeamGoalId)?.TeamGoalName
+        });
+        this.setState({ allPersonalGoalDetails: personalGoals });
+
+        if (personalGoals.length > 0) {
+            this.appInsights.trackTrace({ message: `'getPersonalAndAlignedGoalDetails' - Request initiated to add align goals`, severityLevel: SeverityLevel.Information });
+            let alignedGoalDetails: IPersonalGoalDetail[] = [];
+            personalGoals.forEach((personalGoalDetail) => {
+                if (personalGoalDetail.IsAligned) {
+                    personalGoalDetail.TeamGoalId?.split(",").forEach((alignedTeamGoalId) => {
+                        let alignedGoal: IPersonalGoalDetail = {
+                            ...personalGoalDetail,
+                            TeamGoalId: alignedTeamGoalId,
+                            TeamGoalName: this.state.teamGoalDetails.find(teamGoalDetail => teamGoalDetail.TeamGoalId === alignedTeamGoalId)?.TeamGoalName,
+                        };
+
+                        alignedGoalDetails.push(alignedGoal);
                     });
-                });
-                this.setState({ personalGoalDetails: personalGoalsDataForDropDown });
-            }
-            else {
-                handleError(personalGoalDetailsResponse);
-            }
+                }
+            });
+            this.setState({ alignGoalDetails: alignedGoalDetails });
         }
-        this.setState({ loading: false });
+
+        let personalGoalsDataForDropDown: IPersonalGoalProps[] = [];
+        personalGoals.forEach((personalGoalDetail) => {
+            personalGoalsDataForDropDown.push({
+                key: personalGoalDetail.PersonalGoalId,
+                header: personalGoalDetail.GoalName,
+                PersonalGoalId: personalGoalDetail.PersonalGoalId,
+                GoalName: personalGoalDetail.GoalName,
+            });
+        });
+        this.setState({ personalGoalDetails: personalGoalsDataForDropDown });
     };
 
     /**
@@ -279,32 +300,14 @@ class AlignGoal extends React.Component<WithTranslation, IState>
             this.setState({ errorInAddToAlignGoal: this.localize("alignGoalErrorOneTeamGoalPerPersonalGoalLimitation"), isAlignToAddButtonDisabled: true });
         }
         else {
-            let newAlignGoalDetail: IPersonalGoalDetail =
-            {
-                UserAadObjectId: alignedGoalDetail.UserAadObjectId,
-                AdaptiveCardActivityId: alignedGoalDetail.AdaptiveCardActivityId,
-                ConversationId: alignedGoalDetail.ConversationId,
-                IsActive: alignedGoalDetail.IsActive,
+            // Personal goal is copied as a whole so fields not shown here, like description and definition of done, are kept.
+            let newAlignGoalDetail: IPersonalGoalDetail = {
+                ...alignedGoalDetail,
                 IsAligned: true,
-                IsDeleted: alignedGoalDetail.IsDeleted,
-                IsReminderActive: alignedGoalDetail.IsReminderActive,
-                CreatedOn: alignedGoalDetail.CreatedOn,
-                CreatedBy: alignedGoalDetail.CreatedBy,
-                LastModifiedOn: alignedGoalDetail.LastModifiedOn,
-                LastModifiedBy: alignedGoalDetail.LastModifiedBy,
                 GoalName: this.personalGoalSelectedValue,
-                PersonalGoalId: alignedGoalDetail.PersonalGoalId,
-                ReminderFrequency: alignedGoalDetail.ReminderFrequency,
-                Status: alignedGoalDetail.Status,
-                StartDate: alignedGoalDetail.StartDate,
-                EndDate: alignedGoalDetail.EndDate,
-                ServiceURL: alignedGoalDetail.ServiceURL,
                 TeamId: this.teamId,
                 TeamGoalId: this.state.teamGoalDetails.find(teamGoalDetail => teamGoalDetail.TeamGoalId === this.teamGoalSelectedId)?.TeamGoalId,
                 TeamGoalName: this.teamGoalSelectedValue,
-                EndDateUTC: alignedGoalDetail.EndDateUTC,
-                NotesCount: alignedGoalDetail.NotesCount,
-                GoalCycleId: alignedGoalDetail.GoalCycleId,
             };
             this.state.alignGoalDetails.push(newAlignGoalDetail);
             this.setState({ errorInAddToAlignGoal: "", personalGoalSelection: "", teamGoalSelection: "" });
@@ -338,7 +341,10 @@ class AlignGoal extends React.Component<WithTranslation, IState>
         this.setState({ isAlignToAddButtonDisabled: true, isAlignGoalButtonDisabled: true, isAlignGoalButtonLoading: true });
 
         let response = await this.saveGoalAlignmentDetails();
-        if (response) {
+        if (this.requestCanceller.signal.aborted) {
+            return;
+        }
+        else if (response) {
             this.setState({ isAlignGoalButtonLoading: false, isAlignedGoalsSubmitted: true });
         }
         else {
@@ -380,8 +386,11 @@ class AlignGoal extends React.Component<WithTranslation, IState>
                     personalGoalDetailsData.push(personalGoalDetail);
                 }
             });
-            const savePersonalGoalDetailsResponse = await savePersonalGoalDetails(personalGoalDetailsData)
-            if (savePersonalGoalDetailsResponse.status !== 200 && savePersonalGoalDetailsResponse.status !== 204) {
+            const savePersonalGoalDetailsResponse = await savePersonalGoalDetails(personalGoalDetailsData, this.requestCanceller.signal)
+            if (isRequestCancelled(savePersonalGoalDetailsResponse)) {
+                return false;
+            }
+            else if (!savePersonalGoalDetailsResponse.isSuccess) {
                 this.setState({ isAlignGoalButtonLoading: false, errorInAddToAlignGoal: this.localize("alignGoalErrorInSavingAligedGoalDetails") });
                 handleError(savePersonalGoalDetailsResponse);
                 return false;
@@ -400,9 +409,7 @@ class AlignGoal extends React.Component<WithTranslation, IState>
         this.appInsights.trackTrace({ message: `'onOkayButtonClick' - Request initiated okay button is clicked`, severityLevel: SeverityLevel.Information });
         this.setState({ isSeeYourGoalButtonDisabled: true });
 
-        microsoftTeams.getContext((context) => {
-            microsoftTeams.tasks.submitTask();
-        });
+        submitTask();
 
         this.setState({ loading: false });
     }
@@ -420,6 +427,7 @@ class AlignGoal extends React.Component<WithTranslation, IState>
     *  Renders align goal layout on UI.
     * */
     renderAlignGoal() {
+        let selectedTeamGoal = this.state.teamGoalSelection ? this.state.teamGoalDetails.find(teamGoalDetail => teamGoalDetail.TeamGoalId === this.teamGoalSelectedId) : undefined;
         return (
             <>
                 <Flex gap="gap.large" vAlign="center" className="align-goal-cycle-heading">
@@ -444,6 +452,7 @@ class AlignGoal extends React.Component<WithTranslation, IState>
                         fluid
                         checkable
                     />
+                    {selectedTeamGoal && <GoalDefinitionView description={selectedTeamGoal.Description} definitionOfDone={selectedTeamGoal.DefinitionOfDone} />}
                 </div>
                 <Flex gap="gap.large" vAlign="center" className="align-goal-personal-dropdown-title">
                     <Text content={this.localize("alignGoalPersonalGoalTitleText")} />
@@ -592,4 +601,4 @@ class AlignGoal extends React.Component<WithTranslation, IState>
     }
 }
 
-export default withTranslation()(AlignGoal);
\ No newline at end of file
+export default withTranslation()(withTeamsContext(AlignGoal));
\ No newline at end of file
@@ -0,0 +1,101 @@
+﻿// <copyright file="goal-definition-editor.tsx" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import * as React from "react";
+import { Flex, Text, Input, Button, TextArea, Checkbox } from "@fluentui/react-northstar";
+import { AddIcon, TrashCanIcon } from '@fluentui/react-icons-northstar';
+import { useTranslation } from 'react-i18next';
+import { Guid } from "guid-typescript";
+import Constants from "../../constants";
+import { IDoneCriterion } from "../../models/type";
+import "../../styles/style.css";
+
+interface IGoalDefinitionEditorProps {
+    description: string,
+    criteria: IDoneCriterion[],
+    canTickCriteria?: boolean,
+    onChange: (description: string, criteria: IDoneCriterion[]) => void,
+}
+
+/** Editor for description and definition of done of personal or team goal. Criteria can be ticked off only once goal is set. */
+const GoalDefinitionEditor: React.FunctionComponent<IGoalDefinitionEditorProps> = props => {
+    const { t } = useTranslation();
+
+    /**
+    * Update field of definition of done criterion.
+    * @param criterionId {String} Unique identifier of criterion.
+    * @param changes {Object} Changed fields of criterion.
+    */
+    const onCriterionChange = (criterionId: string, changes: Partial<IDoneCriterion>) => {
+        props.onChange(props.description, props.criteria.map(criterion => criterion.criterionId === criterionId ? { ...criterion, ...changes } : criterion));
+    }
+
+    /**
+    * Add empty criterion to definition of done.
+    */
+    const onAddCriterion = () => {
+        props.onChange(props.description, props.criteria.concat({ criterionId: Guid.create().toString(), text: "", isDone: false }));
+    }
+
+    /**
+    * Remove criterion from definition of done.
+    * @param criterionId {String} Unique identifier of criterion.
+    */
+    const onRemoveCriterion = (criterionId: string) => {
+        props.onChange(props.description, props.criteria.filter(criterion => criterion.criterionId !== criterionId));
+    }
+
+    return (
+        <div className="goal-definition-editor">
+            <Flex gap="gap.large" vAlign="center" space="between" className="control-spacing edit-goal-title">
+                <Text align="center" content={t('goalDescriptionLabel')} />
+                <Text size="small" weight="light" content={t('noteLengthText', { length: props.description.length, maxLength: Constants.maxAllowedGoalDescription })} />
+            </Flex>
+            <div className="control-padding">
+                <TextArea
+                    maxLength={Constants.maxAllowedGoalDescription}
+                    value={props.description}
+                    aria-label={t('goalDescriptionLabel')}
+                    placeholder={t('goalDescriptionPlaceholder')}
+                    onChange={(event: any) => props.onChange(event.target.value, props.criteria)}
+                    className="goal-description-input"
+                />
+            </div>
+            <Flex gap="gap.large" vAlign="center" space="between" className="control-spacing edit-goal-title">
+                <Text align="center" content={`${t('definitionOfDoneHeader')} (${props.criteria.length})`} />
+                <Button
+                    text
+                    size="small"
+                    icon={<AddIcon />}
+                    content={t('addDoneCriterionButtonText')}
+                    disabled={props.criteria.length >= Constants.maxAllowedDoneCriteria}
+                    onClick={onAddCriterion}
+                    className="add-done-criterion-button"
+                />
+            </Flex>
+            {props.criteria.map((criterion, index) => (
+                <Flex key={criterion.criterionId} gap="gap.small" vAlign="center" className="done-criterion control-padding">
+                    {props.canTickCriteria && <Checkbox
+                        checked={criterion.isDone}
+                        aria-label={t('doneCriterionCheckboxLabel', { index: index + 1 })}
+                        onChange={(event: any, checkboxProps: any) => onCriterionChange(criterion.criterionId, { isDone: checkboxProps.checked })}
+                    />}
+                    <Input
+                        fluid
+                        className="done-criterion-text"
+                        aria-label={t('doneCriterionLabel', { index: index + 1 })}
+                        placeholder={t('doneCriterionPlaceholder')}
+                        value={criterion.text}
+                        title={criterion.text}
+                        maxLength={Constants.maxAllowedDoneCriterionText}
+                        onChange={(event: any) => onCriterionChange(criterion.criterionId, { text: event.target.value })}
+                    />
+                    <Button size="smaller" text iconOnly icon={<TrashCanIcon />} title={t('removeDoneCriterionText')} onClick={() => onRemoveCriterion(criterion.criterionId)} />
+                </Flex>
+            ))}
+        </div>
+    );
+}
+
+export default GoalDefinitionEditor;
@@ -0,0 +1,45 @@
+﻿// <copyright file="goal-definition-view.tsx" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import * as React from "react";
+import { Flex, Text } from "@fluentui/react-northstar";
+import { AcceptIcon } from '@fluentui/react-icons-northstar';
+import { useTranslation } from 'react-i18next';
+import { getDoneCriteria } from "../../helpers/goal-definition";
+import "../../styles/style.css";
+
+interface IGoalDefinitionViewProps {
+    description?: string | null,
+    definitionOfDone?: string | null,
+}
+
+/** Read only description and definition of done of personal or team goal. */
+const GoalDefinitionView: React.FunctionComponent<IGoalDefinitionViewProps> = props => {
+    const { t } = useTranslation();
+    const criteria = getDoneCriteria({ DefinitionOfDone: props.definitionOfDone });
+    if (!props.description && criteria.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="goal-definition-view">
+            {props.description && <Text as="p" className="goal-description-text" content={props.description} />}
+            {criteria.length > 0 && <>
+                <Text size="small" weight="semibold" content={t('definitionOfDoneHeader')} />
+                <ul className="done-criteria-list" aria-label={t('definitionOfDoneHeader')}>
+                    {criteria.map(criterion =>
+                        <li key={criterion.criterionId} className={criterion.isDone ? "done-criterion-item done-criterion-done" : "done-criterion-item"}>
+                            <Flex gap="gap.smaller" vAlign="center">
+                                <span className="done-criterion-marker">{criterion.isDone && <AcceptIcon size="small" title={t('doneCriterionDoneText')} />}</span>
+                                <Text size="small" content={criterion.text} />
+                            </Flex>
+                        </li>
+                    )}
+                </ul>
+            </>}
+        </div>
+    );
+}
+
+export default GoalDefinitionView;
@@ -0,0 +1,36 @@
+﻿// <copyright file="goal-tag-list.tsx" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import * as React from "react";
+import { Flex, Label, Button } from "@fluentui/react-northstar";
+import { CloseIcon } from '@fluentui/react-icons-northstar';
+import { useTranslation } from 'react-i18next';
+import { IGoalTag } from "../../models/type";
+import "../../styles/style.css";
+
+interface IGoalTagListProps {
+    tags: IGoalTag[],
+    onRemove?: (tag: IGoalTag) => void,
+}
+
+/** Chips of goal or note tags, shown in colour of each tag. Chips can be removed if parent handles removal. */
+const GoalTagList: React.FunctionComponent<IGoalTagListProps> = props => {
+    const { t } = useTranslation();
+    if (props.tags.length === 0) {
+        return null;
+    }
+
+    return (
+        <Flex gap="gap.smaller" vAlign="center" wrap className="goal-tag-list">
+            {props.tags.map(tag =>
+                <Flex key={tag.name} vAlign="center" className={`goal-tag goal-tag-${tag.color}`}>
+                    <Label circular content={tag.name} title={tag.name} className="goal-tag-label" />
+                    {props.onRemove && <Button text iconOnly size="smaller" icon={<CloseIcon size="smaller" />} title={t('removeTagLabel', { tagName: tag.name })} onClick={() => props.onRemove!(tag)} className="remove-goal-tag-button" />}
+                </Flex>
+            )}
+        </Flex>
+    );
+}
+
+export default GoalTagList;
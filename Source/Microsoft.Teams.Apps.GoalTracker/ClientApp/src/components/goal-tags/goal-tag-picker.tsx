@@ -0,0 +1,90 @@
+﻿// <copyright file="goal-tag-picker.tsx" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import * as React from "react";
+import { Flex, Text, Input, Dropdown, Button } from "@fluentui/react-northstar";
+import { useTranslation } from 'react-i18next';
+import GoalTagList from "./goal-tag-list";
+import { addTag, goalTagColors, isSameTag } from "../../helpers/goal-tag";
+import { GoalTagColor, IGoalTag } from "../../models/type";
+import Constants from "../../constants";
+import "../../styles/style.css";
+
+interface IGoalTagPickerProps {
+    tags: IGoalTag[],
+    availableTags: IGoalTag[],
+    onChange: (tags: IGoalTag[]) => void,
+}
+
+interface IColorOption {
+    key: string,
+    header: string,
+    value: GoalTagColor
+}
+
+/** Picker which adds tags already in use or new tags with colour chosen by user. */
+const GoalTagPicker: React.FunctionComponent<IGoalTagPickerProps> = props => {
+    const { t } = useTranslation();
+    const [tagName, setTagName] = React.useState("");
+    const [color, setColor] = React.useState<GoalTagColor>(goalTagColors[props.availableTags.length % goalTagColors.length]);
+
+    const colorOptions: IColorOption[] = goalTagColors.map(tagColor => ({ key: tagColor, header: t(`${tagColor}TagColorText`), value: tagColor }));
+    const suggestedTags = props.availableTags.filter(availableTag => !props.tags.some(tag => isSameTag(tag, availableTag)));
+    const isMaxTagsAdded = props.tags.length >= Constants.maxAllowedTags;
+    const isExistingTag = props.availableTags.some(availableTag => isSameTag(availableTag, { name: tagName.trim(), color: color }));
+
+    /**
+    * Adds tag to goal or note.
+    * @param tag {Object} Tag to add.
+    */
+    const onAddTag = (tag: IGoalTag) => {
+        let tags = addTag(props.tags, tag, props.availableTags);
+        if (tags !== props.tags) {
+            props.onChange(tags);
+        }
+
+        setTagName("");
+    }
+
+    return (
+        <Flex column gap="gap.smaller" className="goal-tag-picker">
+            <Text content={t('goalTagsLabel')} />
+            <GoalTagList tags={props.tags} onRemove={removedTag => props.onChange(props.tags.filter(tag => tag !== removedTag))} />
+            {!isMaxTagsAdded && <>
+                <Flex gap="gap.smaller" vAlign="center" wrap>
+                    <Input
+                        placeholder={t('addTagPlaceholder')}
+                        aria-label={t('addTagPlaceholder')}
+                        value={tagName}
+                        maxLength={Constants.maxAllowedTagName}
+                        onChange={(event: any) => setTagName(event.target.value)}
+                        onKeyDown={(event: any) => {
+                            if (event.key === "Enter") {
+                                event.preventDefault();
+                                onAddTag({ name: tagName, color: color });
+                            }
+                        }}
+                        className="goal-tag-input"
+                    />
+                    {!isExistingTag && <Dropdown
+                        items={colorOptions}
+                        value={colorOptions.find(option => option.value === color)}
+                        onChange={(event: any, dropdownProps?: any) => setColor(dropdownProps.value.value)}
+                        aria-label={t('tagColorLabel')}
+                        className="goal-tag-color-dropdown"
+                    />}
+                    <Button size="small" content={t('addButtonText')} disabled={!tagName.trim()} onClick={() => onAddTag({ name: tagName, color: color })} className="add-goal-tag-button" />
+                </Flex>
+                {suggestedTags.length > 0 &&
+                    <Flex gap="gap.smaller" vAlign="center" wrap className="goal-tag-suggestions">
+                        {suggestedTags.map(tag =>
+                            <Button key={tag.name} text size="small" content={"+ " + tag.name} aria-label={t('addExistingTagLabel', { tagName: tag.name })} onClick={() => onAddTag(tag)} className={`goal-tag-suggestion goal-tag-${tag.color}`} />
+                        )}
+                    </Flex>}
+            </>}
+        </Flex>
+    );
+}
+
+export default GoalTagPicker;
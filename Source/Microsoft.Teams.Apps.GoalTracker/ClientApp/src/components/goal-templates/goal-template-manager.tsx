@@ -0,0 +1,115 @@
+﻿// <copyright file="goal-template-manager.tsx" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import React from 'react';
+import { Text, Button, Flex, Input, Dropdown } from '@fluentui/react-northstar';
+import { AddIcon, TrashCanIcon } from '@fluentui/react-icons-northstar';
+import { useTranslation } from 'react-i18next';
+import { Guid } from "guid-typescript";
+import Constants from "../../constants";
+import { getReminderFrequncyCollection } from "../../helpers/goal-helper";
+import { IGoalTemplate } from "../../models/type";
+import "../../styles/style.css";
+
+interface IGoalTemplateManagerProps {
+    templates: IGoalTemplate[],
+    errorMessage: string,
+    isSaving: boolean,
+    onChange: (goalTemplates: IGoalTemplate[]) => void,
+    onSave: () => void,
+    onCancel: () => void,
+}
+
+/** Editor for goal templates published in team. Only team owners can manage templates of team. */
+const GoalTemplateManager: React.FunctionComponent<IGoalTemplateManagerProps> = props => {
+    const { t } = useTranslation();
+    const reminderFrequencies = getReminderFrequncyCollection(t, false).map(frequency => ({ key: frequency.key, header: frequency.name, value: frequency.value }));
+
+    /**
+    * Update field of goal template.
+    * @param goalTemplateId {String} Unique identifier of goal template.
+    * @param changes {Object} Changed fields of goal template.
+    */
+    const onTemplateChange = (goalTemplateId: string, changes: Partial<IGoalTemplate>) => {
+        props.onChange(props.templates.map(goalTemplate => goalTemplate.GoalTemplateId === goalTemplateId ? { ...goalTemplate, ...changes } : goalTemplate));
+    }
+
+    /**
+    * Add empty goal template with monthly reminders.
+    */
+    const onAddTemplate = () => {
+        props.onChange(props.templates.concat({ GoalTemplateId: Guid.create().toString(), GoalName: "", Description: "", ReminderFrequency: 2 }));
+    }
+
+    return (
+        <div className="goal-template-manager">
+            <Flex gap="gap.large" vAlign="center" space="between">
+                <Text weight="bold" content={`${t('manageGoalTemplatesTitle')} (${props.templates.length})`} />
+                <Button
+                    text
+                    size="small"
+                    icon={<AddIcon />}
+                    content={t('addGoalTemplateButtonText')}
+                    disabled={props.templates.length >= Constants.maxAllowedGoalTemplates}
+                    onClick={onAddTemplate}
+                    className="add-goal-template-button"
+                />
+            </Flex>
+            <Text as="p" size="small" content={t('manageGoalTemplatesDescription')} />
+            <div className="goal-template-list">
+                {props.templates.map((goalTemplate, index) => (
+                    <Flex key={goalTemplate.GoalTemplateId} column gap="gap.smaller" className="goal-template-row">
+                        <Flex gap="gap.small" vAlign="center">
+                            <Input
+                                fluid
+                                className="goal-template-name-input"
+                                aria-label={t('goalTemplateNameLabel', { index: index + 1 })}
+                                placeholder={t('goalTemplateNamePlaceholder')}
+                                value={goalTemplate.GoalName}
+                                title={goalTemplate.GoalName}
+                                maxLength={Constants.maxAllowedGoalName}
+                                onChange={(event: any) => onTemplateChange(goalTemplate.GoalTemplateId, { GoalName: event.target.value })}
+                            />
+                            <Button size="smaller" text iconOnly icon={<TrashCanIcon />} title={t('removeGoalTemplateText')} onClick={() => props.onChange(props.templates.filter(template => template.GoalTemplateId !== goalTemplate.GoalTemplateId))} />
+                        </Flex>
+                        <Input
+                            fluid
+                            className="goal-template-description-input"
+                            aria-label={t('goalTemplateDescriptionLabel', { index: index + 1 })}
+                            placeholder={t('goalTemplateDescriptionPlaceholder')}
+                            value={goalTemplate.Description || ""}
+                            maxLength={Constants.maxAllowedGoalDescription}
+                            onChange={(event: any) => onTemplateChange(goalTemplate.GoalTemplateId, { Description: event.target.value })}
+                        />
+                        <Dropdown
+                            items={reminderFrequencies}
+                            value={reminderFrequencies.find(frequency => frequency.value === goalTemplate.ReminderFrequency) || reminderFrequencies[0]}
+                            onChange={(event: any, dropdownProps?: any) => onTemplateChange(goalTemplate.GoalTemplateId, { ReminderFrequency: dropdownProps.value.value })}
+                            aria-label={t('goalTemplateReminderLabel', { index: index + 1 })}
+                            className="goal-template-reminder-dropdown"
+                        />
+                    </Flex>
+                ))}
+            </div>
+            {props.errorMessage && <Text size="small" error content={props.errorMessage} />}
+            <Flex gap="gap.small" vAlign="center" className="goal-templates-actions">
+                <Flex.Item push>
+                    <Flex gap="gap.small">
+                        <Button content={t('cancelButtonText')} disabled={props.isSaving} onClick={props.onCancel} />
+                        <Button
+                            primary
+                            content={t('saveGoalTemplatesButtonText')}
+                            disabled={props.isSaving}
+                            loading={props.isSaving}
+                            onClick={props.onSave}
+                            className="save-goal-templates-button"
+                        />
+                    </Flex>
+                </Flex.Item>
+            </Flex>
+        </div>
+    );
+}
+
+export default GoalTemplateManager;
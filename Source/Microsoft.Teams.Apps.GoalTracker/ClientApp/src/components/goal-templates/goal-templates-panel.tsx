@@ -0,0 +1,110 @@
+﻿// <copyright file="goal-templates-panel.tsx" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import React from 'react';
+import { Text, Button, Flex, Checkbox, Label } from '@fluentui/react-northstar';
+import { useTranslation } from 'react-i18next';
+import { getReminderFrequncyCollection } from "../../helpers/goal-helper";
+import { isSameGoalName } from "../../helpers/goal-template";
+import { IGoalTemplate } from "../../models/type";
+import "../../styles/style.css";
+
+interface IGoalTemplatesPanelProps {
+    curatedTemplates: IGoalTemplate[],
+    teamTemplates: IGoalTemplate[],
+    goalNames: string[],
+    maxGoalsCount: number,
+    onInsert: (goalTemplates: IGoalTemplate[]) => void,
+    onClose: () => void,
+}
+
+/** Lists curated goal templates and templates published in team, so one or more of them can be added to goal list. */
+const GoalTemplatesPanel: React.FunctionComponent<IGoalTemplatesPanelProps> = props => {
+    const { t } = useTranslation();
+    const [selectedTemplateIds, setSelectedTemplateIds] = React.useState<string[]>([]);
+    const reminderFrequencies = getReminderFrequncyCollection(t, false);
+    const goalTemplates = props.teamTemplates.concat(props.curatedTemplates);
+    const isMaxGoalsCountSelected = selectedTemplateIds.length >= props.maxGoalsCount;
+
+    /**
+    * Select or unselect template to be added. Template can not be selected once list has no room for more goals.
+    * @param goalTemplateId {String} Unique identifier of goal template.
+    * @param checked {Boolean} True if template is selected.
+    */
+    const onTemplateSelectionChange = (goalTemplateId: string, checked: boolean) => {
+        if (checked && !isMaxGoalsCountSelected) {
+            setSelectedTemplateIds(selectedTemplateIds.concat(goalTemplateId));
+        }
+        else if (!checked) {
+            setSelectedTemplateIds(selectedTemplateIds.filter(templateId => templateId !== goalTemplateId));
+        }
+    }
+
+    /**
+    * Renders templates of one section of panel.
+    * @param title {String} Title of section.
+    * @param sectionTemplates {Object[]} Templates shown in section.
+    */
+    const templateSection = (title: string, sectionTemplates: IGoalTemplate[]) => {
+        if (sectionTemplates.length === 0) {
+            return null;
+        }
+
+        return (
+            <div className="goal-template-section">
+                <Text size="small" weight="semibold" content={title} />
+                {sectionTemplates.map(goalTemplate => {
+                    let isSelected = selectedTemplateIds.indexOf(goalTemplate.GoalTemplateId) !== -1;
+                    let isGoalInList = props.goalNames.some(goalName => isSameGoalName(goalName, goalTemplate.GoalName));
+                    let reminderFrequency = reminderFrequencies.find(frequency => frequency.value === goalTemplate.ReminderFrequency);
+                    return (
+                        <div key={goalTemplate.GoalTemplateId} className="goal-template">
+                            <Flex gap="gap.small" vAlign="center">
+                                <Checkbox
+                                    label={goalTemplate.GoalName}
+                                    title={goalTemplate.GoalName}
+                                    checked={isSelected}
+                                    disabled={isGoalInList || (!isSelected && isMaxGoalsCountSelected)}
+                                    onChange={(event: any, checkboxProps: any) => onTemplateSelectionChange(goalTemplate.GoalTemplateId, checkboxProps.checked)}
+                                    className="goal-template-checkbox"
+                                />
+                                {isGoalInList && <Label circular content={t('goalTemplateAddedText')} className="goal-template-added-label" />}
+                            </Flex>
+                            {goalTemplate.Description && <Text as="p" size="small" className="goal-template-description" content={goalTemplate.Description} />}
+                            {reminderFrequency && <Text size="small" weight="light" content={t('goalTemplateReminderText', { reminderFrequency: reminderFrequency.label })} />}
+                        </div>
+                    );
+                })}
+            </div>
+        );
+    }
+
+    return (
+        <div className="goal-templates-panel">
+            <Text weight="bold" content={t('goalTemplatesTitle')} />
+            <Text as="p" size="small" content={t('goalTemplatesDescription')} />
+            <div className="goal-template-list">
+                {templateSection(t('teamGoalTemplatesTitle'), props.teamTemplates)}
+                {templateSection(t('curatedGoalTemplatesTitle'), props.curatedTemplates)}
+            </div>
+            {props.maxGoalsCount <= 0 && <Text size="small" error content={t('goalCountValidationText')} />}
+            <Flex gap="gap.small" vAlign="center" className="goal-templates-actions">
+                <Flex.Item push>
+                    <Flex gap="gap.small">
+                        <Button content={t('cancelButtonText')} onClick={props.onClose} />
+                        <Button
+                            secondary
+                            content={t('addGoalTemplatesButtonText', { count: selectedTemplateIds.length })}
+                            disabled={selectedTemplateIds.length === 0}
+                            onClick={() => props.onInsert(goalTemplates.filter(goalTemplate => selectedTemplateIds.indexOf(goalTemplate.GoalTemplateId) !== -1))}
+                            className="add-goal-templates-button"
+                        />
+                    </Flex>
+                </Flex.Item>
+            </Flex>
+        </div>
+    );
+}
+
+export default GoalTemplatesPanel;
@@ -0,0 +1,77 @@
+﻿// <copyright file="goal-timeline.test.tsx" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import * as React from "react";
+import axios, { AxiosError, AxiosRequestConfig } from "axios";
+import GoalTimeline from "./goal-timeline";
+import { setupTestHarness, renderRoute, cleanupRoute, waitFor, click } from "../../mock/test-harness";
+import { getMockBackendData } from "../../mock/mock-backend";
+
+/**
+* Get timeline row of personal goal or team goal.
+* @param container {Object} Element containing rendered component.
+* @param goalId {String} Unique identifier of personal goal or team goal.
+*/
+const getTimelineRow = (container: HTMLElement, goalId: string) => container.querySelector(`.goal-timeline-row[data-goal-id="${goalId}"]`)!;
+
+describe("GoalTimeline", () => {
+    afterEach(cleanupRoute);
+
+    it("shows goals, aligned team goals and notes on timeline", async () => {
+        setupTestHarness();
+        let container = await renderRoute(<GoalTimeline />, "/goal-timeline");
+        await waitFor(() => container.querySelector(".goal-timeline-bar") !== null);
+
+        let data = getMockBackendData();
+        let newsletterRow = getTimelineRow(container, data.personalGoals[0].PersonalGoalId);
+        expect(container.querySelectorAll(".goal-timeline-bar-team")).toHaveLength(2);
+        expect(container.textContent).not.toContain("Publish monthly newsletter");
+        expect(newsletterRow.querySelector(".goal-timeline-bar")!.getAttribute("aria-label")).toContain("Publish weekly newsletter:");
+        expect(Array.from(newsletterRow.querySelectorAll(".goal-timeline-milestone")).map(milestone => milestone.getAttribute("title"))).toEqual([
+            expect.stringContaining("Sent issue #12, open rate was 41%."),
+            expect.stringContaining("Added a reader survey section."),
+        ]);
+        expect(container.querySelector(".goal-timeline-scale .goal-timeline-today")!.textContent).toBe("Today");
+        expect(container.querySelector(".goal-timeline-scale .goal-timeline-cycle-end")!.textContent).toBe("Cycle end");
+    });
+
+    it("shows personal goals with notice when team goals could not be loaded", async () => {
+        setupTestHarness();
+        let mockAdapter = axios.defaults.adapter!;
+        axios.defaults.adapter = (config: AxiosRequestConfig) => {
+            if (!config.url!.includes("/api/teamgoals?")) {
+                return mockAdapter(config);
+            }
+
+            let error = new Error("Request failed with status code 403") as AxiosError;
+            error.config = config;
+            error.response = { data: "", status: 403, statusText: "", headers: {}, config: config };
+            error.isAxiosError = true;
+            return Promise.reject(error);
+        };
+
+        let container = await renderRoute(<GoalTimeline />, "/goal-timeline");
+        await waitFor(() => container.querySelector(".goal-timeline-bar") !== null);
+
+        expect(window.location.pathname).toBe("/goal-timeline");
+        expect(container.querySelectorAll(".goal-timeline-bar-team")).toHaveLength(0);
+        expect(container.textContent).toContain("Publish weekly newsletter");
+        expect(container.querySelector(".goal-timeline-team-goals-error")!.textContent).toContain("could not be loaded");
+    });
+
+    it("zooms timeline to weeks and stores zoom in page URL", async () => {
+        setupTestHarness();
+        let container = await renderRoute(<GoalTimeline />, "/goal-timeline?theme=dark");
+        await waitFor(() => container.querySelector(".goal-timeline-bar") !== null);
+        let monthColumnsCount = container.querySelectorAll(".goal-timeline-column").length;
+        let monthBarWidth = parseInt((container.querySelector(".goal-timeline-bar") as HTMLElement).style.width);
+
+        await click(Array.from(container.querySelectorAll(".goal-timeline-zoom-menu li")).find(item => item.textContent === "Weeks")!);
+
+        expect(new URLSearchParams(window.location.search).get("zoom")).toBe("week");
+        expect(new URLSearchParams(window.location.search).get("theme")).toBe("dark");
+        expect(container.querySelectorAll(".goal-timeline-column").length).toBeGreaterThan(monthColumnsCount);
+        expect(parseInt((container.querySelector(".goal-timeline-bar") as HTMLElement).style.width)).toBe(monthBarWidth * 4);
+    });
+});
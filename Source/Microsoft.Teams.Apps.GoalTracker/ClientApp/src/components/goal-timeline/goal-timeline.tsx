@@ -0,0 +1,349 @@
+﻿// <copyright file="goal-timeline.tsx" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import * as React from 'react';
+import { Loader, Flex, Text, Menu } from "@fluentui/react-northstar";
+import { WithTranslation, withTranslation } from "react-i18next";
+import { TFunction } from "i18next";
+import { SeverityLevel } from "@microsoft/applicationinsights-web";
+import { createBrowserHistory } from "history";
+import moment from "moment";
+import { getApplicationInsightsInstance } from "../../helpers/app-insights";
+import { getPersonalGoalDetails } from "../../api/personal-goal-api";
+import { getTeamGoalDetailsByTeamId } from "../../api/team-goal-api";
+import { getUserPersonalGoalNoteDetails } from "../../api/personal-goal-note-api";
+import { getCachedQueryData, queryKeys } from "../../api/query-cache";
+import { handleRefreshError } from "../../helpers/goal-helper";
+import { createRequestCanceller, isRequestCancelled } from "../../helpers/request-cancellation";
+import { withTeamsContext } from "../../helpers/teams-context";
+import { formatGoalCycleDates } from "../../helpers/goal-cycle";
+import { createTimelineItems, getGoalCycleEndDate, getTimelineScale, getTimelineOffset } from "../../helpers/goal-timeline";
+import Constants from "../../constants";
+import { IPersonalGoalDetail, IPersonalGoalNoteDetail, ITeamGoalDetail, IRequestCanceller, ITeamsContextProps, ITimelineItem, ITimelineScale, TimelineZoom } from "../../models/type";
+import "../../styles/style.css";
+
+interface IGoalTimelineState {
+    loader: boolean,
+    goalsData: IPersonalGoalDetail[],
+    teamGoalsData: ITeamGoalDetail[],
+    notesData: IPersonalGoalNoteDetail[],
+    zoom: TimelineZoom,
+    hasTeamGoalsError: boolean,
+}
+
+const browserHistory = createBrowserHistory({ basename: "" });
+const timelineZooms: TimelineZoom[] = ["week", "month"];
+
+/**
+* Read zoom level of timeline from query of page URL.
+* @param search {String} Query string of page URL.
+*/
+const getTimelineZoomFromQuery = (search: string): TimelineZoom => {
+    let zoom = new URLSearchParams(search).get(Constants.timelineZoomQueryParameter) as TimelineZoom;
+    return timelineZooms.indexOf(zoom) !== -1 ? zoom : "month";
+}
+
+/** Component for displaying personal goals and aligned team goals on timeline of goal cycle. */
+class GoalTimeline extends React.Component<WithTranslation & ITeamsContextProps, IGoalTimelineState> {
+    localize: TFunction;
+    telemetry?: any = null;
+    appInsights: any;
+    isCachedDataRendered: boolean = false;
+    requestCanceller: IRequestCanceller;
+
+    constructor(props: any) {
+        super(props);
+        this.localize = this.props.t;
+        this.state = {
+            loader: false,
+            goalsData: [],
+            teamGoalsData: [],
+            notesData: [],
+            zoom: getTimelineZoomFromQuery(window.location.search),
+            hasTeamGoalsError: false,
+        };
+
+        this.requestCanceller = createRequestCanceller();
+    }
+
+    /** Called once component is mounted. */
+    componentDidMount() {
+        this.appInsights = getApplicationInsightsInstance(this.telemetry, browserHistory);
+        this.isCachedDataRendered = this.renderCachedTimeline();
+        this.setState({ loader: !this.isCachedDataRendered });
+        this.getTimelineDetails();
+    }
+
+    /** Called when component is unmounted. */
+    componentWillUnmount() {
+        this.requestCanceller.cancel();
+    }
+
+    /**
+    *  Get unique identifiers of teams in which personal goals are aligned.
+    * */
+    getAlignedTeamIds = (personalGoalDetails: IPersonalGoalDetail[]) => {
+        let teamIds: string[] = [];
+        personalGoalDetails.forEach((goalDetail) => {
+            if (goalDetail.IsAligned && goalDetail.TeamId && teamIds.indexOf(goalDetail.TeamId) === -1) {
+                teamIds.push(goalDetail.TeamId);
+            }
+        });
+
+        return teamIds;
+    }
+
+    /**
+    *  Renders goals, team goals and notes cached by earlier visit so page does not open with loader.
+    *  @returns True if all data needed for page was cached.
+    * */
+    renderCachedTimeline = () => {
+        let personalGoalDetails = getCachedQueryData<IPersonalGoalDetail[]>(queryKeys.personalGoals());
+        let personalGoalNoteDetails = getCachedQueryData<IPersonalGoalNoteDetail[]>(queryKeys.userPersonalGoalNotes());
+        if (!personalGoalDetails || !personalGoalNoteDetails) {
+            return false;
+        }
+
+        let teamGoalDetails: ITeamGoalDetail[] = [];
+        for (let teamId of this.getAlignedTeamIds(personalGoalDetails)) {
+            let cachedTeamGoalDetails = getCachedQueryData<ITeamGoalDetail[]>(queryKeys.teamGoals(teamId));
+            if (!cachedTeamGoalDetails) {
+                return false;
+            }
+
+            teamGoalDetails = teamGoalDetails.concat(cachedTeamGoalDetails);
+        }
+
+        this.setState({ goalsData: personalGoalDetails, teamGoalsData: teamGoalDetails, notesData: personalGoalNoteDetails });
+        return true;
+    }
+
+    /**
+    *  Get personal goals, team goals they are aligned with and notes from storage.
+    *  Team goals which could not be loaded are taken from cache or left out with inline notice, so that personal goals are still shown.
+    * */
+    getTimelineDetails = async () => {
+        this.appInsights.trackTrace({ message: `'getTimelineDetails' - Request initiated`, severityLevel: SeverityLevel.Information });
+        const personalGoalDetailsResponse = await getPersonalGoalDetails(this.requestCanceller.signal);
+        if (isRequestCancelled(personalGoalDetailsResponse)) {
+            return;
+        }
+        else if (!personalGoalDetailsResponse.isSuccess) {
+            handleRefreshError(personalGoalDetailsResponse, this.isCachedDataRendered);
+            this.setState({ loader: false });
+            return;
+        }
+
+        let personalGoalDetails = personalGoalDetailsResponse.data || [];
+        let teamGoalDetails: ITeamGoalDetail[] = [];
+        let hasTeamGoalsError = false;
+        for (let teamId of this.getAlignedTeamIds(personalGoalDetails)) {
+            const teamGoalDetailsResponse = await getTeamGoalDetailsByTeamId(teamId, this.requestCanceller.signal);
+            if (isRequestCancelled(teamGoalDetailsResponse)) {
+                return;
+            }
+            else if (teamGoalDetailsResponse.isSuccess) {
+                teamGoalDetails = teamGoalDetails.concat(teamGoalDetailsResponse.data);
+            }
+            else {
+                let cachedTeamGoalDetails = getCachedQueryData<ITeamGoalDetail[]>(queryKeys.teamGoals(teamId));
+                teamGoalDetails = teamGoalDetails.concat(cachedTeamGoalDetails || []);
+                hasTeamGoalsError = hasTeamGoalsError || !cachedTeamGoalDetails;
+            }
+        }
+
+        const personalGoalNoteDetailsResponse = await getUserPersonalGoalNoteDetails(this.requestCanceller.signal);
+        if (isRequestCancelled(personalGoalNoteDetailsResponse)) {
+            return;
+        }
+        else if (!personalGoalNoteDetailsResponse.isSuccess) {
+            handleRefreshError(personalGoalNoteDetailsResponse, this.isCachedDataRendered);
+        }
+
+        this.setState({
+            loader: false,
+            goalsData: personalGoalDetails,
+            teamGoalsData: teamGoalDetails,
+            notesData: personalGoalNoteDetailsResponse.isSuccess ? personalGoalNoteDetailsResponse.data : this.state.notesData,
+            hasTeamGoalsError: hasTeamGoalsError,
+        });
+    }
+
+    /**
+    *  Switches zoom level of timeline and stores it in page URL.
+    * */
+    onZoomChange = (zoom: TimelineZoom) => {
+        let params = new URLSearchParams(window.location.search);
+        if (zoom !== "month") {
+            params.set(Constants.timelineZoomQueryParameter, zoom);
+        }
+        else {
+            params.delete(Constants.timelineZoomQueryParameter);
+        }
+
+        let query = params.toString();
+        window.history.replaceState(null, "", `${window.location.pathname}${query ? `?${query}` : ""}`);
+        this.setState({ zoom: zoom });
+    }
+
+    /**
+    *   Renders vertical line marking date on timeline.
+    */
+    private dateMarker = (scale: ITimelineScale, date: string | null, className: string, label?: string) => {
+        if (!date) {
+            return null;
+        }
+
+        return (
+            <div className={`goal-timeline-marker ${className}`} style={{ left: getTimelineOffset(scale, date) + scale.dayWidth / 2 }}>
+                {label && <Text size="small" className="goal-timeline-marker-label" content={label} />}
+            </div>
+        );
+    }
+
+    /**
+    *   Renders timeline row of goal with bar between its start and end date, and milestone for each note.
+    */
+    private timelineRow = (item: ITimelineItem, scale: ITimelineScale, today: string, goalCycleEndDate: string | null) => {
+        let startOffset = getTimelineOffset(scale, item.startDate);
+        let barLabel = this.localize("timelineBarLabel", {
+            goalName: item.title,
+            startDate: moment(item.startDate).format(Constants.goalCycleDateTimeFormat),
+            endDate: moment(item.endDate).format(Constants.goalCycleDateTimeFormat),
+        });
+
+        return (
+            <div className="goal-timeline-row" key={item.key} data-goal-id={item.key}>
+                <div className="goal-timeline-label">
+                    <Text content={item.title} title={item.title} />
+                </div>
+                <div className="goal-timeline-track" style={{ width: scale.width }}>
+                    {this.dateMarker(scale, today, "goal-timeline-today")}
+                    {this.dateMarker(scale, goalCycleEndDate, "goal-timeline-cycle-end")}
+                    <div
+                        role="img"
+                        aria-label={barLabel}
+                        title={barLabel}
+                        className={`goal-timeline-bar ${item.isTeamGoal ? "goal-timeline-bar-team" : `goal-timeline-bar-status-${item.status}`}`}
+                        style={{ left: startOffset, width: getTimelineOffset(scale, item.endDate) - startOffset + scale.dayWidth }}
+                    />
+                    {item.milestones.map((milestone) => {
+                        let milestoneLabel = `${moment(milestone.date).format(Constants.goalCycleDateTimeFormat)}: ${milestone.title}`;
+                        return (
+                            <div
+                                key={milestone.key}
+                                role="img"
+                                aria-label={milestoneLabel}
+                                title={milestoneLabel}
+                                className="goal-timeline-milestone"
+                                style={{ left: getTimelineOffset(scale, milestone.date) + scale.dayWidth / 2 }}
+                            />
+                        );
+                    })}
+                </div>
+            </div>
+        );
+    }
+
+    /**
+    *   Renders timeline of personal goals followed by team goals they are aligned with.
+    */
+    private timeline = () => {
+        let items = createTimelineItems(this.state.goalsData, this.state.teamGoalsData, this.state.notesData);
+        let today = moment().format(Constants.dateComparisonFormat);
+        let goalCycleEndDate = getGoalCycleEndDate(this.state.goalsData);
+        let scale = getTimelineScale(items, this.state.zoom, goalCycleEndDate ? [today, goalCycleEndDate] : [today]);
+        let teamGoalItems = items.filter(item => item.isTeamGoal);
+
+        return (
+            <div className="goal-timeline" role="group" aria-label={this.localize("goalTimelineLabel")}>
+                <div className="goal-timeline-row goal-timeline-scale">
+                    <div className="goal-timeline-label" />
+                    <div className="goal-timeline-track" style={{ width: scale.width }}>
+                        {scale.columns.map(column => (
+                            <div key={column.key} className="goal-timeline-column" style={{ left: column.offset, width: column.width }}>
+                                <Text size="small" content={column.label} />
+                            </div>
+                        ))}
+                        {this.dateMarker(scale, today, "goal-timeline-today", this.localize("todayText"))}
+                        {this.dateMarker(scale, goalCycleEndDate, "goal-timeline-cycle-end", this.localize("goalCycleEndText"))}
+                    </div>
+                </div>
+                <Text weight="semibold" className="goal-timeline-group-header" content={this.localize("personalGoalsHeader")} />
+                {items.filter(item => !item.isTeamGoal).map(item => this.timelineRow(item, scale, today, goalCycleEndDate))}
+                {teamGoalItems.length > 0 && <Text weight="semibold" className="goal-timeline-group-header" content={this.localize("alignedTeamGoalsHeader")} />}
+                {teamGoalItems.map(item => this.timelineRow(item, scale, today, goalCycleEndDate))}
+                {this.state.hasTeamGoalsError && <Text error className="goal-timeline-team-goals-error" content={this.localize("alignedTeamGoalsLoadError")} />}
+            </div>
+        );
+    }
+
+    /**
+    *   Renders goal cycle information and zoom menu.
+    */
+    private pageHeader = () => {
+        let zoomItems = [
+            { key: "week", content: this.localize("weekZoomText"), onClick: () => this.onZoomChange("week") },
+            { key: "month", content: this.localize("monthZoomText"), onClick: () => this.onZoomChange("month") },
+        ];
+        let goalDetail = this.state.goalsData[0];
+
+        return (
+            <Flex gap="gap.small" vAlign="center">
+                {goalDetail && <Text weight="bold" className="goal-cycle" align="center" content={`${this.localize("goalCycleText")}: ${formatGoalCycleDates(goalDetail.StartDate, goalDetail.EndDate, this.localize)}`} />}
+                {!this.state.loader && this.state.goalsData.length > 0 && <Flex.Item push>
+                    <Menu
+                        underlined
+                        primary
+                        className="goal-timeline-zoom-menu"
+                        activeIndex={zoomItems.findIndex(zoomItem => zoomItem.key === this.state.zoom)}
+                        aria-label={this.localize("timelineZoomMenuLabel")}
+                        items={zoomItems}
+                    />
+                </Flex.Item>}
+            </Flex>
+        );
+    }
+
+    /**
+    *   Get wrapper for page which acts as container for all child components.
+    */
+    private getTimelineContent = () => {
+        if (this.state.loader) {
+            return (
+                <div className="loader">
+                    <Loader />
+                </div>
+            );
+        }
+        else if (this.state.goalsData.length > 0) {
+            return this.timeline();
+        }
+        else {
+            return (
+                <Flex className="error-container" hAlign="center" vAlign="stretch">
+                    <div>
+                        <div><Text content={this.localize('noActiveGoalsMessage')} /></div>
+                    </div>
+                </Flex>
+            );
+        }
+    }
+
+    /**
+    *    Renders the component.
+    */
+    public render() {
+        return (
+            <div className="container-tab">
+                <div className="accordian-container">
+                    {this.pageHeader()}
+                    {this.getTimelineContent()}
+                </div>
+            </div>
+        );
+    }
+}
+
+export default withTranslation()(withTeamsContext(GoalTimeline));
@@ -0,0 +1,255 @@
+﻿// <copyright file="edit-goal-detail.test.tsx" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import * as React from "react";
+import moment from "moment";
+import axios, { AxiosError, AxiosRequestConfig } from "axios";
+import EditGoal from "./edit-goal-detail";
+import { setupTestHarness, renderRoute, cleanupRoute, waitFor, findButton, click, changeInputValue } from "../../mock/test-harness";
+import { getMockBackendData, setMockBackendData } from "../../mock/mock-backend";
+import { IPersonalGoalDetail } from "../../models/type";
+import Constants from "../../constants";
+
+/**
+* Get seeded personal goal by its name.
+* @param goalName {String} Name of personal goal.
+*/
+const getPersonalGoal = (goalName: string): IPersonalGoalDetail => getMockBackendData().personalGoals.find(goal => goal.GoalName === goalName)!;
+
+/**
+* Get goal name input of edit goal form.
+* @param container {Object} Element containing rendered component.
+*/
+const getGoalNameInput = (container: HTMLElement) => container.querySelector(".goal-name-input input") as HTMLInputElement;
+
+describe("EditGoal", () => {
+    afterEach(cleanupRoute);
+
+    it("shows goal detail and notes", async () => {
+        setupTestHarness();
+        let personalGoal = getPersonalGoal("Publish weekly newsletter");
+        let container = await renderRoute(<EditGoal />, `/edit-goal-detail?goalId=${personalGoal.PersonalGoalId}`);
+
+        await waitFor(() => container.textContent!.includes("Sent issue #12, open rate was 41%."));
+        expect(getGoalNameInput(container).value).toBe("Publish weekly newsletter");
+        expect(container.textContent).toContain("Added a reader survey section.");
+    });
+
+    it("saves changed goal detail and closes task module", async () => {
+        let fakeTeamsHost = setupTestHarness();
+        let personalGoal = getPersonalGoal("Publish weekly newsletter");
+        let container = await renderRoute(<EditGoal />, `/edit-goal-detail?goalId=${personalGoal.PersonalGoalId}`);
+        await waitFor(() => getGoalNameInput(container) !== null && getGoalNameInput(container).value === "Publish weekly newsletter");
+
+        await changeInputValue(getGoalNameInput(container), "Publish newsletter every Monday");
+        await click(findButton(container, "Save")!);
+        await waitFor(() => fakeTeamsHost.submittedTasks.length > 0);
+
+        let savedGoal = getMockBackendData().personalGoals.find(goal => goal.PersonalGoalId === personalGoal.PersonalGoalId)!;
+        expect(savedGoal.GoalName).toBe("Publish newsletter every Monday");
+        expect(savedGoal.LastModifiedOn).not.toBe(personalGoal.LastModifiedOn);
+    });
+
+    it("rolls up progress from updated key result", async () => {
+        let fakeTeamsHost = setupTestHarness();
+        let personalGoal = getPersonalGoal("Publish weekly newsletter");
+        let container = await renderRoute(<EditGoal />, `/edit-goal-detail?goalId=${personalGoal.PersonalGoalId}`);
+        await waitFor(() => container.querySelector(".key-result") !== null);
+
+        await changeInputValue(container.querySelector(`.key-result input[aria-label="Current value"]`) as HTMLInputElement, "12");
+        expect(container.querySelector(`.goal-progress-editor [role="progressbar"]`)!.getAttribute("aria-valuenow")).toBe("96");
+        await click(findButton(container, "Save")!);
+        await waitFor(() => fakeTeamsHost.submittedTasks.length > 0);
+
+        let savedGoal = getPersonalGoal("Publish weekly newsletter");
+        expect(savedGoal.Progress).toBe(96);
+        expect(JSON.parse(savedGoal.KeyResults!)[0].currentValue).toBe(12);
+    });
+
+    it("does not save key result without description", async () => {
+        let fakeTeamsHost = setupTestHarness();
+        let personalGoal = getPersonalGoal("Mentor a new team member");
+        let container = await renderRoute(<EditGoal />, `/edit-goal-detail?goalId=${personalGoal.PersonalGoalId}`);
+        await waitFor(() => container.querySelector(".goal-progress-input") !== null);
+
+        expect((container.querySelector(".goal-progress-input input") as HTMLInputElement).value).toBe("50");
+        await click(findButton(container, "Add key result")!);
+        await click(findButton(container, "Save")!);
+
+        expect(container.textContent).toContain("Key result description cannot be empty.");
+        expect(fakeTeamsHost.submittedTasks).toHaveLength(0);
+    });
+
+    it("does not save due date outside goal cycle", async () => {
+        let fakeTeamsHost = setupTestHarness(undefined, data => {
+            let storedGoal = data.personalGoals.find(goal => goal.GoalName === "Mentor a new team member")!;
+            storedGoal.DueDate = moment(storedGoal.EndDate, Constants.dateTimeOffsetFormat).add(1, "week").format(Constants.dateTimeOffsetFormat);
+        });
+        let personalGoal = getPersonalGoal("Mentor a new team member");
+        let container = await renderRoute(<EditGoal />, `/edit-goal-detail?goalId=${personalGoal.PersonalGoalId}`);
+        await waitFor(() => findButton(container, "Clear due date") !== undefined);
+
+        await click(findButton(container, "Save")!);
+        expect(container.textContent).toContain("Due date must be within the goal cycle.");
+        expect(fakeTeamsHost.submittedTasks).toHaveLength(0);
+
+        await click(findButton(container, "Clear due date")!);
+        await click(findButton(container, "Save")!);
+        await waitFor(() => fakeTeamsHost.submittedTasks.length > 0);
+
+        let savedGoal = getPersonalGoal("Mentor a new team member");
+        expect(savedGoal.DueDate).toBeNull();
+        expect(savedGoal.Priority).toBe(1);
+    });
+
+    it("saves tags changed in tag picker", async () => {
+        let fakeTeamsHost = setupTestHarness();
+        let personalGoal = getPersonalGoal("Publish weekly newsletter");
+        let container = await renderRoute(<EditGoal />, `/edit-goal-detail?goalId=${personalGoal.PersonalGoalId}`);
+        await waitFor(() => container.querySelector(".goal-tag-picker") !== null);
+
+        await click(container.querySelector(`.goal-tag-picker button[title="Remove tag Delivery"]`)!);
+        await changeInputValue(container.querySelector(".goal-tag-picker .goal-tag-input input") as HTMLInputElement, "Wellbeing");
+        await click(container.querySelector(".goal-tag-picker .add-goal-tag-button")!);
+        expect(container.querySelector(".goal-tag-picker .goal-tag-suggestion")!.textContent).toBe("+ Delivery");
+        await click(findButton(container, "Save")!);
+        await waitFor(() => fakeTeamsHost.submittedTasks.length > 0);
+
+        expect(JSON.parse(getPersonalGoal("Publish weekly newsletter").Tags!)).toEqual([{ name: "Wellbeing", color: "green" }]);
+    });
+
+    it("saves ticked definition of done and leaves out empty criteria", async () => {
+        let fakeTeamsHost = setupTestHarness();
+        let personalGoal = getPersonalGoal("Publish weekly newsletter");
+        let container = await renderRoute(<EditGoal />, `/edit-goal-detail?goalId=${personalGoal.PersonalGoalId}`);
+        await waitFor(() => container.querySelector(".done-criterion") !== null);
+
+        await click(container.querySelector(`.done-criterion [aria-label="Criterion 1 is done"]`)!);
+        await changeInputValue(container.querySelector(`.done-criterion input[aria-label="Criterion 2"]`) as HTMLInputElement, "Survey results shared");
+        await click(findButton(container, "Add criterion")!);
+        expect(container.querySelectorAll(".done-criterion")).toHaveLength(3);
+        await click(findButton(container, "Save")!);
+        await waitFor(() => fakeTeamsHost.submittedTasks.length > 0);
+
+        let criteria = JSON.parse(getPersonalGoal("Publish weekly newsletter").DefinitionOfDone!);
+        expect(criteria.map((criterion: any) => [criterion.text, criterion.isDone])).toEqual([["Twelve issues sent", true], ["Survey results shared", true]]);
+    });
+
+    it("does not save goal without name", async () => {
+        let fakeTeamsHost = setupTestHarness();
+        let personalGoal = getPersonalGoal("Publish weekly newsletter");
+        let container = await renderRoute(<EditGoal />, `/edit-goal-detail?goalId=${personalGoal.PersonalGoalId}`);
+        await waitFor(() => getGoalNameInput(container) !== null && getGoalNameInput(container).value === "Publish weekly newsletter");
+
+        await changeInputValue(getGoalNameInput(container), "");
+        await click(findButton(container, "Save")!);
+
+        expect(container.textContent).toContain("Goal Name can't be empty.");
+        expect(fakeTeamsHost.submittedTasks).toHaveLength(0);
+    });
+
+    it("shows merge dialog when goal was changed by another client", async () => {
+        let fakeTeamsHost = setupTestHarness();
+        let personalGoal = getPersonalGoal("Publish weekly newsletter");
+        let container = await renderRoute(<EditGoal />, `/edit-goal-detail?goalId=${personalGoal.PersonalGoalId}`);
+        await waitFor(() => getGoalNameInput(container) !== null && getGoalNameInput(container).value === "Publish weekly newsletter");
+
+        let data = getMockBackendData();
+        let storedGoal = data.personalGoals.find(goal => goal.PersonalGoalId === personalGoal.PersonalGoalId)!;
+        storedGoal.GoalName = "Publish biweekly newsletter";
+        storedGoal.LastModifiedOn = new Date().toISOString();
+        setMockBackendData(data);
+
+        await changeInputValue(getGoalNameInput(container), "Publish newsletter every Monday");
+        await click(findButton(container, "Save")!);
+        await waitFor(() => document.body.textContent!.includes("Publish biweekly newsletter"));
+
+        expect(fakeTeamsHost.submittedTasks).toHaveLength(0);
+        expect(getPersonalGoal("Publish biweekly newsletter")).toBeDefined();
+    });
+
+    it("saves goal again without conflict after its notes could not be saved", async () => {
+        let fakeTeamsHost = setupTestHarness();
+        let mockAdapter = axios.defaults.adapter!;
+        let failedNoteSaveCount = 0;
+        axios.defaults.adapter = (config: AxiosRequestConfig) => {
+            if (config.method !== "put" || !config.url!.endsWith("/api/notes") || failedNoteSaveCount > 0) {
+                return mockAdapter(config);
+            }
+
+            failedNoteSaveCount++;
+            let error = new Error("Request failed with status code 400") as AxiosError;
+            error.config = config;
+            error.response = { data: "", status: 400, statusText: "", headers: {}, config: config };
+            error.isAxiosError = true;
+            return Promise.reject(error);
+        };
+        let personalGoal = getPersonalGoal("Publish weekly newsletter");
+        let container = await renderRoute(<EditGoal />, `/edit-goal-detail?goalId=${personalGoal.PersonalGoalId}`);
+        await waitFor(() => getGoalNameInput(container) !== null && getGoalNameInput(container).value === "Publish weekly newsletter");
+
+        await changeInputValue(getGoalNameInput(container), "Publish newsletter every Monday");
+        await click(findButton(container, "Save")!);
+        await waitFor(() => container.textContent!.includes("Error in saving goal note details."));
+        await click(findButton(container, "Save")!);
+        await waitFor(() => fakeTeamsHost.submittedTasks.length > 0);
+
+        expect(document.body.textContent).not.toContain("This goal was changed elsewhere");
+        expect(getPersonalGoal("Publish newsletter every Monday")).toBeDefined();
+    });
+
+    it("keeps deleted note when deletion is undone before save", async () => {
+        let fakeTeamsHost = setupTestHarness();
+        let personalGoal = getPersonalGoal("Publish weekly newsletter");
+        let container = await renderRoute(<EditGoal />, `/edit-goal-detail?goalId=${personalGoal.PersonalGoalId}`);
+        await waitFor(() => container.textContent!.includes("Sent issue #12, open rate was 41%."));
+
+        await click(container.querySelector(`button[title="Delete"]`)!);
+        expect(container.textContent).not.toContain("Sent issue #12, open rate was 41%.");
+        await click(findButton(container, "Undo")!);
+        expect(container.querySelector(".undo-toast")).toBeNull();
+        await click(findButton(container, "Save")!);
+        await waitFor(() => fakeTeamsHost.submittedTasks.length > 0);
+
+        expect(getMockBackendData().personalGoalNotes.map(note => note.PersonalGoalNoteDescription)).toContain("Sent issue #12, open rate was 41%.");
+    });
+
+    it("saves checklist item ticked in note view", async () => {
+        let fakeTeamsHost = setupTestHarness(undefined, data => {
+            data.personalGoalNotes.find(note => note.PersonalGoalNoteDescription === "Sent issue #12, open rate was 41%.")!.PersonalGoalNoteDescription = "Issue #13 checklist\n- [ ] Proofread\n- [ ] Send to **all** readers";
+        });
+        let personalGoal = getPersonalGoal("Publish weekly newsletter");
+        let container = await renderRoute(<EditGoal />, `/edit-goal-detail?goalId=${personalGoal.PersonalGoalId}`);
+        await waitFor(() => container.querySelector(".note-checklist-checkbox") !== null);
+
+        expect(container.querySelector(".note-checklist strong")!.textContent).toBe("all");
+        await click(container.querySelectorAll(".note-checklist-checkbox")[1]);
+        await click(findButton(container, "Save")!);
+        await waitFor(() => fakeTeamsHost.submittedTasks.length > 0);
+
+        expect(getMockBackendData().personalGoalNotes.map(note => note.PersonalGoalNoteDescription)).toContain("Issue #13 checklist\n- [ ] Proofread\n- [x] Send to **all** readers");
+    });
+
+    it("restores note revision from history and keeps replaced text as revision", async () => {
+        let fakeTeamsHost = setupTestHarness(undefined, data => {
+            data.personalGoalNotes.find(note => note.PersonalGoalNoteDescription === "Sent issue #12, open rate was 41%.")!.Revisions = JSON.stringify([
+                { description: "Sent issue #12, open rate was 38%.", modifiedOn: moment().subtract(2, "day").toISOString(), modifiedBy: "Adele Vance" }
+            ]);
+        });
+        let personalGoal = getPersonalGoal("Publish weekly newsletter");
+        let container = await renderRoute(<EditGoal />, `/edit-goal-detail?goalId=${personalGoal.PersonalGoalId}`);
+        await waitFor(() => container.querySelector(".note-edited-label") !== null);
+
+        await click(findButton(container, "History")!);
+        expect(container.querySelector(".note-diff-removed")!.textContent).toBe("38%.");
+        expect(container.querySelector(".note-diff-added")!.textContent).toBe("41%.");
+        await click(container.querySelector(".restore-note-revision-button")!);
+        expect(container.textContent).toContain("Sent issue #12, open rate was 38%.");
+        await click(findButton(container, "Save")!);
+        await waitFor(() => fakeTeamsHost.submittedTasks.length > 0);
+
+        let savedNote = getMockBackendData().personalGoalNotes.find(note => note.PersonalGoalNoteDescription === "Sent issue #12, open rate was 38%.")!;
+        expect(JSON.parse(savedNote.Revisions!).map((revision: any) => revision.description)).toEqual(["Sent issue #12, open rate was 38%.", "Sent issue #12, open rate was 41%."]);
+    });
+});
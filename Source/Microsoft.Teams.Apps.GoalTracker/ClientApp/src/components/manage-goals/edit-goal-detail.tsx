@@ -3,7 +3,6 @@
 // </copyright>
 
 import * as React from 'react';
-import * as microsoftTeams from "@microsoft/teams-js";
 import { Loader, Flex, Text, Input, Dropdown, Button, Checkbox, RadioGroup } from "@fluentui/react-northstar";
 import { WithTranslation, withTranslation } from "react-i18next";
 import { TFunction } from "i18next";
@@ -13,11 +12,25 @@ import { getApplicationInsightsInstance } from "../../helpers/app-insights";
 import { getPersonalGoalDetailByGoalIdAsync, updatePersonalGoalDetail } from "../../api/personal-goal-api";
 import { getPersonalGoalNoteDetails, savePersonalGoalNoteDetails, deletePersonalGoalNoteDetails } from "../../api/personal-goal-note-api";
 import { getTeamGoalDetailByTeamGoalId } from "../../api/team-goal-api";
-import { IPersonalGoalDetail, IPersonalGoalNoteDetail } from "../../models/type";
-import { handleError, getGoalStatusCollection } from "../../helpers/goal-helper";
+import { getCachedQueryData, queryKeys } from "../../api/query-cache";
+import { IPersonalGoalDetail, IPersonalGoalNoteDetail, ITeamGoalDetail, IRequestCanceller, ITeamsContextProps, IGoalTag, IDoneCriterion } from "../../models/type";
+import { handleRefreshError, getGoalStatusCollection } from "../../helpers/goal-helper";
+import { createRequestCanceller, isRequestCancelled, submitTask } from "../../helpers/request-cancellation";
+import { withTeamsContext } from "../../helpers/teams-context";
+import { formatGoalCycleDates } from "../../helpers/goal-cycle";
+import { getKeyResults } from "../../helpers/goal-progress";
+import { isGoalDueDateInGoalCycle } from "../../helpers/goal-due-date";
+import { toggleNoteChecklistItem } from "../../helpers/note-markdown";
+import { getAvailableTags, getTags, getTagsValue } from "../../helpers/goal-tag";
+import { getDoneCriteria, getDoneCriteriaValue, getDescriptionValue } from "../../helpers/goal-definition";
 import PersonalGoalNote from "./personal-goal-notes"
+import GoalMergeDialog from "./goal-merge-dialog";
+import GoalProgressEditor from "./goal-progress-editor";
+import GoalDueDateEditor from "./goal-due-date-editor";
+import UndoToast from "./undo-toast";
+import GoalTagPicker from "../goal-tags/goal-tag-picker";
+import GoalDefinitionEditor from "../goal-definition/goal-definition-editor";
 import Constants from "../../constants";
-let moment = require('moment');
 
 interface IEditGoalState {
     loader: boolean,
@@ -27,24 +40,31 @@ interface IEditGoalState {
     deletedNotesData: IPersonalGoalNoteDetail[],
     goalStatus: any,
     isGoalDetailsLoading: boolean,
-    isGoalSaved: boolean
+    isGoalSaved: boolean,
+    serverPersonalGoalDetail: IPersonalGoalDetail | null,
+    serverNotesData: IPersonalGoalNoteDetail[],
+    lastDeletedNote: IPersonalGoalNoteDetail | null,
+    lastDeletedNoteIndex: number
 }
 
 const browserHistory = createBrowserHistory({ basename: "" });
 
 /** Component for displaying edit personal goal. */
-class EditGoal extends React.Component<WithTranslation, IEditGoalState> {
+class EditGoal extends React.Component<WithTranslation & ITeamsContextProps, IEditGoalState> {
     localize: TFunction;
     telemetry?: any = null;
     appInsights: any;
     personalGoalId: string | null = null;
-    userEmail?: any = null;
     teamId?: string | null;
     botId: string;
     appBaseUrl: string;
     goalCycle: string;
     notesCount: string;
     goalStatusCollection: any;
+    isCachedDataRendered: boolean = false;
+    renderedPersonalGoalDetail: string = "";
+    renderedPersonalGoalNoteDetails: string = "";
+    requestCanceller: IRequestCanceller;
 
     constructor(props: any) {
         super(props);
@@ -57,7 +77,11 @@ class EditGoal extends React.Component<WithTranslation, IEditGoalState> {
             deletedNotesData: [] as IPersonalGoalNoteDetail[],
             goalStatus: {},
             isGoalDetailsLoading: false,
-            isGoalSaved : false
+            isGoalSaved : false,
+            serverPersonalGoalDetail: null,
+            serverNotesData: [],
+            lastDeletedNote: null,
+            lastDeletedNoteIndex: -1
         };
 
         let search = window.location.search;
@@ -68,19 +92,54 @@ class EditGoal extends React.Component<WithTranslation, IEditGoalState> {
         this.notesCount = "";
         this.appBaseUrl = window.location.origin;
         this.goalStatusCollection = getGoalStatusCollection(this.localize);
+        this.requestCanceller = createRequestCanceller();
     }
 
     /**
     *  Called once component is mounted.
     * */
     async componentDidMount() {
-        microsoftTeams.initialize();
-        microsoftTeams.getContext((context) => {
-            this.userEmail = context.upn;
-            this.appInsights = getApplicationInsightsInstance(this.telemetry, browserHistory);
-            this.getPersonalGoalDetails();
-            this.getPersonalGoalNoteDetails();
-        });
+        this.appInsights = getApplicationInsightsInstance(this.telemetry, browserHistory);
+        this.isCachedDataRendered = this.renderCachedGoalDetails();
+        this.setState({ loader: !this.isCachedDataRendered });
+        this.getPersonalGoalDetails();
+        this.getPersonalGoalNoteDetails();
+    }
+
+    /**
+    *  Called before component is unmounted. Cancels requests which are still in progress.
+    * */
+    componentWillUnmount() {
+        this.requestCanceller.cancel();
+    }
+
+    /**
+    *  Renders goal details cached by earlier visit so task module does not open with loader.
+    *  Personal goal is taken from personal goal list if it was not opened before.
+    *  @returns True if all data needed for task module was cached.
+    * */
+    renderCachedGoalDetails = () => {
+        let personalGoalDetail = getCachedQueryData<IPersonalGoalDetail>(queryKeys.personalGoal(this.personalGoalId))
+            || getCachedQueryData<IPersonalGoalDetail[]>(queryKeys.personalGoals())?.find(goalDetail => goalDetail.PersonalGoalId === this.personalGoalId);
+        let personalGoalNoteDetails = getCachedQueryData<IPersonalGoalNoteDetail[]>(queryKeys.personalGoalNotes(this.personalGoalId));
+        if (!personalGoalDetail || !personalGoalNoteDetails) {
+            return false;
+        }
+
+        let teamGoalDetail: ITeamGoalDetail | undefined;
+        if (personalGoalDetail.IsAligned) {
+            teamGoalDetail = getCachedQueryData<ITeamGoalDetail>(queryKeys.teamGoal(personalGoalDetail.TeamId, personalGoalDetail.TeamGoalId?.split(",")[0]));
+            if (!teamGoalDetail) {
+                return false;
+            }
+        }
+
+        this.renderedPersonalGoalDetail = JSON.stringify(personalGoalDetail);
+        this.renderedPersonalGoalNoteDetails = JSON.stringify(personalGoalNoteDetails);
+        this.setPersonalGoalDetail(personalGoalDetail);
+        this.setGoalCycle(personalGoalDetail, teamGoalDetail);
+        this.setPersonalGoalNoteDetails(personalGoalNoteDetails);
+        return true;
     }
 
     /** 
@@ -88,48 +147,49 @@ class EditGoal extends React.Component<WithTranslation, IEditGoalState> {
     * */
     getPersonalGoalDetails = async () => {
         this.appInsights.trackTrace({ message: `'getPersonalGoalDetails' - Request initiated`, severityLevel: SeverityLevel.Information });
-        this.setState({ loader: true });
-        const personalGoalDetailsResponse = await getPersonalGoalDetailByGoalIdAsync(this.personalGoalId!);
-        if (personalGoalDetailsResponse) {
-            if (personalGoalDetailsResponse.status === 200) {
-                let goalStatus = this.goalStatusCollection.find(goalStatus => goalStatus.value === personalGoalDetailsResponse.data.Status);
-                this.setState({ personalGoalDetail: personalGoalDetailsResponse.data, goalStatus: goalStatus });
-
-                if (personalGoalDetailsResponse.data.IsAligned) {
-                    let teamGoalDetail = await this.getTeamGoalDetail();
-                    this.goalCycle = `${moment(teamGoalDetail?.TeamGoalStartDate).format(Constants.goalCycleDateTimeFormat)} ${this.localize("goalCycleToText")} ${moment(teamGoalDetail?.TeamGoalEndDate).format(Constants.goalCycleDateTimeFormat)}`;
-                }
-                else {
-                    this.goalCycle = `${moment(personalGoalDetailsResponse.data.StartDate).format(Constants.goalCycleDateTimeFormat)} ${this.localize("goalCycleToText")} ${moment(personalGoalDetailsResponse.data.EndDate).format(Constants.goalCycleDateTimeFormat)}`;
-                }
-            }
-            else {
-                handleError(personalGoalDetailsResponse);
+        const personalGoalDetailsResponse = await getPersonalGoalDetailByGoalIdAsync(this.personalGoalId!, this.requestCanceller.signal);
+        if (isRequestCancelled(personalGoalDetailsResponse)) {
+            return;
+        }
+        else if (personalGoalDetailsResponse.isSuccess) {
+            let personalGoalDetail = personalGoalDetailsResponse.data;
+            let teamGoalDetail = personalGoalDetail.IsAligned ? await this.getTeamGoalDetail(personalGoalDetail) : undefined;
+            if (this.requestCanceller.signal.aborted) {
+                return;
             }
 
-            this.appInsights.trackTrace({ message: `'getPersonalGoalDetails' - Request completed`, severityLevel: SeverityLevel.Information });
+            // Changes made by user to cached goal detail are kept unless goal detail was changed in storage.
+            if (JSON.stringify(personalGoalDetail) !== this.renderedPersonalGoalDetail) {
+                this.setPersonalGoalDetail(personalGoalDetail);
+            }
+            this.setGoalCycle(personalGoalDetail, teamGoalDetail);
         }
+        else {
+            handleRefreshError(personalGoalDetailsResponse, this.isCachedDataRendered);
+        }
+
+        this.appInsights.trackTrace({ message: `'getPersonalGoalDetails' - Request completed`, severityLevel: SeverityLevel.Information });
         this.setState({ loader: false });
     }
 
     /**
     *  Get detail of team goal by specific team goal id.
     * */
-    getTeamGoalDetail = async () => {
+    getTeamGoalDetail = async (personalGoalDetail: IPersonalGoalDetail) => {
         this.appInsights.trackTrace({ message: `'getTeamGoalDetail' - Request initiated`, severityLevel: SeverityLevel.Information });
-        this.setState({ loader: true });
-        let teamGoalId = this.state.personalGoalDetail.TeamGoalId?.split(",")[0];
-        const teamGoalDetailResponse = await getTeamGoalDetailByTeamGoalId(teamGoalId, this.state.personalGoalDetail.TeamId);
-        if (teamGoalDetailResponse) {
-            if (teamGoalDetailResponse.status === 200) {
-                return teamGoalDetailResponse.data;
-            }
-            else {
-                handleError(teamGoalDetailResponse);
-            }
-
-            this.appInsights.trackTrace({ message: `'getTeamGoalDetail' - Request completed`, severityLevel: SeverityLevel.Information });
+        let teamGoalId = personalGoalDetail.TeamGoalId?.split(",")[0];
+        const teamGoalDetailResponse = await getTeamGoalDetailByTeamGoalId(teamGoalId, personalGoalDetail.TeamId, this.requestCanceller.signal);
+        if (isRequestCancelled(teamGoalDetailResponse)) {
+            return;
         }
+        else if (teamGoalDetailResponse.isSuccess) {
+            return teamGoalDetailResponse.data;
+        }
+        else {
+            handleRefreshError(teamGoalDetailResponse, this.isCachedDataRendered);
+        }
+
+        this.appInsights.trackTrace({ message: `'getTeamGoalDetail' - Request completed`, severityLevel: SeverityLevel.Information });
         this.setState({ loader: false });
     }
 
@@ -138,25 +198,54 @@ class EditGoal extends React.Component<WithTranslation, IEditGoalState> {
     * */
     getPersonalGoalNoteDetails = async () => {
         this.appInsights.trackTrace({ message: `'getPersonalGoalNoteDetails' - Request initiated`, severityLevel: SeverityLevel.Information });
-        this.setState({ loader: true });
-        const personalGoalNoteDetailsResponse = await getPersonalGoalNoteDetails(this.personalGoalId!);
-        if (personalGoalNoteDetailsResponse) {
-            if (personalGoalNoteDetailsResponse.status === 200) {
-                let personalGoalNoteDetails: IPersonalGoalNoteDetail[] = personalGoalNoteDetailsResponse.data;
-                personalGoalNoteDetails.forEach((goalNoteDetail) => {
-                    goalNoteDetail.IsEdited = false;
-                });
-                this.setState({ notesData: personalGoalNoteDetails });
-            }
-            else {
-                handleError(personalGoalNoteDetailsResponse);
+        const personalGoalNoteDetailsResponse = await getPersonalGoalNoteDetails(this.personalGoalId!, this.requestCanceller.signal);
+        if (isRequestCancelled(personalGoalNoteDetailsResponse)) {
+            return;
+        }
+        else if (personalGoalNoteDetailsResponse.isSuccess) {
+            // Changes made by user to cached notes are kept unless notes were changed in storage.
+            if (JSON.stringify(personalGoalNoteDetailsResponse.data) !== this.renderedPersonalGoalNoteDetails) {
+                this.setPersonalGoalNoteDetails(personalGoalNoteDetailsResponse.data);
             }
-
-            this.appInsights.trackTrace({ message: `'getPersonalGoalNoteDetails' - Request completed`, severityLevel: SeverityLevel.Information });
         }
+        else {
+            handleRefreshError(personalGoalNoteDetailsResponse, this.isCachedDataRendered);
+        }
+
+        this.appInsights.trackTrace({ message: `'getPersonalGoalNoteDetails' - Request completed`, severityLevel: SeverityLevel.Information });
         this.setState({ loader: false });
     }
 
+    /**
+    *  Sets personal goal detail and its status.
+    * */
+    setPersonalGoalDetail = (personalGoalDetail: IPersonalGoalDetail) => {
+        let goalStatus = this.goalStatusCollection.find(goalStatus => goalStatus.value === personalGoalDetail.Status);
+        this.setState({ personalGoalDetail: personalGoalDetail, goalStatus: goalStatus });
+    }
+
+    /**
+    *  Sets goal cycle from team goal if personal goal is aligned, otherwise from personal goal.
+    * */
+    setGoalCycle = (personalGoalDetail: IPersonalGoalDetail, teamGoalDetail?: ITeamGoalDetail) => {
+        if (personalGoalDetail.IsAligned) {
+            this.goalCycle = formatGoalCycleDates(teamGoalDetail!.TeamGoalStartDate, teamGoalDetail!.TeamGoalEndDate, this.localize);
+        }
+        else {
+            this.goalCycle = formatGoalCycleDates(personalGoalDetail.StartDate, personalGoalDetail.EndDate, this.localize);
+        }
+    }
+
+    /**
+    *  Sets notes of personal goal.
+    * */
+    setPersonalGoalNoteDetails = (personalGoalNoteDetails: IPersonalGoalNoteDetail[]) => {
+        personalGoalNoteDetails.forEach((goalNoteDetail) => {
+            goalNoteDetail.IsEdited = false;
+        });
+        this.setState({ notesData: personalGoalNoteDetails });
+    }
+
     /** 
     *  Save details of personal goal. 
     * */
@@ -165,43 +254,90 @@ class EditGoal extends React.Component<WithTranslation, IEditGoalState> {
         this.setState({ isGoalDetailsLoading: true });
 
         if (this.validatePersonalGoalDetails()) {
-            const personalGoalDetailsResponse = await updatePersonalGoalDetail(this.state.personalGoalDetail);
-            if (personalGoalDetailsResponse) {
-                if (personalGoalDetailsResponse.status === 200 || personalGoalDetailsResponse.status === 204) {
-                    let personalGoalNoteDetailsResponse = true;
-                    personalGoalNoteDetailsResponse = await this.savePersonalGoalNoteDetails();
-
-                    if (personalGoalNoteDetailsResponse) {
-                        this.setState({ errorMessage: "" });
-                        microsoftTeams.getContext((context) => {
-                            this.setState({ isGoalSaved: true});
-                            microsoftTeams.tasks.submitTask();
-                        });
-                    }
-                    else {
-                        this.setState({ isGoalDetailsLoading: false, errorMessage: this.localize("goalNoteDetailsSubmitError") });
-                    }
+            let personalGoalDetail: IPersonalGoalDetail = {
+                ...this.state.personalGoalDetail,
+                Description: getDescriptionValue(this.state.personalGoalDetail.Description),
+                DefinitionOfDone: getDoneCriteriaValue(getDoneCriteria(this.state.personalGoalDetail)),
+            };
+            const personalGoalDetailsResponse = await updatePersonalGoalDetail(personalGoalDetail, this.requestCanceller.signal);
+            if (isRequestCancelled(personalGoalDetailsResponse)) {
+                return;
+            }
+            else if (personalGoalDetailsResponse.isSuccess) {
+                // Goal is saved again with its new version if notes could not be saved, so saving it again is not rejected as conflicting.
+                const savedPersonalGoalDetail = personalGoalDetailsResponse.data;
+                if (savedPersonalGoalDetail) {
+                    this.setState((state) => ({ personalGoalDetail: { ...state.personalGoalDetail, LastModifiedOn: savedPersonalGoalDetail.LastModifiedOn } }));
+                }
+
+                let personalGoalNoteDetailsResponse = true;
+                personalGoalNoteDetailsResponse = await this.savePersonalGoalNoteDetails();
+
+                if (this.requestCanceller.signal.aborted) {
+                    return;
+                }
+                else if (personalGoalNoteDetailsResponse) {
+                    this.setState({ errorMessage: "" });
+                    this.setState({ isGoalSaved: true});
+                    submitTask();
                 }
                 else {
-                    this.setState({ isGoalDetailsLoading: false, errorMessage: this.localize("goalDetailsSubmitError") });
+                    this.setState({ isGoalDetailsLoading: false, errorMessage: this.localize("goalNoteDetailsSubmitError") });
                 }
-
-                this.appInsights.trackTrace({ message: `'updatePersonalGoalDetail' - Request completed`, severityLevel: SeverityLevel.Information });
             }
+            else if (personalGoalDetailsResponse.errorCode === "conflict") {
+                await this.showMergeDialog();
+            }
+            else {
+                this.setState({ isGoalDetailsLoading: false, errorMessage: this.localize("goalDetailsSubmitError") });
+            }
+
+            this.appInsights.trackTrace({ message: `'updatePersonalGoalDetail' - Request completed`, severityLevel: SeverityLevel.Information });
         }
     }
 
+    /**
+    *  Loads goal detail and notes saved by another client and shows dialog to merge them with changes of user.
+    * */
+    showMergeDialog = async () => {
+        this.appInsights.trackTrace({ message: `'showMergeDialog' - Personal goal was changed by another client`, severityLevel: SeverityLevel.Information });
+        const personalGoalDetailsResponse = await getPersonalGoalDetailByGoalIdAsync(this.personalGoalId!, this.requestCanceller.signal);
+        const personalGoalNoteDetailsResponse = await getPersonalGoalNoteDetails(this.personalGoalId!, this.requestCanceller.signal);
+        if (this.requestCanceller.signal.aborted) {
+            return;
+        }
+        else if (personalGoalDetailsResponse.isSuccess && personalGoalNoteDetailsResponse.isSuccess) {
+            this.setState({ isGoalDetailsLoading: false, serverPersonalGoalDetail: personalGoalDetailsResponse.data, serverNotesData: personalGoalNoteDetailsResponse.data });
+        }
+        else {
+            this.setState({ isGoalDetailsLoading: false, errorMessage: this.localize("goalDetailsSubmitError") });
+        }
+    }
+
+    /**
+    *  Saves goal detail and notes merged by user in merge dialog.
+    * */
+    onMergeConfirm = (personalGoalDetail: IPersonalGoalDetail, notesData: IPersonalGoalNoteDetail[]) => {
+        let goalStatus = this.goalStatusCollection.find(goalStatus => goalStatus.value === personalGoalDetail.Status);
+        this.setState({ personalGoalDetail: personalGoalDetail, goalStatus: goalStatus, notesData: notesData, serverPersonalGoalDetail: null }, this.updatePersonalGoalDetail);
+    }
+
+    /**
+    *  Closes merge dialog without saving.
+    * */
+    onMergeCancel = () => {
+        this.setState({ serverPersonalGoalDetail: null, errorMessage: this.localize("goalDetailsConflictError") });
+    }
+
     /** 
     *  Save details of personal goal notes. 
     * */
     savePersonalGoalNoteDetails = async () => {
         this.appInsights.trackTrace({ message: `'savePersonalGoalNoteDetails' - Request initiated`, severityLevel: SeverityLevel.Information });
         if (this.state.notesData.length > 0) {
-            const personalGoalNoteDetailsResponse = await savePersonalGoalNoteDetails(this.state.notesData);
-            if (personalGoalNoteDetailsResponse) {
-                if (personalGoalNoteDetailsResponse.status !== 200 && personalGoalNoteDetailsResponse.status !== 204) {
-                    return false;
-                }
+            const personalGoalNoteDetailsResponse = await savePersonalGoalNoteDetails(this.state.notesData, this.requestCanceller.signal);
+            if (!personalGoalNoteDetailsResponse.isSuccess) {
+                return false;
             }
         }
 
@@ -213,8 +349,8 @@ class EditGoal extends React.Component<WithTranslation, IEditGoalState> {
                 deletedNotesIds.push(deletedNote.PersonalGoalNoteId);
             });
 
-            const personalGoalNoteDetailsResponse = await deletePersonalGoalNoteDetails(deletedNotesIds);
-            if (personalGoalNoteDetailsResponse.status !== 200 && personalGoalNoteDetailsResponse.status !== 204) {
+            const personalGoalNoteDetailsResponse = await deletePersonalGoalNoteDetails(deletedNotesIds, this.personalGoalId, this.requestCanceller.signal);
+            if (!personalGoalNoteDetailsResponse.isSuccess) {
                 return false;
             }
         }
@@ -232,6 +368,27 @@ class EditGoal extends React.Component<WithTranslation, IEditGoalState> {
             return false;
         }
 
+        let progress = this.state.personalGoalDetail.Progress;
+        if (progress !== null && progress !== undefined && (isNaN(progress) || progress < 0 || progress > 100)) {
+            this.setState({ errorMessage: this.localize("goalProgressError"), isGoalDetailsLoading: false })
+            return false;
+        }
+
+        if (!isGoalDueDateInGoalCycle(this.state.personalGoalDetail)) {
+            this.setState({ errorMessage: this.localize("goalDueDateError"), isGoalDetailsLoading: false })
+            return false;
+        }
+
+        let keyResults = getKeyResults(this.state.personalGoalDetail);
+        if (keyResults.some(keyResult => !keyResult.title.trim())) {
+            this.setState({ errorMessage: this.localize("keyResultTitleError"), isGoalDetailsLoading: false })
+            return false;
+        }
+        else if (keyResults.some(keyResult => !(keyResult.targetValue > 0) || isNaN(keyResult.currentValue))) {
+            this.setState({ errorMessage: this.localize("keyResultTargetError"), isGoalDetailsLoading: false })
+            return false;
+        }
+
         if (this.state.notesData && this.state.notesData.length > 0) {
             let notesData = this.state.notesData;
             let personalGoalNote = notesData.find(personalGoalNote => !personalGoalNote.PersonalGoalNoteDescription);
@@ -266,15 +423,80 @@ class EditGoal extends React.Component<WithTranslation, IEditGoalState> {
     }
 
     /**
-    *   Handles goal note delete button click.
+    *   Handles change of goal progress or key results.
+    */
+    handleGoalProgressChange = (personalGoalDetail: IPersonalGoalDetail) => {
+        this.setState({ personalGoalDetail: personalGoalDetail });
+    }
+
+    /**
+    *   Handles change of goal due date or priority.
+    */
+    handleGoalDueDateChange = (personalGoalDetail: IPersonalGoalDetail) => {
+        this.setState({ personalGoalDetail: personalGoalDetail });
+    }
+
+    /**
+    *   Handles change of goal tags.
+    */
+    handleGoalTagsChange = (tags: IGoalTag[]) => {
+        this.setState({ personalGoalDetail: { ...this.state.personalGoalDetail, Tags: getTagsValue(tags) } });
+    }
+
+    /**
+    *   Handles change of goal description or definition of done. Empty criteria are kept while editing and left out once goal is saved.
+    */
+    handleGoalDefinitionChange = (description: string, criteria: IDoneCriterion[]) => {
+        this.setState({ personalGoalDetail: { ...this.state.personalGoalDetail, Description: description, DefinitionOfDone: JSON.stringify(criteria) } });
+    }
+
+    /**
+    *   Handles change of goal note tags. Change is saved along with other changes of goal.
+    */
+    handleGoalNoteTagsChange = (index: number, tags: IGoalTag[]) => {
+        let noteDetails = this.state.notesData;
+        noteDetails[index].Tags = getTagsValue(tags);
+        this.setState({ notesData: noteDetails });
+    }
+
+    /**
+    *   Get tags used on goals and notes of user, so same tags can be picked again. Tags removed from goal but not saved yet are kept too.
+    */
+    getAvailableTags = () => {
+        let personalGoalDetails = getCachedQueryData<IPersonalGoalDetail[]>(queryKeys.personalGoals()) || [];
+        let storedPersonalGoalDetail = getCachedQueryData<IPersonalGoalDetail>(queryKeys.personalGoal(this.personalGoalId));
+        return getAvailableTags([this.state.personalGoalDetail, ...this.state.notesData, ...(storedPersonalGoalDetail ? [storedPersonalGoalDetail] : []), ...personalGoalDetails]);
+    }
+
+    /**
+    *   Handles goal note delete button click. Note is deleted from storage on save, and can be restored from undo toast until then.
     */
     onGoalNoteDeleteButtonClick = (goalNoteId: string) => {
         let notesDetails = this.state.notesData;
-        let deletedNoteDetails = notesDetails.filter(noteDetails => noteDetails.PersonalGoalNoteId === goalNoteId)[0];  
+        let deletedNoteIndex = notesDetails.findIndex(noteDetails => noteDetails.PersonalGoalNoteId === goalNoteId);
+        let deletedNoteDetails = notesDetails[deletedNoteIndex];
         this.state.deletedNotesData.push(deletedNoteDetails);
 
         notesDetails = notesDetails.filter(noteDetails => noteDetails.PersonalGoalNoteId !== goalNoteId);
-        this.setState({ notesData: notesDetails });
+        this.setState({ notesData: notesDetails, lastDeletedNote: deletedNoteDetails, lastDeletedNoteIndex: deletedNoteIndex });
+    }
+
+    /**
+    *   Puts last deleted note back at its position when user clicks undo.
+    */
+    onGoalNoteDeletionUndo = () => {
+        let deletedNoteDetails = this.state.lastDeletedNote;
+        if (!deletedNoteDetails) {
+            return;
+        }
+
+        let notesDetails = [...this.state.notesData];
+        notesDetails.splice(Math.min(this.state.lastDeletedNoteIndex, notesDetails.length), 0, deletedNoteDetails);
+        this.setState({
+            notesData: notesDetails,
+            deletedNotesData: this.state.deletedNotesData.filter(noteDetails => noteDetails.PersonalGoalNoteId !== deletedNoteDetails!.PersonalGoalNoteId),
+            lastDeletedNote: null
+        });
     }
 
     /**
@@ -289,9 +511,18 @@ class EditGoal extends React.Component<WithTranslation, IEditGoalState> {
     /**
     *   Handles goal note text change.
     */
-    handleGoalNoteChange = (index: number, event: any) => {
+    handleGoalNoteChange = (index: number, description: string) => {
+        let noteDetails = this.state.notesData;
+        noteDetails[index].PersonalGoalNoteDescription = description;
+        this.setState({ notesData: noteDetails });
+    }
+
+    /**
+    *   Ticks or unticks checklist item of goal note. Change is saved along with other changes of goal.
+    */
+    onGoalNoteChecklistItemToggle = (index: number, lineIndex: number) => {
         let noteDetails = this.state.notesData;
-        noteDetails[index].PersonalGoalNoteDescription = event.target.value;
+        noteDetails[index].PersonalGoalNoteDescription = toggleNoteChecklistItem(noteDetails[index].PersonalGoalNoteDescription, lineIndex);
         this.setState({ notesData: noteDetails });
     }
 
@@ -307,6 +538,7 @@ class EditGoal extends React.Component<WithTranslation, IEditGoalState> {
             );
         }
         else {
+            let availableTags = this.getAvailableTags();
             return (
                 <>
                     <div className="edit-goal-details-container">
@@ -325,13 +557,36 @@ class EditGoal extends React.Component<WithTranslation, IEditGoalState> {
                         <Flex gap="gap.large" vAlign="center" className="control-padding">
                             <Dropdown fluid className="width-small" items={this.goalStatusCollection} value={this.state.goalStatus} onChange={this.handleGoalStatusChange} />
                         </Flex>
+                        <Flex gap="gap.large" vAlign="center" className="control-padding">
+                            <GoalDueDateEditor personalGoalDetail={this.state.personalGoalDetail} theme={this.props.teamsContext.theme} onChange={this.handleGoalDueDateChange} />
+                        </Flex>
+                        <Flex gap="gap.large" vAlign="center" className="control-padding">
+                            <GoalTagPicker tags={getTags(this.state.personalGoalDetail)} availableTags={availableTags} onChange={this.handleGoalTagsChange} />
+                        </Flex>
+                        <GoalDefinitionEditor
+                            description={this.state.personalGoalDetail.Description || ""}
+                            criteria={getDoneCriteria(this.state.personalGoalDetail)}
+                            canTickCriteria
+                            onChange={this.handleGoalDefinitionChange}
+                        />
+                        <GoalProgressEditor personalGoalDetail={this.state.personalGoalDetail} onChange={this.handleGoalProgressChange} />
                         
                         <PersonalGoalNote
                             notesData={this.state.notesData}
+                            availableTags={availableTags}
+                            handleGoalNoteTagsChange={this.handleGoalNoteTagsChange}
                             onGoalNoteDeleteButtonClick={this.onGoalNoteDeleteButtonClick}
                             onGoalNoteEditButtonClick={this.onGoalNoteEditButtonClick}
                             handleGoalNoteChange={this.handleGoalNoteChange}
+                            onGoalNoteChecklistItemToggle={this.onGoalNoteChecklistItemToggle}
                         />
+                        {this.state.lastDeletedNote &&
+                            <UndoToast
+                                key={this.state.lastDeletedNote.PersonalGoalNoteId}
+                                message={this.localize("noteDeletedMessage")}
+                                onUndo={this.onGoalNoteDeletionUndo}
+                                onTimeout={() => this.setState({ lastDeletedNote: null })}
+                            />}
                         
                     </div>
                     <div className="footer">
@@ -346,6 +601,18 @@ class EditGoal extends React.Component<WithTranslation, IEditGoalState> {
                             </Flex>
                         </div>
                     </div>
+                    {this.state.serverPersonalGoalDetail &&
+                        <GoalMergeDialog
+                            localGoalDetail={this.state.personalGoalDetail}
+                            serverGoalDetail={this.state.serverPersonalGoalDetail}
+                            localNotes={this.state.notesData}
+                            serverNotes={this.state.serverNotesData}
+                            deletedNoteIds={this.state.deletedNotesData.map(deletedNote => deletedNote.PersonalGoalNoteId)}
+                            goalStatusCollection={this.goalStatusCollection}
+                            onMerge={this.onMergeConfirm}
+                            onCancel={this.onMergeCancel}
+                        />
+                    }
                 </>
             );
         }
@@ -363,4 +630,4 @@ class EditGoal extends React.Component<WithTranslation, IEditGoalState> {
     }
 }
 
-export default withTranslation()(EditGoal);
\ No newline at end of file
+export default withTranslation()(withTeamsContext(EditGoal));
\ No newline at end of file
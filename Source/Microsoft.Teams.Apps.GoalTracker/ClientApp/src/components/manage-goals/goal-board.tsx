@@ -0,0 +1,160 @@
+﻿// <copyright file="goal-board.tsx" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import * as React from "react";
+import { Flex, Text, Label } from "@fluentui/react-northstar";
+import { useTranslation } from 'react-i18next';
+import { IPersonalGoalDetail } from "../../models/type";
+import "../../styles/style.css";
+
+interface IGoalBoardProps {
+    goalsData: IPersonalGoalDetail[],
+    pendingSyncGoalIds: string[],
+    movingGoalIds: string[],
+    goalStatus: any,
+    onGoalStatusChange: (goalDetail: IPersonalGoalDetail, status: number) => void,
+    onPersonalGoalClick: (goalId: string, t: any) => void,
+}
+
+const GoalBoard: React.FunctionComponent<IGoalBoardProps> = props => {
+    const { t } = useTranslation();
+    const [draggedGoalId, setDraggedGoalId] = React.useState<string | null>(null);
+    const [dropTargetStatus, setDropTargetStatus] = React.useState<number | null>(null);
+    const [keyboardMovedGoalId, setKeyboardMovedGoalId] = React.useState<string | null>(null);
+    const [announcement, setAnnouncement] = React.useState("");
+    const boardElement = React.useRef<HTMLDivElement>(null);
+
+    // Card is rendered in other column after it is moved by keyboard, so focus is restored on new card element.
+    React.useEffect(() => {
+        if (keyboardMovedGoalId && boardElement.current) {
+            let card = boardElement.current.querySelector(`[data-goal-id="${keyboardMovedGoalId}"]`) as HTMLElement;
+            if (card) {
+                card.focus();
+            }
+
+            setKeyboardMovedGoalId(null);
+        }
+    }, [keyboardMovedGoalId]);
+
+    /**
+    * Move goal to status column.
+    * @param personalGoalId {String} Unique identifier of moved personal goal.
+    * @param status {Number} Status of column goal is moved to.
+    */
+    const moveGoal = (personalGoalId: string | null, status: number) => {
+        let goalDetail = props.goalsData.find(goal => goal.PersonalGoalId === personalGoalId);
+        if (!goalDetail || goalDetail.Status === status || props.movingGoalIds.indexOf(goalDetail.PersonalGoalId) !== -1) {
+            return;
+        }
+
+        let goalStatus = props.goalStatus.find((goalStatus: any) => goalStatus.value === status);
+        setAnnouncement(t('goalMovedAnnouncement', { goalName: goalDetail.GoalName, status: goalStatus.DisplayName }));
+        props.onGoalStatusChange(goalDetail, status);
+    }
+
+    /**
+    * Moves focused card to previous or next column using arrow keys, and opens goal on enter or space.
+    * @param event {Object} Keyboard event.
+    * @param goalDetail {Object} Personal goal of focused card.
+    */
+    const onCardKeyDown = (event: React.KeyboardEvent<HTMLDivElement>, goalDetail: IPersonalGoalDetail) => {
+        let statusIndex = props.goalStatus.findIndex((goalStatus: any) => goalStatus.value === goalDetail.Status);
+        if (event.key === "ArrowLeft" || event.key === "ArrowRight") {
+            let nextStatus = props.goalStatus[statusIndex + (event.key === "ArrowLeft" ? -1 : 1)];
+            event.preventDefault();
+            if (nextStatus) {
+                setKeyboardMovedGoalId(goalDetail.PersonalGoalId);
+                moveGoal(goalDetail.PersonalGoalId, nextStatus.value);
+            }
+        }
+        else if (event.key === "Enter" || event.key === " ") {
+            event.preventDefault();
+            props.onPersonalGoalClick(goalDetail.PersonalGoalId, t);
+        }
+    }
+
+    /**
+    * Renders card of personal goal.
+    * @param goalDetail {Object} Personal goal detail.
+    */
+    const goalCard = (goalDetail: IPersonalGoalDetail) => {
+        let isMoving = props.movingGoalIds.indexOf(goalDetail.PersonalGoalId) !== -1;
+        return (
+            <div
+                key={goalDetail.PersonalGoalId}
+                data-goal-id={goalDetail.PersonalGoalId}
+                className={`goal-board-card${draggedGoalId === goalDetail.PersonalGoalId ? " goal-board-card-dragged" : ""}${isMoving ? " goal-board-card-moving" : ""}`}
+                draggable={!isMoving}
+                tabIndex={0}
+                role="button"
+                aria-label={t('goalBoardCardLabel', { goalName: goalDetail.GoalName })}
+                aria-describedby="goal-board-instructions"
+                aria-busy={isMoving}
+                onDragStart={(event) => {
+                    event.dataTransfer.setData("text/plain", goalDetail.PersonalGoalId);
+                    event.dataTransfer.effectAllowed = "move";
+                    setDraggedGoalId(goalDetail.PersonalGoalId);
+                }}
+                onDragEnd={() => {
+                    setDraggedGoalId(null);
+                    setDropTargetStatus(null);
+                }}
+                onKeyDown={(event) => onCardKeyDown(event, goalDetail)}
+                onClick={() => props.onPersonalGoalClick(goalDetail.PersonalGoalId, t)}
+            >
+                <Flex column gap="gap.smaller">
+                    <Flex gap="gap.smaller" vAlign="center">
+                        <Text weight="semibold" content={goalDetail.GoalName} title={goalDetail.GoalName} className="goal-board-card-title" />
+                        {props.pendingSyncGoalIds.indexOf(goalDetail.PersonalGoalId) !== -1 && <Label content={t('pendingSyncText')} title={t('pendingSyncText')} circular className="pending-sync-badge" />}
+                    </Flex>
+                    <Text size="small" content={goalDetail.TeamGoalName} title={goalDetail.TeamGoalName!} truncated />
+                    <Text size="small" content={`${goalDetail.NotesCount} (${t('goalNotesText')})`} />
+                </Flex>
+            </div>
+        );
+    }
+
+    return (
+        <div className="goal-board" ref={boardElement}>
+            <Text id="goal-board-instructions" className="visually-hidden" content={t('goalBoardInstructions')} />
+            <div aria-live="polite" className="visually-hidden">{announcement}</div>
+            <Flex gap="gap.medium">
+                {props.goalStatus.map((goalStatus: any) => {
+                    let columnGoals = props.goalsData.filter(goal => goal.Status === goalStatus.value);
+                    return (
+                        <div
+                            key={goalStatus.value}
+                            role="group"
+                            aria-label={goalStatus.DisplayName}
+                            className={`goal-board-column${dropTargetStatus === goalStatus.value ? " goal-board-column-drop-target" : ""}`}
+                            onDragOver={(event) => {
+                                event.preventDefault();
+                                event.dataTransfer.dropEffect = "move";
+                                setDropTargetStatus(goalStatus.value);
+                            }}
+                            onDragLeave={(event) => {
+                                if (!event.currentTarget.contains(event.relatedTarget as Node)) {
+                                    setDropTargetStatus(null);
+                                }
+                            }}
+                            onDrop={(event) => {
+                                event.preventDefault();
+                                moveGoal(event.dataTransfer.getData("text/plain") || draggedGoalId, goalStatus.value);
+                                setDraggedGoalId(null);
+                                setDropTargetStatus(null);
+                            }}
+                        >
+                            <Text content={`${goalStatus.DisplayName} (${columnGoals.length})`} className="goal-header goal-board-column-header" />
+                            <Flex column gap="gap.small">
+                                {columnGoals.map(goalCard)}
+                            </Flex>
+                        </div>
+                    );
+                })}
+            </Flex>
+        </div>
+    );
+}
+
+export default GoalBoard;
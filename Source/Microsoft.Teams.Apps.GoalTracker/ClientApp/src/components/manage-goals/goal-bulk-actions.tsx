@@ -0,0 +1,139 @@
+﻿// <copyright file="goal-bulk-actions.tsx" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import * as React from "react";
+import { Flex, Dropdown, Button, Text, Dialog } from "@fluentui/react-northstar";
+import { useTranslation } from 'react-i18next';
+import { getGoalStatusCollection, getReminderFrequncyCollection } from "../../helpers/goal-helper";
+import Constants from "../../constants";
+import { IPersonalGoalBatchRequest } from "../../models/type";
+import "../../styles/style.css";
+
+interface IGoalBulkActionsProps {
+    selectedGoalIds: string[],
+    isBulkActionRunning: boolean,
+    onApply: (batchRequest: IPersonalGoalBatchRequest) => void,
+    onClearSelection: () => void,
+}
+
+interface IBulkActionOption {
+    key: string,
+    header: string,
+    value: number
+}
+
+const GoalBulkActions: React.FunctionComponent<IGoalBulkActionsProps> = props => {
+    const { t } = useTranslation();
+    const [action, setAction] = React.useState<number>(Constants.changeStatusBatchAction);
+    const [actionValue, setActionValue] = React.useState<number>(0);
+    const [isConfirmationOpen, setIsConfirmationOpen] = React.useState(false);
+
+    const actionOptions: IBulkActionOption[] = [
+        { key: "status", header: t('changeStatusBulkAction'), value: Constants.changeStatusBatchAction },
+        { key: "delete", header: t('deleteBulkAction'), value: Constants.deleteBatchAction },
+        { key: "reminder", header: t('toggleReminderBulkAction'), value: Constants.setReminderBatchAction },
+        { key: "frequency", header: t('changeReminderFrequencyBulkAction'), value: Constants.changeReminderFrequencyBatchAction },
+    ];
+
+    /**
+    * Get options for value of selected bulk action. Delete action does not need a value.
+    */
+    const getActionValueOptions = (): IBulkActionOption[] => {
+        switch (action) {
+            case Constants.changeStatusBatchAction:
+                return getGoalStatusCollection(t).map(status => ({ key: status.DisplayName, header: status.header, value: status.value }));
+            case Constants.setReminderBatchAction:
+                return [
+                    { key: "on", header: t('reminderOnText'), value: 1 },
+                    { key: "off", header: t('reminderOffText'), value: 0 },
+                ];
+            case Constants.changeReminderFrequencyBatchAction:
+                return getReminderFrequncyCollection(t, false).map(frequency => ({ key: frequency.key, header: frequency.name, value: frequency.value }));
+            default:
+                return [];
+        }
+    }
+
+    /**
+    * Get batch request for selected goals, action and value.
+    */
+    const getBatchRequest = (): IPersonalGoalBatchRequest => {
+        let batchRequest: IPersonalGoalBatchRequest = { Action: action, PersonalGoalIds: props.selectedGoalIds };
+        switch (action) {
+            case Constants.changeStatusBatchAction:
+                return { ...batchRequest, Status: actionValue };
+            case Constants.setReminderBatchAction:
+                return { ...batchRequest, IsReminderActive: actionValue === 1 };
+            case Constants.changeReminderFrequencyBatchAction:
+                return { ...batchRequest, ReminderFrequency: actionValue };
+            default:
+                return batchRequest;
+        }
+    }
+
+    /**
+    * Get confirmation message describing what will happen to selected goals.
+    */
+    const getConfirmationMessage = () => {
+        let valueOption = valueOptions.find(option => option.value === actionValue);
+        let count = props.selectedGoalIds.length;
+        switch (action) {
+            case Constants.deleteBatchAction:
+                return t('deleteBulkActionConfirmation', { count: count });
+            case Constants.setReminderBatchAction:
+                return t(actionValue === 1 ? 'reminderOnBulkActionConfirmation' : 'reminderOffBulkActionConfirmation', { count: count });
+            default:
+                return t('changeBulkActionConfirmation', { count: count, action: actionOptions.find(option => option.value === action)!.header.toLowerCase(), value: valueOption ? valueOption.header : "" });
+        }
+    }
+
+    /**
+    * Selects bulk action and resets its value to first option.
+    * @param event {Object} Dropdown change event.
+    * @param dropdownProps {Object} Dropdown props having selected option.
+    */
+    const onActionChange = (event: any, dropdownProps?: any) => {
+        let selectedOption: IBulkActionOption = dropdownProps.value;
+        setAction(selectedOption.value);
+        setActionValue(selectedOption.value === Constants.setReminderBatchAction ? 1 : 0);
+    }
+
+    const valueOptions = getActionValueOptions();
+    return (
+        <Flex gap="gap.small" vAlign="center" wrap className="goal-bulk-actions">
+            <Text weight="semibold" content={t('selectedGoalsCountText', { count: props.selectedGoalIds.length })} />
+            <Dropdown
+                items={actionOptions}
+                value={actionOptions.find(option => option.value === action)}
+                onChange={onActionChange}
+                aria-label={t('bulkActionLabel')}
+                className="goal-bulk-action-dropdown"
+            />
+            {valueOptions.length > 0 && <Dropdown
+                items={valueOptions}
+                value={valueOptions.find(option => option.value === actionValue) || valueOptions[0]}
+                onChange={(event: any, dropdownProps?: any) => setActionValue(dropdownProps.value.value)}
+                aria-label={t('bulkActionValueLabel')}
+                className="goal-bulk-action-value-dropdown"
+            />}
+            <Button primary size="small" content={t('applyBulkActionButtonText')} disabled={props.isBulkActionRunning} loading={props.isBulkActionRunning} onClick={() => setIsConfirmationOpen(true)} className="goal-bulk-action-apply" />
+            <Button text size="small" content={t('clearSelectionButtonText')} disabled={props.isBulkActionRunning} onClick={props.onClearSelection} />
+            <Dialog
+                open={isConfirmationOpen}
+                cancelButton={t('cancelButtonText')}
+                confirmButton={t('confirmButtonText')}
+                header={t('actionConfirmationMessage')}
+                content={getConfirmationMessage()}
+                onCancel={() => setIsConfirmationOpen(false)}
+                onConfirm={() => {
+                    setIsConfirmationOpen(false);
+                    props.onApply(getBatchRequest());
+                }}
+                className="goal-bulk-action-confirmation-dialog"
+            />
+        </Flex>
+    );
+}
+
+export default GoalBulkActions;
@@ -0,0 +1,85 @@
+﻿// <copyright file="goal-due-date-editor.tsx" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import * as React from "react";
+import moment from "moment";
+import { Flex, Text, Dropdown, Button } from "@fluentui/react-northstar";
+import { useTranslation } from 'react-i18next';
+import { DatePicker } from 'office-ui-fabric-react/lib/DatePicker';
+import { Fabric, Customizer } from 'office-ui-fabric-react/lib';
+import { DarkCustomizations } from "../../helpers/theme/dark-customizations";
+import { DefaultCustomizations } from "../../helpers/theme/default-customizations";
+import { getGoalPriorityCollection } from "../../helpers/goal-helper";
+import { IPersonalGoalDetail } from "../../models/type";
+import Constants from "../../constants";
+import "../../helpers/fabric-icons";
+import "../../styles/style.css";
+
+interface IGoalDueDateEditorProps {
+    personalGoalDetail: IPersonalGoalDetail,
+    theme: string,
+    onChange: (personalGoalDetail: IPersonalGoalDetail) => void,
+}
+
+/** Editor for optional due date and priority of personal goal. Due date can only be picked within goal cycle. */
+const GoalDueDateEditor: React.FunctionComponent<IGoalDueDateEditorProps> = props => {
+    const { t } = useTranslation();
+    const datePickerTheme = props.theme === Constants.dark || props.theme === Constants.contrast ? DarkCustomizations : DefaultCustomizations;
+    const noPriority = { DisplayName: t('noPriorityText'), value: null, header: t('noPriorityText') };
+    const priorityCollection = [noPriority, ...getGoalPriorityCollection(t)];
+    const selectedPriority = priorityCollection.find(priority => priority.value === (props.personalGoalDetail.Priority ?? null)) || noPriority;
+
+    /**
+    * Update due date picked by user. Clearing date picker removes due date.
+    * @param date {Date} Picked due date.
+    */
+    const onSelectDueDate = (date: Date | null | undefined) => {
+        props.onChange({ ...props.personalGoalDetail, DueDate: date ? moment(date).endOf("day").format(Constants.dateTimeOffsetFormat) : null });
+    }
+
+    /**
+    * Update priority selected by user.
+    * @param event {Object} Change event of priority drop down.
+    * @param dropdownProps {Object} Props of priority drop down.
+    */
+    const onPriorityChange = (event: any, dropdownProps?: any) => {
+        props.onChange({ ...props.personalGoalDetail, Priority: dropdownProps.value.value });
+    }
+
+    return (
+        <div className="goal-due-date-editor">
+            <Flex gap="gap.small">
+                <Flex.Item size="size.half">
+                    <div>
+                        <Fabric>
+                            <Customizer {...datePickerTheme}>
+                                <DatePicker
+                                    className="date-picker-style goal-due-date-picker"
+                                    label={t('goalDueDateLabel')}
+                                    placeholder={t('datePlaceholderText')}
+                                    allowTextInput={true}
+                                    showMonthPickerAsOverlay={true}
+                                    isMonthPickerVisible={true}
+                                    minDate={props.personalGoalDetail.StartDate ? moment(props.personalGoalDetail.StartDate, Constants.dateTimeOffsetFormat).toDate() : undefined}
+                                    maxDate={props.personalGoalDetail.EndDate ? moment(props.personalGoalDetail.EndDate, Constants.dateTimeOffsetFormat).toDate() : undefined}
+                                    value={props.personalGoalDetail.DueDate ? moment(props.personalGoalDetail.DueDate, Constants.dateTimeOffsetFormat).toDate() : undefined}
+                                    onSelectDate={onSelectDueDate}
+                                />
+                            </Customizer>
+                        </Fabric>
+                        {props.personalGoalDetail.DueDate && <Button text size="small" className="clear-due-date-button" content={t('clearDueDateButtonText')} onClick={() => onSelectDueDate(null)} />}
+                    </div>
+                </Flex.Item>
+                <Flex.Item size="size.half">
+                    <Flex column gap="gap.smaller" className="goal-priority-field">
+                        <Text content={t('goalPriorityLabel')} />
+                        <Dropdown fluid className="goal-priority-dropdown" items={priorityCollection} value={selectedPriority} onChange={onPriorityChange} />
+                    </Flex>
+                </Flex.Item>
+            </Flex>
+        </div>
+    );
+}
+
+export default GoalDueDateEditor;
@@ -0,0 +1,130 @@
+﻿// <copyright file="goal-filter-toolbar.tsx" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import * as React from "react";
+import { Flex, Input, Dropdown, Button, Text } from "@fluentui/react-northstar";
+import { SearchIcon } from '@fluentui/react-icons-northstar';
+import { useTranslation } from 'react-i18next';
+import { getDefaultPersonalGoalFilter, isPersonalGoalFilterActive } from "../../helpers/goal-filter";
+import { IPersonalGoalFilter, ITeamGoalDetail } from "../../models/type";
+import "../../styles/style.css";
+
+interface IGoalFilterToolbarProps {
+    filter: IPersonalGoalFilter,
+    teamGoals: ITeamGoalDetail[],
+    filteredGoalsCount: number,
+    totalGoalsCount: number,
+    screenWidth: number,
+    onFilterChange: (filter: IPersonalGoalFilter) => void,
+}
+
+interface IFilterOption {
+    key: string,
+    header: string,
+    value: string
+}
+
+const GoalFilterToolbar: React.FunctionComponent<IGoalFilterToolbarProps> = props => {
+    const { t } = useTranslation();
+
+    const alignmentOptions: IFilterOption[] = [
+        { key: "all", header: t('allGoalsFilterText'), value: "all" },
+        { key: "aligned", header: t('alignedGoalsFilterText'), value: "aligned" },
+        { key: "unaligned", header: t('unalignedGoalsFilterText'), value: "unaligned" },
+    ];
+
+    const teamGoalOptions: IFilterOption[] = [{ key: "all", header: t('allTeamGoalsFilterText'), value: "" }].concat(
+        props.teamGoals.map((teamGoal) => ({ key: teamGoal.TeamGoalId, header: teamGoal.TeamGoalName, value: teamGoal.TeamGoalId })));
+
+    const notesOptions: IFilterOption[] = [
+        { key: "all", header: t('allNotesFilterText'), value: "all" },
+        { key: "withNotes", header: t('withNotesFilterText'), value: "withNotes" },
+        { key: "withoutNotes", header: t('withoutNotesFilterText'), value: "withoutNotes" },
+    ];
+
+    const sortOptions: IFilterOption[] = [
+        { key: "none", header: t('defaultSortText'), value: "" },
+        { key: "name", header: t('goalNameHeader'), value: "name" },
+        { key: "lastModified", header: t('lastModifiedHeader'), value: "lastModified" },
+        { key: "endDate", header: t('endDateHeader'), value: "endDate" },
+    ];
+
+    const groupByOptions: IFilterOption[] = [
+        { key: "status", header: t('groupByStatusText'), value: "status" },
+        { key: "tag", header: t('groupByTagText'), value: "tag" },
+    ];
+
+    /**
+    * Get option of dropdown matching current filter value.
+    * @param options {Array} Options of dropdown.
+    * @param value {String} Current filter value.
+    */
+    const getSelectedOption = (options: IFilterOption[], value: string) => {
+        return options.find(option => option.value === value) || options[0];
+    }
+
+    /**
+    * Get handler which updates filter with value of selected dropdown option.
+    * @param getFilter {Function} Function returning filter updated with selected value.
+    */
+    const onOptionChange = (getFilter: (value: string) => IPersonalGoalFilter) => (event: any, dropdownProps?: any) => {
+        let selectedOption: IFilterOption = dropdownProps.value;
+        props.onFilterChange(getFilter(selectedOption.value));
+    }
+
+    const isFilterActive = isPersonalGoalFilterActive(props.filter);
+    return (
+        <div className="goal-filter-toolbar">
+            <Flex gap="gap.small" vAlign="center" wrap>
+                <Input
+                    icon={<SearchIcon />}
+                    placeholder={t('searchGoalsPlaceholder')}
+                    aria-label={t('searchGoalsPlaceholder')}
+                    value={props.filter.searchText}
+                    onChange={(event: any) => props.onFilterChange({ ...props.filter, searchText: event.target.value })}
+                    className="goal-filter-search"
+                />
+                <Dropdown
+                    items={alignmentOptions}
+                    value={getSelectedOption(alignmentOptions, props.filter.alignment)}
+                    onChange={onOptionChange(value => ({ ...props.filter, alignment: value as IPersonalGoalFilter["alignment"] }))}
+                    aria-label={t('alignmentFilterLabel')}
+                    className="goal-filter-dropdown"
+                />
+                {props.teamGoals.length > 0 && <Dropdown
+                    items={teamGoalOptions}
+                    value={getSelectedOption(teamGoalOptions, props.filter.teamGoalId)}
+                    onChange={onOptionChange(value => ({ ...props.filter, teamGoalId: value }))}
+                    aria-label={t('teamGoalFilterLabel')}
+                    className="goal-filter-dropdown"
+                />}
+                <Dropdown
+                    items={notesOptions}
+                    value={getSelectedOption(notesOptions, props.filter.notes)}
+                    onChange={onOptionChange(value => ({ ...props.filter, notes: value as IPersonalGoalFilter["notes"] }))}
+                    aria-label={t('notesFilterLabel')}
+                    className="goal-filter-dropdown"
+                />
+                {props.screenWidth <= 750 && <Dropdown
+                    items={sortOptions}
+                    value={getSelectedOption(sortOptions, props.filter.sortColumn || "")}
+                    onChange={onOptionChange(value => ({ ...props.filter, sortColumn: value ? value as IPersonalGoalFilter["sortColumn"] : null, sortDirection: "asc" }))}
+                    aria-label={t('sortGoalsLabel')}
+                    className="goal-filter-dropdown"
+                />}
+                <Dropdown
+                    items={groupByOptions}
+                    value={getSelectedOption(groupByOptions, props.filter.groupBy)}
+                    onChange={onOptionChange(value => ({ ...props.filter, groupBy: value as IPersonalGoalFilter["groupBy"] }))}
+                    aria-label={t('groupGoalsLabel')}
+                    className="goal-filter-dropdown goal-group-by-dropdown"
+                />
+                {isFilterActive && <Button text content={t('clearFiltersButtonText')} onClick={() => props.onFilterChange({ ...getDefaultPersonalGoalFilter(), sortColumn: props.filter.sortColumn, sortDirection: props.filter.sortDirection, groupBy: props.filter.groupBy })} />}
+            </Flex>
+            {isFilterActive && <Text size="small" className="goal-filter-result-count" content={t('filteredGoalsCountText', { filteredGoalsCount: props.filteredGoalsCount, totalGoalsCount: props.totalGoalsCount })} />}
+        </div>
+    );
+}
+
+export default GoalFilterToolbar;
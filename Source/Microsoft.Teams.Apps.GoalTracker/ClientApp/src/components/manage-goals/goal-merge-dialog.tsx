@@ -0,0 +1,197 @@
+﻿// <copyright file="goal-merge-dialog.tsx" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import * as React from "react";
+import { Dialog, Flex, Text, RadioGroup } from "@fluentui/react-northstar";
+import moment from "moment";
+import { useTranslation } from 'react-i18next';
+import { getKeyResults, getGoalProgress } from "../../helpers/goal-progress";
+import { getGoalPriorityCollection } from "../../helpers/goal-helper";
+import { getTags } from "../../helpers/goal-tag";
+import { getDoneCriteria, getDoneCriteriaValue, getDescriptionValue } from "../../helpers/goal-definition";
+import { IPersonalGoalDetail, IPersonalGoalNoteDetail } from "../../models/type";
+import Constants from "../../constants";
+import "../../styles/style.css";
+
+interface IGoalMergeDialogProps {
+    localGoalDetail: IPersonalGoalDetail,
+    serverGoalDetail: IPersonalGoalDetail,
+    localNotes: IPersonalGoalNoteDetail[],
+    serverNotes: IPersonalGoalNoteDetail[],
+    deletedNoteIds: string[],
+    goalStatusCollection: any,
+    onMerge: (goalDetail: IPersonalGoalDetail, notes: IPersonalGoalNoteDetail[]) => void,
+    onCancel: () => void,
+}
+
+interface IMergeField {
+    key: string,
+    label: string,
+    localValue: string,
+    serverValue: string
+}
+
+const serverVersion = "server";
+const localVersion = "local";
+
+/** Dialog to merge goal changes of user with changes made to same goal by another client. */
+const GoalMergeDialog: React.FunctionComponent<IGoalMergeDialogProps> = props => {
+    const { t } = useTranslation();
+    const [selectedVersions, setSelectedVersions] = React.useState<{ [fieldKey: string]: string }>({});
+
+    const getStatusName = (status: number) => {
+        let goalStatus = props.goalStatusCollection.find(goalStatus => goalStatus.value === status);
+        return goalStatus ? goalStatus.DisplayName : "";
+    }
+
+    const getDueDateText = (goalDetail: IPersonalGoalDetail) => {
+        return goalDetail.DueDate ? moment(goalDetail.DueDate, Constants.dateTimeOffsetFormat).format(Constants.goalCycleDateTimeFormat) : t("noDueDateText");
+    }
+
+    const getPriorityName = (goalDetail: IPersonalGoalDetail) => {
+        let priority = getGoalPriorityCollection(t).find(priority => priority.value === goalDetail.Priority);
+        return priority ? priority.DisplayName : t("noPriorityText");
+    }
+
+    const getProgressText = (goalDetail: IPersonalGoalDetail) => {
+        let progress = getGoalProgress(goalDetail);
+        return progress === null ? t("goalProgressNotTrackedText") : `${progress}%`;
+    }
+
+    const getKeyResultsText = (goalDetail: IPersonalGoalDetail) => {
+        let keyResults = getKeyResults(goalDetail);
+        return keyResults.length > 0
+            ? keyResults.map(keyResult => `${keyResult.title} ${keyResult.currentValue}/${keyResult.targetValue} ${keyResult.unit}`.trim()).join(", ")
+            : t("noKeyResultsText");
+    }
+
+    const getTagsText = (goalDetail: IPersonalGoalDetail) => {
+        let tags = getTags(goalDetail);
+        return tags.length > 0 ? tags.map(tag => tag.name).join(", ") : t("noTagsText");
+    }
+
+    const getDefinitionOfDoneValue = (goalDetail: IPersonalGoalDetail) => getDoneCriteriaValue(getDoneCriteria(goalDetail));
+
+    const getDefinitionOfDoneText = (goalDetail: IPersonalGoalDetail) => {
+        let criteria = getDoneCriteria(goalDetail).filter(criterion => criterion.text.trim());
+        return criteria.length > 0 ? criteria.map(criterion => criterion.isDone ? `${criterion.text.trim()} (${t("doneCriterionDoneText")})` : criterion.text.trim()).join(", ") : t("noDoneCriteriaText");
+    }
+
+    const isServerVersionSelected = (fieldKey: string) => selectedVersions[fieldKey] === serverVersion;
+
+    let mergeFields: IMergeField[] = [];
+    if (props.localGoalDetail.GoalName !== props.serverGoalDetail.GoalName) {
+        mergeFields.push({ key: "GoalName", label: t("goalNameHeader"), localValue: props.localGoalDetail.GoalName, serverValue: props.serverGoalDetail.GoalName });
+    }
+
+    if (props.localGoalDetail.Status !== props.serverGoalDetail.Status) {
+        mergeFields.push({ key: "Status", label: t("goalStatusText"), localValue: getStatusName(props.localGoalDetail.Status), serverValue: getStatusName(props.serverGoalDetail.Status) });
+    }
+
+    if ((props.localGoalDetail.DueDate || null) !== (props.serverGoalDetail.DueDate || null)) {
+        mergeFields.push({ key: "DueDate", label: t("goalDueDateLabel"), localValue: getDueDateText(props.localGoalDetail), serverValue: getDueDateText(props.serverGoalDetail) });
+    }
+
+    if ((props.localGoalDetail.Priority ?? null) !== (props.serverGoalDetail.Priority ?? null)) {
+        mergeFields.push({ key: "Priority", label: t("goalPriorityLabel"), localValue: getPriorityName(props.localGoalDetail), serverValue: getPriorityName(props.serverGoalDetail) });
+    }
+
+    if ((props.localGoalDetail.Tags || null) !== (props.serverGoalDetail.Tags || null)) {
+        mergeFields.push({ key: "Tags", label: t("goalTagsLabel"), localValue: getTagsText(props.localGoalDetail), serverValue: getTagsText(props.serverGoalDetail) });
+    }
+
+    if (getDescriptionValue(props.localGoalDetail.Description) !== getDescriptionValue(props.serverGoalDetail.Description)) {
+        mergeFields.push({ key: "Description", label: t("goalDescriptionLabel"), localValue: getDescriptionValue(props.localGoalDetail.Description) || t("noGoalDescriptionText"), serverValue: getDescriptionValue(props.serverGoalDetail.Description) || t("noGoalDescriptionText") });
+    }
+
+    if (getDefinitionOfDoneValue(props.localGoalDetail) !== getDefinitionOfDoneValue(props.serverGoalDetail)) {
+        mergeFields.push({ key: "DefinitionOfDone", label: t("definitionOfDoneHeader"), localValue: getDefinitionOfDoneText(props.localGoalDetail), serverValue: getDefinitionOfDoneText(props.serverGoalDetail) });
+    }
+
+    if ((props.localGoalDetail.KeyResults || null) !== (props.serverGoalDetail.KeyResults || null)) {
+        mergeFields.push({ key: "KeyResults", label: t("keyResultsHeader"), localValue: getKeyResultsText(props.localGoalDetail), serverValue: getKeyResultsText(props.serverGoalDetail) });
+    }
+    else if (getGoalProgress(props.localGoalDetail) !== getGoalProgress(props.serverGoalDetail)) {
+        mergeFields.push({ key: "Progress", label: t("goalProgressLabel"), localValue: getProgressText(props.localGoalDetail), serverValue: getProgressText(props.serverGoalDetail) });
+    }
+
+    props.localNotes.forEach((localNote) => {
+        let serverNote = props.serverNotes.find(serverNote => serverNote.PersonalGoalNoteId === localNote.PersonalGoalNoteId);
+        if (serverNote && serverNote.PersonalGoalNoteDescription !== localNote.PersonalGoalNoteDescription) {
+            mergeFields.push({ key: localNote.PersonalGoalNoteId, label: t("mergeNoteLabel"), localValue: localNote.PersonalGoalNoteDescription, serverValue: serverNote.PersonalGoalNoteDescription });
+        }
+    });
+
+    /**
+    * Builds merged goal detail and notes. Server copy is used as base so fields which can not be edited by user are kept up to date.
+    */
+    const onConfirm = () => {
+        let goalDetail: IPersonalGoalDetail = {
+            ...props.serverGoalDetail,
+            GoalName: isServerVersionSelected("GoalName") ? props.serverGoalDetail.GoalName : props.localGoalDetail.GoalName,
+            Status: isServerVersionSelected("Status") ? props.serverGoalDetail.Status : props.localGoalDetail.Status,
+            DueDate: isServerVersionSelected("DueDate") ? props.serverGoalDetail.DueDate : props.localGoalDetail.DueDate,
+            Priority: isServerVersionSelected("Priority") ? props.serverGoalDetail.Priority : props.localGoalDetail.Priority,
+            Tags: isServerVersionSelected("Tags") ? props.serverGoalDetail.Tags : props.localGoalDetail.Tags,
+            Description: isServerVersionSelected("Description") ? props.serverGoalDetail.Description : props.localGoalDetail.Description,
+            DefinitionOfDone: isServerVersionSelected("DefinitionOfDone") ? props.serverGoalDetail.DefinitionOfDone : props.localGoalDetail.DefinitionOfDone,
+        };
+
+        // Progress is rolled up from key results, so both are taken from same version.
+        let progressGoalDetail = isServerVersionSelected("KeyResults") || isServerVersionSelected("Progress") ? props.serverGoalDetail : props.localGoalDetail;
+        goalDetail.Progress = progressGoalDetail.Progress;
+        goalDetail.KeyResults = progressGoalDetail.KeyResults;
+
+        let notes = props.localNotes.map((localNote) => {
+            let serverNote = props.serverNotes.find(serverNote => serverNote.PersonalGoalNoteId === localNote.PersonalGoalNoteId);
+            return serverNote && isServerVersionSelected(localNote.PersonalGoalNoteId)
+                ? { ...localNote, PersonalGoalNoteDescription: serverNote.PersonalGoalNoteDescription }
+                : localNote;
+        });
+
+        // Notes added by another client are kept unless user deleted them.
+        props.serverNotes.forEach((serverNote) => {
+            if (!notes.some(note => note.PersonalGoalNoteId === serverNote.PersonalGoalNoteId) && props.deletedNoteIds.indexOf(serverNote.PersonalGoalNoteId) === -1) {
+                notes.push(serverNote);
+            }
+        });
+
+        props.onMerge(goalDetail, notes);
+    }
+
+    const content = (
+        <Flex column gap="gap.medium" className="goal-merge-dialog-content">
+            <Text content={mergeFields.length > 0 ? t("mergeDialogDescription") : t("mergeNoDifferencesText")} />
+            {mergeFields.map((mergeField) => (
+                <Flex column gap="gap.smaller" key={mergeField.key}>
+                    <Text weight="semibold" content={mergeField.label} />
+                    <RadioGroup
+                        vertical
+                        checkedValue={selectedVersions[mergeField.key] || localVersion}
+                        onCheckedValueChange={(event, radioProps: any) => setSelectedVersions({ ...selectedVersions, [mergeField.key]: radioProps.value })}
+                        items={[
+                            { key: localVersion, value: localVersion, label: t("mergeKeepMineText", { value: mergeField.localValue }) },
+                            { key: serverVersion, value: serverVersion, label: t("mergeUseServerText", { value: mergeField.serverValue }) },
+                        ]}
+                    />
+                </Flex>
+            ))}
+        </Flex>
+    );
+
+    return (
+        <Dialog
+            open
+            className="goal-merge-dialog"
+            header={t("mergeDialogHeader")}
+            content={content}
+            cancelButton={t("cancelButtonText")}
+            confirmButton={t("mergeConfirmButtonText")}
+            onCancel={props.onCancel}
+            onConfirm={onConfirm}
+        />
+    );
+}
+
+export default GoalMergeDialog;
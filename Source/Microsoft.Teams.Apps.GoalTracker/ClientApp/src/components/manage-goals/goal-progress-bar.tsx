@@ -0,0 +1,39 @@
+﻿// <copyright file="goal-progress-bar.tsx" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import * as React from "react";
+import { Flex, Text } from "@fluentui/react-northstar";
+import { useTranslation } from 'react-i18next';
+import "../../styles/style.css";
+
+interface IGoalProgressBarProps {
+    progress: number | null,
+    label?: string,
+}
+
+/** Bar showing percent complete of goal or key result. Nothing is shown if progress is not tracked. */
+const GoalProgressBar: React.FunctionComponent<IGoalProgressBarProps> = props => {
+    const { t } = useTranslation();
+    if (props.progress === null) {
+        return null;
+    }
+
+    return (
+        <Flex gap="gap.smaller" vAlign="center" className="goal-progress">
+            <div
+                className="goal-progress-bar"
+                role="progressbar"
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={props.progress}
+                aria-label={props.label || t('goalProgressLabel')}
+            >
+                <div className="goal-progress-bar-value" style={{ width: `${props.progress}%` }} />
+            </div>
+            <Text size="small" className="goal-progress-text" content={`${props.progress}%`} />
+        </Flex>
+    );
+}
+
+export default GoalProgressBar;
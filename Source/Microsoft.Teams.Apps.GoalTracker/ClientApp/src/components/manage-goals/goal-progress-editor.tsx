@@ -0,0 +1,137 @@
+﻿// <copyright file="goal-progress-editor.tsx" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import * as React from "react";
+import { Flex, Text, Input, Button } from "@fluentui/react-northstar";
+import { AddIcon, TrashCanIcon } from '@fluentui/react-icons-northstar';
+import { useTranslation } from 'react-i18next';
+import { Guid } from "guid-typescript";
+import GoalProgressBar from "./goal-progress-bar";
+import { getKeyResults, getKeyResultProgress, getGoalProgress, setKeyResults } from "../../helpers/goal-progress";
+import Constants from "../../constants";
+import { IKeyResult, IPersonalGoalDetail } from "../../models/type";
+import "../../styles/style.css";
+
+interface IGoalProgressEditorProps {
+    personalGoalDetail: IPersonalGoalDetail,
+    onChange: (personalGoalDetail: IPersonalGoalDetail) => void,
+}
+
+/** Editor for percent complete and key results of personal goal. Progress can only be entered when goal has no key results. */
+const GoalProgressEditor: React.FunctionComponent<IGoalProgressEditorProps> = props => {
+    const { t } = useTranslation();
+    const keyResults = getKeyResults(props.personalGoalDetail);
+
+    /**
+    * Update progress entered by user. Empty progress means progress is not tracked.
+    * @param event {Object} Change event of progress input.
+    */
+    const onProgressChange = (event: any) => {
+        let value = event.target.value;
+        props.onChange({ ...props.personalGoalDetail, Progress: value === "" ? null : Math.round(Number(value)) });
+    }
+
+    /**
+    * Update field of key result.
+    * @param keyResultId {String} Unique identifier of key result.
+    * @param changes {Object} Changed fields of key result.
+    */
+    const onKeyResultChange = (keyResultId: string, changes: Partial<IKeyResult>) => {
+        props.onChange(setKeyResults(props.personalGoalDetail, keyResults.map(keyResult => keyResult.keyResultId === keyResultId ? { ...keyResult, ...changes } : keyResult)));
+    }
+
+    /**
+    * Add empty key result to goal.
+    */
+    const onAddKeyResult = () => {
+        props.onChange(setKeyResults(props.personalGoalDetail, keyResults.concat({ keyResultId: Guid.create().toString(), title: "", targetValue: 100, currentValue: 0, unit: "" })));
+    }
+
+    /**
+    * Remove key result from goal. Progress is kept at last rolled up value once last key result is removed.
+    * @param keyResultId {String} Unique identifier of key result.
+    */
+    const onRemoveKeyResult = (keyResultId: string) => {
+        props.onChange(setKeyResults(props.personalGoalDetail, keyResults.filter(keyResult => keyResult.keyResultId !== keyResultId)));
+    }
+
+    return (
+        <div className="goal-progress-editor">
+            <Flex gap="gap.large" vAlign="center" className="control-spacing edit-goal-title">
+                <Text align="center" content={t('goalProgressLabel')} />
+            </Flex>
+            <Flex gap="gap.small" vAlign="center" className="control-padding">
+                {keyResults.length === 0
+                    ? <Input
+                        type="number"
+                        min={0}
+                        max={100}
+                        className="goal-progress-input"
+                        aria-label={t('goalProgressLabel')}
+                        placeholder={t('goalProgressPlaceholder')}
+                        value={props.personalGoalDetail.Progress === null || props.personalGoalDetail.Progress === undefined ? "" : props.personalGoalDetail.Progress}
+                        onChange={onProgressChange}
+                    />
+                    : <Text size="small" content={t('goalProgressFromKeyResultsText')} />}
+                <GoalProgressBar progress={getGoalProgress(props.personalGoalDetail)} />
+            </Flex>
+            <Flex gap="gap.large" vAlign="center" space="between" className="control-spacing edit-goal-title">
+                <Text align="center" content={`${t('keyResultsHeader')} (${keyResults.length})`} />
+                <Button
+                    text
+                    size="small"
+                    icon={<AddIcon />}
+                    content={t('addKeyResultButtonText')}
+                    disabled={keyResults.length >= Constants.maxAllowedKeyResults}
+                    onClick={onAddKeyResult}
+                />
+            </Flex>
+            {keyResults.map((keyResult, index) => (
+                <div key={keyResult.keyResultId} className="key-result control-padding">
+                    <Flex gap="gap.small" vAlign="center">
+                        <Input
+                            fluid
+                            className="key-result-title"
+                            aria-label={t('keyResultTitleLabel', { index: index + 1 })}
+                            placeholder={t('keyResultTitlePlaceholder')}
+                            value={keyResult.title}
+                            title={keyResult.title}
+                            maxLength={Constants.maxAllowedKeyResultTitle}
+                            onChange={(event: any) => onKeyResultChange(keyResult.keyResultId, { title: event.target.value })}
+                        />
+                        <Button size="smaller" text iconOnly icon={<TrashCanIcon />} title={t('removeKeyResultText')} onClick={() => onRemoveKeyResult(keyResult.keyResultId)} />
+                    </Flex>
+                    <Flex gap="gap.small" vAlign="center" className="key-result-values">
+                        <Input
+                            type="number"
+                            className="key-result-value"
+                            aria-label={t('keyResultCurrentValueLabel')}
+                            value={keyResult.currentValue}
+                            onChange={(event: any) => onKeyResultChange(keyResult.keyResultId, { currentValue: Number(event.target.value) })}
+                        />
+                        <Text content="/" />
+                        <Input
+                            type="number"
+                            className="key-result-value"
+                            aria-label={t('keyResultTargetValueLabel')}
+                            value={keyResult.targetValue}
+                            onChange={(event: any) => onKeyResultChange(keyResult.keyResultId, { targetValue: Number(event.target.value) })}
+                        />
+                        <Input
+                            className="key-result-unit"
+                            aria-label={t('keyResultUnitLabel')}
+                            placeholder={t('keyResultUnitPlaceholder')}
+                            value={keyResult.unit}
+                            maxLength={Constants.maxAllowedKeyResultUnit}
+                            onChange={(event: any) => onKeyResultChange(keyResult.keyResultId, { unit: event.target.value })}
+                        />
+                        <GoalProgressBar progress={getKeyResultProgress(keyResult)} label={keyResult.title} />
+                    </Flex>
+                </div>
+            ))}
+        </div>
+    );
+}
+
+export default GoalProgressEditor;
@@ -0,0 +1,316 @@
+﻿// <copyright file="manage-goals.test.tsx" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import * as React from "react";
+import moment from "moment";
+import ManageGoals from "./manage-goals";
+import { setupTestHarness, renderRoute, cleanupRoute, waitFor, click, changeInputValue, pressKey, dragAndDrop, findButton } from "../../mock/test-harness";
+import { getMockBackendData, setMockBackendData } from "../../mock/mock-backend";
+import Constants from "../../constants";
+
+/**
+* Get names of goals shown in board column.
+* @param container {Object} Element containing rendered component.
+* @param columnName {String} Name of status column.
+*/
+const getBoardColumnGoalNames = (container: HTMLElement, columnName: string) => {
+    let column = container.querySelector(`.goal-board-column[aria-label="${columnName}"]`)!;
+    return Array.from(column.querySelectorAll(".goal-board-card-title")).map(title => title.textContent);
+}
+
+/**
+* Get board card of personal goal.
+* @param container {Object} Element containing rendered component.
+* @param goalName {String} Name of personal goal.
+*/
+const getBoardCard = (container: HTMLElement, goalName: string) => {
+    let personalGoal = getMockBackendData().personalGoals.find(goal => goal.GoalName === goalName)!;
+    return container.querySelector(`[data-goal-id="${personalGoal.PersonalGoalId}"]`)!;
+}
+
+describe("ManageGoals", () => {
+    afterEach(cleanupRoute);
+
+    it("shows personal goals grouped by status", async () => {
+        setupTestHarness();
+        let container = await renderRoute(<ManageGoals />, "/manage-goals");
+
+        await waitFor(() => container.textContent!.includes("Draft campaign landing page copy"));
+        expect(container.textContent).toContain("Not started (1)");
+        expect(container.textContent).toContain("In progress (2)");
+        expect(container.textContent).toContain("Completed (1)");
+    });
+
+    it("groups goals by tag from deep link", async () => {
+        setupTestHarness(undefined, data => {
+            data.personalGoals.find(goal => goal.GoalName === "Mentor a new team member")!.Tags = JSON.stringify([{ name: "Wellbeing", color: "teal" }, { name: "learning", color: "red" }]);
+        });
+        let container = await renderRoute(<ManageGoals />, "/manage-goals?group=tag");
+        await waitFor(() => container.textContent!.includes("Draft campaign landing page copy"));
+
+        let headers = Array.from(container.querySelectorAll(".goal-header")).map(header => header.textContent);
+        expect(headers).toEqual(["Due this week (1)", "Delivery (1)", "Learning (2)", "Wellbeing (1)", "Untagged (1)"]);
+    });
+
+    it("expands goal row to show description and definition of done", async () => {
+        let fakeTeamsHost = setupTestHarness();
+        let container = await renderRoute(<ManageGoals />, "/manage-goals");
+        await waitFor(() => container.textContent!.includes("Publish weekly newsletter"));
+
+        expect(container.querySelectorAll(".goal-definition-toggle")).toHaveLength(1);
+        await click(container.querySelector(`button[title="Show details of Publish weekly newsletter"]`)!);
+
+        let definitionRow = container.querySelector(".goal-definition-row")!;
+        expect(definitionRow.textContent).toContain("One issue every Friday with product news and a customer story.");
+        expect(Array.from(definitionRow.querySelectorAll(".done-criterion-done")).map(item => item.textContent)).toEqual(["Reader survey results shared with team"]);
+        expect(fakeTeamsHost.startedTasks).toHaveLength(0);
+    });
+
+    it("opens edit goal task module when goal is clicked", async () => {
+        let fakeTeamsHost = setupTestHarness();
+        let container = await renderRoute(<ManageGoals />, "/manage-goals");
+        await waitFor(() => container.textContent!.includes("Draft campaign landing page copy"));
+
+        let personalGoal = getMockBackendData().personalGoals.find(goal => goal.GoalName === "Draft campaign landing page copy")!;
+        Array.from(container.querySelectorAll(".goal-table-goal-name-cell"))[0].dispatchEvent(new MouseEvent("click", { bubbles: true }));
+
+        expect(fakeTeamsHost.startedTasks).toHaveLength(1);
+        expect(fakeTeamsHost.startedTasks[0].url).toContain(`/edit-goal-detail?goalId=${personalGoal.PersonalGoalId}`);
+    });
+
+    it("filters goals by note text from deep link", async () => {
+        setupTestHarness();
+        let container = await renderRoute(<ManageGoals />, "/manage-goals?search=open%20rate");
+
+        await waitFor(() => container.textContent!.includes("Showing 1 of 4 goals"));
+        expect(container.textContent).toContain("Not started (0)");
+        expect(container.textContent).toContain("In progress (1)");
+        expect(container.textContent).toContain("Completed (0)");
+    });
+
+    it("stores search text and sort column in page URL", async () => {
+        setupTestHarness();
+        let container = await renderRoute(<ManageGoals />, "/manage-goals?theme=dark");
+        await waitFor(() => container.textContent!.includes("Draft campaign landing page copy"));
+
+        await changeInputValue(container.querySelector(".goal-filter-search input") as HTMLInputElement, "campaign");
+        await click(container.querySelector(".sortable-table-header")!);
+        await click(container.querySelector(".sortable-table-header")!);
+
+        let params = new URLSearchParams(window.location.search);
+        expect(params.get("theme")).toBe("dark");
+        expect(params.get("search")).toBe("campaign");
+        expect(params.get("sort")).toBe("name");
+        expect(params.get("order")).toBe("desc");
+        expect(container.textContent).toContain("Showing 1 of 4 goals");
+    });
+
+    it("moves goal to next status column using keyboard", async () => {
+        setupTestHarness();
+        let container = await renderRoute(<ManageGoals />, "/manage-goals?view=board");
+        await waitFor(() => container.querySelector(".goal-board-card") !== null);
+
+        await pressKey(getBoardCard(container, "Draft campaign landing page copy"), "ArrowRight");
+
+        expect(getBoardColumnGoalNames(container, "In progress")).toContain("Draft campaign landing page copy");
+        await waitFor(() => getMockBackendData().personalGoals.find(goal => goal.GoalName === "Draft campaign landing page copy")!.Status === 1);
+        expect(document.activeElement).toBe(getBoardCard(container, "Draft campaign landing page copy"));
+    });
+
+    it("moves goal again only once its previous move is stored", async () => {
+        setupTestHarness();
+        let container = await renderRoute(<ManageGoals />, "/manage-goals?view=board");
+        await waitFor(() => container.querySelector(".goal-board-card") !== null);
+
+        await pressKey(getBoardCard(container, "Draft campaign landing page copy"), "ArrowRight");
+        await pressKey(getBoardCard(container, "Draft campaign landing page copy"), "ArrowRight");
+        expect(getBoardColumnGoalNames(container, "In progress")).toContain("Draft campaign landing page copy");
+        await waitFor(() => container.querySelector(".goal-board-card-moving") === null);
+
+        await pressKey(getBoardCard(container, "Draft campaign landing page copy"), "ArrowRight");
+        await waitFor(() => getMockBackendData().personalGoals.find(goal => goal.GoalName === "Draft campaign landing page copy")!.Status === 2);
+        expect(getBoardColumnGoalNames(container, "Completed")).toContain("Draft campaign landing page copy");
+        expect(container.textContent).not.toContain("was changed elsewhere");
+    });
+
+    it("changes goal status when card is dropped on other column", async () => {
+        setupTestHarness();
+        let container = await renderRoute(<ManageGoals />, "/manage-goals?view=board");
+        await waitFor(() => container.querySelector(".goal-board-card") !== null);
+
+        await dragAndDrop(getBoardCard(container, "Mentor a new team member"), container.querySelector(`.goal-board-column[aria-label="Completed"]`)!);
+
+        expect(getBoardColumnGoalNames(container, "Completed")).toEqual(["Complete analytics certification", "Mentor a new team member"]);
+        await waitFor(() => getMockBackendData().personalGoals.find(goal => goal.GoalName === "Mentor a new team member")!.Status === 2);
+    });
+
+    it("moves card back when status could not be stored", async () => {
+        setupTestHarness();
+        let container = await renderRoute(<ManageGoals />, "/manage-goals?view=board");
+        await waitFor(() => container.querySelector(".goal-board-card") !== null);
+
+        let data = getMockBackendData();
+        data.personalGoals.find(goal => goal.GoalName === "Draft campaign landing page copy")!.LastModifiedOn = new Date().toISOString();
+        setMockBackendData(data);
+        await pressKey(getBoardCard(container, "Draft campaign landing page copy"), "ArrowRight");
+
+        await waitFor(() => container.textContent!.includes("was changed elsewhere"));
+        expect(getBoardColumnGoalNames(container, "Not started")).toEqual(["Draft campaign landing page copy"]);
+        expect(getMockBackendData().personalGoals.find(goal => goal.GoalName === "Draft campaign landing page copy")!.Status).toBe(0);
+    });
+
+    it("shows goals due this week in separate panel", async () => {
+        setupTestHarness(undefined, data => {
+            data.personalGoals.find(goal => goal.GoalName === "Mentor a new team member")!.DueDate = moment().subtract(1, "day").format(Constants.dateTimeOffsetFormat);
+        });
+        let container = await renderRoute(<ManageGoals />, "/manage-goals");
+        await waitFor(() => container.textContent!.includes("Due this week (2)"));
+
+        let rows = Array.from(container.querySelectorAll(".goal-due-this-week .goal-table-goal-name-cell")).map(cell => cell.parentElement!);
+        expect(rows.map(row => row.querySelector(".goal-table-goal-name-cell [title]")!.textContent)).toEqual(["Mentor a new team member", "Draft campaign landing page copy"]);
+        expect(rows.map(row => row.querySelector(".goal-priority-badge")!.textContent)).toEqual(["Medium", "High"]);
+        expect(rows.map(row => row.querySelector(".goal-due-state-badge")!.textContent)).toEqual(["Overdue", "Due soon"]);
+        expect(rows[0].className).toContain("goal-row-overdue");
+        expect(container.textContent).toContain("Not started (1)");
+    });
+
+    it("changes status of goals selected with shift click in one batch", async () => {
+        setupTestHarness(undefined, data => {
+            data.personalGoals.find(goal => goal.GoalName === "Mentor a new team member")!.DueDate = moment().endOf("week").format(Constants.dateTimeOffsetFormat);
+            data.personalGoals.find(goal => goal.GoalName === "Publish weekly newsletter")!.DueDate = moment().endOf("week").format(Constants.dateTimeOffsetFormat);
+        });
+        let container = await renderRoute(<ManageGoals />, "/manage-goals");
+        await waitFor(() => container.textContent!.includes("Due this week (3)"));
+
+        let checkboxes = container.querySelectorAll(".goal-due-this-week .goal-select-checkbox");
+        await click(checkboxes[0]);
+        await click(checkboxes[2], { shiftKey: true });
+        expect(container.textContent).toContain("3 selected");
+
+        await click(container.querySelector(".goal-bulk-action-apply")!);
+        expect(document.body.textContent).toContain("Do you want to change status of selected goals (3) to Not started?");
+        await click(Array.from(document.querySelectorAll(".goal-bulk-action-confirmation-dialog button")).find(button => button.textContent === "Confirm")!);
+
+        await waitFor(() => container.textContent!.includes("Action applied to selected goals (3)."));
+        expect(getMockBackendData().personalGoals.filter(goal => goal.IsActive && goal.Status === 0).map(goal => goal.GoalName).sort()).toEqual(["Draft campaign landing page copy", "Mentor a new team member", "Publish weekly newsletter"]);
+        expect(container.querySelector(".goal-bulk-actions")).toBeNull();
+    });
+
+    it("summarizes goals for which bulk action failed", async () => {
+        setupTestHarness(undefined, data => {
+            data.personalGoals.find(goal => goal.GoalName === "Mentor a new team member")!.DueDate = moment().endOf("week").format(Constants.dateTimeOffsetFormat);
+        });
+        let container = await renderRoute(<ManageGoals />, "/manage-goals");
+        await waitFor(() => container.textContent!.includes("Due this week (2)"));
+
+        await click(container.querySelector(".goal-due-this-week .goal-select-all-checkbox")!);
+        let data = getMockBackendData();
+        data.personalGoals = data.personalGoals.filter(goal => goal.GoalName !== "Mentor a new team member");
+        setMockBackendData(data);
+        await click(container.querySelector(".goal-bulk-action-apply")!);
+        await click(Array.from(document.querySelectorAll(".goal-bulk-action-confirmation-dialog button")).find(button => button.textContent === "Confirm")!);
+
+        await waitFor(() => container.textContent!.includes("Action applied to 1 of 2 goals"));
+        expect(container.querySelector(".bulk-action-summary")!.textContent).toContain("Mentor a new team member (The personal goal does not exist.)");
+    });
+
+    it("deletes goal right away and restores it when deletion is undone", async () => {
+        setupTestHarness();
+        let container = await renderRoute(<ManageGoals />, "/manage-goals");
+        await waitFor(() => container.textContent!.includes("Draft campaign landing page copy"));
+
+        await click(container.querySelector(`.goal-table-delete button[title="Delete"]`)!);
+        await click(findButton(document.querySelector(".goal-delete-confirmation-dialog") as HTMLElement, "Confirm")!);
+
+        expect(container.querySelector(".undo-toast")!.textContent).toContain("Goal \"Draft campaign landing page copy\" deleted.");
+        expect(container.textContent).toContain("Not started (0)");
+        await waitFor(() => getMockBackendData().personalGoals.find(goal => goal.GoalName === "Draft campaign landing page copy")!.IsDeleted);
+        await click(findButton(container, "Undo")!);
+
+        expect(container.querySelector(".undo-toast")).toBeNull();
+        expect(container.textContent).toContain("Not started (1)");
+        await waitFor(() => !getMockBackendData().personalGoals.find(goal => goal.GoalName === "Draft campaign landing page copy")!.IsDeleted);
+    });
+
+    it("keeps goal deleted when deletion could not be undone", async () => {
+        setupTestHarness();
+        let container = await renderRoute(<ManageGoals />, "/manage-goals");
+        await waitFor(() => container.textContent!.includes("Draft campaign landing page copy"));
+
+        await click(container.querySelector(`.goal-table-delete button[title="Delete"]`)!);
+        await click(findButton(document.querySelector(".goal-delete-confirmation-dialog") as HTMLElement, "Confirm")!);
+        await waitFor(() => getMockBackendData().personalGoals.find(goal => goal.GoalName === "Draft campaign landing page copy")!.IsDeleted);
+        let data = getMockBackendData();
+        data.personalGoals = data.personalGoals.filter(goal => goal.GoalName !== "Draft campaign landing page copy");
+        setMockBackendData(data);
+        await click(findButton(container, "Undo")!);
+
+        await waitFor(() => container.querySelector(".deletion-undo-error") !== null);
+        expect(container.querySelector(".deletion-undo-error")!.textContent).toContain("Goal \"Draft campaign landing page copy\" could not be restored.");
+        expect(container.textContent).toContain("Not started (0)");
+    });
+
+    it("restores goal from recently deleted view", async () => {
+        setupTestHarness(undefined, data => {
+            let personalGoal = data.personalGoals.find(goal => goal.GoalName === "Mentor a new team member")!;
+            personalGoal.IsDeleted = true;
+            personalGoal.IsActive = false;
+        });
+        let container = await renderRoute(<ManageGoals />, "/manage-goals?view=deleted");
+        await waitFor(() => container.querySelector(".recently-deleted-goal") !== null);
+
+        expect(container.querySelector(".recently-deleted-goal")!.textContent).toContain("Mentor a new team member");
+        await click(container.querySelector(".restore-goal-button")!);
+
+        await waitFor(() => container.textContent!.includes("No recently deleted goals."));
+        let personalGoal = getMockBackendData().personalGoals.find(goal => goal.GoalName === "Mentor a new team member")!;
+        expect(personalGoal.IsDeleted).toBe(false);
+        expect(personalGoal.IsActive).toBe(true);
+        await click(Array.from(container.querySelectorAll(".goal-view-menu li")).find(item => item.textContent === "List")!);
+        await waitFor(() => container.textContent!.includes("Mentor a new team member"));
+    });
+
+    it("does not restore goal when goal cycle already has maximum number of goals", async () => {
+        setupTestHarness(undefined, data => {
+            let personalGoal = data.personalGoals.find(goal => goal.GoalName === "Mentor a new team member")!;
+            personalGoal.IsDeleted = true;
+            personalGoal.IsActive = false;
+            let activeGoals = data.personalGoals.filter(goal => goal.IsActive);
+            for (let index = activeGoals.length; index < Constants.maxAllowedGoals; index++) {
+                data.personalGoals.push({ ...activeGoals[0], PersonalGoalId: `additional-goal-${index}`, GoalName: `Additional goal ${index}` });
+            }
+        });
+        let container = await renderRoute(<ManageGoals />, "/manage-goals?view=deleted");
+        await waitFor(() => container.querySelector(".recently-deleted-goal") !== null);
+
+        await click(container.querySelector(".restore-goal-button")!);
+
+        expect(container.querySelector(".recently-deleted-goals-error")!.textContent).toContain("Only 15 goals can be active in one goal cycle.");
+        expect(getMockBackendData().personalGoals.find(goal => goal.GoalName === "Mentor a new team member")!.IsDeleted).toBe(true);
+    });
+
+    it("shows goals and notes of past goal cycle with completion comparison", async () => {
+        setupTestHarness();
+        let container = await renderRoute(<ManageGoals />, "/manage-goals");
+        await waitFor(() => container.textContent!.includes("Draft campaign landing page copy"));
+
+        await click(Array.from(container.querySelectorAll(".goal-view-menu li")).find(item => item.textContent === "Past cycles")!);
+
+        await waitFor(() => container.textContent!.includes("Publish monthly newsletter"));
+        expect(new URLSearchParams(window.location.search).get("view")).toBe("cycles");
+        expect(container.querySelector(`.past-goal-cycle-status[aria-label="Completed"]`)!.textContent).toContain("Subscriber count reached 1,200.");
+        expect(container.querySelector(`.past-goal-cycle-status[aria-label="Not started"]`)!.textContent).toContain("Present at marketing all-hands");
+        expect(container.textContent).not.toContain("Draft campaign landing page copy");
+        expect(Array.from(container.querySelectorAll(".goal-cycle-completion-rate")).map(rate => rate.textContent)).toEqual(["25%", "50%"]);
+        expect(container.textContent).toContain("25 percentage points lower");
+    });
+
+    it("shows only goals of signed in user", async () => {
+        setupTestHarness({ userObjectId: "00000000-0000-4000-8000-000000000000" });
+        let container = await renderRoute(<ManageGoals />, "/manage-goals");
+
+        await waitFor(() => container.textContent!.includes("No active goals available to show."));
+        expect(container.textContent).not.toContain("Draft campaign landing page copy");
+    });
+});
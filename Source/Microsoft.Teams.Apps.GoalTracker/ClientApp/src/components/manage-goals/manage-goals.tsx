@@ -4,32 +4,67 @@
 
 import * as React from 'react';
 import * as microsoftTeams from "@microsoft/teams-js";
-import { Loader, Flex, Text } from "@fluentui/react-northstar";
+import { Loader, Flex, Text, Button, Menu } from "@fluentui/react-northstar";
 import { WithTranslation, withTranslation } from "react-i18next";
 import { TFunction } from "i18next";
 import { SeverityLevel } from "@microsoft/applicationinsights-web";
 import { createBrowserHistory } from "history";
 import { getApplicationInsightsInstance } from "../../helpers/app-insights";
 import PersonalGoalTable from "./personal-goals-table";
-import { getPersonalGoalDetails, deletePersonalGoalDetail } from "../../api/personal-goal-api";
+import GoalFilterToolbar from "./goal-filter-toolbar";
+import GoalBoard from "./goal-board";
+import PastGoalCycles from "./past-goal-cycles";
+import GoalBulkActions from "./goal-bulk-actions";
+import RecentlyDeletedGoals from "./recently-deleted-goals";
+import UndoToast from "./undo-toast";
+import { getPersonalGoalDetails, updatePersonalGoalDetail, deletePersonalGoalDetail, restorePersonalGoalDetail, updatePersonalGoalDetailsInBatch } from "../../api/personal-goal-api";
 import { getTeamGoalDetailsByTeamId } from "../../api/team-goal-api";
-import { getPersonalGoalNotesCount } from "../../api/personal-goal-note-api";
-import { handleError, getGoalStatusCollection } from "../../helpers/goal-helper";
+import { getPersonalGoalNotesCount, getUserPersonalGoalNoteDetails } from "../../api/personal-goal-note-api";
+import { getCachedQueryData, queryKeys } from "../../api/query-cache";
+import { subscribeToMutationQueue, refreshMutationQueue, dismissMutationConflicts } from "../../api/mutation-queue";
+import { handleError, handleRefreshError, getGoalStatusCollection } from "../../helpers/goal-helper";
+import { createRequestCanceller, isRequestCancelled } from "../../helpers/request-cancellation";
+import { withTeamsContext } from "../../helpers/teams-context";
+import { getPersonalGoalFilterFromQuery, getPersonalGoalFilterQuery, filterPersonalGoals, getNextSortDirection } from "../../helpers/goal-filter";
+import { formatGoalCycleDates } from "../../helpers/goal-cycle";
 import Constants from "../../constants";
-import { IPersonalGoalDetail } from "../../models/type";
-let moment = require('moment');
+import { IPersonalGoalDetail, ITeamGoalDetail, IMutationConflict, IMutationQueueState, IRequestCanceller, ITeamsContextProps, IPersonalGoalFilter, IPersonalGoalNoteDetail, IPersonalGoalBatchRequest, PersonalGoalSortColumn, PersonalGoalView } from "../../models/type";
 
 interface IManageGoalState {
     loader: boolean,
     errorMessage: string,
     goalsData: IPersonalGoalDetail[],
     screenWidth: number,
+    pendingSyncGoalIds: string[],
+    syncConflicts: IMutationConflict[],
+    filter: IPersonalGoalFilter,
+    teamGoalsData: ITeamGoalDetail[],
+    searchNotesData: IPersonalGoalNoteDetail[] | null,
+    view: PersonalGoalView,
+    movingGoalIds: string[],
+    statusChangeErrorMessage: string,
+    selectedGoalIds: string[],
+    isBulkActionRunning: boolean,
+    bulkActionMessage: string,
+    hasBulkActionFailures: boolean,
+    deletedGoal: IPersonalGoalDetail | null,
+    deletionUndoErrorMessage: string,
 }
 
 const browserHistory = createBrowserHistory({ basename: "" });
+const personalGoalViews: PersonalGoalView[] = ["list", "board", "cycles", "deleted"];
+
+/**
+* Read view of personal goals tab from query of page URL.
+* @param search {String} Query string of page URL.
+*/
+const getPersonalGoalViewFromQuery = (search: string): PersonalGoalView => {
+    let view = new URLSearchParams(search).get(Constants.goalViewQueryParameter) as PersonalGoalView;
+    return personalGoalViews.indexOf(view) !== -1 ? view : "list";
+}
 
 /** Component for displaying personal goals tab. */
-class ManageGoal extends React.Component<WithTranslation, IManageGoalState> {
+class ManageGoal extends React.Component<WithTranslation & ITeamsContextProps, IManageGoalState> {
     localize: TFunction;
     telemetry?: any = null;
     appInsights: any;
@@ -38,6 +73,11 @@ class ManageGoal extends React.Component<WithTranslation, IManageGoalState> {
     appBaseUrl: string;
     appUrl: string = (new URL(window.location.href)).origin;
     goalCycle: string;
+    isCachedDataRendered: boolean = false;
+    unsubscribeFromMutationQueue?: () => void;
+    requestCanceller: IRequestCanceller;
+    isSearchNotesLoading: boolean = false;
+    goalDeletion?: Promise<boolean>;
 
     constructor(props: any) {
         super(props);
@@ -46,23 +86,58 @@ class ManageGoal extends React.Component<WithTranslation, IManageGoalState> {
             loader: false,
             errorMessage: "",
             goalsData: [],
-            screenWidth: 0
+            screenWidth: 0,
+            pendingSyncGoalIds: [],
+            syncConflicts: [],
+            filter: getPersonalGoalFilterFromQuery(window.location.search),
+            teamGoalsData: [],
+            searchNotesData: null,
+            view: getPersonalGoalViewFromQuery(window.location.search),
+            movingGoalIds: [],
+            statusChangeErrorMessage: "",
+            selectedGoalIds: [],
+            isBulkActionRunning: false,
+            bulkActionMessage: "",
+            hasBulkActionFailures: false,
+            deletedGoal: null,
+            deletionUndoErrorMessage: ""
         };
 
         this.botId = "";
         this.goalCycle = "";
         this.appBaseUrl = window.location.origin;
+        this.requestCanceller = createRequestCanceller();
     }
 
     /** Called once component is mounted. */
     async componentDidMount() {
-        microsoftTeams.initialize();
-        microsoftTeams.getContext((context) => {
-            this.appInsights = getApplicationInsightsInstance(this.telemetry, browserHistory);
-            this.getPersonalGoalDetails();
-            window.addEventListener("resize", this.update.bind(this));
-            this.update();
+        this.appInsights = getApplicationInsightsInstance(this.telemetry, browserHistory);
+        this.unsubscribeFromMutationQueue = subscribeToMutationQueue(this.onMutationQueueChange);
+        this.loadGoalDetails();
+        window.addEventListener("resize", this.update.bind(this));
+        this.update();
+    }
+
+    /** Called when component is unmounted. */
+    componentWillUnmount() {
+        this.requestCanceller.cancel();
+        if (this.unsubscribeFromMutationQueue) {
+            this.unsubscribeFromMutationQueue();
+        }
+    }
+
+    /**
+    *  Updates goals with pending offline changes and sync conflicts.
+    * */
+    onMutationQueueChange = (mutationQueueState: IMutationQueueState) => {
+        let pendingSyncGoalIds: string[] = [];
+        mutationQueueState.pendingMutations.forEach((mutation) => {
+            if (mutation.personalGoalId) {
+                pendingSyncGoalIds.push(mutation.personalGoalId);
+            }
         });
+
+        this.setState({ pendingSyncGoalIds: pendingSyncGoalIds, syncConflicts: mutationQueueState.conflicts });
     }
 
     /**
@@ -74,35 +149,77 @@ class ManageGoal extends React.Component<WithTranslation, IManageGoalState> {
         }
     };
 
+    /**
+    *  Renders cached goal details if available and refreshes them from storage.
+    * */
+    loadGoalDetails = () => {
+        this.isCachedDataRendered = this.renderCachedGoalDetails();
+        this.setState({ loader: !this.isCachedDataRendered });
+        this.getPersonalGoalDetails();
+        refreshMutationQueue();
+        if (this.state.filter.searchText.trim()) {
+            this.getSearchNoteDetails();
+        }
+    }
+
+    /**
+    *  Renders goal details cached by earlier visit so page does not open with loader.
+    *  @returns True if all data needed for page was cached.
+    * */
+    renderCachedGoalDetails = () => {
+        let personalGoalDetails = getCachedQueryData<IPersonalGoalDetail[]>(queryKeys.personalGoals());
+        if (!personalGoalDetails) {
+            return false;
+        }
+
+        if (personalGoalDetails.length > 0) {
+            let goalDetails = personalGoalDetails.find(goalDetails => goalDetails.IsAligned);
+            let teamGoalDetails = goalDetails ? getCachedQueryData<ITeamGoalDetail[]>(queryKeys.teamGoals(goalDetails.TeamId)) : [];
+            let personalGoalNoteDetails = getCachedQueryData(queryKeys.personalGoalNotesCount());
+            if (!teamGoalDetails || !personalGoalNoteDetails) {
+                return false;
+            }
+
+            this.setGoalCycle(personalGoalDetails);
+            this.setTeamGoalNames(personalGoalDetails, teamGoalDetails);
+            this.setState({ teamGoalsData: teamGoalDetails });
+            this.setNotesCount(personalGoalDetails, personalGoalNoteDetails);
+        }
+
+        this.setState({ goalsData: personalGoalDetails });
+        return true;
+    }
+
     /** 
     *  Get personal goal details from storage.
     * */
     getPersonalGoalDetails = async () => {
         this.appInsights.trackTrace({ message: `'getPersonalGoalDetails' - Request initiated`, severityLevel: SeverityLevel.Information });
-        this.setState({ loader: true });
-        const personalGoalDetailsResponse = await getPersonalGoalDetails();
-        if (personalGoalDetailsResponse) {
-            if (personalGoalDetailsResponse.status === 200) {
-                let personalGoalDetails: any = personalGoalDetailsResponse;
-                this.setState({ goalsData: personalGoalDetails.data });
-                if (personalGoalDetails.data && personalGoalDetails.data.length > 0) {
-                    this.goalCycle = `${moment(personalGoalDetails.data[0].StartDate).format(Constants.goalCycleDateTimeFormat)} ${this.localize("goalCycleToText")} ${moment(personalGoalDetails.data[0].EndDate).format(Constants.goalCycleDateTimeFormat)}`;
-                    let goalDetails = personalGoalDetails.data.find(goalDetails => goalDetails.IsAligned);
-                    if (goalDetails) {
-                        await this.getTeamGoalDetails(goalDetails.TeamId);
-                    }
-                    else
-                    {
-                        personalGoalDetails.data.forEach((goalDetail) => {
-                            goalDetail.TeamGoalName = this.localize("notAlignedTeamGoaltext");
-                        });
-                    }
-                    await this.getPersonalGoalNoteDetails();
+        const personalGoalDetailsResponse = await getPersonalGoalDetails(this.requestCanceller.signal);
+        if (isRequestCancelled(personalGoalDetailsResponse)) {
+            return;
+        }
+        else if (personalGoalDetailsResponse.isSuccess) {
+            let personalGoalDetails = personalGoalDetailsResponse.data;
+            if (personalGoalDetails && personalGoalDetails.length > 0) {
+                this.setGoalCycle(personalGoalDetails);
+                let goalDetails = personalGoalDetails.find(goalDetails => goalDetails.IsAligned);
+                if (goalDetails) {
+                    await this.getTeamGoalDetails(goalDetails.TeamId!, personalGoalDetails);
+                }
+                else
+                {
+                    this.setTeamGoalNames(personalGoalDetails, []);
+                }
+                await this.getPersonalGoalNoteDetails(personalGoalDetails);
+                if (this.requestCanceller.signal.aborted) {
+                    return;
                 }
             }
-            else {
-                handleError(personalGoalDetailsResponse);
-            }
+            this.setState({ goalsData: personalGoalDetails });
+        }
+        else {
+            handleRefreshError(personalGoalDetailsResponse, this.isCachedDataRendered);
         }
         this.setState({ loader: false });
     }
@@ -110,100 +227,305 @@ class ManageGoal extends React.Component<WithTranslation, IManageGoalState> {
     /** 
     *  Get team goal details from storage.
     * */
-    getTeamGoalDetails = async (teamId: string) => {
+    getTeamGoalDetails = async (teamId: string, personalGoalDetails: IPersonalGoalDetail[]) => {
         this.appInsights.trackTrace({ message: `'getTeamGoalDetails' - Request initiated`, severityLevel: SeverityLevel.Information });
-        this.setState({ loader: true });
-        const teamGoalDetailsResponse = await getTeamGoalDetailsByTeamId(teamId);
-        if (teamGoalDetailsResponse) {
-            if (teamGoalDetailsResponse.status === 200) {
-                let teamGoalDetails: any = teamGoalDetailsResponse.data;
-                let personalGoalDetails = this.state.goalsData;
-                
-                personalGoalDetails.forEach((goalDetail) => {
-                    if (goalDetail.IsAligned) {
-                        goalDetail.TeamGoalName = "";
-                        goalDetail.TeamGoalId?.split(",").forEach((teamGoalId) => {
-                            let alignedTeamGoalDetail = teamGoalDetails && teamGoalDetails.find(teamGoalDetail => teamGoalDetail.TeamGoalId === teamGoalId);
-                            goalDetail.TeamGoalName += (alignedTeamGoalDetail && alignedTeamGoalDetail.TeamGoalName.trim() + ", ") || this.localize("notAlignedTeamGoaltext");
-                        });
-                        goalDetail.TeamGoalName = goalDetail.TeamGoalName?.trim().slice(0, -1);
-                    }
-                    else {
-                        goalDetail.TeamGoalName = this.localize("notAlignedTeamGoaltext")
-                    }
-                });
-                this.setState({ goalsData: personalGoalDetails });
-            }
-            else {
-                handleError(teamGoalDetailsResponse);
-            }
+        const teamGoalDetailsResponse = await getTeamGoalDetailsByTeamId(teamId, this.requestCanceller.signal);
+        if (teamGoalDetailsResponse.isSuccess) {
+            this.setTeamGoalNames(personalGoalDetails, teamGoalDetailsResponse.data);
+            this.setState({ teamGoalsData: teamGoalDetailsResponse.data });
+        }
+        else {
+            handleRefreshError(teamGoalDetailsResponse, this.isCachedDataRendered);
         }
-        this.setState({ loader: false });
     }
 
     /** 
     *  Get details of personal goal 
     * */
-    getPersonalGoalNoteDetails = async () => {
+    getPersonalGoalNoteDetails = async (personalGoalDetails: IPersonalGoalDetail[]) => {
         this.appInsights.trackTrace({ message: `'getPersonalGoalNotesCount' - Request initiated`, severityLevel: SeverityLevel.Information });
-        this.setState({ loader: true });
-        const getPersonalGoalNotesCountResponse = await getPersonalGoalNotesCount();
-        if (getPersonalGoalNotesCountResponse) {
-            if (getPersonalGoalNotesCountResponse.status === 200) {
-                let personalGoalNoteDetails: any = getPersonalGoalNotesCountResponse.data;
-                let personalGoalDetails = this.state.goalsData;
-                personalGoalDetails.forEach((goalDetail) => {
-                    let personalGoalNoteDetail = personalGoalNoteDetails && personalGoalNoteDetails.find(personalGoalNoteDetail => personalGoalNoteDetail.personalGoalId === goalDetail.PersonalGoalId);
-                    goalDetail.NotesCount = (personalGoalNoteDetail && personalGoalNoteDetail.notesCount) || 0;
-                });
+        const getPersonalGoalNotesCountResponse = await getPersonalGoalNotesCount(this.requestCanceller.signal);
+        if (getPersonalGoalNotesCountResponse.isSuccess) {
+            this.setNotesCount(personalGoalDetails, getPersonalGoalNotesCountResponse.data);
+        }
+        else {
+            handleRefreshError(getPersonalGoalNotesCountResponse, this.isCachedDataRendered);
+        }
+    }
+
+    /**
+    *  Get all notes of user so goals can be searched by note text.
+    * */
+    getSearchNoteDetails = async () => {
+        if (this.isSearchNotesLoading) {
+            return;
+        }
+
+        this.isSearchNotesLoading = true;
+        const personalGoalNoteDetailsResponse = await getUserPersonalGoalNoteDetails(this.requestCanceller.signal);
+        this.isSearchNotesLoading = false;
+        if (isRequestCancelled(personalGoalNoteDetailsResponse)) {
+            return;
+        }
+        else if (personalGoalNoteDetailsResponse.isSuccess) {
+            this.setState({ searchNotesData: personalGoalNoteDetailsResponse.data });
+        }
+        else {
+            handleRefreshError(personalGoalNoteDetailsResponse, true);
+        }
+    }
+
+    /**
+    *  Applies filter selected by user and stores it in page URL so deep link reproduces the view.
+    * */
+    onFilterChange = (filter: IPersonalGoalFilter) => {
+        this.setState({ filter: filter });
+        window.history.replaceState(null, "", `${window.location.pathname}${getPersonalGoalFilterQuery(window.location.search, filter)}`);
+        if (filter.searchText.trim() && !this.state.searchNotesData) {
+            this.getSearchNoteDetails();
+        }
+    }
+
+    /**
+    *  Sorts goals by column clicked by user. Clicking sorted column reverses sort direction.
+    * */
+    onSortChange = (sortColumn: PersonalGoalSortColumn) => {
+        this.onFilterChange({ ...this.state.filter, sortColumn: sortColumn, sortDirection: getNextSortDirection(this.state.filter, sortColumn) });
+    }
+
+    /**
+    *  Switches between list, board and past cycles view, and stores view in page URL.
+    * */
+    onViewChange = (view: PersonalGoalView) => {
+        let params = new URLSearchParams(window.location.search);
+        if (view !== "list") {
+            params.set(Constants.goalViewQueryParameter, view);
+        }
+        else {
+            params.delete(Constants.goalViewQueryParameter);
+        }
+
+        if (view !== "cycles") {
+            params.delete(Constants.goalCycleQueryParameter);
+        }
+
+        let query = params.toString();
+        window.history.replaceState(null, "", `${window.location.pathname}${query ? `?${query}` : ""}`);
+        this.setState({ view: view, statusChangeErrorMessage: "" });
+    }
+
+    /**
+    *  Changes personal goal shown on page.
+    * */
+    setGoalDetail = (personalGoalId: string, changes: Partial<IPersonalGoalDetail>) => {
+        this.setState((state) => ({
+            goalsData: state.goalsData.map(goalDetail => goalDetail.PersonalGoalId === personalGoalId ? { ...goalDetail, ...changes } : goalDetail)
+        }));
+    }
+
+    /**
+    *  Moves goal to new status column of board right away and stores status. Goal is moved back if status could not be stored.
+    *  Goal cannot be moved again until its new last modified time is known, so next move is not rejected as conflicting.
+    * */
+    onGoalStatusChange = async (personalGoalDetail: IPersonalGoalDetail, status: number) => {
+        let previousStatus = personalGoalDetail.Status;
+        this.appInsights.trackTrace({ message: `'onGoalStatusChange' - Request initiated`, severityLevel: SeverityLevel.Information });
+        this.setGoalDetail(personalGoalDetail.PersonalGoalId, { Status: status });
+        this.setState((state) => ({ movingGoalIds: [...state.movingGoalIds, personalGoalDetail.PersonalGoalId], statusChangeErrorMessage: "" }));
 
-                this.setState({ goalsData: personalGoalDetails });
+        const updatePersonalGoalResponse = await updatePersonalGoalDetail({ ...personalGoalDetail, Status: status }, this.requestCanceller.signal);
+        if (isRequestCancelled(updatePersonalGoalResponse)) {
+            return;
+        }
+
+        if (!updatePersonalGoalResponse.isSuccess) {
+            this.setGoalDetail(personalGoalDetail.PersonalGoalId, { Status: previousStatus });
+            this.setState({
+                statusChangeErrorMessage: this.localize(updatePersonalGoalResponse.errorCode === "conflict" ? "goalStatusChangeConflictError" : "goalStatusChangeError", { goalName: personalGoalDetail.GoalName })
+            });
+        }
+        else if (updatePersonalGoalResponse.data) {
+            this.setGoalDetail(personalGoalDetail.PersonalGoalId, { LastModifiedOn: updatePersonalGoalResponse.data.LastModifiedOn });
+        }
+
+        this.setState((state) => ({ movingGoalIds: state.movingGoalIds.filter(goalId => goalId !== personalGoalDetail.PersonalGoalId) }));
+    }
+
+    /**
+    *  Adds goals to or removes goals from selection used for bulk actions.
+    * */
+    onGoalSelectionChange = (goalIds: string[], isSelected: boolean) => {
+        this.setState((state) => ({
+            selectedGoalIds: isSelected
+                ? state.selectedGoalIds.concat(goalIds.filter(goalId => state.selectedGoalIds.indexOf(goalId) === -1))
+                : state.selectedGoalIds.filter(goalId => goalIds.indexOf(goalId) === -1)
+        }));
+    }
+
+    /**
+    *  Applies bulk action to selected goals which are shown on page and summarizes goals for which it failed. Failed goals stay selected so action can be retried.
+    * */
+    onBulkActionApply = async (batchRequest: IPersonalGoalBatchRequest) => {
+        let shownGoals = filterPersonalGoals(this.getShownGoals(), this.state.filter, this.state.searchNotesData);
+        let personalGoalIds = batchRequest.PersonalGoalIds.filter(goalId => shownGoals.some(goalDetail => goalDetail.PersonalGoalId === goalId));
+        if (personalGoalIds.length === 0) {
+            return;
+        }
+
+        this.appInsights.trackTrace({ message: `'onBulkActionApply' - Request initiated`, severityLevel: SeverityLevel.Information });
+        this.setState({ isBulkActionRunning: true, bulkActionMessage: "" });
+        const batchResponse = await updatePersonalGoalDetailsInBatch({ ...batchRequest, PersonalGoalIds: personalGoalIds }, this.requestCanceller.signal);
+        if (isRequestCancelled(batchResponse)) {
+            return;
+        }
+
+        if (!batchResponse.isSuccess) {
+            this.setState({ isBulkActionRunning: false, bulkActionMessage: this.localize("bulkActionError"), hasBulkActionFailures: true });
+            return;
+        }
+
+        let failedResults = batchResponse.data.filter(result => !result.IsSuccess);
+        let failureReasons = failedResults.map((result) => {
+            let goalDetail = this.state.goalsData.find(goalDetail => goalDetail.PersonalGoalId === result.PersonalGoalId);
+            return `${goalDetail ? goalDetail.GoalName : result.PersonalGoalId} (${result.ErrorMessage || this.localize("bulkActionUnknownFailureReason")})`;
+        });
+
+        this.setState({
+            isBulkActionRunning: false,
+            selectedGoalIds: failedResults.map(result => result.PersonalGoalId),
+            hasBulkActionFailures: failedResults.length > 0,
+            bulkActionMessage: failedResults.length > 0
+                ? this.localize("bulkActionPartialFailureMessage", { succeededCount: batchResponse.data.length - failedResults.length, count: batchResponse.data.length, failureReasons: failureReasons.join(", ") })
+                : this.localize("bulkActionSuccessMessage", { count: batchResponse.data.length })
+        });
+        await this.getPersonalGoalDetails();
+        this.setState((state) => ({ selectedGoalIds: state.selectedGoalIds.filter(goalId => state.goalsData.some(goalDetail => goalDetail.PersonalGoalId === goalId)) }));
+    }
+
+    /**
+    *  Sets goal cycle from first personal goal.
+    * */
+    setGoalCycle = (personalGoalDetails: IPersonalGoalDetail[]) => {
+        this.goalCycle = formatGoalCycleDates(personalGoalDetails[0].StartDate, personalGoalDetails[0].EndDate, this.localize);
+    }
+
+    /**
+    *  Sets names of team goals personal goals are aligned with.
+    * */
+    setTeamGoalNames = (personalGoalDetails: IPersonalGoalDetail[], teamGoalDetails: any) => {
+        personalGoalDetails.forEach((goalDetail) => {
+            if (goalDetail.IsAligned) {
+                goalDetail.TeamGoalName = "";
+                goalDetail.TeamGoalId?.split(",").forEach((teamGoalId) => {
+                    let alignedTeamGoalDetail = teamGoalDetails && teamGoalDetails.find(teamGoalDetail => teamGoalDetail.TeamGoalId === teamGoalId);
+                    goalDetail.TeamGoalName += (alignedTeamGoalDetail && alignedTeamGoalDetail.TeamGoalName.trim() + ", ") || this.localize("notAlignedTeamGoaltext");
+                });
+                goalDetail.TeamGoalName = goalDetail.TeamGoalName?.trim().slice(0, -1);
             }
             else {
-                handleError(getPersonalGoalNotesCountResponse);
+                goalDetail.TeamGoalName = this.localize("notAlignedTeamGoaltext")
             }
-        }
-        this.setState({ loader: false });
+        });
+    }
+
+    /**
+    *  Sets notes count of personal goals.
+    * */
+    setNotesCount = (personalGoalDetails: IPersonalGoalDetail[], personalGoalNoteDetails: any) => {
+        personalGoalDetails.forEach((goalDetail) => {
+            let personalGoalNoteDetail = personalGoalNoteDetails && personalGoalNoteDetails.find(personalGoalNoteDetail => personalGoalNoteDetail.personalGoalId === goalDetail.PersonalGoalId);
+            goalDetail.NotesCount = (personalGoalNoteDetail && personalGoalNoteDetail.notesCount) || 0;
+        });
     }
 
     /**
-    *  Method deletes personal goal details from storage.
+    *  Method deletes personal goal details from storage. Deletion is not cancelled when user leaves page, as goal is already hidden.
     * */
     deletePersonalGoalDetail = async (personalGoalDetail: IPersonalGoalDetail) => {
-        this.setState({ loader: true });
         const deletePersonalGoalResponse = await deletePersonalGoalDetail(personalGoalDetail.PersonalGoalId);
-        if (deletePersonalGoalResponse) {
-            if (deletePersonalGoalResponse.status === 200) {
-                let personalGoalDetails = this.state.goalsData;
-                personalGoalDetails = personalGoalDetails.filter((goalDetail) => goalDetail.PersonalGoalId !== personalGoalDetail.PersonalGoalId);
-                this.setState({ goalsData: personalGoalDetails });
-                return true;
-            }
-            else {
-                handleError(deletePersonalGoalResponse);
-            }
+        if (!deletePersonalGoalResponse.isSuccess) {
+            handleError(deletePersonalGoalResponse);
+            return false;
         }
-        this.setState({ loader: false });
-        return false;
+        return true;
     }
 
     /**
-    *  Gets called when user clicks on delete goal button.
+    *  Removes goal from page.
+    * */
+    removeGoalDetail = (personalGoalId: string) => {
+        this.setState((state) => ({ goalsData: state.goalsData.filter((goalDetail) => goalDetail.PersonalGoalId !== personalGoalId) }));
+    }
+
+    /**
+    *  Gets called when user clicks on delete goal button. Goal is deleted right away and hidden while undo toast is shown.
+    *  Goal of earlier deletion is removed from page, as toast shows latest deletion only.
     * */
     onDeleteButtonClick = (personalGoalDetail: IPersonalGoalDetail) => {
-        personalGoalDetail.IsActive = false;
-        personalGoalDetail.IsDeleted = true;
-        this.deletePersonalGoalDetail(personalGoalDetail);
-        this.setState({ loader: false });
+        if (this.state.deletedGoal) {
+            this.removeGoalDetail(this.state.deletedGoal.PersonalGoalId);
+        }
+
+        this.goalDeletion = this.deletePersonalGoalDetail(personalGoalDetail);
+        this.setState((state) => ({
+            deletedGoal: personalGoalDetail,
+            deletionUndoErrorMessage: "",
+            selectedGoalIds: state.selectedGoalIds.filter(goalId => goalId !== personalGoalDetail.PersonalGoalId)
+        }));
         return true;
     };
 
+    /**
+    *  Removes deleted goal from page once undo toast is hidden.
+    * */
+    onDeletionUndoTimeout = () => {
+        if (this.state.deletedGoal) {
+            this.removeGoalDetail(this.state.deletedGoal.PersonalGoalId);
+            this.setState({ deletedGoal: null });
+        }
+    }
+
+    /**
+    *  Restores deleted goal when user clicks undo. Goal is shown again right away, and goals are reloaded once it is restored as restore changes its version.
+    * */
+    onDeletionUndo = async () => {
+        let deletedGoal = this.state.deletedGoal;
+        if (!deletedGoal) {
+            return;
+        }
+
+        this.setState({ deletedGoal: null });
+        if (!(await this.goalDeletion)) {
+            return;
+        }
+
+        const restorePersonalGoalResponse = await restorePersonalGoalDetail(deletedGoal.PersonalGoalId, this.requestCanceller.signal);
+        if (isRequestCancelled(restorePersonalGoalResponse)) {
+            return;
+        }
+        else if (!restorePersonalGoalResponse.isSuccess) {
+            this.removeGoalDetail(deletedGoal.PersonalGoalId);
+            this.setState({ deletionUndoErrorMessage: this.localize("goalRestoreError", { goalName: deletedGoal.GoalName }) });
+            return;
+        }
+
+        await this.getPersonalGoalDetails();
+    }
+
+    /**
+    *  Get goals shown on page, i.e. goals except the one deleted while undo toast is shown.
+    * */
+    getShownGoals = () => {
+        let deletedGoal = this.state.deletedGoal;
+        return deletedGoal ? this.state.goalsData.filter(goalDetail => goalDetail.PersonalGoalId !== deletedGoal!.PersonalGoalId) : this.state.goalsData;
+    }
+
     /**
     *  Handles task module submit event.
     * */
     submitHandler = async (err, result) => {
         this.appInsights.trackTrace(`Submit handler - err: ${err} - result: ${result}`);
-        this.getPersonalGoalDetails();
+        this.loadGoalDetails();
     };
 
     /**
@@ -220,16 +542,74 @@ class ManageGoal extends React.Component<WithTranslation, IManageGoalState> {
     }
 
     /**
-    *   Renders goal cycle information.
+    *   Renders goal cycle information and view menu. Board view is not offered on narrow screens.
     */
     private pageHeader = () => {
+        let viewItems = [
+            { key: "list", content: this.localize("listViewText"), onClick: () => this.onViewChange("list") },
+            { key: "board", content: this.localize("boardViewText"), onClick: () => this.onViewChange("board") },
+            { key: "cycles", content: this.localize("pastCyclesViewText"), onClick: () => this.onViewChange("cycles") },
+            { key: "deleted", content: this.localize("recentlyDeletedViewText"), onClick: () => this.onViewChange("deleted") },
+        ].filter(viewItem => viewItem.key !== "board" || (this.state.goalsData.length > 0 && this.state.screenWidth > 750));
+        let activeView = this.state.view === "board" && !viewItems.some(viewItem => viewItem.key === "board") ? "list" : this.state.view;
+
         return (
-            <Flex gap="gap.small">
+            <Flex gap="gap.small" vAlign="center">
                 {this.goalCycle && <Text weight="bold" className="goal-cycle" align="center" content={`${this.localize("goalCycleText")}: ${this.goalCycle}`} />}
+                {!this.state.loader && <Flex.Item push>
+                    <Menu
+                        underlined
+                        primary
+                        className="goal-view-menu"
+                        activeIndex={viewItems.findIndex(viewItem => viewItem.key === activeView)}
+                        aria-label={this.localize("goalViewMenuLabel")}
+                        items={viewItems}
+                    />
+                </Flex.Item>}
+            </Flex>
+        );
+    }
+
+    /**
+    *   Renders message for offline changes which were not synced due to conflicts or because server rejected them.
+    */
+    private syncConflictMessage = () => {
+        if (this.state.syncConflicts.length === 0) {
+            return null;
+        }
+
+        let conflicts = this.state.syncConflicts.filter(conflict => conflict.reason !== "rejected");
+        let rejections = this.state.syncConflicts.filter(conflict => conflict.reason === "rejected");
+
+        return (
+            <Flex gap="gap.small" vAlign="center" className="sync-conflict-message">
+                <Flex column>
+                    {conflicts.length > 0 && this.getSyncFailureText(conflicts, "syncConflictMessage", "syncConflictGenericMessage")}
+                    {rejections.length > 0 && this.getSyncFailureText(rejections, "syncRejectedMessage", "syncRejectedGenericMessage")}
+                </Flex>
+                <Button text size="small" content={this.localize("dismissButtonText")} onClick={dismissMutationConflicts} />
             </Flex>
         );
     }
 
+    /**
+    *   Renders names of goals whose offline changes were not synced.
+    *   @param failures {IMutationConflict[]} Changes which were not synced.
+    *   @param messageKey {String} Key of message listing goal names.
+    *   @param genericMessageKey {String} Key of message shown when goals are not on page.
+    */
+    private getSyncFailureText = (failures: IMutationConflict[], messageKey: string, genericMessageKey: string) => {
+        let goalNames: string[] = [];
+        failures.forEach((failure) => {
+            let goalDetail = this.state.goalsData.find(goalDetail => goalDetail.PersonalGoalId === failure.personalGoalId);
+            if (goalDetail && goalNames.indexOf(goalDetail.GoalName) === -1) {
+                goalNames.push(goalDetail.GoalName);
+            }
+        });
+
+        return <Text error content={goalNames.length > 0 ? this.localize(messageKey, { goalNames: goalNames.join(", ") }) : this.localize(genericMessageKey)} />;
+    }
+
     /**
     *   Get wrapper for page which acts as container for all child components.
     */
@@ -241,16 +621,65 @@ class ManageGoal extends React.Component<WithTranslation, IManageGoalState> {
                 </div>
             );
         }
-        else if (this.state.goalsData && this.state.goalsData.length > 0) {
+        else if (this.state.view === "cycles") {
+            return <PastGoalCycles currentGoals={this.getShownGoals()} />;
+        }
+        else if (this.state.view === "deleted") {
+            return <RecentlyDeletedGoals activeGoals={this.getShownGoals()} onGoalRestored={this.getPersonalGoalDetails} />;
+        }
+        else if (this.getShownGoals().length > 0) {
+            let filteredGoalsData = filterPersonalGoals(this.getShownGoals(), this.state.filter, this.state.searchNotesData);
             return (
                 <div>
-                    <PersonalGoalTable
+                    <GoalFilterToolbar
+                        filter={this.state.filter}
+                        teamGoals={this.state.teamGoalsData}
+                        filteredGoalsCount={filteredGoalsData.length}
+                        totalGoalsCount={this.getShownGoals().length}
                         screenWidth={this.state.screenWidth}
-                        goalsData={this.state.goalsData}
-                        goalStatus={getGoalStatusCollection(this.localize)}
-                        onDeleteButtonClick={this.onDeleteButtonClick}
-                        onPersonalGoalClick={this.onPersonalGoalClick}
+                        onFilterChange={this.onFilterChange}
                     />
+                    {this.state.statusChangeErrorMessage && <Flex gap="gap.small" vAlign="center" className="sync-conflict-message">
+                        <Text error content={this.state.statusChangeErrorMessage} />
+                        <Button text size="small" content={this.localize("dismissButtonText")} onClick={() => this.setState({ statusChangeErrorMessage: "" })} />
+                    </Flex>}
+                    {filteredGoalsData.length > 0 && this.state.view === "board" && this.state.screenWidth > 750 &&
+                        <GoalBoard
+                            goalsData={filteredGoalsData}
+                            pendingSyncGoalIds={this.state.pendingSyncGoalIds}
+                            movingGoalIds={this.state.movingGoalIds}
+                            goalStatus={getGoalStatusCollection(this.localize)}
+                            onGoalStatusChange={this.onGoalStatusChange}
+                            onPersonalGoalClick={this.onPersonalGoalClick}
+                        />}
+                    {this.state.bulkActionMessage && <Flex gap="gap.small" vAlign="center" className="sync-conflict-message bulk-action-summary">
+                        <Text error={this.state.hasBulkActionFailures} success={!this.state.hasBulkActionFailures} content={this.state.bulkActionMessage} />
+                        <Button text size="small" content={this.localize("dismissButtonText")} onClick={() => this.setState({ bulkActionMessage: "" })} />
+                    </Flex>}
+                    {this.state.selectedGoalIds.length > 0 && (this.state.view === "list" || this.state.screenWidth <= 750) &&
+                        <GoalBulkActions
+                            selectedGoalIds={this.state.selectedGoalIds}
+                            isBulkActionRunning={this.state.isBulkActionRunning}
+                            onApply={this.onBulkActionApply}
+                            onClearSelection={() => this.setState({ selectedGoalIds: [] })}
+                        />}
+                    {filteredGoalsData.length > 0 && (this.state.view === "list" || this.state.screenWidth <= 750) &&
+                        <PersonalGoalTable
+                            screenWidth={this.state.screenWidth}
+                            goalsData={filteredGoalsData}
+                            pendingSyncGoalIds={this.state.pendingSyncGoalIds}
+                            goalStatus={getGoalStatusCollection(this.localize)}
+                            filter={this.state.filter}
+                            onSortChange={this.onSortChange}
+                            selectedGoalIds={this.state.selectedGoalIds}
+                            onGoalSelectionChange={this.onGoalSelectionChange}
+                            onDeleteButtonClick={this.onDeleteButtonClick}
+                            onPersonalGoalClick={this.onPersonalGoalClick}
+                        />}
+                    {filteredGoalsData.length === 0 &&
+                        <Flex className="error-container" hAlign="center" vAlign="stretch">
+                            <Text content={this.localize('noMatchingGoalsMessage')} />
+                        </Flex>}
                 </div>
             );
         }
@@ -273,6 +702,18 @@ class ManageGoal extends React.Component<WithTranslation, IManageGoalState> {
             <div className="container-tab" >
                 <div className="accordian-container">
                     {this.pageHeader()}
+                    {this.syncConflictMessage()}
+                    {this.state.deletedGoal &&
+                        <UndoToast
+                            key={this.state.deletedGoal.PersonalGoalId}
+                            message={this.localize("goalDeletedMessage", { goalName: this.state.deletedGoal.GoalName })}
+                            onUndo={this.onDeletionUndo}
+                            onTimeout={this.onDeletionUndoTimeout}
+                        />}
+                    {this.state.deletionUndoErrorMessage && <Flex gap="gap.small" vAlign="center" className="sync-conflict-message deletion-undo-error">
+                        <Text error content={this.state.deletionUndoErrorMessage} />
+                        <Button text size="small" content={this.localize("dismissButtonText")} onClick={() => this.setState({ deletionUndoErrorMessage: "" })} />
+                    </Flex>}
                     <div>
                         {this.getGoalDetails()}
                     </div>
@@ -282,4 +723,4 @@ class ManageGoal extends React.Component<WithTranslation, IManageGoalState> {
     }
 }
 
-export default withTranslation()(ManageGoal);
\ No newline at end of file
+export default withTranslation()(withTeamsContext(ManageGoal));
\ No newline at end of file
@@ -0,0 +1,81 @@
+﻿// <copyright file="note-history-panel.tsx" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import * as React from "react";
+import { Flex, Dropdown, Button, Text } from "@fluentui/react-northstar";
+import { useTranslation } from 'react-i18next';
+import moment from "moment";
+import { getNoteHistory, getNoteWordDiff } from "../../helpers/note-revision";
+import { IPersonalGoalNoteDetail } from "../../models/type";
+import "../../styles/style.css";
+
+interface INoteHistoryPanelProps {
+    noteDetail: IPersonalGoalNoteDetail,
+    onRestore: (description: string) => void,
+}
+
+interface IRevisionOption {
+    key: string,
+    header: string,
+    value: number
+}
+
+/** Panel listing revisions of note, with word level differences between two chosen revisions. */
+const NoteHistoryPanel: React.FunctionComponent<INoteHistoryPanelProps> = props => {
+    const { t } = useTranslation();
+    const history = getNoteHistory(props.noteDetail);
+    const currentIndex = history.length - 1;
+    const [fromIndex, setFromIndex] = React.useState(Math.max(currentIndex - 1, 0));
+    const [toIndex, setToIndex] = React.useState(currentIndex);
+
+    const revisionOptions: IRevisionOption[] = history.map((revision, index) => ({
+        key: index.toString(),
+        header: index === currentIndex ? t('currentNoteRevisionText', { date: moment(revision.modifiedOn).format('LLL') }) : moment(revision.modifiedOn).format('LLL'),
+        value: index
+    }));
+
+    const from = history[Math.min(fromIndex, currentIndex)];
+    const to = history[Math.min(toIndex, currentIndex)];
+    return (
+        <div className="note-history-panel">
+            <Text weight="semibold" content={t('noteHistoryHeader')} />
+            <ul className="note-revision-list">
+                {history.map((revision, index) =>
+                    <li key={index} className="note-revision">
+                        <Flex gap="gap.small" vAlign="center" space="between">
+                            <Text size="small" content={revisionOptions[index].header + (revision.modifiedBy ? " · " + revision.modifiedBy : "")} />
+                            {index !== currentIndex && revision.description !== props.noteDetail.PersonalGoalNoteDescription &&
+                                <Button text size="small" content={t('restoreNoteRevisionButtonText')} onClick={() => props.onRestore(revision.description)} className="restore-note-revision-button" />}
+                        </Flex>
+                    </li>
+                )}
+            </ul>
+            <Flex gap="gap.small" vAlign="center" wrap>
+                <Dropdown
+                    items={revisionOptions}
+                    value={revisionOptions[Math.min(fromIndex, currentIndex)]}
+                    onChange={(event: any, dropdownProps?: any) => setFromIndex(dropdownProps.value.value)}
+                    aria-label={t('compareFromRevisionLabel')}
+                    className="note-revision-from-dropdown"
+                />
+                <Dropdown
+                    items={revisionOptions}
+                    value={revisionOptions[Math.min(toIndex, currentIndex)]}
+                    onChange={(event: any, dropdownProps?: any) => setToIndex(dropdownProps.value.value)}
+                    aria-label={t('compareToRevisionLabel')}
+                    className="note-revision-to-dropdown"
+                />
+            </Flex>
+            <div className="note-revision-diff" aria-label={t('noteRevisionDiffLabel')}>
+                {getNoteWordDiff(from.description, to.description).map((part, index) =>
+                    part.type === "added" ? <ins key={index} className="note-diff-added">{part.text}</ins>
+                        : part.type === "removed" ? <del key={index} className="note-diff-removed">{part.text}</del>
+                            : <span key={index}>{part.text}</span>
+                )}
+            </div>
+        </div>
+    );
+}
+
+export default NoteHistoryPanel;
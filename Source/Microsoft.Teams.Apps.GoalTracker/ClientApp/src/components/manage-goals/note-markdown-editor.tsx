@@ -0,0 +1,91 @@
+﻿// <copyright file="note-markdown-editor.tsx" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import * as React from "react";
+import { Flex, Text, Button, TextArea } from "@fluentui/react-northstar";
+import { BoldIcon, ItalicIcon, BulletsIcon, AcceptIcon, LinkIcon } from '@fluentui/react-icons-northstar';
+import { useTranslation } from 'react-i18next';
+import NoteMarkdown from "./note-markdown";
+import { applyNoteMarkdownFormat } from "../../helpers/note-markdown";
+import Constants from "../../constants";
+import { NoteMarkdownFormat } from "../../models/type";
+import "../../styles/style.css";
+
+interface INoteMarkdownEditorProps {
+    value: string,
+    onChange: (value: string) => void,
+}
+
+/** Component for editing note in markdown with formatting toolbar and live preview. */
+const NoteMarkdownEditor: React.FunctionComponent<INoteMarkdownEditorProps> = props => {
+    const { t } = useTranslation();
+    const editorRef = React.useRef<HTMLDivElement>(null);
+    const pendingSelection = React.useRef<{ start: number, end: number } | null>(null);
+
+    /**
+    * Get text area of editor.
+    */
+    const getTextArea = () => editorRef.current ? editorRef.current.querySelector("textarea") : null;
+
+    React.useEffect(() => {
+        let textArea = editorRef.current ? editorRef.current.querySelector("textarea") : null;
+        if (textArea && pendingSelection.current) {
+            textArea.focus();
+            textArea.setSelectionRange(pendingSelection.current.start, pendingSelection.current.end);
+            pendingSelection.current = null;
+        }
+    }, [props.value]);
+
+    /**
+    * Applies formatting to selected text. Formatted text longer than allowed note length is not applied.
+    * @param format {String} Formatting chosen from toolbar.
+    */
+    const onFormatClick = (format: NoteMarkdownFormat) => {
+        let textArea = getTextArea();
+        let selectionStart = textArea ? textArea.selectionStart : props.value.length;
+        let selectionEnd = textArea ? textArea.selectionEnd : props.value.length;
+        let edit = applyNoteMarkdownFormat(props.value, selectionStart, selectionEnd, format, t);
+        if (edit.text.length > Constants.maxAllowedNoteDescription) {
+            return;
+        }
+
+        pendingSelection.current = { start: edit.selectionStart, end: edit.selectionEnd };
+        props.onChange(edit.text);
+    }
+
+    const formatButtons = [
+        { format: "bold" as NoteMarkdownFormat, icon: <BoldIcon />, title: t('boldFormatText') },
+        { format: "italic" as NoteMarkdownFormat, icon: <ItalicIcon />, title: t('italicFormatText') },
+        { format: "bulletList" as NoteMarkdownFormat, icon: <BulletsIcon />, title: t('bulletListFormatText') },
+        { format: "checklist" as NoteMarkdownFormat, icon: <AcceptIcon />, title: t('checklistFormatText') },
+        { format: "link" as NoteMarkdownFormat, icon: <LinkIcon />, title: t('linkFormatText') },
+    ];
+
+    return (
+        <div className="note-markdown-editor" ref={editorRef}>
+            <Flex gap="gap.smaller" vAlign="center" className="note-markdown-toolbar" role="toolbar" aria-label={t('noteFormattingLabel')}>
+                {formatButtons.map(formatButton => (
+                    <Button key={formatButton.format} size="small" text iconOnly icon={formatButton.icon} title={formatButton.title} aria-label={formatButton.title} onClick={() => onFormatClick(formatButton.format)} />
+                ))}
+                <Flex.Item push>
+                    <Text size="small" weight="light" content={t('noteLengthText', { length: props.value.length, maxLength: Constants.maxAllowedNoteDescription })} />
+                </Flex.Item>
+            </Flex>
+            <TextArea
+                fluid
+                maxLength={Constants.maxAllowedNoteDescription}
+                value={props.value}
+                aria-label={t('noteDescriptionLabel')}
+                onChange={(event: any) => props.onChange(event.target.value)}
+                className="note-markdown-input"
+            />
+            {props.value.trim() && <div className="note-markdown-preview" aria-label={t('notePreviewLabel')}>
+                <Text size="small" weight="semibold" content={t('notePreviewLabel')} />
+                <NoteMarkdown description={props.value} />
+            </div>}
+        </div>
+    );
+}
+
+export default NoteMarkdownEditor;
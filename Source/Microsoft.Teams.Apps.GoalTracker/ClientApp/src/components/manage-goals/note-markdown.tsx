@@ -0,0 +1,80 @@
+﻿// <copyright file="note-markdown.tsx" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import * as React from "react";
+import { Checkbox } from "@fluentui/react-northstar";
+import { parseNoteMarkdown } from "../../helpers/note-markdown";
+import { INoteInline } from "../../models/type";
+import "../../styles/style.css";
+
+interface INoteMarkdownProps {
+    description: string,
+    className?: string,
+    onChecklistItemToggle?: (lineIndex: number) => void,
+}
+
+/**
+* Renders parts of line. Note is rendered as elements, never as HTML, so markup written in note is shown as text.
+* @param inlines {Object[]} Parts of line.
+*/
+const renderInlines = (inlines: INoteInline[]) => {
+    return inlines.map((inline, index) => {
+        switch (inline.type) {
+            case "bold":
+                return <strong key={index}>{inline.text}</strong>;
+            case "italic":
+                return <em key={index}>{inline.text}</em>;
+            case "link":
+                return <a key={index} href={inline.url} target="_blank" rel="noopener noreferrer">{inline.text}</a>;
+            default:
+                return <React.Fragment key={index}>{inline.text}</React.Fragment>;
+        }
+    });
+}
+
+/** Component for showing note written in markdown. Checklist items can be ticked when toggle handler is provided. */
+const NoteMarkdown: React.FunctionComponent<INoteMarkdownProps> = props => {
+    let blocks = parseNoteMarkdown(props.description);
+    return (
+        <div className={`note-markdown ${props.className || ""}`}>
+            {blocks.map((block, index) => {
+                switch (block.type) {
+                    case "bulletList":
+                        return <ul key={index}>{block.items.map(item => <li key={item.lineIndex}>{renderInlines(item.inlines)}</li>)}</ul>;
+                    case "numberedList":
+                        return <ol key={index}>{block.items.map(item => <li key={item.lineIndex}>{renderInlines(item.inlines)}</li>)}</ol>;
+                    case "checklist":
+                        return (
+                            <ul key={index} className="note-checklist">
+                                {block.items.map(item => (
+                                    <li key={item.lineIndex} className={item.isChecked ? "note-checklist-item-checked" : undefined}>
+                                        <Checkbox
+                                            checked={item.isChecked}
+                                            disabled={!props.onChecklistItemToggle}
+                                            label={<span>{renderInlines(item.inlines)}</span>}
+                                            onClick={() => props.onChecklistItemToggle && props.onChecklistItemToggle(item.lineIndex)}
+                                            className="note-checklist-checkbox"
+                                        />
+                                    </li>
+                                ))}
+                            </ul>
+                        );
+                    default:
+                        return (
+                            <p key={index}>
+                                {block.items.map((item, itemIndex) => (
+                                    <React.Fragment key={item.lineIndex}>
+                                        {itemIndex > 0 && <br />}
+                                        {renderInlines(item.inlines)}
+                                    </React.Fragment>
+                                ))}
+                            </p>
+                        );
+                }
+            })}
+        </div>
+    );
+}
+
+export default NoteMarkdown;
@@ -0,0 +1,281 @@
+﻿// <copyright file="past-goal-cycles.tsx" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import * as React from "react";
+import { Loader, Flex, Text, Dropdown } from "@fluentui/react-northstar";
+import { WithTranslation, withTranslation } from "react-i18next";
+import { TFunction } from "i18next";
+import moment from "moment";
+import { getPastPersonalGoalDetails } from "../../api/personal-goal-api";
+import { getPastPersonalGoalNoteDetails } from "../../api/personal-goal-note-api";
+import { getCachedQueryData, queryKeys } from "../../api/query-cache";
+import { handleRefreshError, getGoalStatusCollection } from "../../helpers/goal-helper";
+import { createRequestCanceller, isRequestCancelled } from "../../helpers/request-cancellation";
+import { groupGoalsByCycle, getGoalCycleCompletion, formatGoalCycleDates } from "../../helpers/goal-cycle";
+import NoteMarkdown from "./note-markdown";
+import Constants from "../../constants";
+import { IGoalCycle, IPersonalGoalDetail, IPersonalGoalNoteDetail, IRequestCanceller } from "../../models/type";
+import "../../styles/style.css";
+
+interface IPastGoalCyclesProps extends WithTranslation {
+    currentGoals: IPersonalGoalDetail[],
+}
+
+interface IPastGoalCyclesState {
+    loader: boolean,
+    pastGoalCycles: IGoalCycle[],
+    notesData: IPersonalGoalNoteDetail[],
+    selectedGoalCycleId: string,
+    comparedGoalCycleIds: string[],
+}
+
+interface IGoalCycleOption {
+    key: string,
+    header: string,
+    value: string
+}
+
+/** Component for browsing goals of ended goal cycles and comparing completion of two goal cycles. */
+class PastGoalCycles extends React.Component<IPastGoalCyclesProps, IPastGoalCyclesState> {
+    localize: TFunction;
+    isCachedDataRendered: boolean = false;
+    requestCanceller: IRequestCanceller;
+
+    constructor(props: IPastGoalCyclesProps) {
+        super(props);
+        this.localize = this.props.t;
+        this.state = {
+            loader: true,
+            pastGoalCycles: [],
+            notesData: [],
+            selectedGoalCycleId: new URLSearchParams(window.location.search).get(Constants.goalCycleQueryParameter) || "",
+            comparedGoalCycleIds: [],
+        };
+
+        this.requestCanceller = createRequestCanceller();
+    }
+
+    /** Called once component is mounted. */
+    componentDidMount() {
+        this.isCachedDataRendered = this.renderCachedGoalCycles();
+        this.setState({ loader: !this.isCachedDataRendered });
+        this.getPastGoalCycles();
+    }
+
+    /** Called when component is unmounted. */
+    componentWillUnmount() {
+        this.requestCanceller.cancel();
+    }
+
+    /**
+    *  Renders past goal cycles cached by earlier visit.
+    *  @returns True if past goals and notes were cached.
+    * */
+    renderCachedGoalCycles = () => {
+        let pastGoalDetails = getCachedQueryData<IPersonalGoalDetail[]>(queryKeys.pastPersonalGoals());
+        let pastNoteDetails = getCachedQueryData<IPersonalGoalNoteDetail[]>(queryKeys.pastPersonalGoalNotes());
+        if (!pastGoalDetails || !pastNoteDetails) {
+            return false;
+        }
+
+        this.setGoalCycles(pastGoalDetails, pastNoteDetails);
+        return true;
+    }
+
+    /**
+    *  Get goals and notes of ended goal cycles from storage.
+    * */
+    getPastGoalCycles = async () => {
+        const pastGoalDetailsResponse = await getPastPersonalGoalDetails(this.requestCanceller.signal);
+        if (isRequestCancelled(pastGoalDetailsResponse)) {
+            return;
+        }
+        else if (!pastGoalDetailsResponse.isSuccess) {
+            handleRefreshError(pastGoalDetailsResponse, this.isCachedDataRendered);
+            this.setState({ loader: false });
+            return;
+        }
+
+        const pastNoteDetailsResponse = await getPastPersonalGoalNoteDetails(this.requestCanceller.signal);
+        if (isRequestCancelled(pastNoteDetailsResponse)) {
+            return;
+        }
+        else if (pastNoteDetailsResponse.isSuccess) {
+            this.setGoalCycles(pastGoalDetailsResponse.data, pastNoteDetailsResponse.data);
+        }
+        else {
+            handleRefreshError(pastNoteDetailsResponse, this.isCachedDataRendered);
+            this.setGoalCycles(pastGoalDetailsResponse.data, this.state.notesData);
+        }
+
+        this.setState({ loader: false });
+    }
+
+    /**
+    *  Groups past goals and notes by goal cycle.
+    * */
+    setGoalCycles = (pastGoalDetails: IPersonalGoalDetail[], pastNoteDetails: IPersonalGoalNoteDetail[]) => {
+        this.setState({ pastGoalCycles: groupGoalsByCycle(pastGoalDetails || []), notesData: pastNoteDetails || [] });
+    }
+
+    /**
+    *  Get goal cycles which can be compared, i.e. current goal cycle followed by past goal cycles.
+    * */
+    getComparableGoalCycles = (pastGoalCycles: IGoalCycle[]) => {
+        return groupGoalsByCycle(this.props.currentGoals).concat(pastGoalCycles);
+    }
+
+    /**
+    *  Get dropdown option of goal cycle.
+    * */
+    getGoalCycleOption = (goalCycle: IGoalCycle): IGoalCycleOption => {
+        let goalCycleDates = formatGoalCycleDates(goalCycle.startDate, goalCycle.endDate, this.localize);
+        let isCurrentGoalCycle = this.props.currentGoals.some(goalDetail => goalDetail.GoalCycleId === goalCycle.goalCycleId);
+        return {
+            key: goalCycle.goalCycleId,
+            header: isCurrentGoalCycle ? this.localize("currentGoalCycleOptionText", { goalCycle: goalCycleDates }) : goalCycleDates,
+            value: goalCycle.goalCycleId
+        };
+    }
+
+    /**
+    *  Selects past goal cycle to be shown and stores it in page URL.
+    * */
+    onGoalCycleChange = (event: any, dropdownProps?: any) => {
+        let goalCycleId = (dropdownProps.value as IGoalCycleOption).value;
+        let params = new URLSearchParams(window.location.search);
+        params.set(Constants.goalCycleQueryParameter, goalCycleId);
+        window.history.replaceState(null, "", `${window.location.pathname}?${params.toString()}`);
+        this.setState({ selectedGoalCycleId: goalCycleId });
+    }
+
+    /**
+    *  Selects goal cycle on one side of comparison.
+    * */
+    onComparedGoalCycleChange = (comparedGoalCycles: IGoalCycle[], index: number) => (event: any, dropdownProps?: any) => {
+        let goalCycleId = (dropdownProps.value as IGoalCycleOption).value;
+        this.setState({ comparedGoalCycleIds: comparedGoalCycles.map((goalCycle, comparedIndex) => comparedIndex === index ? goalCycleId : goalCycle.goalCycleId) });
+    }
+
+    /**
+    *   Renders read-only goals of selected goal cycle grouped by their final status.
+    */
+    private goalCycleGoals = (goalCycle: IGoalCycle) => {
+        return getGoalStatusCollection(this.localize).map((goalStatus) => {
+            let goals = goalCycle.goals.filter(goalDetail => goalDetail.Status === goalStatus.value);
+            return (
+                <div key={goalStatus.value} className="past-goal-cycle-status" aria-label={goalStatus.DisplayName}>
+                    <Text weight="bold" content={`${goalStatus.DisplayName} (${goals.length})`} />
+                    {goals.map((goalDetail) => {
+                        let notes = this.state.notesData.filter(note => note.PersonalGoalId === goalDetail.PersonalGoalId);
+                        return (
+                            <div key={goalDetail.PersonalGoalId} className="past-goal-cycle-goal">
+                                <Text className="past-goal-cycle-goal-name" content={goalDetail.GoalName} title={goalDetail.GoalName} />
+                                {notes.map(note => (
+                                    <Flex key={note.PersonalGoalNoteId} gap="gap.small" className="past-goal-cycle-note">
+                                        <Text size="small" weight="light" content={moment(note.CreatedOn).format("ll")} />
+                                        <NoteMarkdown description={note.PersonalGoalNoteDescription} className="note-text past-goal-cycle-note-text" />
+                                    </Flex>
+                                ))}
+                            </div>
+                        );
+                    })}
+                </div>
+            );
+        });
+    }
+
+    /**
+    *   Renders completion rates of two goal cycles side by side with their difference.
+    *   Until user picks cycles, the two latest cycles are compared, i.e. current cycle with latest past cycle.
+    */
+    private goalCycleComparison = () => {
+        let comparableGoalCycles = this.getComparableGoalCycles(this.state.pastGoalCycles);
+        if (comparableGoalCycles.length < 2) {
+            return null;
+        }
+
+        let comparedGoalCycles = this.state.comparedGoalCycleIds
+            .map(goalCycleId => comparableGoalCycles.find(goalCycle => goalCycle.goalCycleId === goalCycleId))
+            .filter(goalCycle => !!goalCycle) as IGoalCycle[];
+        if (comparedGoalCycles.length < 2) {
+            comparedGoalCycles = comparableGoalCycles.slice(0, 2);
+        }
+
+        let options = comparableGoalCycles.map(this.getGoalCycleOption);
+        let completions = comparedGoalCycles.map(goalCycle => getGoalCycleCompletion(goalCycle.goals));
+        let difference = completions[0].completionRate - completions[1].completionRate;
+        return (
+            <div className="goal-cycle-comparison">
+                <Text weight="bold" content={this.localize("compareGoalCyclesText")} />
+                <Flex gap="gap.large" wrap>
+                    {comparedGoalCycles.map((goalCycle, index) => (
+                        <div key={index} className="goal-cycle-comparison-column">
+                            <Dropdown
+                                items={options}
+                                value={options.find(option => option.value === goalCycle.goalCycleId)}
+                                onChange={this.onComparedGoalCycleChange(comparedGoalCycles, index)}
+                                aria-label={this.localize(index === 0 ? "firstComparedGoalCycleLabel" : "secondComparedGoalCycleLabel")}
+                                className="goal-cycle-dropdown"
+                            />
+                            <Text size="larger" weight="bold" className="goal-cycle-completion-rate" content={`${completions[index].completionRate}%`} />
+                            <div className="goal-cycle-completion-bar" role="img" aria-label={this.localize("goalCycleCompletionText", completions[index])}>
+                                <div className="goal-cycle-completion-bar-value" style={{ width: `${completions[index].completionRate}%` }} />
+                            </div>
+                            <Text size="small" content={this.localize("goalCycleCompletionText", completions[index])} />
+                            <Text size="small" weight="light" content={this.localize("goalCycleStatusCountText", completions[index])} />
+                        </div>
+                    ))}
+                </Flex>
+                <Text className="goal-cycle-comparison-difference" content={difference === 0
+                    ? this.localize("goalCycleCompletionUnchangedText")
+                    : this.localize(difference > 0 ? "goalCycleCompletionHigherText" : "goalCycleCompletionLowerText", { difference: Math.abs(difference) })} />
+            </div>
+        );
+    }
+
+    /**
+    *    Renders the component.
+    */
+    public render() {
+        if (this.state.loader) {
+            return (
+                <div className="loader">
+                    <Loader />
+                </div>
+            );
+        }
+        else if (this.state.pastGoalCycles.length === 0) {
+            return (
+                <Flex className="error-container" hAlign="center" vAlign="stretch">
+                    <Text content={this.localize("noPastGoalCyclesMessage")} />
+                </Flex>
+            );
+        }
+
+        let options = this.state.pastGoalCycles.map(this.getGoalCycleOption);
+        let selectedGoalCycle = this.state.pastGoalCycles.find(goalCycle => goalCycle.goalCycleId === this.state.selectedGoalCycleId) || this.state.pastGoalCycles[0];
+        return (
+            <div className="past-goal-cycles">
+                <Flex gap="gap.small" vAlign="center" wrap>
+                    <Text content={this.localize("pastGoalCycleLabel")} />
+                    <Dropdown
+                        items={options}
+                        value={options.find(option => option.value === selectedGoalCycle.goalCycleId)}
+                        onChange={this.onGoalCycleChange}
+                        aria-label={this.localize("pastGoalCycleLabel")}
+                        className="goal-cycle-dropdown"
+                    />
+                    <Text weight="semibold" content={this.localize("goalCycleCompletionText", getGoalCycleCompletion(selectedGoalCycle.goals))} />
+                </Flex>
+                <Flex gap="gap.large" className="past-goal-cycle-goals">
+                    {this.goalCycleGoals(selectedGoalCycle)}
+                </Flex>
+                {this.goalCycleComparison()}
+            </div>
+        );
+    }
+}
+
+export default withTranslation()(PastGoalCycles);
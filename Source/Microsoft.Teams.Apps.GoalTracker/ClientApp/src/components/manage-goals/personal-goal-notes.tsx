@@ -3,23 +3,33 @@
 // </copyright>
 
 import * as React from "react";
-import { Text, Button, Flex, Input } from "@fluentui/react-northstar";
+import { Text, Button, Flex } from "@fluentui/react-northstar";
 import { TrashCanIcon, EditIcon } from '@fluentui/react-icons-northstar';
 import { useTranslation } from 'react-i18next';
 import moment from "moment";
-import { IPersonalGoalNoteDetail } from "../../models/type";
-import Constants from "../../constants";
+import NoteMarkdown from "./note-markdown";
+import NoteMarkdownEditor from "./note-markdown-editor";
+import NoteHistoryPanel from "./note-history-panel";
+import GoalTagList from "../goal-tags/goal-tag-list";
+import GoalTagPicker from "../goal-tags/goal-tag-picker";
+import { getNoteRevisions } from "../../helpers/note-revision";
+import { getTags } from "../../helpers/goal-tag";
+import { IGoalTag, IPersonalGoalNoteDetail } from "../../models/type";
 import "../../styles/style.css";
 
 interface IPersonalGoalNoteProps {
     notesData: IPersonalGoalNoteDetail[],
+    availableTags: IGoalTag[],
     onGoalNoteDeleteButtonClick: (goalNoteId: string) => void,
     onGoalNoteEditButtonClick: (index: number, event: any) => void
-    handleGoalNoteChange: (index: number, event: any) => void
+    handleGoalNoteChange: (index: number, description: string) => void,
+    onGoalNoteChecklistItemToggle: (index: number, lineIndex: number) => void,
+    handleGoalNoteTagsChange: (index: number, tags: IGoalTag[]) => void
 }
 
 const PersonalGoalNote: React.FunctionComponent<IPersonalGoalNoteProps> = props => {
     const { t } = useTranslation();
+    const [historyNoteId, setHistoryNoteId] = React.useState<string | null>(null);
     return (
         <>
             {props.notesData.length > 0 &&
@@ -33,14 +43,24 @@ const PersonalGoalNote: React.FunctionComponent<IPersonalGoalNoteProps> = props
                         <Text className="note-table-header control-spacing truncate-source-name" weight="semilight" align="start" content={note.SourceName} title={note.SourceName} />
                         <Flex gap="gap.small">
                             <Text className="note-table-header control-spacing" weight="light" align="end" content={moment(note.CreatedOn).format('LLL')} />
+                            {getNoteRevisions(note).length > 0 && <>
+                                <Text className="note-table-header control-spacing note-edited-label" weight="light" content={t('noteEditedText')} title={moment(note.LastModifiedOn).format('LLL')} />
+                                <Button size="smaller" className="padding-small note-history-button" text content={t('noteHistoryButtonText')} aria-expanded={historyNoteId === note.PersonalGoalNoteId}
+                                    onClick={() => setHistoryNoteId(historyNoteId === note.PersonalGoalNoteId ? null : note.PersonalGoalNoteId)} />
+                            </>}
                             <Button size="smaller" className="padding-small" icon={<EditIcon />} text iconOnly title={t("editGoalText")} id={id + ""} onClick={event => props.onGoalNoteEditButtonClick(id, event)} />
                             <Button size="smaller" className="padding-small" icon={<TrashCanIcon />} text iconOnly title={t("deleteGoalText")} onClick={event => props.onGoalNoteDeleteButtonClick(note.PersonalGoalNoteId)} />
                         </Flex>
                     </Flex>
                     <Flex gap="gap.large" vAlign="start" className="control-padding">
-                        {note.IsEdited ? <Input maxLength={Constants.maxAllowedNoteDescription} fluid className="add-goals-input" value={note.PersonalGoalNoteDescription} title={note.PersonalGoalNoteDescription} onChange={event => props.handleGoalNoteChange(id, event)} />
-                            : <Text align="start" content={note.PersonalGoalNoteDescription} className="note-text" />}
+                        {note.IsEdited ? <NoteMarkdownEditor value={note.PersonalGoalNoteDescription} onChange={description => props.handleGoalNoteChange(id, description)} />
+                            : <NoteMarkdown description={note.PersonalGoalNoteDescription} className="note-text" onChecklistItemToggle={lineIndex => props.onGoalNoteChecklistItemToggle(id, lineIndex)} />}
                     </Flex>
+                    <div className="control-padding">
+                        {note.IsEdited ? <GoalTagPicker tags={getTags(note)} availableTags={props.availableTags} onChange={tags => props.handleGoalNoteTagsChange(id, tags)} />
+                            : <GoalTagList tags={getTags(note)} />}
+                    </div>
+                    {historyNoteId === note.PersonalGoalNoteId && <NoteHistoryPanel noteDetail={note} onRestore={description => props.handleGoalNoteChange(id, description)} />}
                 </div>
              ))}
         </>
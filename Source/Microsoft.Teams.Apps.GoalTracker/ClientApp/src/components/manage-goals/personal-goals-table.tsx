@@ -3,44 +3,236 @@
 // </copyright>
 
 import * as React from "react";
-import { Table, Text, Button, Accordion, Dialog, Flex, Label, List, Divider } from "@fluentui/react-northstar";
-import { TrashCanIcon } from '@fluentui/react-icons-northstar';
+import { Table, Text, Button, Accordion, Dialog, Flex, Label, List, Divider, Checkbox } from "@fluentui/react-northstar";
+import { TrashCanIcon, ArrowUpIcon, ArrowDownIcon, ChevronDownIcon, ChevronEndIcon } from '@fluentui/react-icons-northstar';
 import { useTranslation } from 'react-i18next';
-import { IPersonalGoalDetail } from "../../models/type";
+import GoalProgressBar from "./goal-progress-bar";
+import GoalTagList from "../goal-tags/goal-tag-list";
+import GoalDefinitionView from "../goal-definition/goal-definition-view";
+import { getGoalProgress } from "../../helpers/goal-progress";
+import { getGoalDueState, getGoalsDueThisWeek } from "../../helpers/goal-due-date";
+import { getGoalPriorityCollection } from "../../helpers/goal-helper";
+import { getTags, groupGoalsByTag } from "../../helpers/goal-tag";
+import { hasGoalDefinition } from "../../helpers/goal-definition";
+import { IPersonalGoalDetail, IPersonalGoalFilter, PersonalGoalSortColumn } from "../../models/type";
+import Constants from "../../constants";
 import "../../styles/style.css";
 import { Separator } from "office-ui-fabric-react";
 
 interface IPersonalGoalsTableProps {
     goalsData: IPersonalGoalDetail[],
+    pendingSyncGoalIds: string[],
     goalStatus: any,
     onDeleteButtonClick: (goalDetails: IPersonalGoalDetail) => boolean,
     onPersonalGoalClick: (goalId: string, t: any) => void,
+    onSortChange: (sortColumn: PersonalGoalSortColumn) => void,
+    selectedGoalIds: string[],
+    onGoalSelectionChange: (goalIds: string[], isSelected: boolean) => void,
+    filter: IPersonalGoalFilter,
     screenWidth: number,
 }
 
+let moment = require('moment');
+
 const PersonalGoalTable: React.FunctionComponent<IPersonalGoalsTableProps> = props => {
     const { t } = useTranslation();
-    const goalTableHeader = {
+    const lastClickedGoalId = React.useRef<string | null>(null);
+    const [expandedGoalIds, setExpandedGoalIds] = React.useState<string[]>([]);
+
+    /**
+    * Selects or unselects goal. With shift key pressed, all goals of panel between last clicked goal and this goal are changed.
+    * @param panelGoals {Object[]} Goals shown in same panel as clicked goal.
+    * @param personalGoalId {String} Unique identifier of clicked goal.
+    * @param isShiftKeyPressed {Boolean} Indicates whether shift key was pressed during click.
+    */
+    const onGoalCheckboxClick = (panelGoals: IPersonalGoalDetail[], personalGoalId: string, isShiftKeyPressed: boolean) => {
+        let panelGoalIds = panelGoals.map(goal => goal.PersonalGoalId);
+        let index = panelGoalIds.indexOf(personalGoalId);
+        let lastClickedIndex = lastClickedGoalId.current ? panelGoalIds.indexOf(lastClickedGoalId.current) : -1;
+        let goalIds = isShiftKeyPressed && lastClickedIndex !== -1
+            ? panelGoalIds.slice(Math.min(index, lastClickedIndex), Math.max(index, lastClickedIndex) + 1)
+            : [personalGoalId];
+
+        lastClickedGoalId.current = personalGoalId;
+        props.onGoalSelectionChange(goalIds, props.selectedGoalIds.indexOf(personalGoalId) === -1);
+    }
+
+    /**
+    * Renders checkbox which selects goal for bulk actions.
+    * @param panelGoals {Object[]} Goals shown in same panel as goal.
+    * @param personalGoalDetail {Object} Personal goal detail.
+    */
+    const goalCheckbox = (panelGoals: IPersonalGoalDetail[], personalGoalDetail: IPersonalGoalDetail) => {
+        return (
+            <Checkbox
+                className="goal-select-checkbox"
+                checked={props.selectedGoalIds.indexOf(personalGoalDetail.PersonalGoalId) !== -1}
+                aria-label={t('selectGoalLabel', { goalName: personalGoalDetail.GoalName })}
+                onClick={(event: any) => onGoalCheckboxClick(panelGoals, personalGoalDetail.PersonalGoalId, !!event.shiftKey)}
+            />
+        );
+    }
+
+    /**
+    * Renders checkbox which selects or unselects all goals of panel.
+    * @param panelGoals {Object[]} Goals shown in panel.
+    */
+    const panelCheckbox = (panelGoals: IPersonalGoalDetail[]) => {
+        let isPanelSelected = panelGoals.length > 0 && panelGoals.every(goal => props.selectedGoalIds.indexOf(goal.PersonalGoalId) !== -1);
+        return (
+            <Checkbox
+                className="goal-select-all-checkbox"
+                checked={isPanelSelected}
+                aria-label={t('selectAllGoalsLabel')}
+                onClick={() => props.onGoalSelectionChange(panelGoals.map(goal => goal.PersonalGoalId), !isPanelSelected)}
+            />
+        );
+    }
+
+    /**
+    * Renders header of column which sorts goals on click.
+    * @param sortColumn {String} Column goals are sorted by.
+    * @param title {String} Title of column.
+    */
+    const sortableHeader = (sortColumn: PersonalGoalSortColumn, title: string) => {
+        let isSorted = props.filter.sortColumn === sortColumn;
+        let sortIcon = isSorted ? (props.filter.sortDirection === "asc" ? <ArrowUpIcon size="small" /> : <ArrowDownIcon size="small" />) : undefined;
+        return (
+            <Button
+                text
+                size="small"
+                className="sortable-table-header"
+                content={<Text weight="regular" content={title} />}
+                icon={sortIcon}
+                iconPosition="after"
+                aria-label={isSorted ? t('sortedColumnLabel', { columnName: title, sortDirection: t(props.filter.sortDirection === "asc" ? 'sortAscendingText' : 'sortDescendingText') }) : title}
+                onClick={() => props.onSortChange(sortColumn)}
+            />
+        );
+    }
+
+    const goalTableHeader = (panelGoals: IPersonalGoalDetail[]) => ({
         key: "header",
         items:
             [
-                { content: <Text weight="regular" content={t('goalNameHeader')} />, className: "table-header goal-table-goal-name" },
+                { content: panelCheckbox(panelGoals), className: "table-header goal-table-select" },
+                { content: sortableHeader("name", t('goalNameHeader')), className: "table-header goal-table-goal-name" },
                 { content: <Text weight="regular" content={t('alignedWithHeader')} />, className: "table-header goal-table-align-with" },
                 { content: <Text weight="regular" content={t('goalNoteCountHeader')} />, className: "table-header goal-table-note" },
+                { content: <Text weight="regular" content={t('progressHeader')} />, className: "table-header goal-table-progress" },
+                { content: sortableHeader("lastModified", t('lastModifiedHeader')), className: "table-header goal-table-date" },
+                { content: sortableHeader("endDate", t('endDateHeader')), className: "table-header goal-table-date" },
+                { content: <Text weight="regular" content={t('dueDateHeader')} />, className: "table-header goal-table-due" },
                 { content: <Text weight="regular" content="" />, className: "goal-table-delete" }
             ]
-    };
+    });
+
+    /**
+    * Renders badge for goal which has changes waiting to be synced.
+    * @param personalGoalId {String} Unique identifier of personal goal.
+    */
+    const pendingSyncBadge = (personalGoalId: string) => {
+        if (props.pendingSyncGoalIds.indexOf(personalGoalId) === -1) {
+            return null;
+        }
+
+        return <Label content={t('pendingSyncText')} title={t('pendingSyncText')} circular className="pending-sync-badge" />;
+    }
+
+    /**
+    * Renders priority badge of goal. Goals without priority have no badge.
+    * @param personalGoalDetail {Object} Personal goal detail.
+    */
+    const priorityBadge = (personalGoalDetail: IPersonalGoalDetail) => {
+        let priority = getGoalPriorityCollection(t).find(priority => priority.value === personalGoalDetail.Priority);
+        if (!priority) {
+            return null;
+        }
+
+        return <Label content={priority.DisplayName} title={t('goalPriorityLabel') + ": " + priority.DisplayName} circular className={`goal-priority-badge goal-priority-${priority.value}`} />;
+    }
 
-    let goalDataRowsForDesktop = props.goalsData.map((value: any, index) => (
+    /**
+    * Renders due date of goal along with badge for goals which are overdue or due this week.
+    * @param personalGoalDetail {Object} Personal goal detail.
+    */
+    const dueDate = (personalGoalDetail: IPersonalGoalDetail) => {
+        if (!personalGoalDetail.DueDate) {
+            return null;
+        }
+
+        let dueState = getGoalDueState(personalGoalDetail);
+        return (
+            <Flex gap="gap.smaller" vAlign="center" className="goal-due-date">
+                <Text content={moment(personalGoalDetail.DueDate, Constants.dateTimeOffsetFormat).format(Constants.goalCycleDateTimeFormat)} />
+                {dueState && <Label content={t(dueState === "overdue" ? 'overdueText' : 'dueSoonText')} circular className={`goal-due-state-badge goal-due-state-${dueState}`} />}
+            </Flex>
+        );
+    }
+
+    /**
+    * Renders button which shows or hides description and definition of done of goal. Goals without them have no button.
+    * @param personalGoalDetail {Object} Personal goal detail.
+    */
+    const goalDefinitionToggle = (personalGoalDetail: IPersonalGoalDetail) => {
+        if (!hasGoalDefinition(personalGoalDetail)) {
+            return null;
+        }
+
+        let isExpanded = expandedGoalIds.indexOf(personalGoalDetail.PersonalGoalId) !== -1;
+        return (
+            <Button
+                text
+                iconOnly
+                size="smaller"
+                className="goal-definition-toggle"
+                icon={isExpanded ? <ChevronDownIcon size="small" /> : <ChevronEndIcon size="small" />}
+                title={t(isExpanded ? 'hideGoalDefinitionText' : 'showGoalDefinitionText', { goalName: personalGoalDetail.GoalName })}
+                aria-expanded={isExpanded}
+                onClick={(event: any) => {
+                    // Row cells open goal on click, so toggle should not reach them.
+                    event.stopPropagation();
+                    setExpandedGoalIds(isExpanded ? expandedGoalIds.filter(goalId => goalId !== personalGoalDetail.PersonalGoalId) : expandedGoalIds.concat(personalGoalDetail.PersonalGoalId));
+                }}
+            />
+        );
+    }
+
+    /**
+    * Adds row with description and definition of done after row of each expanded goal.
+    * @param panelGoals {Object[]} Goals shown in panel.
+    * @param goalRows {Object[]} Rows of goals, in same order as goals.
+    */
+    const withGoalDefinitionRows = (panelGoals: IPersonalGoalDetail[], goalRows: any[]) => goalRows.reduce((rows: any[], goalRow, index) => {
+        let personalGoalDetail = panelGoals[index];
+        rows.push(goalRow);
+        if (expandedGoalIds.indexOf(personalGoalDetail.PersonalGoalId) !== -1 && hasGoalDefinition(personalGoalDetail)) {
+            rows.push({
+                key: `${personalGoalDetail.PersonalGoalId}-definition`,
+                className: "goal-definition-row",
+                items: [{ content: <GoalDefinitionView description={personalGoalDetail.Description} definitionOfDone={personalGoalDetail.DefinitionOfDone} />, key: "definition", className: "goal-definition-cell" }]
+            });
+        }
+
+        return rows;
+    }, []);
+
+    const getDesktopRows = (panelGoals: IPersonalGoalDetail[]) => withGoalDefinitionRows(panelGoals, panelGoals.map((value: any, index) => (
         {
             key: value.GoalId,
             GoalStatus: value.Status,
             style: {},
+            className: getGoalDueState(value) === "overdue" ? "goal-row-overdue" : undefined,
             items:
                 [
-                    { content: <Text weight="semibold" content={value.GoalName} title={value.GoalName} />, key: index + "2", truncateContent: true, className: "table-row goal-table-goal-name-cell", onClick:() => props.onPersonalGoalClick(value.PersonalGoalId, t) },
+                    { content: goalCheckbox(panelGoals, value), key: index + "1", className: "table-row goal-table-select" },
+                    { content: <Flex column><Flex gap="gap.smaller" vAlign="center">{goalDefinitionToggle(value)}<Text weight="semibold" content={value.GoalName} title={value.GoalName} />{priorityBadge(value)}{pendingSyncBadge(value.PersonalGoalId)}</Flex><GoalTagList tags={getTags(value)} /></Flex>, key: index + "2", truncateContent: true, className: "table-row goal-table-goal-name-cell", onClick:() => props.onPersonalGoalClick(value.PersonalGoalId, t) },
                     { content: <Text content={value.TeamGoalName} title={value.TeamGoalName} />, key: index + "3", truncateContent: true, className: "table-row goal-table-align-with-cell", onClick: () => props.onPersonalGoalClick(value.PersonalGoalId, t) },
                     { content: <Text content={value.NotesCount} title={value.NotesCount} />, key: index + "4", truncateContent: true, className: "table-row goal-table-note-cell", onClick: () => props.onPersonalGoalClick(value.PersonalGoalId, t) },
+                    { content: <GoalProgressBar progress={getGoalProgress(value)} label={t('goalProgressOfGoalLabel', { goalName: value.GoalName })} />, key: index + "7", className: "table-row goal-table-progress", onClick: () => props.onPersonalGoalClick(value.PersonalGoalId, t) },
+                    { content: <Text content={moment(value.LastModifiedOn).format(Constants.goalCycleDateTimeFormat)} />, key: index + "5", truncateContent: true, className: "table-row goal-table-date", onClick: () => props.onPersonalGoalClick(value.PersonalGoalId, t) },
+                    { content: <Text content={moment(value.EndDate, Constants.dateTimeOffsetFormat).format(Constants.goalCycleDateTimeFormat)} />, key: index + "6", truncateContent: true, className: "table-row goal-table-date", onClick: () => props.onPersonalGoalClick(value.PersonalGoalId, t) },
+                    { content: dueDate(value), key: index + "8", className: "table-row goal-table-due", onClick: () => props.onPersonalGoalClick(value.PersonalGoalId, t) },
                     {
                         content:
                             <Dialog
@@ -55,9 +247,9 @@ const PersonalGoalTable: React.FunctionComponent<IPersonalGoalsTableProps> = pro
                     }
                 ]
         }
-    ));
+    )));
 
-    let goalDataRowsListView = props.goalsData.map((value: any) => (
+    const getListItems = (panelGoals: IPersonalGoalDetail[]) => panelGoals.map((value: any) => (
         {
             key: value.GoalId,
             GoalStatus: value.Status,
@@ -68,9 +260,14 @@ const PersonalGoalTable: React.FunctionComponent<IPersonalGoalsTableProps> = pro
                         <div className="goal-list-for-small-device">
                             <Flex.Item>
                                 <Flex column gap="gap.small" vAlign="stretch">
-                                    <Flex>
+                                    <Flex vAlign="center">
+                                        {goalCheckbox(panelGoals, value)}
+                                        {goalDefinitionToggle(value)}
                                         <Text className="goal-heading" onClick={() => props.onPersonalGoalClick(value.PersonalGoalId, t)} title={value.GoalName} content={value.GoalName} />
+                                        {priorityBadge(value)}
+                                        {pendingSyncBadge(value.PersonalGoalId)}
                                     </Flex>
+                                    <GoalTagList tags={getTags(value)} />
                                     <div className="aligned-unaligned-text">
                                         <Flex vAlign="start">
                                             <Label content={value.TeamGoalName === t('notAlignedTeamGoaltext') ? t('notAlignedTeamGoaltext') : t('alignedTeamGoaltext')} title={value.TeamGoalName} circular />
@@ -78,6 +275,9 @@ const PersonalGoalTable: React.FunctionComponent<IPersonalGoalsTableProps> = pro
                                             <Text content={`${value.NotesCount} (${t('goalNotesText')})`} title={value.NotesCount} />
                                         </Flex>
                                     </div>
+                                    <GoalProgressBar progress={getGoalProgress(value)} label={t('goalProgressOfGoalLabel', { goalName: value.GoalName })} />
+                                    {dueDate(value)}
+                                    {expandedGoalIds.indexOf(value.PersonalGoalId) !== -1 && <GoalDefinitionView description={value.Description} definitionOfDone={value.DefinitionOfDone} />}
                                 </Flex>
                             </Flex.Item>
                         </div>
@@ -103,20 +303,38 @@ const PersonalGoalTable: React.FunctionComponent<IPersonalGoalsTableProps> = pro
         }
     ));
 
-    let panelsForDesktop = props.goalStatus.map((goalStatus: any) => (
+    // Goals are grouped in panels by status, or by tag when user chooses so. Goal with more than one tag is shown in panel of each tag.
+    let goalGroups: { title: string, goals: IPersonalGoalDetail[] }[] = props.filter.groupBy === "tag"
+        ? groupGoalsByTag(props.goalsData).map(group => ({ title: group.tag ? group.tag.name : t('untaggedGoalsHeader'), goals: group.goals }))
+        : props.goalStatus.map((goalStatus: any) => ({ title: goalStatus.DisplayName, goals: props.goalsData.filter(goal => goal.Status === goalStatus.value) }));
+
+    let panelsForDesktop = goalGroups.map(group => (
         {
-            title: <Text content={goalStatus.DisplayName + " (" + goalDataRowsForDesktop.filter(row => row.GoalStatus === goalStatus.value).length + ")"} className="goal-header" />,
-            content: <Table rows={goalDataRowsForDesktop.filter(row => row.GoalStatus === goalStatus.value)} header={goalTableHeader} className="table-cell-content" />
+            title: <Text content={group.title + " (" + group.goals.length + ")"} className="goal-header" />,
+            content: <Table rows={getDesktopRows(group.goals)} header={goalTableHeader(group.goals)} className="table-cell-content" />
         }
     ));
 
-    let panelsForListItem = props.goalStatus.map((goalStatus: any) => (
+    let panelsForListItem = goalGroups.map(group => (
         {
-            title: <Text content={goalStatus.DisplayName + " (" + goalDataRowsListView.filter(row => row.GoalStatus === goalStatus.value).length + ")"} className="goal-header-for-small-device" />,
-            content: <List items={goalDataRowsListView.filter(row => row.GoalStatus === goalStatus.value)} className="table-cell-content-for-small-device" />
+            title: <Text content={group.title + " (" + group.goals.length + ")"} className="goal-header-for-small-device" />,
+            content: <List items={getListItems(group.goals)} className="table-cell-content-for-small-device" />
         }
     ));
 
+    // Goals due by end of week are repeated in their own panel, which is shown first so they are not missed.
+    let goalsDueThisWeek = getGoalsDueThisWeek(props.goalsData);
+    if (goalsDueThisWeek.length > 0) {
+        panelsForDesktop.unshift({
+            title: <Text content={t('dueThisWeekHeader') + " (" + goalsDueThisWeek.length + ")"} className="goal-header goal-due-this-week-header" />,
+            content: <Table rows={getDesktopRows(goalsDueThisWeek)} header={goalTableHeader(goalsDueThisWeek)} className="table-cell-content goal-due-this-week" />
+        });
+        panelsForListItem.unshift({
+            title: <Text content={t('dueThisWeekHeader') + " (" + goalsDueThisWeek.length + ")"} className="goal-header-for-small-device goal-due-this-week-header" />,
+            content: <List items={getListItems(goalsDueThisWeek)} className="table-cell-content-for-small-device goal-due-this-week" />
+        });
+    }
+
     return (
         <>
             {props.screenWidth <= 750 && <Accordion defaultActiveIndex={[0]} panels={panelsForListItem} className="accordian" />}
@@ -0,0 +1,154 @@
+﻿// <copyright file="recently-deleted-goals.tsx" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import * as React from "react";
+import { Loader, Flex, Text, Button } from "@fluentui/react-northstar";
+import { WithTranslation, withTranslation } from "react-i18next";
+import { TFunction } from "i18next";
+import moment from "moment";
+import { getDeletedPersonalGoalDetails, restorePersonalGoalDetail } from "../../api/personal-goal-api";
+import { getCachedQueryData, queryKeys } from "../../api/query-cache";
+import { handleRefreshError, getGoalStatusCollection } from "../../helpers/goal-helper";
+import { createRequestCanceller, isRequestCancelled } from "../../helpers/request-cancellation";
+import Constants from "../../constants";
+import { IPersonalGoalDetail, IRequestCanceller } from "../../models/type";
+import "../../styles/style.css";
+
+interface IRecentlyDeletedGoalsProps extends WithTranslation {
+    activeGoals: IPersonalGoalDetail[],
+    onGoalRestored: () => void,
+}
+
+interface IRecentlyDeletedGoalsState {
+    loader: boolean,
+    deletedGoals: IPersonalGoalDetail[],
+    restoringGoalIds: string[],
+    errorMessage: string,
+}
+
+/**
+* Get date on which deleted goals are removed from storage. Goal deletion background service runs every Sunday.
+*/
+const getGoalPurgeDate = () => {
+    return moment().day(7).startOf("day");
+}
+
+/** Component for restoring personal goals deleted in current goal cycle, until they are removed from storage. */
+class RecentlyDeletedGoals extends React.Component<IRecentlyDeletedGoalsProps, IRecentlyDeletedGoalsState> {
+    localize: TFunction;
+    isCachedDataRendered: boolean = false;
+    requestCanceller: IRequestCanceller;
+
+    constructor(props: IRecentlyDeletedGoalsProps) {
+        super(props);
+        this.localize = this.props.t;
+        this.state = {
+            loader: true,
+            deletedGoals: [],
+            restoringGoalIds: [],
+            errorMessage: "",
+        };
+
+        this.requestCanceller = createRequestCanceller();
+    }
+
+    /** Called once component is mounted. */
+    componentDidMount() {
+        let deletedGoalDetails = getCachedQueryData<IPersonalGoalDetail[]>(queryKeys.deletedPersonalGoals());
+        this.isCachedDataRendered = !!deletedGoalDetails;
+        this.setState({ loader: !this.isCachedDataRendered, deletedGoals: deletedGoalDetails || [] });
+        this.getDeletedGoals();
+    }
+
+    /** Called when component is unmounted. */
+    componentWillUnmount() {
+        this.requestCanceller.cancel();
+    }
+
+    /**
+    *  Get goals deleted by user from storage.
+    * */
+    getDeletedGoals = async () => {
+        const deletedGoalDetailsResponse = await getDeletedPersonalGoalDetails(this.requestCanceller.signal);
+        if (isRequestCancelled(deletedGoalDetailsResponse)) {
+            return;
+        }
+        else if (deletedGoalDetailsResponse.isSuccess) {
+            this.setState({ deletedGoals: deletedGoalDetailsResponse.data || [] });
+        }
+        else {
+            handleRefreshError(deletedGoalDetailsResponse, this.isCachedDataRendered);
+        }
+
+        this.setState({ loader: false });
+    }
+
+    /**
+    *  Restores deleted goal and removes it from list. Goal can not be restored once its goal cycle has maximum number of goals.
+    * */
+    onRestoreButtonClick = async (personalGoalDetail: IPersonalGoalDetail) => {
+        if (this.props.activeGoals.filter(goalDetail => goalDetail.GoalCycleId === personalGoalDetail.GoalCycleId).length >= Constants.maxAllowedGoals) {
+            this.setState({ errorMessage: this.localize("goalRestoreLimitError", { goalName: personalGoalDetail.GoalName, maxGoalsCount: Constants.maxAllowedGoals }) });
+            return;
+        }
+
+        this.setState((state) => ({ restoringGoalIds: [...state.restoringGoalIds, personalGoalDetail.PersonalGoalId], errorMessage: "" }));
+        const restorePersonalGoalResponse = await restorePersonalGoalDetail(personalGoalDetail.PersonalGoalId, this.requestCanceller.signal);
+        if (isRequestCancelled(restorePersonalGoalResponse)) {
+            return;
+        }
+
+        this.setState((state) => ({ restoringGoalIds: state.restoringGoalIds.filter(goalId => goalId !== personalGoalDetail.PersonalGoalId) }));
+        if (!restorePersonalGoalResponse.isSuccess) {
+            this.setState({ errorMessage: this.localize("goalRestoreError", { goalName: personalGoalDetail.GoalName }) });
+            return;
+        }
+
+        this.setState((state) => ({ deletedGoals: state.deletedGoals.filter(goalDetail => goalDetail.PersonalGoalId !== personalGoalDetail.PersonalGoalId) }));
+        this.props.onGoalRestored();
+    }
+
+    /**
+    *    Renders the component.
+    */
+    public render() {
+        if (this.state.loader) {
+            return (
+                <div className="loader">
+                    <Loader />
+                </div>
+            );
+        }
+
+        let goalStatusCollection = getGoalStatusCollection(this.localize);
+        return (
+            <div className="recently-deleted-goals">
+                <Text size="small" weight="light" content={this.localize("deletedGoalsPurgeText", { purgeDate: getGoalPurgeDate().format(Constants.goalCycleDateTimeFormat) })} />
+                {this.state.errorMessage && <Flex gap="gap.small" vAlign="center" className="recently-deleted-goals-error">
+                    <Text error content={this.state.errorMessage} />
+                    <Button text size="small" content={this.localize("dismissButtonText")} onClick={() => this.setState({ errorMessage: "" })} />
+                </Flex>}
+                {this.state.deletedGoals.length === 0 &&
+                    <Flex className="error-container" hAlign="center" vAlign="stretch">
+                        <Text content={this.localize("noDeletedGoalsMessage")} />
+                    </Flex>}
+                {this.state.deletedGoals.map((goalDetail) => {
+                    let goalStatus = goalStatusCollection.find(status => status.value === goalDetail.Status);
+                    let isRestoring = this.state.restoringGoalIds.indexOf(goalDetail.PersonalGoalId) !== -1;
+                    return (
+                        <Flex key={goalDetail.PersonalGoalId} gap="gap.small" vAlign="center" className="recently-deleted-goal" data-goal-id={goalDetail.PersonalGoalId}>
+                            <Flex.Item grow>
+                                <Text className="recently-deleted-goal-name" content={goalDetail.GoalName} title={goalDetail.GoalName} />
+                            </Flex.Item>
+                            {goalStatus && <Text size="small" weight="light" content={goalStatus.DisplayName} />}
+                            <Button size="small" content={this.localize("restoreGoalButtonText")} loading={isRestoring} disabled={isRestoring} onClick={() => this.onRestoreButtonClick(goalDetail)} className="restore-goal-button" />
+                        </Flex>
+                    );
+                })}
+            </div>
+        );
+    }
+}
+
+export default withTranslation()(RecentlyDeletedGoals);
@@ -0,0 +1,37 @@
+﻿// <copyright file="undo-toast.tsx" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import * as React from "react";
+import { Flex, Text, Button } from "@fluentui/react-northstar";
+import { useTranslation } from 'react-i18next';
+import Constants from "../../constants";
+import "../../styles/style.css";
+
+interface IUndoToastProps {
+    message: string,
+    interval?: number,
+    onUndo: () => void,
+    onTimeout: () => void,
+}
+
+/** Toast offering to undo an action. Parent commits the action once interval has passed, and renders toast with new key for each action so interval starts again. */
+const UndoToast: React.FunctionComponent<IUndoToastProps> = props => {
+    const { t } = useTranslation();
+    const onTimeout = React.useRef(props.onTimeout);
+    onTimeout.current = props.onTimeout;
+
+    React.useEffect(() => {
+        let timeoutId = window.setTimeout(() => onTimeout.current(), props.interval || Constants.deletionUndoIntervalInMilliseconds);
+        return () => window.clearTimeout(timeoutId);
+    }, [props.interval]);
+
+    return (
+        <Flex gap="gap.small" vAlign="center" className="undo-toast" role="status">
+            <Text content={props.message} />
+            <Button text primary size="small" content={t('undoButtonText')} onClick={props.onUndo} className="undo-toast-button" />
+        </Flex>
+    );
+}
+
+export default UndoToast;
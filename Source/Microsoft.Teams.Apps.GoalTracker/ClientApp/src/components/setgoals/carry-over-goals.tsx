@@ -0,0 +1,89 @@
+﻿// <copyright file="carry-over-goals.tsx" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import React from 'react';
+import { Text, Button, Flex, Checkbox } from '@fluentui/react-northstar';
+import { useTranslation } from 'react-i18next';
+import { getGoalStatusCollection } from "../../helpers/goal-helper";
+import { IPersonalGoalDetail, IPersonalGoalNoteDetail } from "../../models/type";
+import "../../styles/style.css";
+
+interface ICarryOverGoalsProps {
+    goals: IPersonalGoalDetail[],
+    notesData: IPersonalGoalNoteDetail[],
+    goalCycle: string,
+    maxGoalsCount: number,
+    onCarryOver: (goals: IPersonalGoalDetail[], includeNotes: boolean) => void,
+    onSkip: () => void,
+}
+
+const CarryOverGoals: React.FunctionComponent<ICarryOverGoalsProps> = props => {
+    const { t } = useTranslation();
+    const [selectedGoalIds, setSelectedGoalIds] = React.useState<string[]>(props.goals.slice(0, props.maxGoalsCount).map(goal => goal.PersonalGoalId));
+    const [includeNotes, setIncludeNotes] = React.useState(false);
+    const goalStatus = getGoalStatusCollection(t);
+
+    // Goals added to the list meanwhile reduce number of goals which can be carried over.
+    const carriedOverGoalIds = selectedGoalIds.slice(0, Math.max(props.maxGoalsCount, 0));
+
+    /**
+    * Select or unselect goal to be carried over. Goal can not be selected once maximum number of goals is selected.
+    * @param personalGoalId {String} Unique identifier of personal goal.
+    * @param checked {Boolean} True if goal is selected.
+    */
+    const onGoalSelectionChange = (personalGoalId: string, checked: boolean) => {
+        if (checked && carriedOverGoalIds.length < props.maxGoalsCount) {
+            setSelectedGoalIds(carriedOverGoalIds.concat(personalGoalId));
+        }
+        else if (!checked) {
+            setSelectedGoalIds(carriedOverGoalIds.filter(goalId => goalId !== personalGoalId));
+        }
+    }
+
+    const isMaxGoalsCountSelected = carriedOverGoalIds.length >= props.maxGoalsCount;
+    return (
+        <div className="carry-over-goals">
+            <Text weight="bold" content={t('carryOverGoalsTitle')} />
+            <Text as="p" size="small" content={t('carryOverGoalsDescription', { goalCycle: props.goalCycle })} />
+            <div className="carry-over-goal-list">
+                {props.goals.map((goal) => {
+                    let isSelected = carriedOverGoalIds.indexOf(goal.PersonalGoalId) !== -1;
+                    let notesCount = props.notesData.filter(note => note.PersonalGoalId === goal.PersonalGoalId).length;
+                    let status = goalStatus.find(goalStatus => goalStatus.value === goal.Status);
+                    return (
+                        <Flex key={goal.PersonalGoalId} gap="gap.small" vAlign="center" className="carry-over-goal">
+                            <Checkbox
+                                label={goal.GoalName}
+                                title={goal.GoalName}
+                                checked={isSelected}
+                                disabled={!isSelected && isMaxGoalsCountSelected}
+                                onChange={(event: any, checkboxProps: any) => onGoalSelectionChange(goal.PersonalGoalId, checkboxProps.checked)}
+                                className="carry-over-goal-checkbox"
+                            />
+                            <Text size="small" weight="light" content={status ? status.DisplayName : ""} />
+                            {notesCount > 0 && <Text size="small" weight="light" content={t('carryOverGoalNotesCount', { count: notesCount })} />}
+                        </Flex>
+                    );
+                })}
+            </div>
+            {props.goals.length > props.maxGoalsCount && <Text size="small" error content={t('carryOverGoalsLimitText', { maxGoalsCount: props.maxGoalsCount })} />}
+            <Flex gap="gap.small" vAlign="center" wrap className="carry-over-goals-actions">
+                <Checkbox label={t('carryOverNotesLabel')} checked={includeNotes} onChange={(event: any, checkboxProps: any) => setIncludeNotes(checkboxProps.checked)} />
+                <Flex.Item push>
+                    <Flex gap="gap.small">
+                        <Button content={t('skipButtonText')} onClick={props.onSkip} />
+                        <Button
+                            secondary
+                            content={t('carryOverButtonText', { count: carriedOverGoalIds.length })}
+                            disabled={carriedOverGoalIds.length === 0}
+                            onClick={() => props.onCarryOver(props.goals.filter(goal => carriedOverGoalIds.indexOf(goal.PersonalGoalId) !== -1), includeNotes)}
+                        />
+                    </Flex>
+                </Flex.Item>
+            </Flex>
+        </div>
+    );
+}
+
+export default CarryOverGoals;
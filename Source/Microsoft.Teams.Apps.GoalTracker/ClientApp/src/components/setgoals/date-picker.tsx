@@ -9,14 +9,12 @@ import { useState } from "react";
 import { useTranslation } from "react-i18next";
 import { DatePicker } from 'office-ui-fabric-react/lib/DatePicker';
 import { Fabric, Customizer } from 'office-ui-fabric-react/lib';
-import { initializeIcons } from 'office-ui-fabric-react/lib/Icons';
 import { DarkCustomizations } from "../../helpers/theme/dark-customizations";
 import { DefaultCustomizations } from "../../helpers/theme/default-customizations";
 import Constants from "../../constants";
+import "../../helpers/fabric-icons";
 import "../../styles/style.css";
 
-initializeIcons();
-
 interface IDateePickerProps {
     getStartDate: (startDate: Date | undefined) => void,
     getEndDate: (endDate: Date | undefined) => void
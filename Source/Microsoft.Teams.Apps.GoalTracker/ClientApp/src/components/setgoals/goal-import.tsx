@@ -0,0 +1,147 @@
+﻿// <copyright file="goal-import.tsx" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import React from 'react';
+import { Text, Button, Flex, TextArea } from '@fluentui/react-northstar';
+import { useTranslation } from 'react-i18next';
+import moment from 'moment';
+import Constants from "../../constants";
+import { parseGoalText, parseGoalCsv, getGoalImportPreview } from "../../helpers/goal-import";
+import { IImportedGoal, GoalImportIssue } from "../../models/type";
+import "../../styles/style.css";
+
+interface IGoalImportProps {
+    goalNames: string[],
+    maxGoalsCount: number,
+    onImport: (goals: IImportedGoal[]) => void,
+    onClose: () => void,
+}
+
+/** Adds many goals at once, pasted one per line or imported from CSV file. Goals which can not be added are flagged in preview. */
+const GoalImport: React.FunctionComponent<IGoalImportProps> = props => {
+    const { t } = useTranslation();
+    const [text, setText] = React.useState("");
+    const [fileName, setFileName] = React.useState("");
+    const [fileErrorMessage, setFileErrorMessage] = React.useState("");
+    const [importedGoals, setImportedGoals] = React.useState<IImportedGoal[]>([]);
+    const fileInput = React.useRef<HTMLInputElement>(null);
+
+    const previewItems = getGoalImportPreview(importedGoals, props.goalNames, props.maxGoalsCount);
+    const insertableGoals = previewItems.filter(item => !item.issue).map(item => item.goal);
+
+    /**
+    * Get goals from pasted text. Goals of previously imported file are replaced.
+    * @param value {String} Pasted text.
+    */
+    const onTextChange = (value: string) => {
+        setText(value);
+        setFileName("");
+        setFileErrorMessage("");
+        setImportedGoals(parseGoalText(value));
+    }
+
+    /**
+    * Get goals from CSV file chosen by user. Pasted goals are replaced.
+    * @param event {Object} Change event of file input.
+    */
+    const onFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        let file = event.target.files && event.target.files[0];
+        // Same file can be imported again after it was changed.
+        event.target.value = "";
+        if (!file) {
+            return;
+        }
+
+        let reader = new FileReader();
+        reader.onload = () => {
+            setText("");
+            setFileName(file!.name);
+            setFileErrorMessage("");
+            setImportedGoals(parseGoalCsv(reader.result as string));
+        };
+        reader.onerror = () => {
+            setFileErrorMessage(t('goalImportFileErrorText', { fileName: file!.name }));
+        };
+        reader.readAsText(file);
+    }
+
+    /**
+    * Get text explaining why goal can not be added.
+    * @param issue {String} Issue of imported goal.
+    */
+    const getIssueText = (issue: GoalImportIssue) => {
+        switch (issue) {
+            case "tooLong":
+                return t('goalImportTooLongIssueText', { maxLength: Constants.maxAllowedGoalName });
+            case "duplicate":
+                return t('goalImportDuplicateIssueText');
+            case "invalidDates":
+                return t('goalImportInvalidDatesIssueText');
+            default:
+                return t('goalImportOverLimitIssueText', { maxGoalsCount: Math.max(props.maxGoalsCount, 0) });
+        }
+    }
+
+    /**
+    * Get start and end dates of imported goal to be shown in preview.
+    * @param goal {Object} Imported goal.
+    */
+    const getDatesText = (goal: IImportedGoal) => {
+        let startDate = goal.startDate ? moment(goal.startDate).format(Constants.goalCycleDateTimeFormat) : "";
+        let endDate = goal.endDate ? moment(goal.endDate).format(Constants.goalCycleDateTimeFormat) : "";
+        return startDate || endDate ? `${startDate} - ${endDate}` : "";
+    }
+
+    return (
+        <div className="goal-import">
+            <Text weight="bold" content={t('goalImportTitle')} />
+            <Text as="p" size="small" content={t('goalImportDescription')} />
+            <TextArea
+                value={text}
+                aria-label={t('goalImportTextLabel')}
+                placeholder={t('goalImportTextPlaceholder')}
+                onChange={(event: any) => onTextChange(event.target.value)}
+                className="goal-import-text"
+            />
+            <Flex gap="gap.small" vAlign="center" className="goal-import-file">
+                <Button size="small" content={t('goalImportFileButtonText')} onClick={() => fileInput.current && fileInput.current.click()} className="goal-import-file-button" />
+                <Text size="small" weight="light" content={fileName || t('goalImportFileDescription')} />
+                <input ref={fileInput} type="file" accept=".csv,text/csv" hidden onChange={onFileChange} aria-label={t('goalImportFileButtonText')} />
+            </Flex>
+            {fileErrorMessage && <Text size="small" error content={fileErrorMessage} />}
+            {previewItems.length > 0 &&
+                <>
+                    <Text size="small" weight="semibold" content={t('goalImportSummaryText', { count: insertableGoals.length, totalCount: previewItems.length })} />
+                    <ul className="goal-import-preview">
+                        {previewItems.map((item, index) => (
+                            <li key={index} className={item.issue ? "goal-import-item goal-import-item-flagged" : "goal-import-item"}>
+                                <Flex gap="gap.small" vAlign="center">
+                                    <Text size="small" content={item.goal.goalName} title={item.goal.goalName} className="goal-import-item-name" />
+                                    <Text size="small" weight="light" content={getDatesText(item.goal)} />
+                                    {item.issue && <Text size="small" error content={getIssueText(item.issue)} className="goal-import-item-issue" />}
+                                </Flex>
+                            </li>
+                        ))}
+                    </ul>
+                    {insertableGoals.some(goal => goal.startDate || goal.endDate) && <Text size="small" weight="light" content={t('goalImportDatesText')} />}
+                </>}
+            <Flex gap="gap.small" vAlign="center" className="goal-import-actions">
+                <Flex.Item push>
+                    <Flex gap="gap.small">
+                        <Button content={t('cancelButtonText')} onClick={props.onClose} />
+                        <Button
+                            secondary
+                            content={t('goalImportButtonText', { count: insertableGoals.length })}
+                            disabled={insertableGoals.length === 0}
+                            onClick={() => props.onImport(insertableGoals)}
+                            className="goal-import-button"
+                        />
+                    </Flex>
+                </Flex.Item>
+            </Flex>
+        </div>
+    );
+}
+
+export default GoalImport;
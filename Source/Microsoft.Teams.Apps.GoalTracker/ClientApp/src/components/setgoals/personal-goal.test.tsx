@@ -0,0 +1,141 @@
+﻿// <copyright file="personal-goal.test.tsx" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import * as React from "react";
+import PersonalGoal from "./personal-goal";
+import { setupTestHarness, renderRoute, cleanupRoute, waitFor, findButton, click, changeInputValue, chooseFile } from "../../mock/test-harness";
+import { getMockBackendData, setMockBackendData } from "../../mock/mock-backend";
+import Constants from "../../constants";
+
+/**
+* Get values of goal name inputs.
+* @param container {Object} Element containing rendered component.
+*/
+const getGoalNames = (container: HTMLElement) => Array.from(container.querySelectorAll("input")).map(input => input.value);
+
+describe("PersonalGoal", () => {
+    afterEach(cleanupRoute);
+
+    it("shows personal goals of user", async () => {
+        setupTestHarness();
+        let container = await renderRoute(<PersonalGoal />, "/personal-goal");
+
+        await waitFor(() => getGoalNames(container).includes("Publish weekly newsletter"));
+        expect(getGoalNames(container)).toContain("Mentor a new team member");
+    });
+
+    it("saves changed personal goals and submits them to bot", async () => {
+        let fakeTeamsHost = setupTestHarness();
+        let container = await renderRoute(<PersonalGoal />, "/personal-goal");
+        await waitFor(() => getGoalNames(container).includes("Publish weekly newsletter"));
+
+        let goalNameInput = Array.from(container.querySelectorAll("input")).find(input => input.value === "Mentor a new team member")!;
+        await changeInputValue(goalNameInput, "Mentor two new team members");
+        await click(findButton(container, "Save")!);
+        await waitFor(() => fakeTeamsHost.submittedTasks.length > 0);
+
+        let submittedTask: any = fakeTeamsHost.submittedTasks[0];
+        expect(submittedTask.AdaptiveActionType).toBe(Constants.setPersonalGoal);
+        expect(submittedTask.UserAadObjectId).toBe(fakeTeamsHost.context.userObjectId);
+        expect(getMockBackendData().personalGoals.map(goal => goal.GoalName)).toContain("Mentor two new team members");
+    });
+
+    it("saves tag picked for goal", async () => {
+        let fakeTeamsHost = setupTestHarness();
+        let container = await renderRoute(<PersonalGoal />, "/personal-goal");
+        await waitFor(() => getGoalNames(container).includes("Mentor a new team member"));
+
+        let goalItem = Array.from(container.querySelectorAll("li")).find(item => item.querySelector("input")!.value === "Mentor a new team member")!;
+        await click(goalItem.querySelector(".edit-goal-tags-button")!);
+        await click(Array.from(goalItem.querySelectorAll(".goal-tag-suggestion")).find(button => button.textContent === "+ Learning")!);
+        expect(goalItem.querySelector(".goal-tag-list")!.textContent).toBe("Learning");
+        await click(findButton(container, "Save")!);
+        await waitFor(() => fakeTeamsHost.submittedTasks.length > 0);
+
+        let savedGoal = getMockBackendData().personalGoals.find(goal => goal.GoalName === "Mentor a new team member")!;
+        expect(JSON.parse(savedGoal.Tags!)).toEqual([{ name: "Learning", color: "green" }]);
+    });
+
+    it("carries over unfinished goals and their notes into next goal cycle", async () => {
+        let fakeTeamsHost = setupTestHarness();
+        let data = getMockBackendData();
+        data.personalGoals = data.personalGoals.filter(goal => !goal.IsActive);
+        setMockBackendData(data);
+        let container = await renderRoute(<PersonalGoal />, "/personal-goal");
+        await waitFor(() => container.textContent!.includes("Start next goal cycle"));
+
+        expect(container.querySelector(".carry-over-goals")!.textContent).not.toContain("Publish monthly newsletter");
+        await click(Array.from(container.querySelectorAll(".carry-over-goals [role='checkbox']")).find(checkbox => checkbox.textContent === "Carry over notes")!);
+        await click(findButton(container, "Carry over (2)")!);
+        expect(getGoalNames(container)).toEqual(expect.arrayContaining(["Redesign email templates", "Present at marketing all-hands"]));
+
+        await click(findButton(container, "Save")!);
+        await waitFor(() => fakeTeamsHost.submittedTasks.length > 0);
+
+        let savedData = getMockBackendData();
+        let carriedOverGoal = savedData.personalGoals.find(goal => goal.IsActive && goal.GoalName === "Redesign email templates")!;
+        expect(carriedOverGoal.Status).toBe(1);
+        expect(carriedOverGoal.GoalCycleId).not.toBe(data.personalGoals[0].GoalCycleId);
+        expect(savedData.personalGoalNotes.filter(note => note.PersonalGoalId === carriedOverGoal.PersonalGoalId && note.IsActive).map(note => note.PersonalGoalNoteDescription))
+            .toEqual(["New header approved, footer still pending."]);
+    });
+
+    it("adds goals from templates of team and suggested templates", async () => {
+        let fakeTeamsHost = setupTestHarness();
+        let container = await renderRoute(<PersonalGoal />, "/personal-goal");
+        await waitFor(() => getGoalNames(container).includes("Publish weekly newsletter"));
+
+        await click(container.querySelector(".goal-templates-button")!);
+        await waitFor(() => container.querySelector(".goal-templates-panel")!.textContent!.includes("Publish a customer case study"));
+        let templateCheckboxes = Array.from(container.querySelectorAll(".goal-templates-panel [role='checkbox']"));
+        await click(templateCheckboxes.find(checkbox => checkbox.textContent === "Publish a customer case study")!);
+        await click(templateCheckboxes.find(checkbox => checkbox.textContent === "Mentor a colleague")!);
+        await click(findButton(container, "Add selected (2)")!);
+
+        expect(container.querySelector(".goal-templates-panel")).toBeNull();
+        expect(getGoalNames(container)).toEqual(expect.arrayContaining(["Publish a customer case study", "Mentor a colleague"]));
+        await click(findButton(container, "Save")!);
+        await waitFor(() => fakeTeamsHost.submittedTasks.length > 0);
+
+        let savedGoal = getMockBackendData().personalGoals.find(goal => goal.GoalName === "Publish a customer case study")!;
+        expect(savedGoal.Description).toBe("Interview a customer about how they use our product and publish the story on the blog.");
+    });
+
+    it("adds pasted goals and skips goals already in list", async () => {
+        setupTestHarness();
+        let container = await renderRoute(<PersonalGoal />, "/personal-goal");
+        await waitFor(() => getGoalNames(container).includes("Mentor a new team member"));
+
+        await click(container.querySelector(".goal-import-open-button")!);
+        await changeInputValue(container.querySelector("textarea")!, "- Launch team podcast\n2. mentor a new team member\n\n* [ ] Write a blog series");
+        let previewItems = Array.from(container.querySelectorAll(".goal-import-item"));
+        expect(previewItems.map(item => item.querySelector(".goal-import-item-name")!.textContent)).toEqual(["Launch team podcast", "mentor a new team member", "Write a blog series"]);
+        expect(previewItems[1].querySelector(".goal-import-item-issue")!.textContent).toBe("Already in the list");
+        await click(findButton(container, "Add goals (2)")!);
+
+        expect(container.querySelector(".goal-import")).toBeNull();
+        expect(getGoalNames(container)).toEqual(expect.arrayContaining(["Launch team podcast", "Write a blog series"]));
+        expect(getGoalNames(container).filter(goalName => goalName.toLowerCase() === "mentor a new team member")).toHaveLength(1);
+    });
+
+    it("imports goals from CSV file and sets goal cycle from their dates", async () => {
+        let fakeTeamsHost = setupTestHarness(undefined, data => data.personalGoals = []);
+        let container = await renderRoute(<PersonalGoal />, "/personal-goal");
+        await waitFor(() => !!container.querySelector(".goal-import-open-button"));
+
+        await click(container.querySelector(".goal-import-open-button")!);
+        let fileInput = container.querySelector<HTMLInputElement>("input[type='file']")!;
+        let file = new File(["Goal,Start date,End date\r\n\"Grow audience, then launch podcast\",2026-11-02,2027-01-29\r\nWrite a blog series,,2027-01-31\r\n"], "goals.csv", { type: "text/csv" });
+        await chooseFile(fileInput, file);
+        await waitFor(() => container.querySelectorAll(".goal-import-item").length === 2);
+        await click(findButton(container, "Add goals (2)")!);
+        await click(findButton(container, "Save")!);
+        await waitFor(() => fakeTeamsHost.submittedTasks.length > 0);
+
+        let savedGoals = getMockBackendData().personalGoals.filter(goal => goal.IsActive);
+        expect(savedGoals.map(goal => goal.GoalName)).toEqual(["Grow audience, then launch podcast", "Write a blog series"]);
+        expect(savedGoals[0].StartDate).toMatch(/^2026-11-02/);
+        expect(savedGoals[0].EndDate).toMatch(/^2027-01-31/);
+    });
+});
@@ -3,17 +3,32 @@
 // </copyright>
 
 import React from 'react';
-import { Input, Loader } from '@fluentui/react-northstar';
+import { Input, Loader, Flex, Button } from '@fluentui/react-northstar';
 import { createBrowserHistory } from "history";
-import { IPersonalGoalDetail, IAddNewGoal } from "../../models/type";
+import { IPersonalGoalDetail, IPersonalGoalNoteDetail, IAddNewGoal, IRequestCanceller, ITeamsContextProps, IGoalTag, IDoneCriterion, IGoalTemplate, IImportedGoal, INewGoalHandlers } from "../../models/type";
 import "../../styles/style.css";
 import { SeverityLevel } from "@microsoft/applicationinsights-web";
-import * as microsoftTeams from "@microsoft/teams-js";
 import { CloseIcon } from '@fluentui/react-icons-northstar';
 import Constants from "../../constants";
 import SetGoal from './set-goal'
+import CarryOverGoals from './carry-over-goals'
+import GoalImport from './goal-import'
+import GoalTagList from '../goal-tags/goal-tag-list';
+import GoalTagPicker from '../goal-tags/goal-tag-picker';
+import GoalDefinitionEditor from '../goal-definition/goal-definition-editor';
+import GoalTemplatesPanel from '../goal-templates/goal-templates-panel';
 import { handleError } from '../../helpers/goal-helper'
-import { savePersonalGoalDetails, getPersonalGoalDetails } from '../../api/personal-goal-api'
+import { createRequestCanceller, isRequestCancelled, submitTask } from '../../helpers/request-cancellation';
+import { withTeamsContext } from '../../helpers/teams-context';
+import { savePersonalGoalDetails, getPersonalGoalDetails, getPastPersonalGoalDetails } from '../../api/personal-goal-api'
+import { getPastPersonalGoalNoteDetails, savePersonalGoalNoteDetails } from '../../api/personal-goal-note-api'
+import { getGoalTemplatesByTeamId } from '../../api/team-goal-api'
+import { groupGoalsByCycle, formatGoalCycleDates } from '../../helpers/goal-cycle';
+import { getAvailableTags, getTags, getTagsValue } from '../../helpers/goal-tag';
+import { getDoneCriteria, getDoneCriteriaValue, getDescriptionValue } from '../../helpers/goal-definition';
+import { getCuratedGoalTemplates } from '../../helpers/goal-template';
+import { createNewGoal, addGoalTemplatesToNewGoals, addImportedGoalsToNewGoals, applyImportedGoalCycleDates } from '../../helpers/new-goal';
+import { getCachedQueryData, queryKeys } from '../../api/query-cache'
 import { getApplicationInsightsInstance } from "../../helpers/app-insights";
 import { Guid } from "guid-typescript";
 import { WithTranslation, withTranslation } from "react-i18next";
@@ -36,22 +51,28 @@ interface IPersonalGoalState {
     isSaveButtonDisabled: boolean,
     showError: boolean;
     screenWidth: number;
+    carryOverGoals: IPersonalGoalDetail[],
+    carryOverNotes: IPersonalGoalNoteDetail[],
+    carryOverGoalCycle: string,
+    tagPickerGoalId: string | null,
+    definitionEditorGoalId: string | null,
+    isGoalTemplatesPanelOpen: boolean,
+    isGoalImportOpen: boolean,
+    teamGoalTemplates: IGoalTemplate[],
 }
 
 const browserHistory = createBrowserHistory({ basename: "" });
 
-class PersonalGoal extends React.Component<WithTranslation, IPersonalGoalState>
+class PersonalGoal extends React.Component<WithTranslation & ITeamsContextProps, IPersonalGoalState>
 {
     localize: TFunction;
     telemetry?: any = null;
     scope?: string | null;
-    userAadObjectId?: string | null = null;
-    userPrincipalName?: string | null = null;
     serviceURL: string | null = null;
     conversationId?: string | null = null;
     appInsights: any;
     goalCycleId?: string | null;
-    theme?: string | null;
+    requestCanceller: IRequestCanceller;
 
     constructor(props: any) {
         super(props);
@@ -72,25 +93,34 @@ class PersonalGoal extends React.Component<WithTranslation, IPersonalGoalState>
             isSaveButtonDisabled: false,
             showError: false,
             screenWidth: 0,
+            carryOverGoals: [],
+            carryOverNotes: [],
+            carryOverGoalCycle: "",
+            tagPickerGoalId: null,
+            definitionEditorGoalId: null,
+            isGoalTemplatesPanelOpen: false,
+            isGoalImportOpen: false,
+            teamGoalTemplates: [],
         };
         let search = window.location.search;
         let params = new URLSearchParams(search);
         this.serviceURL = params.get("serviceURL");
         this.telemetry = params.get("telemetry");
+        this.requestCanceller = createRequestCanceller();
     }
 
     /** Called once component is mounted. */
     async componentDidMount() {
-        microsoftTeams.initialize();
-        microsoftTeams.getContext((context) => {
-            this.userAadObjectId = context.userObjectId;
-            this.userPrincipalName = context.userPrincipalName ? context.userPrincipalName : "";
-            this.appInsights = getApplicationInsightsInstance(this.telemetry, browserHistory);
-            this.getPersonalGoalDetails();
-            this.theme = context.theme!;
-            window.addEventListener("resize", this.update.bind(this));
-            this.update();
-        });
+        this.appInsights = getApplicationInsightsInstance(this.telemetry, browserHistory);
+        this.getPersonalGoalDetails();
+        this.getGoalTemplates();
+        window.addEventListener("resize", this.update.bind(this));
+        this.update();
+    }
+
+    /** Called before component is unmounted. Cancels requests which are still in progress. */
+    componentWillUnmount() {
+        this.requestCanceller.cancel();
     }
 
     /**
@@ -213,11 +243,140 @@ class PersonalGoal extends React.Component<WithTranslation, IPersonalGoalState>
     * */
     private getPersonalGoalDetails = async () => {
         this.appInsights.trackTrace({ message: `'getPersonalGoalDetails' - Request initiated`, severityLevel: SeverityLevel.Information });
-        let addGoalDetails = this.state.addNewGoalDetails;
-        const personalGoalDetailsResponse = await getPersonalGoalDetails();
-        if (personalGoalDetailsResponse.data.length > 0) {
+        let cachedPersonalGoals = getCachedQueryData<IPersonalGoalDetail[]>(queryKeys.personalGoals());
+        if (cachedPersonalGoals) {
+            this.setPersonalGoalDetails(cachedPersonalGoals);
+        }
+
+        const personalGoalDetailsResponse = await getPersonalGoalDetails(this.requestCanceller.signal);
+        if (isRequestCancelled(personalGoalDetailsResponse)) {
+            return;
+        }
+        else if (!personalGoalDetailsResponse.isSuccess) {
+            handleError(personalGoalDetailsResponse);
+            return;
+        }
+        else if (JSON.stringify(personalGoalDetailsResponse.data) !== JSON.stringify(cachedPersonalGoals)) {
+            this.setPersonalGoalDetails(personalGoalDetailsResponse.data);
+        }
+
+        if (personalGoalDetailsResponse.data.length === 0) {
+            this.getCarryOverGoalDetails();
+        }
+    };
+
+    /**
+    * Gets not started and in progress goals of previous goal cycle, which user can carry over into new goal cycle.
+    * Goals can still be set if previous goals could not be loaded, so errors are not shown to user.
+    * */
+    private getCarryOverGoalDetails = async () => {
+        this.appInsights.trackTrace({ message: `'getCarryOverGoalDetails' - Request initiated`, severityLevel: SeverityLevel.Information });
+        const pastGoalDetailsResponse = await getPastPersonalGoalDetails(this.requestCanceller.signal);
+        if (!pastGoalDetailsResponse.isSuccess) {
+            return;
+        }
+
+        let previousGoalCycle = groupGoalsByCycle(pastGoalDetailsResponse.data)[0];
+        let unfinishedGoals = previousGoalCycle ? previousGoalCycle.goals.filter(goal => goal.Status !== 2) : [];
+        if (unfinishedGoals.length === 0) {
+            return;
+        }
+
+        const pastNoteDetailsResponse = await getPastPersonalGoalNoteDetails(this.requestCanceller.signal);
+        if (isRequestCancelled(pastNoteDetailsResponse)) {
+            return;
+        }
+
+        this.setState({
+            carryOverGoals: unfinishedGoals,
+            carryOverNotes: pastNoteDetailsResponse.isSuccess ? pastNoteDetailsResponse.data.filter(note => unfinishedGoals.some(goal => goal.PersonalGoalId === note.PersonalGoalId)) : [],
+            carryOverGoalCycle: formatGoalCycleDates(previousGoalCycle.startDate, previousGoalCycle.endDate, this.localize),
+        });
+    };
+
+    /**
+    * Adds goals selected by user from previous goal cycle to goal list. Carried over goals keep their status.
+    * If dates were not picked yet, next goal cycle starts today and is as long as previous goal cycle.
+    * */
+    private carryOverGoals = (personalGoalDetails: IPersonalGoalDetail[], includeNotes: boolean) => {
+        this.appInsights.trackTrace({ message: `'carryOverGoals' - Request initiated`, severityLevel: SeverityLevel.Information });
+        if (!this.state.startDate && !this.state.endDate) {
+            let previousGoal = personalGoalDetails[0];
+            let goalCycleLengthInDays = Math.max(moment(new Date(previousGoal.EndDate)).diff(moment(new Date(previousGoal.StartDate)), 'd'), 30);
+            let startDate = new Date();
+            this.getStartDate(startDate);
+            this.getEndDate(moment(startDate).add(goalCycleLengthInDays, 'd').toDate());
+        }
+
+        let addGoal = this.state.addNewGoalDetails;
+        personalGoalDetails.slice(0, Constants.maxAllowedGoals - addGoal.length).forEach((personalGoal) => {
+            addGoal.push(createNewGoal(personalGoal.GoalName, this.getNewGoalHandlers(), {
+                tags: getTags(personalGoal),
+                description: personalGoal.Description,
+                // Goal starts over in new cycle, so none of its criteria are done yet.
+                definitionOfDone: getDoneCriteria(personalGoal).map(criterion => ({ ...criterion, isDone: false })),
+                carriedOverGoal: personalGoal,
+                carriedOverNotes: includeNotes ? this.state.carryOverNotes.filter(note => note.PersonalGoalId === personalGoal.PersonalGoalId) : [],
+            }));
+        });
+
+        this.setState({ addNewGoalDetails: addGoal, carryOverGoals: [], showError: false, errorMessage: "", isSaveButtonDisabled: false });
+    };
+
+    /**
+    * Gets goal templates published in team, when task module is opened from team. Curated templates can still be used if team templates could not be loaded, so errors are not shown to user.
+    * */
+    private getGoalTemplates = async () => {
+        if (!this.props.teamsContext.teamId) {
+            return;
+        }
+
+        this.appInsights.trackTrace({ message: `'getGoalTemplates' - Request initiated`, severityLevel: SeverityLevel.Information });
+        const goalTemplatesResponse = await getGoalTemplatesByTeamId(this.props.teamsContext.teamId, this.requestCanceller.signal);
+        if (goalTemplatesResponse.isSuccess) {
+            this.setState({ teamGoalTemplates: goalTemplatesResponse.data });
+        }
+    };
+
+    /**
+    * Adds goals from templates selected by user to goal list. Templates of goals already in list are skipped.
+    * If goal list was empty, reminder frequency suggested by first template is used.
+    * */
+    private insertGoalTemplates = (goalTemplates: IGoalTemplate[]) => {
+        this.appInsights.trackTrace({ message: `'insertGoalTemplates' - Request initiated`, severityLevel: SeverityLevel.Information });
+        let result = addGoalTemplatesToNewGoals(this.state.addNewGoalDetails, goalTemplates, this.getNewGoalHandlers());
+        if (result.reminderFrequency !== null) {
+            this.setState({ reminderFrequency: result.reminderFrequency });
+        }
+
+        this.setState({ addNewGoalDetails: result.newGoals, isGoalTemplatesPanelOpen: false, showError: false, errorMessage: "", isSaveButtonDisabled: false });
+    };
+
+    /**
+    * Adds pasted or imported goals to goal list. If dates were not picked yet, goal cycle covers dates of imported goals.
+    * */
+    private importGoals = (importedGoals: IImportedGoal[]) => {
+        this.appInsights.trackTrace({ message: `'importGoals' - Request initiated`, severityLevel: SeverityLevel.Information });
+        applyImportedGoalCycleDates(importedGoals, this.state.startDate, this.state.endDate, this.getStartDate, this.getEndDate);
+        let addGoal = addImportedGoalsToNewGoals(this.state.addNewGoalDetails, importedGoals, this.getNewGoalHandlers());
+        this.setState({ addNewGoalDetails: addGoal, isGoalImportOpen: false, showError: false, errorMessage: "", isSaveButtonDisabled: false });
+    };
+
+    /**
+    * Get translation function and handlers of inputs of goals added to list.
+    * */
+    private getNewGoalHandlers = (): INewGoalHandlers => {
+        return { localize: this.localize, onRemove: this.removeGoals, onNameChange: this.goalNameChange };
+    };
+
+    /**
+    * Sets personal goal details in form. Goals added earlier by user are replaced by given goals.
+    * */
+    private setPersonalGoalDetails = (personalGoalDetails: IPersonalGoalDetail[]) => {
+        let addGoalDetails: IAddNewGoal[] = [];
+        if (personalGoalDetails.length > 0) {
             this.setState({
-                personalGoals: personalGoalDetailsResponse.data as IPersonalGoalDetail[]
+                personalGoals: personalGoalDetails
             });
 
             this.state.personalGoals.forEach((personalGoal) => {
@@ -225,12 +384,16 @@ class PersonalGoal extends React.Component<WithTranslation, IPersonalGoalState>
                     key: personalGoal.PersonalGoalId,
                     header: <Input fluid className="add-goals-input" icon={<CloseIcon outline className="remove-goal-button " aria-label={this.localize("removeGoalIcon")} title="Close" onClick={event => this.removeGoals(personalGoal.PersonalGoalId)} />} aria-label={this.localize("addGoalPlaceHolder")} placeholder={this.localize("addGoalPlaceHolder")} value={personalGoal.GoalName} title={personalGoal.GoalName} maxLength={Constants.maxAllowedGoalName} onChange={event => this.goalNameChange(personalGoal.PersonalGoalId, event)} />,
                     goalName: personalGoal.GoalName,
+                    tags: getTags(personalGoal),
+                    description: personalGoal.Description,
+                    definitionOfDone: getDoneCriteria(personalGoal),
                 });
             });
             let startDate = moment(this.state.personalGoals[0].StartDate).format(Constants.dateComparisonFormat);
             let todaysDate = moment(new Date().toDateString()).format(Constants.dateComparisonFormat);
 
             this.setState({
+                addNewGoalDetails: addGoalDetails,
                 startDate: this.state.personalGoals[0].StartDate,
                 minStartDate: startDate > todaysDate
                     ? new Date().toDateString() : this.state.personalGoals[0].StartDate,
@@ -268,13 +431,19 @@ class PersonalGoal extends React.Component<WithTranslation, IPersonalGoalState>
             // Edit goal scenario
             if (personalGoals.length > 0) {
                 personalGoals.forEach((goal) => {
-                    goal.UserAadObjectId = this.userAadObjectId;
+                    goal.UserAadObjectId = this.props.teamsContext.userObjectId;
                     goal.StartDate = moment(this.state.startDate.toString()).format(Constants.dateTimeOffsetFormat);
                     goal.EndDate = moment(this.state.endDate.toString()).format(Constants.dateTimeOffsetFormat);
                     goal.ServiceURL = this.serviceURL;
                     goal.ReminderFrequency = this.state.reminderFrequency;
                     goal.IsReminderActive = this.state.isReminderActive;
                     goal.EndDateUTC = moment(new Date(goal.EndDate!).toUTCString()).format(Constants.utcDateFormat);
+                    let goalDetails = newGoalDetails.find(newGoal => newGoal.key === goal.PersonalGoalId);
+                    if (goalDetails) {
+                        goal.Tags = getTagsValue(goalDetails.tags || []);
+                        goal.Description = getDescriptionValue(goalDetails.description);
+                        goal.DefinitionOfDone = getDoneCriteriaValue(goalDetails.definitionOfDone || []);
+                    }
                 });
                 this.goalCycleId = personalGoals[0].GoalCycleId;
             }
@@ -284,19 +453,19 @@ class PersonalGoal extends React.Component<WithTranslation, IPersonalGoalState>
                 // Add new goal
                 if (!personalGoals.some(personalGoal => personalGoal.PersonalGoalId === goal.key)) {
                     personalGoals.push({
-                        UserAadObjectId: this.userAadObjectId,
+                        UserAadObjectId: this.props.teamsContext.userObjectId,
                         PersonalGoalId: goal.key,
                         CreatedOn: new Date().toUTCString(),
-                        CreatedBy: this.userPrincipalName,
+                        CreatedBy: this.props.teamsContext.userPrincipalName,
                         LastModifiedOn: new Date().toUTCString(),
-                        LastModifiedBy: this.userPrincipalName,
+                        LastModifiedBy: this.props.teamsContext.userPrincipalName,
                         AdaptiveCardActivityId: "",
                         IsActive: true,
                         IsAligned: false,
                         IsDeleted: false,
                         ConversationId: this.conversationId,
                         GoalName: goal.goalName,
-                        Status: 0,
+                        Status: goal.carriedOverGoal ? goal.carriedOverGoal.Status : 0,
                         StartDate: moment(this.state.startDate.toString()).format(Constants.dateTimeOffsetFormat),
                         EndDate: moment(this.state.endDate.toString()).format(Constants.dateTimeOffsetFormat),
                         ServiceURL: this.serviceURL,
@@ -308,21 +477,22 @@ class PersonalGoal extends React.Component<WithTranslation, IPersonalGoalState>
                         EndDateUTC: moment(new Date(this.state.endDateUTC).toUTCString()).format(Constants.utcDateFormat),
                         NotesCount: 0,
                         GoalCycleId: goalCycleId,
+                        Tags: getTagsValue(goal.tags || []),
+                        Description: getDescriptionValue(goal.description),
+                        DefinitionOfDone: getDoneCriteriaValue(goal.definitionOfDone || []),
                     })
                 }
             });
 
             // Store goal details in table storage.
-            let response = await this.saveGoalDetails();
+            let response = await this.saveGoalDetails() && await this.saveCarriedOverNoteDetails();
             if (response) {
-                let userAadObjectId = this.userAadObjectId;
+                let userAadObjectId = this.props.teamsContext.userObjectId;
                 let activityId = this.state.personalGoals[0].AdaptiveCardActivityId;
                 let goalCycleId = this.state.personalGoals[0].GoalCycleId;
                 let command = activityId ? Constants.editPersonalGoal : Constants.setPersonalGoal;
                 let toBot = { AdaptiveActionType: command, PersonalGoalDetails: this.state.personalGoals, UserAadObjectId: userAadObjectId, ActivityCardId: activityId, GoalCycleId: goalCycleId };
-                microsoftTeams.getContext((context) => {
-                    microsoftTeams.tasks.submitTask(toBot);
-                });
+                submitTask(toBot);
             }
         }
     };
@@ -333,17 +503,60 @@ class PersonalGoal extends React.Component<WithTranslation, IPersonalGoalState>
     private saveGoalDetails = async () => {
         this.appInsights.trackTrace({ message: `'saveGoalDetails' - Request initiated`, severityLevel: SeverityLevel.Information });
         if (this.state.personalGoals.length > 0) {
-            const saveGoalDetailsResponse = await savePersonalGoalDetails(this.state.personalGoals)
-            if (saveGoalDetailsResponse.status !== 200 && saveGoalDetailsResponse.status !== 204) {
+            const saveGoalDetailsResponse = await savePersonalGoalDetails(this.state.personalGoals, this.requestCanceller.signal)
+            if (isRequestCancelled(saveGoalDetailsResponse)) {
+                return false;
+            }
+            else if (!saveGoalDetailsResponse.isSuccess) {
                 this.setState({ isSaveButtonLoading: false, errorMessage: this.state.errorMessage, isSaveButtonDisabled: false });
                 handleError(saveGoalDetailsResponse);
                 return false;
             }
-            this.appInsights.trackTrace({ message: `'saveGoalDetails' - Personal goal details saved and userAadObjectId=${this.userAadObjectId}`, severityLevel: SeverityLevel.Information });
+            this.appInsights.trackTrace({ message: `'saveGoalDetails' - Personal goal details saved and userAadObjectId=${this.props.teamsContext.userObjectId}`, severityLevel: SeverityLevel.Information });
             return true;
         }
     }
 
+    /**
+    *  Stores copies of notes carried over from previous goal cycle for new goals.
+    * */
+    private saveCarriedOverNoteDetails = async () => {
+        for (let goal of this.state.addNewGoalDetails) {
+            if (!goal.carriedOverNotes || goal.carriedOverNotes.length === 0) {
+                continue;
+            }
+
+            let personalGoalNoteDetails: IPersonalGoalNoteDetail[] = goal.carriedOverNotes.map(note => ({
+                CreatedOn: note.CreatedOn,
+                CreatedBy: this.props.teamsContext.userPrincipalName!,
+                LastModifiedOn: new Date().toUTCString(),
+                LastModifiedBy: this.props.teamsContext.userPrincipalName!,
+                IsActive: true,
+                PersonalGoalId: goal.key,
+                PersonalGoalNoteId: Guid.create().toString(),
+                PersonalGoalNoteDescription: note.PersonalGoalNoteDescription,
+                SourceName: note.SourceName,
+                UserAadObjectId: this.props.teamsContext.userObjectId!,
+                NotesCount: 0,
+                IsEdited: false,
+                Tags: note.Tags,
+            }));
+
+            this.appInsights.trackTrace({ message: `'saveCarriedOverNoteDetails' - Request initiated`, severityLevel: SeverityLevel.Information });
+            const saveNoteDetailsResponse = await savePersonalGoalNoteDetails(personalGoalNoteDetails, this.requestCanceller.signal);
+            if (isRequestCancelled(saveNoteDetailsResponse)) {
+                return false;
+            }
+            else if (!saveNoteDetailsResponse.isSuccess) {
+                this.setState({ isSaveButtonLoading: false, isSaveButtonDisabled: false });
+                handleError(saveNoteDetailsResponse);
+                return false;
+            }
+        }
+
+        return true;
+    }
+
     /**
     *  Gets called when user clicks on close icon to remove goal.
     * */
@@ -395,6 +608,84 @@ class PersonalGoal extends React.Component<WithTranslation, IPersonalGoalState>
         this.setState({ errorMessage: errorText, isSaveButtonDisabled: isSaveButtonDisabled });
     };
 
+    /**
+    *  Gets called when user changes tags of goal.
+    * */
+    private goalTagsChange = (goalId: string, tags: IGoalTag[]) => {
+        this.setState({ addNewGoalDetails: this.state.addNewGoalDetails.map(goal => goal.key === goalId ? { ...goal, tags: tags } : goal) });
+    };
+
+    /**
+    *  Gets called when user changes description or definition of done of goal.
+    * */
+    private goalDefinitionChange = (goalId: string, description: string, criteria: IDoneCriterion[]) => {
+        this.setState({ addNewGoalDetails: this.state.addNewGoalDetails.map(goal => goal.key === goalId ? { ...goal, description: description, definitionOfDone: criteria } : goal) });
+    };
+
+    /**
+    *  Gets goals to be listed in set goal UI. Tags of goal are listed below its name, and can be changed in tag picker opened for one goal at a time.
+    *  Description and definition of done are edited the same way.
+    * */
+    private getGoalListItems = () => {
+        let availableTags = getAvailableTags([
+            ...this.state.personalGoals,
+            ...this.state.addNewGoalDetails.map(goal => ({ Tags: getTagsValue(goal.tags || []) })),
+            ...(getCachedQueryData<IPersonalGoalDetail[]>(queryKeys.pastPersonalGoals()) || [])
+        ]);
+
+        return this.state.addNewGoalDetails.map((goal) => ({
+            key: goal.key,
+            header: goal.header,
+            content:
+                <Flex column gap="gap.smaller" className="set-goal-tags">
+                    <Flex gap="gap.smaller" vAlign="center">
+                        <GoalTagList tags={goal.tags || []} />
+                        <Button text size="small" content={this.localize(this.state.tagPickerGoalId === goal.key ? "doneButtonText" : "editTagsButtonText")} aria-expanded={this.state.tagPickerGoalId === goal.key}
+                            onClick={() => this.setState({ tagPickerGoalId: this.state.tagPickerGoalId === goal.key ? null : goal.key })} className="edit-goal-tags-button" />
+                        <Button text size="small" content={this.localize(this.state.definitionEditorGoalId === goal.key ? "doneButtonText" : "editGoalDefinitionButtonText")} aria-expanded={this.state.definitionEditorGoalId === goal.key}
+                            onClick={() => this.setState({ definitionEditorGoalId: this.state.definitionEditorGoalId === goal.key ? null : goal.key })} className="edit-goal-definition-button" />
+                    </Flex>
+                    {this.state.tagPickerGoalId === goal.key && <GoalTagPicker tags={goal.tags || []} availableTags={availableTags} onChange={tags => this.goalTagsChange(goal.key, tags)} />}
+                    {this.state.definitionEditorGoalId === goal.key && <GoalDefinitionEditor description={goal.description || ""} criteria={goal.definitionOfDone || []} onChange={(description, criteria) => this.goalDefinitionChange(goal.key, description, criteria)} />}
+                </Flex>
+        }));
+    };
+
+    /**
+    *  Renders panel to add goals from templates or to paste and import goals, or buttons to open them.
+    * */
+    private renderAddGoalsPanel = () => {
+        if (this.state.isGoalTemplatesPanelOpen) {
+            return (
+                <GoalTemplatesPanel
+                    curatedTemplates={getCuratedGoalTemplates(this.localize)}
+                    teamTemplates={this.state.teamGoalTemplates}
+                    goalNames={this.state.addNewGoalDetails.map(goal => goal.goalName)}
+                    maxGoalsCount={Constants.maxAllowedGoals - this.state.addNewGoalDetails.length}
+                    onInsert={this.insertGoalTemplates}
+                    onClose={() => this.setState({ isGoalTemplatesPanelOpen: false })}
+                />
+            );
+        }
+        else if (this.state.isGoalImportOpen) {
+            return (
+                <GoalImport
+                    goalNames={this.state.addNewGoalDetails.map(goal => goal.goalName)}
+                    maxGoalsCount={Constants.maxAllowedGoals - this.state.addNewGoalDetails.length}
+                    onImport={this.importGoals}
+                    onClose={() => this.setState({ isGoalImportOpen: false })}
+                />
+            );
+        }
+
+        return (
+            <Flex gap="gap.small" className="add-goals-toggle">
+                <Button text size="small" content={this.localize("goalTemplatesButtonText")} onClick={() => this.setState({ isGoalTemplatesPanelOpen: true })} className="goal-templates-button" />
+                <Button text size="small" content={this.localize("goalImportOpenButtonText")} onClick={() => this.setState({ isGoalImportOpen: true })} className="goal-import-open-button" />
+            </Flex>
+        );
+    };
+
     /**
     *  Renders set goal UI.
     * */
@@ -403,7 +694,7 @@ class PersonalGoal extends React.Component<WithTranslation, IPersonalGoalState>
             ? <p><em><Loader /></em></p>
             : <SetGoal
                 errorMessage={this.state.errorMessage}
-                goals={this.state.addNewGoalDetails}
+                goals={this.getGoalListItems()}
                 isReminderActive={this.state.isReminderActive}
                 setIsReminderActive={this.setIsReminderActive}
                 startDate={this.state.startDate}
@@ -420,14 +711,24 @@ class PersonalGoal extends React.Component<WithTranslation, IPersonalGoalState>
                 goalName={this.state.goalName}
                 isSaveButtonLoading={this.state.isSaveButtonLoading}
                 isSaveButtonDisabled={this.state.isSaveButtonDisabled}
-                theme={this.theme}
+                theme={this.props.teamsContext.theme}
                 screenWidth={this.state.screenWidth}
             />
         return (
             <div className="container-div">
+                {!this.state.loading && this.state.carryOverGoals.length > 0 &&
+                    <CarryOverGoals
+                        goals={this.state.carryOverGoals}
+                        notesData={this.state.carryOverNotes}
+                        goalCycle={this.state.carryOverGoalCycle}
+                        maxGoalsCount={Constants.maxAllowedGoals - this.state.addNewGoalDetails.length}
+                        onCarryOver={this.carryOverGoals}
+                        onSkip={() => this.setState({ carryOverGoals: [] })}
+                    />}
+                {!this.state.loading && this.renderAddGoalsPanel()}
                 {contents}
             </div>
         )
     }
 }
-export default withTranslation()(PersonalGoal);
\ No newline at end of file
+export default withTranslation()(withTeamsContext(PersonalGoal));
\ No newline at end of file
@@ -0,0 +1,74 @@
+﻿// <copyright file="team-goal.test.tsx" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import * as React from "react";
+import TeamGoal from "./team-goal";
+import { setupTestHarness, renderRoute, cleanupRoute, waitFor, findButton, click, changeInputValue } from "../../mock/test-harness";
+import { getMockBackendData } from "../../mock/mock-backend";
+import Constants from "../../constants";
+
+/**
+* Get values of goal name inputs.
+* @param container {Object} Element containing rendered component.
+*/
+const getGoalNames = (container: HTMLElement) => Array.from(container.querySelectorAll("input")).map(input => input.value);
+
+describe("TeamGoal", () => {
+    afterEach(cleanupRoute);
+
+    it("shows team goals of team to team owner", async () => {
+        setupTestHarness();
+        let container = await renderRoute(<TeamGoal />, "/team-goal");
+
+        await waitFor(() => getGoalNames(container).includes("Grow newsletter subscribers by 20%"));
+        expect(getGoalNames(container)).toContain("Launch spring product campaign");
+    });
+
+    it("does not allow team members to set team goals", async () => {
+        setupTestHarness(undefined, data => data.teamOwnerIds = []);
+        let container = await renderRoute(<TeamGoal />, "/team-goal");
+
+        await waitFor(() => !!container.querySelector(".not-authorized-error"));
+        expect(getGoalNames(container)).not.toContain("Grow newsletter subscribers by 20%");
+    });
+
+    it("saves changed team goals and submits them to bot", async () => {
+        let fakeTeamsHost = setupTestHarness();
+        let container = await renderRoute(<TeamGoal />, "/team-goal");
+        await waitFor(() => getGoalNames(container).includes("Grow newsletter subscribers by 20%"));
+
+        let goalNameInput = Array.from(container.querySelectorAll("input")).find(input => input.value === "Grow newsletter subscribers by 20%")!;
+        await changeInputValue(goalNameInput, "Grow newsletter subscribers by 25%");
+        await click(findButton(container, "Save")!);
+        await waitFor(() => fakeTeamsHost.submittedTasks.length > 0);
+
+        let submittedTask: any = fakeTeamsHost.submittedTasks[0];
+        expect(submittedTask.AdaptiveActionType).toBe(Constants.setTeamGoal);
+        expect(submittedTask.TeamId).toBe(fakeTeamsHost.context.teamId);
+        expect(getMockBackendData().teamGoals.map(goal => goal.TeamGoalName)).toContain("Grow newsletter subscribers by 25%");
+    });
+
+    it("publishes goal templates of team managed by team owner", async () => {
+        let fakeTeamsHost = setupTestHarness();
+        let seededGoalTemplate = getMockBackendData().goalTemplates[0];
+        let container = await renderRoute(<TeamGoal />, "/team-goal");
+        await waitFor(() => getGoalNames(container).includes("Grow newsletter subscribers by 20%"));
+
+        await click(container.querySelector(".manage-goal-templates-button")!);
+        await click(container.querySelector(".add-goal-template-button")!);
+        await click(container.querySelector(".save-goal-templates-button")!);
+        expect(container.querySelector(".goal-template-manager")!.textContent).toContain("Enter a goal name for every template.");
+
+        let templateNameInputs = container.querySelectorAll<HTMLInputElement>(".goal-template-name-input input");
+        await changeInputValue(templateNameInputs[templateNameInputs.length - 1], "Run a webinar for customers");
+        await click(container.querySelector(".save-goal-templates-button")!);
+        await waitFor(() => !container.querySelector(".goal-template-manager"));
+
+        let goalTemplates = getMockBackendData().goalTemplates;
+        expect(goalTemplates.map(goalTemplate => goalTemplate.GoalName)).toEqual(["Publish a customer case study", "Run a webinar for customers"]);
+        expect(goalTemplates[1].ReminderFrequency).toBe(2);
+        expect(goalTemplates[1].CreatedBy).toBe(fakeTeamsHost.context.userPrincipalName);
+        expect(goalTemplates[0].CreatedOn).toBe(seededGoalTemplate.CreatedOn);
+    });
+});
@@ -3,16 +3,25 @@
 // </copyright>
 
 import React from 'react';
-import { Input, Loader, Flex } from '@fluentui/react-northstar';
+import { Input, Loader, Flex, Button } from '@fluentui/react-northstar';
 import { createBrowserHistory } from "history";
-import { ITeamGoalDetail, IAddNewGoal } from "../../models/type";
+import { ITeamGoalDetail, IAddNewGoal, IRequestCanceller, ITeamsContextProps, IDoneCriterion, IGoalTemplate, IImportedGoal, INewGoalHandlers } from "../../models/type";
 import "../../styles/style.css";
 import { SeverityLevel } from "@microsoft/applicationinsights-web";
-import * as microsoftTeams from "@microsoft/teams-js";
 import { CloseIcon } from '@fluentui/react-icons-northstar';
 import Constants from "../../constants";
 import SetGoal from './set-goal'
-import { saveTeamGoalDetails, getTeamGoalDetailsByTeamId, getTeamOwnerDetails } from '../../api/team-goal-api'
+import GoalImport from './goal-import'
+import GoalDefinitionEditor from '../goal-definition/goal-definition-editor';
+import GoalTemplatesPanel from '../goal-templates/goal-templates-panel';
+import GoalTemplateManager from '../goal-templates/goal-template-manager';
+import { saveTeamGoalDetails, getTeamGoalDetailsByTeamId, getTeamOwnerDetails, getGoalTemplatesByTeamId, saveGoalTemplates } from '../../api/team-goal-api'
+import { handleError } from '../../helpers/goal-helper'
+import { getDoneCriteria, getDoneCriteriaValue, getDescriptionValue } from '../../helpers/goal-definition';
+import { getCuratedGoalTemplates, isSameGoalName } from '../../helpers/goal-template';
+import { addGoalTemplatesToNewGoals, addImportedGoalsToNewGoals, applyImportedGoalCycleDates } from '../../helpers/new-goal';
+import { createRequestCanceller, isRequestCancelled, submitTask } from '../../helpers/request-cancellation';
+import { withTeamsContext } from '../../helpers/teams-context';
 import { Guid } from "guid-typescript";
 import { WithTranslation, withTranslation } from "react-i18next";
 import { TFunction } from "i18next";
@@ -36,24 +45,27 @@ interface ITeamGoalState {
     showError: boolean;
     isTeamOwner: boolean;
     screenWidth: number;
+    definitionEditorGoalId: string | null;
+    goalTemplates: IGoalTemplate[];
+    editedGoalTemplates: IGoalTemplate[] | null;
+    isGoalTemplatesPanelOpen: boolean;
+    isGoalImportOpen: boolean;
+    isGoalTemplatesSaving: boolean;
+    goalTemplatesErrorMessage: string;
 }
 
 const browserHistory = createBrowserHistory({ basename: "" });
 
-class TeamGoal extends React.Component<WithTranslation, ITeamGoalState>
+class TeamGoal extends React.Component<WithTranslation & ITeamsContextProps, ITeamGoalState>
 {
     localize: TFunction;
     telemetry?: any = null;
     scope?: string | null;
-    teamId?: string | null = null;
-    userAADObjectId?: string | null = null;
-    userPrincipalName?: string | null = null;
-    teamGroupId?: string | null = null;
     conversationId?: string | null = null;
     appInsights: any;
     serviceURL: string | null = null;
     goalCycleId?: string | null;
-    theme?: string | null;
+    requestCanceller: IRequestCanceller;
 
     constructor(props: any) {
         super(props);
@@ -75,33 +87,39 @@ class TeamGoal extends React.Component<WithTranslation, ITeamGoalState>
             showError: false,
             isTeamOwner: false,
             screenWidth: 0,
+            definitionEditorGoalId: null,
+            goalTemplates: [],
+            editedGoalTemplates: null,
+            isGoalTemplatesPanelOpen: false,
+            isGoalImportOpen: false,
+            isGoalTemplatesSaving: false,
+            goalTemplatesErrorMessage: "",
         };
         let search = window.location.search;
         let params = new URLSearchParams(search);
         this.serviceURL = params.get("serviceURL");
         this.telemetry = params.get("telemetry");
+        this.requestCanceller = createRequestCanceller();
     }
 
     /** Called once component is mounted. */
     async componentDidMount() {
-        microsoftTeams.initialize();
-        microsoftTeams.getContext(async (context) => {
-            this.theme = context.theme!;
-            this.teamId = context.teamId;
-            this.teamGroupId = context.groupId;
-            this.userAADObjectId = context.userObjectId;
-            this.userPrincipalName = context.userPrincipalName ? context.userPrincipalName : "";
-            this.appInsights = getApplicationInsightsInstance(this.telemetry, browserHistory);
-            // Validate if user is team owner.
-
-            var validationResponse = await this.validateIfTeamOwner();
-
-            if (validationResponse) {
-                this.getTeamGoalDetails(this.teamId);
-            }
-            window.addEventListener("resize", this.update.bind(this));
-            this.update();
-        });
+        this.appInsights = getApplicationInsightsInstance(this.telemetry, browserHistory);
+        // Validate if user is team owner.
+
+        var validationResponse = await this.validateIfTeamOwner();
+
+        if (validationResponse) {
+            this.getTeamGoalDetails(this.props.teamsContext.teamId);
+            this.getGoalTemplates();
+        }
+        window.addEventListener("resize", this.update.bind(this));
+        this.update();
+    }
+
+    /** Called before component is unmounted. Cancels requests which are still in progress. */
+    componentWillUnmount() {
+        this.requestCanceller.cancel();
     }
 
     /**
@@ -186,16 +204,24 @@ class TeamGoal extends React.Component<WithTranslation, ITeamGoalState>
     private getTeamGoalDetails = async (teamId) => {
         this.appInsights.trackTrace({ message: `'getTeamGoalDetails' - Request initiated`, severityLevel: SeverityLevel.Information });
         let addGoalDetails = this.state.addNewGoalDetails;
-        const teamGoalDetailsResponse = await getTeamGoalDetailsByTeamId(teamId);
-        if (teamGoalDetailsResponse.data.length > 0) {
+        const teamGoalDetailsResponse = await getTeamGoalDetailsByTeamId(teamId, this.requestCanceller.signal);
+        if (isRequestCancelled(teamGoalDetailsResponse)) {
+            return;
+        }
+        else if (!teamGoalDetailsResponse.isSuccess) {
+            handleError(teamGoalDetailsResponse);
+        }
+        else if (teamGoalDetailsResponse.data.length > 0) {
             this.setState({
-                teamGoals: teamGoalDetailsResponse.data as ITeamGoalDetail[]
+                teamGoals: teamGoalDetailsResponse.data
             });
             this.state.teamGoals.forEach((teamGoal) => {
                 addGoalDetails.push({
                     key: teamGoal.TeamGoalId,
                     header: <Input fluid className="add-goals-input" icon={<CloseIcon outline className="remove-goal-button " aria-label={this.localize("removeGoalIcon")} title="Close" onClick={event => this.removeGoals(teamGoal.TeamGoalId)} />} aria-label={this.localize("addGoalPlaceHolder")} placeholder={this.localize("addGoalPlaceHolder")} value={teamGoal.TeamGoalName} title={teamGoal.TeamGoalName} maxLength={Constants.maxAllowedGoalName} onChange={event => this.goalNameChange(teamGoal.TeamGoalId, event)} />,
                     goalName: teamGoal.TeamGoalName,
+                    description: teamGoal.Description,
+                    definitionOfDone: getDoneCriteria(teamGoal),
                 });
             });
 
@@ -247,6 +273,11 @@ class TeamGoal extends React.Component<WithTranslation, ITeamGoalState>
                     goal.IsReminderActive = this.state.isReminderActive;
                     goal.TeamGoalEndDateUTC = this.state.endDateUTC;
                     goal.ServiceURL = this.serviceURL;
+                    let goalDetails = newGoalDetails.find(newGoal => newGoal.key === goal.TeamGoalId);
+                    if (goalDetails) {
+                        goal.Description = getDescriptionValue(goalDetails.description);
+                        goal.DefinitionOfDone = getDoneCriteriaValue(goalDetails.definitionOfDone || []);
+                    }
                 });
                 this.goalCycleId = teamGoals[0].GoalCycleId;
             }
@@ -263,16 +294,18 @@ class TeamGoal extends React.Component<WithTranslation, ITeamGoalState>
                         ReminderFrequency: this.state.reminderFrequency,
                         IsReminderActive: this.state.isReminderActive,
                         CreatedOn: new Date().toUTCString(),
-                        CreatedBy: this.userPrincipalName,
+                        CreatedBy: this.props.teamsContext.userPrincipalName,
                         LastModifiedOn: new Date().toUTCString(),
                         LastModifiedBy: null,
                         IsActive: true,
                         IsDeleted: false,
-                        TeamId: this.teamId,
+                        TeamId: this.props.teamsContext.teamId,
                         AdaptiveCardActivityId: "",
                         TeamGoalEndDateUTC: moment(new Date(this.state.endDateUTC).toUTCString()).format(Constants.utcDateFormat),
                         ServiceURL: this.serviceURL,
                         GoalCycleId: goalCycleId,
+                        Description: getDescriptionValue(goal.description),
+                        DefinitionOfDone: getDoneCriteriaValue(goal.definitionOfDone || []),
                     })
                 }
             });
@@ -280,14 +313,12 @@ class TeamGoal extends React.Component<WithTranslation, ITeamGoalState>
             // Store goal details in table storage.
             let response = await this.saveGoalDetails();
             if (response) {
-                let teamId = this.teamId;
+                let teamId = this.props.teamsContext.teamId;
                 let activityId = this.state.teamGoals[0].AdaptiveCardActivityId;
                 let command = activityId ? Constants.editTeamGoal : Constants.setTeamGoal;
                 let goalCycleId = this.state.teamGoals[0].GoalCycleId;
                 let toBot = { AdaptiveActionType: command, TeamGoalDetails: this.state.teamGoals, TeamId: teamId, ActivityCardId: activityId, GoalCycleId: goalCycleId };
-                microsoftTeams.getContext((context) => {
-                    microsoftTeams.tasks.submitTask(toBot);
-                });
+                submitTask(toBot);
             }
         }
     };
@@ -340,12 +371,15 @@ class TeamGoal extends React.Component<WithTranslation, ITeamGoalState>
     private saveGoalDetails = async () => {
         this.appInsights.trackTrace({ message: `'saveGoalDetails' - Request initiated`, severityLevel: SeverityLevel.Information });
         if (this.state.teamGoals.length > 0) {
-            const saveGoalDetailsResponse = await saveTeamGoalDetails(this.state.teamGoals, this.teamGroupId)
-            if (saveGoalDetailsResponse.status !== 200 && saveGoalDetailsResponse.status !== 204) {
+            const saveGoalDetailsResponse = await saveTeamGoalDetails(this.state.teamGoals, this.props.teamsContext.groupId, this.requestCanceller.signal)
+            if (isRequestCancelled(saveGoalDetailsResponse)) {
+                return false;
+            }
+            else if (!saveGoalDetailsResponse.isSuccess) {
                 this.setState({ isSaveButtonLoading: false, errorMessage: this.state.errorMessage, isSaveButtonDisabled: false });
                 return false;
             }
-            this.appInsights.trackTrace({ message: `'saveGoalDetails' - Team goal details saved and teamId=${this.teamId}`, severityLevel: SeverityLevel.Information });
+            this.appInsights.trackTrace({ message: `'saveGoalDetails' - Team goal details saved and teamId=${this.props.teamsContext.teamId}`, severityLevel: SeverityLevel.Information });
             return true;
         }
     }
@@ -402,6 +436,167 @@ class TeamGoal extends React.Component<WithTranslation, ITeamGoalState>
         this.setState({ errorMessage: errorText, isSaveButtonDisabled: isSaveButtonDisabled });
     };
 
+    /**
+    *  Gets called when user changes description or definition of done of goal.
+    * */
+    private goalDefinitionChange = (goalId: string, description: string, criteria: IDoneCriterion[]) => {
+        this.setState({ addNewGoalDetails: this.state.addNewGoalDetails.map(goal => goal.key === goalId ? { ...goal, description: description, definitionOfDone: criteria } : goal) });
+    };
+
+    /**
+    *  Gets goals to be listed in set goal UI. Description and definition of done of goal can be edited below its name, for one goal at a time.
+    * */
+    private getGoalListItems = () => {
+        return this.state.addNewGoalDetails.map((goal) => ({
+            key: goal.key,
+            header: goal.header,
+            content:
+                <Flex column gap="gap.smaller" className="set-goal-definition">
+                    <Flex gap="gap.smaller" vAlign="center">
+                        <Button text size="small" content={this.localize(this.state.definitionEditorGoalId === goal.key ? "doneButtonText" : "editGoalDefinitionButtonText")} aria-expanded={this.state.definitionEditorGoalId === goal.key}
+                            onClick={() => this.setState({ definitionEditorGoalId: this.state.definitionEditorGoalId === goal.key ? null : goal.key })} className="edit-goal-definition-button" />
+                    </Flex>
+                    {this.state.definitionEditorGoalId === goal.key && <GoalDefinitionEditor description={goal.description || ""} criteria={goal.definitionOfDone || []} onChange={(description, criteria) => this.goalDefinitionChange(goal.key, description, criteria)} />}
+                </Flex>
+        }));
+    };
+
+    /**
+    * Gets goal templates published in team. Curated templates can still be used if team templates could not be loaded, so errors are not shown to user.
+    * */
+    private getGoalTemplates = async () => {
+        this.appInsights.trackTrace({ message: `'getGoalTemplates' - Request initiated`, severityLevel: SeverityLevel.Information });
+        const goalTemplatesResponse = await getGoalTemplatesByTeamId(this.props.teamsContext.teamId, this.requestCanceller.signal);
+        if (goalTemplatesResponse.isSuccess) {
+            this.setState({ goalTemplates: goalTemplatesResponse.data });
+        }
+    };
+
+    /**
+    * Adds goals from templates selected by user to goal list. Templates of goals already in list are skipped.
+    * If goal list was empty, reminder frequency suggested by first template is used.
+    * */
+    private insertGoalTemplates = (goalTemplates: IGoalTemplate[]) => {
+        this.appInsights.trackTrace({ message: `'insertGoalTemplates' - Request initiated`, severityLevel: SeverityLevel.Information });
+        let result = addGoalTemplatesToNewGoals(this.state.addNewGoalDetails, goalTemplates, this.getNewGoalHandlers());
+        if (result.reminderFrequency !== null) {
+            this.setState({ reminderFrequency: result.reminderFrequency });
+        }
+
+        this.setState({ addNewGoalDetails: result.newGoals, isGoalTemplatesPanelOpen: false, showError: false, errorMessage: "", isSaveButtonDisabled: false });
+    };
+
+    /**
+    * Adds pasted or imported goals to goal list. If dates were not picked yet, goal cycle covers dates of imported goals.
+    * */
+    private importGoals = (importedGoals: IImportedGoal[]) => {
+        this.appInsights.trackTrace({ message: `'importGoals' - Request initiated`, severityLevel: SeverityLevel.Information });
+        applyImportedGoalCycleDates(importedGoals, this.state.startDate, this.state.endDate, this.getStartDate, this.getEndDate);
+        let addGoal = addImportedGoalsToNewGoals(this.state.addNewGoalDetails, importedGoals, this.getNewGoalHandlers());
+        this.setState({ addNewGoalDetails: addGoal, isGoalImportOpen: false, showError: false, errorMessage: "", isSaveButtonDisabled: false });
+    };
+
+    /**
+    * Get translation function and handlers of inputs of goals added to list.
+    * */
+    private getNewGoalHandlers = (): INewGoalHandlers => {
+        return { localize: this.localize, onRemove: this.removeGoals, onNameChange: this.goalNameChange };
+    };
+
+    /**
+    * Validate goal templates of team on click of save templates button.
+    * */
+    private validateGoalTemplates(goalTemplates: IGoalTemplate[]) {
+        let errorMessage: string = "";
+        if (goalTemplates.some(goalTemplate => goalTemplate.GoalName.trim() === "")) {
+            errorMessage = this.localize("emptyGoalTemplateNameValidationText");
+        }
+        else if (goalTemplates.some((goalTemplate, index) => goalTemplates.findIndex(template => isSameGoalName(template.GoalName, goalTemplate.GoalName)) !== index)) {
+            errorMessage = this.localize("duplicateGoalTemplateNameValidationText");
+        }
+
+        this.setState({ goalTemplatesErrorMessage: errorMessage });
+        return !errorMessage;
+    }
+
+    /**
+    * Stores goal templates edited by team owner in table storage. Templates removed by team owner are deleted.
+    * */
+    private saveGoalTemplates = async () => {
+        this.appInsights.trackTrace({ message: `'saveGoalTemplates' - Request initiated`, severityLevel: SeverityLevel.Information });
+        let goalTemplates = (this.state.editedGoalTemplates || []).map(goalTemplate => ({
+            ...goalTemplate,
+            TeamId: this.props.teamsContext.teamId,
+            GoalName: goalTemplate.GoalName.trim(),
+            Description: getDescriptionValue(goalTemplate.Description),
+        }));
+        if (!this.validateGoalTemplates(goalTemplates)) {
+            return;
+        }
+
+        this.setState({ isGoalTemplatesSaving: true });
+        const saveGoalTemplatesResponse = await saveGoalTemplates(goalTemplates, this.props.teamsContext.groupId, this.props.teamsContext.teamId, this.requestCanceller.signal);
+        if (isRequestCancelled(saveGoalTemplatesResponse)) {
+            return;
+        }
+        else if (!saveGoalTemplatesResponse.isSuccess) {
+            this.setState({ isGoalTemplatesSaving: false });
+            handleError(saveGoalTemplatesResponse);
+            return;
+        }
+
+        this.appInsights.trackTrace({ message: `'saveGoalTemplates' - Goal templates saved and teamId=${this.props.teamsContext.teamId}`, severityLevel: SeverityLevel.Information });
+        this.setState({ goalTemplates: goalTemplates, editedGoalTemplates: null, isGoalTemplatesSaving: false });
+    };
+
+    /**
+    *  Renders panel to add goals from templates or to paste and import goals, or editor of team templates while team owner manages them.
+    * */
+    private renderAddGoalsPanel = () => {
+        if (this.state.editedGoalTemplates) {
+            return (
+                <GoalTemplateManager
+                    templates={this.state.editedGoalTemplates}
+                    errorMessage={this.state.goalTemplatesErrorMessage}
+                    isSaving={this.state.isGoalTemplatesSaving}
+                    onChange={goalTemplates => this.setState({ editedGoalTemplates: goalTemplates, goalTemplatesErrorMessage: "" })}
+                    onSave={this.saveGoalTemplates}
+                    onCancel={() => this.setState({ editedGoalTemplates: null, goalTemplatesErrorMessage: "" })}
+                />
+            );
+        }
+        else if (this.state.isGoalTemplatesPanelOpen) {
+            return (
+                <GoalTemplatesPanel
+                    curatedTemplates={getCuratedGoalTemplates(this.localize)}
+                    teamTemplates={this.state.goalTemplates}
+                    goalNames={this.state.addNewGoalDetails.map(goal => goal.goalName)}
+                    maxGoalsCount={Constants.maxAllowedGoals - this.state.addNewGoalDetails.length}
+                    onInsert={this.insertGoalTemplates}
+                    onClose={() => this.setState({ isGoalTemplatesPanelOpen: false })}
+                />
+            );
+        }
+        else if (this.state.isGoalImportOpen) {
+            return (
+                <GoalImport
+                    goalNames={this.state.addNewGoalDetails.map(goal => goal.goalName)}
+                    maxGoalsCount={Constants.maxAllowedGoals - this.state.addNewGoalDetails.length}
+                    onImport={this.importGoals}
+                    onClose={() => this.setState({ isGoalImportOpen: false })}
+                />
+            );
+        }
+
+        return (
+            <Flex gap="gap.small" className="add-goals-toggle">
+                <Button text size="small" content={this.localize("goalTemplatesButtonText")} onClick={() => this.setState({ isGoalTemplatesPanelOpen: true })} className="goal-templates-button" />
+                <Button text size="small" content={this.localize("goalImportOpenButtonText")} onClick={() => this.setState({ isGoalImportOpen: true })} className="goal-import-open-button" />
+                <Button text size="small" content={this.localize("manageGoalTemplatesButtonText")} onClick={() => this.setState({ editedGoalTemplates: this.state.goalTemplates })} className="manage-goal-templates-button" />
+            </Flex>
+        );
+    };
+
     /**
     *  Gets called at page load to check if user is a team owner.
     * */
@@ -410,8 +605,11 @@ class TeamGoal extends React.Component<WithTranslation, ITeamGoalState>
         this.setState({
             loading: true
         });
-        var teamOwnerDetailsResponse = await getTeamOwnerDetails(this.teamGroupId);
-        if (teamOwnerDetailsResponse.status !== 200 && teamOwnerDetailsResponse.status !== 204) {
+        var teamOwnerDetailsResponse = await getTeamOwnerDetails(this.props.teamsContext.groupId, this.requestCanceller.signal);
+        if (isRequestCancelled(teamOwnerDetailsResponse)) {
+            return false;
+        }
+        else if (!teamOwnerDetailsResponse.isSuccess) {
             this.appInsights.trackTrace({ message: `'validateIfTeamOwner' - Error while getting team owner details`, severityLevel: SeverityLevel.Information });
             await this.setState({
                 isTeamOwner: false,
@@ -433,7 +631,7 @@ class TeamGoal extends React.Component<WithTranslation, ITeamGoalState>
             ? <p><em><Loader /></em></p>
             : <SetGoal
                 errorMessage={this.state.errorMessage}
-                goals={this.state.addNewGoalDetails}
+                goals={this.getGoalListItems()}
                 isReminderActive={this.state.isReminderActive}
                 setIsReminderActive={this.setIsReminderActive}
                 startDate={this.state.startDate}
@@ -450,7 +648,7 @@ class TeamGoal extends React.Component<WithTranslation, ITeamGoalState>
                 goalName={this.state.goalName}
                 isSaveButtonLoading={this.state.isSaveButtonLoading}
                 isSaveButtonDisabled={this.state.isSaveButtonDisabled}
-                theme={this.theme}
+                theme={this.props.teamsContext.theme}
                 screenWidth={this.state.screenWidth}
             />
         if (this.state.loading) {
@@ -462,6 +660,7 @@ class TeamGoal extends React.Component<WithTranslation, ITeamGoalState>
             if (this.state.isTeamOwner) {
                 return (
                     <div className="container-div">
+                        {this.renderAddGoalsPanel()}
                         {contents}
                     </div>
                 )
@@ -480,4 +679,4 @@ class TeamGoal extends React.Component<WithTranslation, ITeamGoalState>
         }
     }
 }
-export default withTranslation()(TeamGoal);
\ No newline at end of file
+export default withTranslation()(withTeamsContext(TeamGoal));
\ No newline at end of file
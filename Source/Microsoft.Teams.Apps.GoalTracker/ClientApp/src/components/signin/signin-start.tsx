@@ -5,16 +5,26 @@
 import React, { useEffect } from "react";
 import * as microsoftTeams from "@microsoft/teams-js";
 import { getAuthenticationConsentMetadata } from '../../api/authentication-metadata-api';
+import { useRequestCanceller, isRequestCancelled } from '../../helpers/request-cancellation';
 
 const SignInSimpleStart: React.FunctionComponent = () => {
+    const signal = useRequestCanceller();
     useEffect(() => {
         microsoftTeams.initialize();
         microsoftTeams.getContext(context => {
             const windowLocationOriginDomain = window.location.origin.replace("https://", "");
             const login_hint = context.upn ? context.upn : "";
 
-            getAuthenticationConsentMetadata(windowLocationOriginDomain, login_hint).then(result => {
-                window.location.assign(result.data);
+            getAuthenticationConsentMetadata(windowLocationOriginDomain, login_hint, signal).then(result => {
+                if (isRequestCancelled(result)) {
+                    return;
+                }
+                else if (result.isSuccess) {
+                    window.location.assign(result.data);
+                }
+                else {
+                    microsoftTeams.authentication.notifyFailure(result.message);
+                }
             });
         });
     });
@@ -16,16 +16,79 @@ export default class Constants {
 
 	public static readonly maxAllowedGoalName = 300;
 	public static readonly maxAllowedNoteDescription = 1000;
+	public static readonly maxNoteRevisions = 20; // Service keeps only latest revisions of note.
 	public static readonly maxAllowedGoals = 15;
+	public static readonly maxAllowedKeyResults = 5;
+	public static readonly maxAllowedKeyResultTitle = 150;
+	public static readonly maxAllowedKeyResultUnit = 20;
+	public static readonly maxAllowedTags = 5;
+	public static readonly maxAllowedTagName = 30;
+	public static readonly maxAllowedGoalDescription = 2000;
+	public static readonly maxAllowedDoneCriteria = 10;
+	public static readonly maxAllowedDoneCriterionText = 200;
+	public static readonly maxAllowedGoalTemplates = 30;
 	public static readonly setPersonalGoal: string ="set personal goals";
 	public static readonly editPersonalGoal: string = "edit personal goals";
 	public static readonly editTeamGoal: string = "edit team goals";
 	public static readonly setTeamGoal: string = "set team goals";
 
+	// Personal goal batch actions, same as PersonalGoalBatchAction of API
+	public static readonly changeStatusBatchAction = 0;
+	public static readonly deleteBatchAction = 1;
+	public static readonly setReminderBatchAction = 2;
+	public static readonly changeReminderFrequencyBatchAction = 3;
+
+	// Undo of deletion
+	public static readonly deletionUndoIntervalInMilliseconds = 8000; // Deleted goal or note can be restored from undo toast until it is hidden.
+
+	// API retry policy
+	public static readonly apiMaxRetries = 3;
+	public static readonly apiRetryBaseDelayInMilliseconds = 500;
+	public static readonly apiRetryMaxDelayInMilliseconds = 8000;
+
+	// Authentication
+	public static readonly tokenExpiryBufferInMilliseconds = 5 * 60 * 1000; // Cached token is refreshed 5 minutes before it expires.
+	public static readonly resourceRequiresConsent: string = "resourceRequiresConsent";
+
+	// Query cache
+	public static readonly queryCacheStorageKey: string = "goalTrackerQueryCache";
+	public static readonly queryCacheMaxAgeInMilliseconds = 30 * 60 * 1000; // Cached responses older than 30 minutes are not rendered.
+
+	// Offline mutation queue
+	public static readonly mutationQueueDatabaseName: string = "goalTrackerMutationQueue";
+	public static readonly mutationStoreName: string = "mutations";
+	public static readonly mutationConflictStoreName: string = "conflicts";
+	public static readonly mutationReplayRetryBaseDelayInMilliseconds = 5000; // Replay is retried with growing delay while server cannot be reached, even if browser reports being online.
+	public static readonly mutationReplayRetryMaxDelayInMilliseconds = 5 * 60 * 1000;
+
+	// Mock backend
+	public static readonly mockBackendStorageKey: string = "goalTrackerMockBackend";
+	public static readonly mockBackendLatencyInMilliseconds = 300; // Delay of mock responses so loaders can be seen during demos.
+	public static readonly fakeTaskSubmittedMessageType: string = "goalTrackerFakeTaskSubmitted";
+
+	// Personal goal filter query parameters
+	public static readonly goalSearchTextQueryParameter: string = "search";
+	public static readonly goalAlignmentQueryParameter: string = "aligned";
+	public static readonly goalTeamGoalQueryParameter: string = "teamGoal";
+	public static readonly goalNotesQueryParameter: string = "notes";
+	public static readonly goalSortColumnQueryParameter: string = "sort";
+	public static readonly goalSortDirectionQueryParameter: string = "order";
+	public static readonly goalGroupByQueryParameter: string = "group";
+	public static readonly goalViewQueryParameter: string = "view";
+	public static readonly goalCycleQueryParameter: string = "cycle";
+	public static readonly timelineZoomQueryParameter: string = "zoom";
+
+	// Goal timeline
+	public static readonly timelineWeekZoomDayWidth = 24; // Width of one day in pixels when timeline is zoomed to weeks.
+	public static readonly timelineMonthZoomDayWidth = 6; // Width of one day in pixels when timeline is zoomed to months.
+
 	// Date formats
 	public static readonly goalCycleDateTimeFormat = "ll"; // This format will be used to display goal cycles dates as per user's locale on UI.
 	public static readonly dateComparisonFormat = "YYYY-MM-DD";
 	public static readonly dateTimeOffsetFormat = "YYYY-MM-DD HH:mm Z";
 	public static readonly utcDateFormat = "MM-DD-YYYY";
+	public static readonly timelineWeekFormat = "MMM D";
+	public static readonly timelineMonthFormat = "MMMM YYYY";
+	public static readonly goalImportDateFormats = ["YYYY-MM-DD", "M/D/YYYY", "D.M.YYYY"]; // Formats of start and end dates accepted in imported CSV files.
 }
 
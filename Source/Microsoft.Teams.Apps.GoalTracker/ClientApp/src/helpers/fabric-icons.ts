@@ -0,0 +1,8 @@
+﻿// <copyright file="fabric-icons.ts" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import { initializeIcons } from 'office-ui-fabric-react/lib/Icons';
+
+// Icons used by Fabric date pickers must be registered once, so every component using them imports this module.
+initializeIcons();
@@ -0,0 +1,32 @@
+﻿// <copyright file="goal-cycle.test.ts" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import { groupGoalsByCycle, getGoalCycleCompletion, formatGoalCycleDates } from "./goal-cycle";
+import { createMockBackendData } from "../mock/mock-data";
+
+describe("goal cycle", () => {
+    it("groups goals by goal cycle with latest cycle first", () => {
+        let data = createMockBackendData();
+        let goalCycles = groupGoalsByCycle(data.personalGoals.slice().reverse());
+
+        expect(goalCycles).toHaveLength(2);
+        expect(goalCycles[0].goals.every(goal => goal.IsActive)).toBe(true);
+        expect(goalCycles[1].goals.map(goal => goal.GoalName)).toContain("Publish monthly newsletter");
+        expect(goalCycles[1].endDate).toBe(goalCycles[1].goals[0].EndDate);
+    });
+
+    it("counts goals per status and rounds completion rate", () => {
+        let data = createMockBackendData();
+        let completion = getGoalCycleCompletion(data.personalGoals.filter(goal => !goal.IsActive).slice(0, 3));
+
+        expect(completion).toEqual({ totalCount: 3, notStartedCount: 0, inProgressCount: 1, completedCount: 2, completionRate: 67 });
+        expect(getGoalCycleCompletion([]).completionRate).toBe(0);
+    });
+
+    it("formats goal cycle dates stored with offset", () => {
+        let formattedDates = formatGoalCycleDates("2026-10-01 12:00 +00:00", "2026-12-31 12:00 +00:00", (key: string) => key);
+
+        expect(formattedDates).toBe("Oct 1, 2026 goalCycleToText Dec 31, 2026");
+    });
+});
@@ -0,0 +1,54 @@
+﻿// <copyright file="goal-cycle.ts" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import { TFunction } from "i18next";
+import Constants from "../constants";
+import { IGoalCycle, IGoalCycleCompletion, IPersonalGoalDetail } from "../models/type";
+let moment = require('moment');
+
+/**
+* Group personal goals by goal cycle they were set for.
+* @param personalGoalDetails {Object[]} Personal goals of one or more goal cycles.
+* @returns Goal cycles, latest ending cycle first.
+*/
+export const groupGoalsByCycle = (personalGoalDetails: IPersonalGoalDetail[]): IGoalCycle[] => {
+    let goalCycles: IGoalCycle[] = [];
+    personalGoalDetails.forEach((goalDetail) => {
+        let goalCycle = goalCycles.find(goalCycle => goalCycle.goalCycleId === goalDetail.GoalCycleId);
+        if (goalCycle) {
+            goalCycle.goals.push(goalDetail);
+        }
+        else {
+            goalCycles.push({ goalCycleId: goalDetail.GoalCycleId, startDate: goalDetail.StartDate, endDate: goalDetail.EndDate, goals: [goalDetail] });
+        }
+    });
+
+    return goalCycles.sort((first, second) => moment(second.endDate, Constants.dateTimeOffsetFormat).valueOf() - moment(first.endDate, Constants.dateTimeOffsetFormat).valueOf());
+}
+
+/**
+* Get count of goals per final status and share of completed goals in goal cycle.
+* @param personalGoalDetails {Object[]} Personal goals of goal cycle.
+*/
+export const getGoalCycleCompletion = (personalGoalDetails: IPersonalGoalDetail[]): IGoalCycleCompletion => {
+    let countGoals = (status: number) => personalGoalDetails.filter(goalDetail => goalDetail.Status === status).length;
+    let completedCount = countGoals(2);
+    return {
+        totalCount: personalGoalDetails.length,
+        notStartedCount: countGoals(0),
+        inProgressCount: countGoals(1),
+        completedCount: completedCount,
+        completionRate: personalGoalDetails.length > 0 ? Math.round(completedCount * 100 / personalGoalDetails.length) : 0
+    };
+}
+
+/**
+* Get dates of goal cycle formatted as per user's locale.
+* @param startDate {String} Start date of goal cycle.
+* @param endDate {String} End date of goal cycle.
+* @param localize {Function} Translation function.
+*/
+export const formatGoalCycleDates = (startDate: string, endDate: string, localize: TFunction): string => {
+    return `${moment(startDate, Constants.dateTimeOffsetFormat).format(Constants.goalCycleDateTimeFormat)} ${localize("goalCycleToText")} ${moment(endDate, Constants.dateTimeOffsetFormat).format(Constants.goalCycleDateTimeFormat)}`;
+}
@@ -0,0 +1,26 @@
+﻿// <copyright file="goal-definition.test.ts" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import { getDoneCriteria, getDoneCriteriaValue, getDescriptionValue, hasGoalDefinition } from "./goal-definition";
+
+describe("goal definition", () => {
+    it("ignores definition of done which is not valid", () => {
+        expect(getDoneCriteria({ DefinitionOfDone: "not json" })).toEqual([]);
+        expect(getDoneCriteria({ DefinitionOfDone: JSON.stringify([{ criterionId: "1", isDone: true }, { criterionId: "2", text: "Shipped", isDone: false }]) }))
+            .toEqual([{ criterionId: "2", text: "Shipped", isDone: false }]);
+    });
+
+    it("leaves out empty criteria and description when stored", () => {
+        let criteria = [{ criterionId: "1", text: "  Shipped ", isDone: true }, { criterionId: "2", text: " ", isDone: false }];
+
+        expect(JSON.parse(getDoneCriteriaValue(criteria)!)).toEqual([{ criterionId: "1", text: "Shipped", isDone: true }]);
+        expect(getDoneCriteriaValue([criteria[1]])).toBeNull();
+        expect(getDescriptionValue(" \n ")).toBeNull();
+    });
+
+    it("checks if goal has description or definition of done", () => {
+        expect(hasGoalDefinition({ Description: "Why it matters" })).toBe(true);
+        expect(hasGoalDefinition({ Description: null, DefinitionOfDone: "[]" })).toBe(false);
+    });
+});
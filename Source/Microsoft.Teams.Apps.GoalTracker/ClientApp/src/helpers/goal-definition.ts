@@ -0,0 +1,57 @@
+﻿// <copyright file="goal-definition.ts" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import { IDoneCriterion } from "../models/type";
+
+/** Goal fields which describe what personal or team goal means. */
+interface IGoalDefinition {
+    Description?: string | null,
+    DefinitionOfDone?: string | null
+}
+
+/**
+* Get criteria of goal's definition of done. Criteria are stored as JSON, so goal without valid criteria has none.
+* @param goalDetail {Object} Personal or team goal detail.
+*/
+export const getDoneCriteria = (goalDetail: IGoalDefinition): IDoneCriterion[] => {
+    if (!goalDetail.DefinitionOfDone) {
+        return [];
+    }
+
+    try {
+        let criteria = JSON.parse(goalDetail.DefinitionOfDone);
+        return Array.isArray(criteria) ? criteria.filter(criterion => criterion && typeof criterion.text === "string") : [];
+    }
+    catch (error) {
+        return [];
+    }
+}
+
+/**
+* Get value of definition of done to be stored with goal. Criteria without text are left out.
+* @param criteria {Object[]} Criteria of definition of done.
+*/
+export const getDoneCriteriaValue = (criteria: IDoneCriterion[]): string | null => {
+    let filledCriteria = criteria
+        .map(criterion => ({ ...criterion, text: criterion.text.trim() }))
+        .filter(criterion => criterion.text);
+
+    return filledCriteria.length > 0 ? JSON.stringify(filledCriteria) : null;
+}
+
+/**
+* Get description of goal to be stored. Description with only whitespace is not stored.
+* @param description {String} Description entered by user.
+*/
+export const getDescriptionValue = (description?: string | null): string | null => {
+    return description && description.trim() ? description.trim() : null;
+}
+
+/**
+* Check if goal has description or definition of done.
+* @param goalDetail {Object} Personal or team goal detail.
+*/
+export const hasGoalDefinition = (goalDetail: IGoalDefinition): boolean => {
+    return !!goalDetail.Description || getDoneCriteria(goalDetail).length > 0;
+}
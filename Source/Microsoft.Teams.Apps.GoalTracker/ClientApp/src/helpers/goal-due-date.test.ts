@@ -0,0 +1,54 @@
+﻿// <copyright file="goal-due-date.test.ts" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import moment from "moment";
+import { getGoalDueState, getGoalsDueThisWeek, isGoalDueDateInGoalCycle } from "./goal-due-date";
+import { createMockBackendData } from "../mock/mock-data";
+import Constants from "../constants";
+
+/**
+* Format date the way due dates are stored.
+* @param date {Object} Date to format.
+*/
+const formatDueDate = (date: moment.Moment) => date.format(Constants.dateTimeOffsetFormat);
+
+describe("goal due date", () => {
+    let createFromInputFallback = (moment as any).createFromInputFallback;
+
+    beforeEach(() => {
+        // Parse dates like browsers which cannot read storage format, instead of falling back to Date of Node.
+        (moment as any).createFromInputFallback = (config: any) => { config._d = new Date(NaN); };
+    });
+
+    afterEach(() => {
+        (moment as any).createFromInputFallback = createFromInputFallback;
+    });
+
+    it("highlights unfinished goals which are overdue or due this week", () => {
+        let personalGoal = createMockBackendData().personalGoals[3];
+
+        expect(getGoalDueState(personalGoal)).toBeNull();
+        expect(getGoalDueState({ ...personalGoal, DueDate: formatDueDate(moment().subtract(1, "day")) })).toBe("overdue");
+        expect(getGoalDueState({ ...personalGoal, DueDate: formatDueDate(moment().endOf("week")) })).toBe("dueSoon");
+        expect(getGoalDueState({ ...personalGoal, DueDate: formatDueDate(moment().add(1, "week")) })).toBeNull();
+        expect(getGoalDueState({ ...personalGoal, DueDate: formatDueDate(moment().subtract(1, "day")), Status: 2 })).toBeNull();
+    });
+
+    it("sorts goals due this week by due date and priority", () => {
+        let personalGoals = createMockBackendData().personalGoals.filter(goal => goal.IsActive);
+        let dueDate = formatDueDate(moment().endOf("week"));
+        personalGoals[0] = { ...personalGoals[0], DueDate: dueDate, Priority: 0 };
+        personalGoals[3] = { ...personalGoals[3], DueDate: formatDueDate(moment().subtract(2, "days")) };
+
+        expect(getGoalsDueThisWeek(personalGoals).map(goal => goal.GoalName)).toEqual(["Mentor a new team member", "Draft campaign landing page copy", "Publish weekly newsletter"]);
+    });
+
+    it("accepts only due dates within goal cycle", () => {
+        let personalGoal = createMockBackendData().personalGoals[0];
+
+        expect(isGoalDueDateInGoalCycle(personalGoal)).toBe(true);
+        expect(isGoalDueDateInGoalCycle({ ...personalGoal, DueDate: personalGoal.EndDate })).toBe(true);
+        expect(isGoalDueDateInGoalCycle({ ...personalGoal, DueDate: formatDueDate(moment(personalGoal.EndDate, Constants.dateTimeOffsetFormat).add(1, "day")) })).toBe(false);
+    });
+});
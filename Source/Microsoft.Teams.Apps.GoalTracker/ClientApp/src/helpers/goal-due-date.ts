@@ -0,0 +1,68 @@
+﻿// <copyright file="goal-due-date.ts" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import moment from "moment";
+import Constants from "../constants";
+import { GoalDueState, IPersonalGoalDetail } from "../models/type";
+
+/**
+* Check whether due date of personal goal has passed. Completed goals are never overdue.
+* @param personalGoalDetail {Object} Personal goal detail.
+*/
+export const isGoalOverdue = (personalGoalDetail: IPersonalGoalDetail): boolean => {
+    if (!personalGoalDetail.DueDate || personalGoalDetail.Status === 2) {
+        return false;
+    }
+
+    return moment(personalGoalDetail.DueDate, Constants.dateTimeOffsetFormat).isBefore(moment(), "day");
+}
+
+/**
+* Check whether personal goal is due by end of current week. Overdue goals are also due this week.
+* @param personalGoalDetail {Object} Personal goal detail.
+*/
+export const isGoalDueThisWeek = (personalGoalDetail: IPersonalGoalDetail): boolean => {
+    if (!personalGoalDetail.DueDate || personalGoalDetail.Status === 2) {
+        return false;
+    }
+
+    return moment(personalGoalDetail.DueDate, Constants.dateTimeOffsetFormat).isSameOrBefore(moment(), "week");
+}
+
+/**
+* Get due state of personal goal which is highlighted on goal list.
+* @param personalGoalDetail {Object} Personal goal detail.
+* @returns Due state, or null if goal is not due this week.
+*/
+export const getGoalDueState = (personalGoalDetail: IPersonalGoalDetail): GoalDueState | null => {
+    if (isGoalOverdue(personalGoalDetail)) {
+        return "overdue";
+    }
+
+    return isGoalDueThisWeek(personalGoalDetail) ? "dueSoon" : null;
+}
+
+/**
+* Get goals due by end of current week, earliest due date first. Goals due on same day are sorted by priority.
+* @param personalGoals {Object[]} Personal goal details.
+*/
+export const getGoalsDueThisWeek = (personalGoals: IPersonalGoalDetail[]): IPersonalGoalDetail[] => {
+    return personalGoals
+        .filter(isGoalDueThisWeek)
+        .sort((goal, otherGoal) => moment(goal.DueDate!, Constants.dateTimeOffsetFormat).startOf("day").diff(moment(otherGoal.DueDate!, Constants.dateTimeOffsetFormat).startOf("day"))
+            || (otherGoal.Priority ?? -1) - (goal.Priority ?? -1));
+}
+
+/**
+* Check whether due date of personal goal falls within its goal cycle.
+* @param personalGoalDetail {Object} Personal goal detail.
+*/
+export const isGoalDueDateInGoalCycle = (personalGoalDetail: IPersonalGoalDetail): boolean => {
+    if (!personalGoalDetail.DueDate) {
+        return true;
+    }
+
+    let dueDate = moment(personalGoalDetail.DueDate, Constants.dateTimeOffsetFormat);
+    return !dueDate.isBefore(moment(personalGoalDetail.StartDate, Constants.dateTimeOffsetFormat), "day") && !dueDate.isAfter(moment(personalGoalDetail.EndDate, Constants.dateTimeOffsetFormat), "day");
+}
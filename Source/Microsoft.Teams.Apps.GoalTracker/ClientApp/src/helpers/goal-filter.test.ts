@@ -0,0 +1,56 @@
+﻿// <copyright file="goal-filter.test.ts" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import { filterPersonalGoals, getDefaultPersonalGoalFilter, getPersonalGoalFilterFromQuery, getPersonalGoalFilterQuery } from "./goal-filter";
+import { createMockBackendData } from "../mock/mock-data";
+import moment from "moment";
+
+describe("goal filter", () => {
+    it("reads filter from query and ignores unknown values", () => {
+        let filter = getPersonalGoalFilterFromQuery("?theme=dark&search=news&aligned=unaligned&notes=everything&sort=endDate&order=desc");
+
+        expect(filter).toEqual({ ...getDefaultPersonalGoalFilter(), searchText: "news", alignment: "unaligned", sortColumn: "endDate", sortDirection: "desc" });
+    });
+
+    it("writes only non-default filter values to query", () => {
+        let query = getPersonalGoalFilterQuery("?theme=dark&search=old", { ...getDefaultPersonalGoalFilter(), notes: "withNotes" });
+
+        expect(query).toBe("?theme=dark&notes=withNotes");
+    });
+
+    it("filters goals by alignment, team goal and notes", () => {
+        let data = createMockBackendData();
+        let alignedGoalNames = filterPersonalGoals(data.personalGoals, { ...getDefaultPersonalGoalFilter(), alignment: "aligned" }).map(goal => goal.GoalName);
+        let teamGoalNames = filterPersonalGoals(data.personalGoals, { ...getDefaultPersonalGoalFilter(), teamGoalId: data.teamGoals[1].TeamGoalId }).map(goal => goal.GoalName);
+        data.personalGoals[0].NotesCount = 2;
+        let goalNamesWithoutNotes = filterPersonalGoals(data.personalGoals, { ...getDefaultPersonalGoalFilter(), notes: "withoutNotes" }).map(goal => goal.GoalName);
+
+        expect(alignedGoalNames).toEqual(["Publish weekly newsletter", "Draft campaign landing page copy"]);
+        expect(teamGoalNames).toEqual(["Draft campaign landing page copy"]);
+        expect(goalNamesWithoutNotes).not.toContain("Publish weekly newsletter");
+    });
+
+    it("searches goal names and note text, and sorts by name", () => {
+        let data = createMockBackendData();
+        let personalGoals = data.personalGoals.filter(goal => goal.IsActive);
+        let filter = { ...getDefaultPersonalGoalFilter(), searchText: "CERTIFICATION", sortColumn: "name" as const };
+        let goalNames = filterPersonalGoals(personalGoals, { ...filter, searchText: "" }).map(goal => goal.GoalName);
+
+        expect(filterPersonalGoals(personalGoals, filter).map(goal => goal.GoalName)).toEqual(["Complete analytics certification"]);
+        expect(filterPersonalGoals(personalGoals, { ...filter, searchText: "open rate" }, data.personalGoalNotes).map(goal => goal.GoalName)).toEqual(["Publish weekly newsletter"]);
+        expect(goalNames).toEqual(["Complete analytics certification", "Draft campaign landing page copy", "Mentor a new team member", "Publish weekly newsletter"]);
+    });
+
+    it("sorts goals by end date stored with offset", () => {
+        let data = createMockBackendData();
+        let createFromInputFallback = (moment as any).createFromInputFallback;
+        // Parse dates like browsers which cannot read storage format, instead of falling back to Date of Node.
+        (moment as any).createFromInputFallback = (config: any) => { config._d = new Date(NaN); };
+        let goals = filterPersonalGoals(data.personalGoals.slice().reverse(), { ...getDefaultPersonalGoalFilter(), sortColumn: "endDate", sortDirection: "desc" });
+        (moment as any).createFromInputFallback = createFromInputFallback;
+
+        expect(goals.slice(0, 4).every(goal => goal.IsActive)).toBe(true);
+        expect(goals.slice(4).every(goal => !goal.IsActive)).toBe(true);
+    });
+});
@@ -0,0 +1,164 @@
+﻿// <copyright file="goal-filter.ts" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import Constants from "../constants";
+import { IPersonalGoalDetail, IPersonalGoalNoteDetail, IPersonalGoalFilter, GoalAlignmentFilter, GoalNotesFilter, GoalGroupBy, PersonalGoalSortColumn, SortDirection } from "../models/type";
+let moment = require('moment');
+
+const goalAlignmentFilters: GoalAlignmentFilter[] = ["all", "aligned", "unaligned"];
+const goalNotesFilters: GoalNotesFilter[] = ["all", "withNotes", "withoutNotes"];
+const personalGoalSortColumns: PersonalGoalSortColumn[] = ["name", "lastModified", "endDate"];
+const goalGroupBys: GoalGroupBy[] = ["status", "tag"];
+
+/**
+* Get filter which shows all personal goals in order returned by storage.
+*/
+export const getDefaultPersonalGoalFilter = (): IPersonalGoalFilter => {
+    return {
+        searchText: "",
+        alignment: "all",
+        teamGoalId: "",
+        notes: "all",
+        sortColumn: null,
+        sortDirection: "asc",
+        groupBy: "status"
+    };
+}
+
+/**
+* Read personal goal filter from query of page URL, so deep link reproduces filtered view.
+* @param search {String} Query string of page URL.
+*/
+export const getPersonalGoalFilterFromQuery = (search: string): IPersonalGoalFilter => {
+    let params = new URLSearchParams(search);
+    let filter = getDefaultPersonalGoalFilter();
+    let alignment = params.get(Constants.goalAlignmentQueryParameter) as GoalAlignmentFilter;
+    let notes = params.get(Constants.goalNotesQueryParameter) as GoalNotesFilter;
+    let sortColumn = params.get(Constants.goalSortColumnQueryParameter) as PersonalGoalSortColumn;
+    let groupBy = params.get(Constants.goalGroupByQueryParameter) as GoalGroupBy;
+
+    filter.searchText = params.get(Constants.goalSearchTextQueryParameter) || "";
+    filter.teamGoalId = params.get(Constants.goalTeamGoalQueryParameter) || "";
+    if (goalAlignmentFilters.indexOf(alignment) !== -1) {
+        filter.alignment = alignment;
+    }
+
+    if (goalNotesFilters.indexOf(notes) !== -1) {
+        filter.notes = notes;
+    }
+
+    if (personalGoalSortColumns.indexOf(sortColumn) !== -1) {
+        filter.sortColumn = sortColumn;
+        filter.sortDirection = params.get(Constants.goalSortDirectionQueryParameter) === "desc" ? "desc" : "asc";
+    }
+
+    if (goalGroupBys.indexOf(groupBy) !== -1) {
+        filter.groupBy = groupBy;
+    }
+
+    return filter;
+}
+
+/**
+* Get query string of page URL with personal goal filter. Query parameters not related to filter, e.g. theme, are kept.
+* @param search {String} Current query string of page URL.
+* @param filter {Object} Personal goal filter.
+*/
+export const getPersonalGoalFilterQuery = (search: string, filter: IPersonalGoalFilter): string => {
+    let params = new URLSearchParams(search);
+    let defaultFilter = getDefaultPersonalGoalFilter();
+    let setParam = (name: string, value: string, defaultValue: string) => {
+        if (value && value !== defaultValue) {
+            params.set(name, value);
+        }
+        else {
+            params.delete(name);
+        }
+    }
+
+    setParam(Constants.goalSearchTextQueryParameter, filter.searchText.trim(), defaultFilter.searchText);
+    setParam(Constants.goalAlignmentQueryParameter, filter.alignment, defaultFilter.alignment);
+    setParam(Constants.goalTeamGoalQueryParameter, filter.teamGoalId, defaultFilter.teamGoalId);
+    setParam(Constants.goalNotesQueryParameter, filter.notes, defaultFilter.notes);
+    setParam(Constants.goalSortColumnQueryParameter, filter.sortColumn || "", "");
+    setParam(Constants.goalSortDirectionQueryParameter, filter.sortColumn ? filter.sortDirection : "", defaultFilter.sortDirection);
+    setParam(Constants.goalGroupByQueryParameter, filter.groupBy, defaultFilter.groupBy);
+
+    let query = params.toString();
+    return query ? `?${query}` : "";
+}
+
+/**
+* Check if filter hides any personal goal.
+* @param filter {Object} Personal goal filter.
+*/
+export const isPersonalGoalFilterActive = (filter: IPersonalGoalFilter): boolean => {
+    return filter.searchText.trim() !== "" || filter.alignment !== "all" || filter.teamGoalId !== "" || filter.notes !== "all";
+}
+
+/**
+* Get sort direction after user clicks on column header. Clicking sorted column reverses direction.
+* @param filter {Object} Personal goal filter.
+* @param sortColumn {String} Column clicked by user.
+*/
+export const getNextSortDirection = (filter: IPersonalGoalFilter, sortColumn: PersonalGoalSortColumn): SortDirection => {
+    return filter.sortColumn === sortColumn && filter.sortDirection === "asc" ? "desc" : "asc";
+}
+
+/**
+* Compare personal goals by sort column.
+* @param sortColumn {String} Column personal goals are sorted by.
+*/
+const comparePersonalGoals = (sortColumn: PersonalGoalSortColumn) => (goal: IPersonalGoalDetail, otherGoal: IPersonalGoalDetail): number => {
+    let result = 0;
+    if (sortColumn === "lastModified") {
+        result = moment(goal.LastModifiedOn).valueOf() - moment(otherGoal.LastModifiedOn).valueOf();
+    }
+    else if (sortColumn === "endDate") {
+        result = moment(goal.EndDate, Constants.dateTimeOffsetFormat).valueOf() - moment(otherGoal.EndDate, Constants.dateTimeOffsetFormat).valueOf();
+    }
+
+    return result !== 0 ? result : goal.GoalName.localeCompare(otherGoal.GoalName, undefined, { sensitivity: "base" });
+}
+
+/**
+* Filter and sort personal goals.
+* @param personalGoalDetails {Array} Personal goals of user.
+* @param filter {Object} Personal goal filter.
+* @param personalGoalNoteDetails {Array} Notes of user, searched along with goal names. Notes are not searched if not loaded yet.
+*/
+export const filterPersonalGoals = (personalGoalDetails: IPersonalGoalDetail[], filter: IPersonalGoalFilter, personalGoalNoteDetails?: IPersonalGoalNoteDetail[] | null): IPersonalGoalDetail[] => {
+    let searchText = filter.searchText.trim().toLowerCase();
+    let filteredGoalDetails = personalGoalDetails.filter((goalDetail) => {
+        if (searchText) {
+            let isGoalNameMatching = goalDetail.GoalName.toLowerCase().indexOf(searchText) !== -1;
+            let isNoteMatching = personalGoalNoteDetails ? personalGoalNoteDetails.some(noteDetail =>
+                noteDetail.PersonalGoalId === goalDetail.PersonalGoalId && noteDetail.PersonalGoalNoteDescription.toLowerCase().indexOf(searchText) !== -1) : false;
+            if (!isGoalNameMatching && !isNoteMatching) {
+                return false;
+            }
+        }
+
+        if ((filter.alignment === "aligned" && !goalDetail.IsAligned) || (filter.alignment === "unaligned" && goalDetail.IsAligned)) {
+            return false;
+        }
+
+        if (filter.teamGoalId && (!goalDetail.IsAligned || !goalDetail.TeamGoalId || goalDetail.TeamGoalId.split(",").indexOf(filter.teamGoalId) === -1)) {
+            return false;
+        }
+
+        if ((filter.notes === "withNotes" && !goalDetail.NotesCount) || (filter.notes === "withoutNotes" && goalDetail.NotesCount > 0)) {
+            return false;
+        }
+
+        return true;
+    });
+
+    if (filter.sortColumn) {
+        let compare = comparePersonalGoals(filter.sortColumn);
+        filteredGoalDetails.sort((goal, otherGoal) => filter.sortDirection === "desc" ? compare(otherGoal, goal) : compare(goal, otherGoal));
+    }
+
+    return filteredGoalDetails;
+}
@@ -2,6 +2,8 @@
 // Copyright (c) Microsoft. All rights reserved.
 // </copyright>
 
+import { IApiFailureResult } from "../models/type";
+
 export const getGoalStatusCollection = (t: any) => {
 	return [
 		{
@@ -22,6 +24,26 @@ export const getGoalStatusCollection = (t: any) => {
 	]
 }
 
+export const getGoalPriorityCollection = (t: any) => {
+	return [
+		{
+			DisplayName: t('highPriority'),
+			value: 2,
+			header: t('highPriority')
+		},
+		{
+			DisplayName: t('mediumPriority'),
+			value: 1,
+			header: t('mediumPriority')
+		},
+		{
+			DisplayName: t('lowPriority'),
+			value: 0,
+			header: t('lowPriority')
+		}
+	]
+}
+
 export const getReminderFrequncyCollection = (t: any, isReminderActive: boolean) => {
 	return [
 		{
@@ -56,12 +78,16 @@ export const getReminderFrequncyCollection = (t: any, isReminderActive: boolean)
 }
 
 /**
-* Handle error occurred during API call.
-* @param error {Object} Error response object.
+* Handle error occurred during API call. Cancelled requests are ignored as component which sent them is no longer shown.
+* @param error {Object} Failure result of API call.
 */
-export const handleError = (error: any): any => {
+export const handleError = (error: IApiFailureResult): any => {
 	const errorStatus = error.status;
-	if (errorStatus === 403) {
+	// User is being redirected to sign in page to grant consent.
+	if (error.errorCode === "cancelled" || error.errorCode === "consentRequired") {
+		return;
+	}
+	else if (errorStatus === 403) {
 		window.location.href = `/error?code=403`;
 	}
 	else if (errorStatus === 401) {
@@ -70,4 +96,17 @@ export const handleError = (error: any): any => {
 	else {
 		window.location.href = `/error`;
 	}
+}
+
+/**
+* Handle error occurred while refreshing data rendered from cache. Network errors are ignored so cached data stays usable while offline.
+* @param error {Object} Failure result of API call.
+* @param isCachedDataRendered {Boolean} Indicates whether cached data is shown to user.
+*/
+export const handleRefreshError = (error: IApiFailureResult, isCachedDataRendered: boolean): any => {
+	if (isCachedDataRendered && error.errorCode === "networkError") {
+		return;
+	}
+
+	handleError(error);
 }
\ No newline at end of file
@@ -0,0 +1,39 @@
+﻿// <copyright file="goal-import.test.ts" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import moment from 'moment';
+import { parseGoalText, parseGoalCsv, getGoalImportPreview } from "./goal-import";
+import Constants from "../constants";
+
+describe("goal import", () => {
+    it("gets one goal per pasted line without bullets and numbers", () => {
+        let goals = parseGoalText("• Launch team podcast\r\n  - [x] Write a blog series\n\n1) Grow audience by 10%\n2.3. Improve onboarding\n1.5x faster builds");
+
+        expect(goals.map(goal => goal.goalName)).toEqual(["Launch team podcast", "Write a blog series", "Grow audience by 10%", "Improve onboarding", "1.5x faster builds"]);
+    });
+
+    it("reads quoted values and dates from CSV file with header", () => {
+        let goals = parseGoalCsv("\uFEFFEnd date;Goal name;Start date\n31.01.2027;\"Write \"\"Getting started\"\"; guide\";2026-11-02\n;Launch podcast;\nsoon;Grow audience;\n2026-11-01;Improve onboarding;2026-12-01\n");
+
+        expect(goals.map(goal => goal.goalName)).toEqual(["Write \"Getting started\"; guide", "Launch podcast", "Grow audience", "Improve onboarding"]);
+        expect(moment(goals[0].startDate!).format(Constants.dateComparisonFormat)).toBe("2026-11-02");
+        expect(moment(goals[0].endDate!).format(Constants.dateComparisonFormat)).toBe("2027-01-31");
+        expect(goals.map(goal => goal.hasInvalidDates)).toEqual([false, false, true, true]);
+    });
+
+    it("reads goal name, start date and end date columns from CSV file without header", () => {
+        let goals = parseGoalCsv("Launch podcast,11/2/2026,1/29/2027\r\nGrow audience\r\n");
+
+        expect(goals.map(goal => goal.goalName)).toEqual(["Launch podcast", "Grow audience"]);
+        expect(moment(goals[0].startDate!).format(Constants.dateComparisonFormat)).toBe("2026-11-02");
+        expect(goals[1].endDate).toBeNull();
+    });
+
+    it("flags too long names, duplicates, invalid dates and goals over limit", () => {
+        let goals = parseGoalText(["x".repeat(Constants.maxAllowedGoalName + 1), "Mentor a new team member", "Launch podcast", "launch podcast", "Grow audience", "Write a blog series"].join("\n"));
+        goals[4].hasInvalidDates = true;
+
+        expect(getGoalImportPreview(goals, ["Mentor a new team member"], 1).map(item => item.issue)).toEqual(["tooLong", "duplicate", null, "duplicate", "invalidDates", "overLimit"]);
+    });
+});
@@ -0,0 +1,184 @@
+﻿// <copyright file="goal-import.ts" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import moment from 'moment';
+import Constants from "../constants";
+import { isSameGoalName } from "./goal-template";
+import { IImportedGoal, IGoalImportPreviewItem, GoalImportIssue } from "../models/type";
+
+// Bullet, checkbox and number markers of list items copied from documents, e.g. "- ", "• ", "[ ] ", "1. " or "2.3) ".
+const listMarkerRegex = /^(?:[-*+]\s+|[•◦▪‣]\s*)?(?:\[[ xX]\]\s+)?(?:\d+(?:\.\d+)*[.)]\s+)?/;
+
+// Normalized column headers of imported CSV files.
+const goalNameHeaders = ["goal", "goalname", "name", "title"];
+const startDateHeaders = ["start", "startdate"];
+const endDateHeaders = ["end", "enddate", "duedate"];
+
+/**
+* Remove list marker from goal name.
+* @param goalName {String} Goal name as copied from list.
+*/
+const stripListMarker = (goalName: string): string => {
+    return goalName.trim().replace(listMarkerRegex, "").trim();
+}
+
+/**
+* Parse date of imported goal. Empty value means goal has no date.
+* @param value {String} Date as written in imported file.
+*/
+const parseImportedDate = (value?: string): moment.Moment | null => {
+    return value && value.trim() ? moment(value.trim(), Constants.goalImportDateFormats, true) : null;
+}
+
+/**
+* Split CSV text into rows of cells. Values can be quoted, and quoted values can contain delimiters, quotes escaped as "" and line breaks.
+* Files exported by spreadsheets in some locales use semicolon as delimiter, which is detected from first line.
+* @param text {String} Content of CSV file.
+*/
+export const parseCsvRows = (text: string): string[][] => {
+    let content = text.replace(/^\uFEFF/, "");
+    let firstLine = content.split(/\r?\n/)[0];
+    let delimiter = firstLine.split(";").length > firstLine.split(",").length ? ";" : ",";
+    let rows: string[][] = [];
+    let row: string[] = [];
+    let cell = "";
+    let isQuoted = false;
+    for (let index = 0; index < content.length; index++) {
+        let character = content[index];
+        if (isQuoted) {
+            if (character === '"' && content[index + 1] === '"') {
+                cell += '"';
+                index++;
+            }
+            else if (character === '"') {
+                isQuoted = false;
+            }
+            else {
+                cell += character;
+            }
+        }
+        else if (character === '"') {
+            isQuoted = true;
+        }
+        else if (character === delimiter) {
+            row.push(cell);
+            cell = "";
+        }
+        else if (character === "\n" || character === "\r") {
+            if (character === "\r" && content[index + 1] === "\n") {
+                index++;
+            }
+            rows.push(row.concat(cell));
+            row = [];
+            cell = "";
+        }
+        else {
+            cell += character;
+        }
+    }
+
+    if (cell || row.length > 0) {
+        rows.push(row.concat(cell));
+    }
+
+    return rows.filter(cells => cells.some(value => value.trim() !== ""));
+}
+
+/**
+* Get goals from pasted text, one goal per line. Bullets and numbers of list items are removed and empty lines are skipped.
+* @param text {String} Pasted text.
+*/
+export const parseGoalText = (text: string): IImportedGoal[] => {
+    return text.split(/\r?\n/)
+        .map(stripListMarker)
+        .filter(goalName => goalName !== "")
+        .map(goalName => ({ goalName: goalName, startDate: null, endDate: null, hasInvalidDates: false }));
+}
+
+/**
+* Get goals from CSV file. Columns are found by header row if file has one, otherwise goal name, start date and end date are expected in this order.
+* @param text {String} Content of CSV file.
+*/
+export const parseGoalCsv = (text: string): IImportedGoal[] => {
+    let rows = parseCsvRows(text);
+    if (rows.length === 0) {
+        return [];
+    }
+
+    let headers = rows[0].map(header => header.toLowerCase().replace(/[^a-z]/g, ""));
+    let goalNameIndex = headers.findIndex(header => goalNameHeaders.indexOf(header) !== -1);
+    let startDateIndex = 1;
+    let endDateIndex = 2;
+    if (goalNameIndex !== -1) {
+        startDateIndex = headers.findIndex(header => startDateHeaders.indexOf(header) !== -1);
+        endDateIndex = headers.findIndex(header => endDateHeaders.indexOf(header) !== -1);
+        rows = rows.slice(1);
+    }
+    else {
+        goalNameIndex = 0;
+    }
+
+    let importedGoals: IImportedGoal[] = [];
+    rows.forEach(cells => {
+        let goalName = stripListMarker(cells[goalNameIndex] || "");
+        if (goalName === "") {
+            return;
+        }
+
+        let startDate = parseImportedDate(cells[startDateIndex]);
+        let endDate = parseImportedDate(cells[endDateIndex]);
+        let hasInvalidDates = (!!startDate && !startDate.isValid()) || (!!endDate && !endDate.isValid()) || (!!startDate && !!endDate && endDate.isBefore(startDate));
+        importedGoals.push({
+            goalName: goalName,
+            startDate: startDate && startDate.isValid() ? startDate.toDate() : null,
+            endDate: endDate && endDate.isValid() ? endDate.toDate() : null,
+            hasInvalidDates: hasInvalidDates,
+        });
+    });
+
+    return importedGoals;
+}
+
+/**
+* Get preview of imported goals. Goals with too long names, goals already in list, goals with invalid dates and goals over maximum number of goals are flagged and are not added.
+* @param importedGoals {Object[]} Goals from pasted text or imported file.
+* @param goalNames {String[]} Names of goals already in list.
+* @param maxGoalsCount {Number} Number of goals which can still be added to list.
+*/
+export const getGoalImportPreview = (importedGoals: IImportedGoal[], goalNames: string[], maxGoalsCount: number): IGoalImportPreviewItem[] => {
+    let acceptedGoalNames: string[] = [];
+    return importedGoals.map(goal => {
+        let issue: GoalImportIssue | null = null;
+        if (goal.goalName.length > Constants.maxAllowedGoalName) {
+            issue = "tooLong";
+        }
+        else if (goalNames.concat(acceptedGoalNames).some(goalName => isSameGoalName(goalName, goal.goalName))) {
+            issue = "duplicate";
+        }
+        else if (goal.hasInvalidDates) {
+            issue = "invalidDates";
+        }
+        else if (acceptedGoalNames.length >= maxGoalsCount) {
+            issue = "overLimit";
+        }
+        else {
+            acceptedGoalNames.push(goal.goalName);
+        }
+
+        return { goal: goal, issue: issue };
+    });
+}
+
+/**
+* Get goal cycle covering dates of imported goals, from earliest start date to latest end date.
+* @param importedGoals {Object[]} Goals to be added to list.
+*/
+export const getImportedGoalCycleDates = (importedGoals: IImportedGoal[]): { startDate: Date | null, endDate: Date | null } => {
+    let startDates = importedGoals.filter(goal => goal.startDate).map(goal => goal.startDate!.getTime());
+    let endDates = importedGoals.filter(goal => goal.endDate).map(goal => goal.endDate!.getTime());
+    return {
+        startDate: startDates.length > 0 ? new Date(Math.min(...startDates)) : null,
+        endDate: endDates.length > 0 ? new Date(Math.max(...endDates)) : null,
+    };
+}
@@ -0,0 +1,26 @@
+﻿// <copyright file="goal-progress.test.ts" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import { getKeyResults, getKeyResultProgress, getGoalProgress, setKeyResults } from "./goal-progress";
+import { createMockBackendData } from "../mock/mock-data";
+
+describe("goal progress", () => {
+    it("rolls up progress of key results into goal progress", () => {
+        let personalGoal = createMockBackendData().personalGoals[0];
+        let keyResults = getKeyResults(personalGoal);
+
+        expect(keyResults.map(getKeyResultProgress)).toEqual([42, 91]);
+        expect(getGoalProgress({ ...personalGoal, Progress: 10 })).toBe(67);
+        expect(setKeyResults(personalGoal, [{ ...keyResults[0], currentValue: 20 }]).Progress).toBe(100);
+    });
+
+    it("uses entered progress when goal has no valid key results", () => {
+        let personalGoal = createMockBackendData().personalGoals[1];
+
+        expect(getGoalProgress(personalGoal)).toBeNull();
+        expect(getGoalProgress({ ...personalGoal, Progress: 30, KeyResults: "not json" })).toBe(30);
+        expect(getKeyResultProgress({ keyResultId: "1", title: "Calls", targetValue: 0, currentValue: 5, unit: "" })).toBe(0);
+        expect(setKeyResults({ ...personalGoal, Progress: 30 }, []).KeyResults).toBeNull();
+    });
+});
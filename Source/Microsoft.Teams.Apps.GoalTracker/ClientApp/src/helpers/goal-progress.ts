@@ -0,0 +1,63 @@
+﻿// <copyright file="goal-progress.ts" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import { IKeyResult, IPersonalGoalDetail } from "../models/type";
+
+/**
+* Get key results of personal goal. Key results are stored as JSON, so goal without valid key results has none.
+* @param personalGoalDetail {Object} Personal goal detail.
+*/
+export const getKeyResults = (personalGoalDetail: IPersonalGoalDetail): IKeyResult[] => {
+    if (!personalGoalDetail.KeyResults) {
+        return [];
+    }
+
+    try {
+        let keyResults = JSON.parse(personalGoalDetail.KeyResults);
+        return Array.isArray(keyResults) ? keyResults : [];
+    }
+    catch (error) {
+        return [];
+    }
+}
+
+/**
+* Get percent of target value reached by key result, between 0 and 100.
+* @param keyResult {Object} Key result.
+*/
+export const getKeyResultProgress = (keyResult: IKeyResult): number => {
+    if (!(keyResult.targetValue > 0)) {
+        return 0;
+    }
+
+    return Math.round(Math.min(Math.max(keyResult.currentValue / keyResult.targetValue, 0), 1) * 100);
+}
+
+/**
+* Get progress of personal goal. Progress of goal with key results is average progress of its key results.
+* @param personalGoalDetail {Object} Personal goal detail.
+* @returns Percent complete, or null if user does not track progress of goal.
+*/
+export const getGoalProgress = (personalGoalDetail: IPersonalGoalDetail): number | null => {
+    let keyResults = getKeyResults(personalGoalDetail);
+    if (keyResults.length > 0) {
+        return Math.round(keyResults.reduce((progress, keyResult) => progress + getKeyResultProgress(keyResult), 0) / keyResults.length);
+    }
+
+    return personalGoalDetail.Progress === undefined ? null : personalGoalDetail.Progress;
+}
+
+/**
+* Get personal goal with given key results. Progress of goal is rolled up from key results.
+* @param personalGoalDetail {Object} Personal goal detail.
+* @param keyResults {Object[]} Key results of goal.
+*/
+export const setKeyResults = (personalGoalDetail: IPersonalGoalDetail, keyResults: IKeyResult[]): IPersonalGoalDetail => {
+    let goalDetail = { ...personalGoalDetail, KeyResults: keyResults.length > 0 ? JSON.stringify(keyResults) : null };
+    if (keyResults.length > 0) {
+        goalDetail.Progress = getGoalProgress(goalDetail);
+    }
+
+    return goalDetail;
+}
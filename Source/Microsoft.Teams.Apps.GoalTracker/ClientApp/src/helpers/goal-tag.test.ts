@@ -0,0 +1,34 @@
+﻿// <copyright file="goal-tag.test.ts" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import { addTag, getAvailableTags, getTags, groupGoalsByTag } from "./goal-tag";
+import { createMockBackendData } from "../mock/mock-data";
+import Constants from "../constants";
+
+describe("goal tag", () => {
+    it("ignores tags which are not valid", () => {
+        expect(getTags({ Tags: "not json" })).toEqual([]);
+        expect(getTags({ Tags: JSON.stringify([{ name: "Delivery", color: "pink" }, { name: "Learning", color: "green" }]) })).toEqual([{ name: "Learning", color: "green" }]);
+    });
+
+    it("keeps colour of tag already in use and does not add same tag twice", () => {
+        let availableTags = getAvailableTags(createMockBackendData().personalGoals);
+        let tags = addTag([], { name: " learning ", color: "red" }, availableTags);
+
+        expect(availableTags.map(tag => tag.name)).toEqual(["Delivery", "Learning"]);
+        expect(tags).toEqual([{ name: "Learning", color: "green" }]);
+        expect(addTag(tags, { name: "LEARNING", color: "blue" }, availableTags)).toBe(tags);
+        expect(addTag(tags, { name: "x".repeat(Constants.maxAllowedTagName + 5), color: "blue" }, availableTags)[1].name).toHaveLength(Constants.maxAllowedTagName);
+    });
+
+    it("groups goals by each of their tags with untagged goals last", () => {
+        let personalGoals = createMockBackendData().personalGoals.filter(goal => goal.IsActive);
+        personalGoals[0].Tags = JSON.stringify([{ name: "Delivery", color: "blue" }, { name: "Wellbeing", color: "teal" }]);
+        let groups = groupGoalsByTag(personalGoals);
+
+        expect(groups.map(group => group.tag ? group.tag.name : null)).toEqual(["Delivery", "Learning", "Wellbeing", null]);
+        expect(groups[2].goals.map(goal => goal.GoalName)).toEqual(["Publish weekly newsletter"]);
+        expect(groups[3].goals.map(goal => goal.GoalName)).toEqual(["Draft campaign landing page copy", "Mentor a new team member"]);
+    });
+});
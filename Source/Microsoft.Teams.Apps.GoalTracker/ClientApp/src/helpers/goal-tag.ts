@@ -0,0 +1,92 @@
+﻿// <copyright file="goal-tag.ts" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import Constants from "../constants";
+import { GoalTagColor, IGoalTag, IGoalTagGroup, IPersonalGoalDetail } from "../models/type";
+
+export const goalTagColors: GoalTagColor[] = ["blue", "green", "orange", "purple", "red", "teal", "gray"];
+
+/**
+* Get tags of goal or note. Tags are stored as JSON, so goal or note without valid tags has none.
+* @param entity {Object} Personal goal or note detail.
+*/
+export const getTags = (entity: { Tags?: string | null }): IGoalTag[] => {
+    if (!entity.Tags) {
+        return [];
+    }
+
+    try {
+        let tags = JSON.parse(entity.Tags);
+        return Array.isArray(tags) ? tags.filter(tag => tag && typeof tag.name === "string" && goalTagColors.indexOf(tag.color) !== -1) : [];
+    }
+    catch (error) {
+        return [];
+    }
+}
+
+/**
+* Get value of tags to be stored with goal or note.
+* @param tags {Object[]} Tags of goal or note.
+*/
+export const getTagsValue = (tags: IGoalTag[]): string | null => {
+    return tags.length > 0 ? JSON.stringify(tags) : null;
+}
+
+/**
+* Check if tags have same name. Tag names are compared ignoring case.
+* @param tag {Object} Tag.
+* @param otherTag {Object} Other tag.
+*/
+export const isSameTag = (tag: IGoalTag, otherTag: IGoalTag): boolean => {
+    return tag.name.localeCompare(otherTag.name, undefined, { sensitivity: "base" }) === 0;
+}
+
+/**
+* Get all tags used on goals or notes, sorted by name. Colour of tag is taken from its first use.
+* @param entities {Object[]} Personal goal or note details.
+*/
+export const getAvailableTags = (entities: { Tags?: string | null }[]): IGoalTag[] => {
+    let availableTags: IGoalTag[] = [];
+    entities.forEach(entity => getTags(entity).forEach(tag => {
+        if (!availableTags.some(availableTag => isSameTag(availableTag, tag))) {
+            availableTags.push(tag);
+        }
+    }));
+
+    return availableTags.sort((tag, otherTag) => tag.name.localeCompare(otherTag.name, undefined, { sensitivity: "base" }));
+}
+
+/**
+* Get tags with tag added. Tag which is already in use keeps its colour, so same tag looks same on all goals.
+* @param tags {Object[]} Current tags of goal or note.
+* @param tag {Object} Tag to add.
+* @param availableTags {Object[]} Tags already in use.
+* @returns Tags with tag added, or current tags if tag is empty, already added or maximum tags are added.
+*/
+export const addTag = (tags: IGoalTag[], tag: IGoalTag, availableTags: IGoalTag[]): IGoalTag[] => {
+    let newTag = { ...tag, name: tag.name.trim().slice(0, Constants.maxAllowedTagName) };
+    if (!newTag.name || tags.length >= Constants.maxAllowedTags || tags.some(existingTag => isSameTag(existingTag, newTag))) {
+        return tags;
+    }
+
+    return [...tags, availableTags.find(availableTag => isSameTag(availableTag, newTag)) || newTag];
+}
+
+/**
+* Group goals by their tags. Goal with more than one tag is shown in group of each tag, and goals without tags are grouped last.
+* @param personalGoalDetails {Object[]} Personal goals.
+*/
+export const groupGoalsByTag = (personalGoalDetails: IPersonalGoalDetail[]): IGoalTagGroup[] => {
+    let groups: IGoalTagGroup[] = getAvailableTags(personalGoalDetails).map(tag => ({
+        tag: tag,
+        goals: personalGoalDetails.filter(goal => getTags(goal).some(goalTag => isSameTag(goalTag, tag)))
+    }));
+
+    let untaggedGoals = personalGoalDetails.filter(goal => getTags(goal).length === 0);
+    if (untaggedGoals.length > 0) {
+        groups.push({ tag: null, goals: untaggedGoals });
+    }
+
+    return groups;
+}
@@ -0,0 +1,27 @@
+﻿// <copyright file="goal-template.test.ts" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import { getInsertableGoalTemplates } from "./goal-template";
+import { IGoalTemplate } from "../models/type";
+
+/**
+* Create goal template with given name.
+* @param goalName {String} Name of goal.
+*/
+const createGoalTemplate = (goalName: string): IGoalTemplate => ({ GoalTemplateId: goalName, GoalName: goalName, ReminderFrequency: 0 });
+
+describe("goal template", () => {
+    it("skips templates of goals already in list, ignoring case and whitespace", () => {
+        let goalTemplates = [createGoalTemplate("Mentor a colleague"), createGoalTemplate("Improve a team process"), createGoalTemplate(" improve a TEAM process ")];
+
+        expect(getInsertableGoalTemplates(goalTemplates, ["mentor a colleague "], 5).map(goalTemplate => goalTemplate.GoalName)).toEqual(["Improve a team process"]);
+    });
+
+    it("returns only as many templates as list has room for", () => {
+        let goalTemplates = [createGoalTemplate("Mentor a colleague"), createGoalTemplate("Improve a team process"), createGoalTemplate("Ship a feature end to end")];
+
+        expect(getInsertableGoalTemplates(goalTemplates, [], 2).map(goalTemplate => goalTemplate.GoalName)).toEqual(["Mentor a colleague", "Improve a team process"]);
+        expect(getInsertableGoalTemplates(goalTemplates, [], 0)).toEqual([]);
+    });
+});
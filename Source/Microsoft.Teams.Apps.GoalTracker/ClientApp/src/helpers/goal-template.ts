@@ -0,0 +1,55 @@
+﻿// <copyright file="goal-template.ts" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import { IGoalTemplate } from "../models/type";
+
+/** Goal templates offered to every user. Name and description of each template are localized by its key. */
+const curatedGoalTemplates = [
+    { key: "Certification", reminderFrequency: 2 },
+    { key: "CustomerSatisfaction", reminderFrequency: 1 },
+    { key: "Mentoring", reminderFrequency: 1 },
+    { key: "ShipFeature", reminderFrequency: 0 },
+    { key: "KnowledgeSharing", reminderFrequency: 2 },
+    { key: "ProcessImprovement", reminderFrequency: 3 },
+];
+
+/**
+* Get goal templates offered to every user, in language of user.
+* @param t {Function} Function to localize text.
+*/
+export const getCuratedGoalTemplates = (t: any): IGoalTemplate[] => {
+    return curatedGoalTemplates.map(goalTemplate => ({
+        GoalTemplateId: `curated-${goalTemplate.key}`,
+        GoalName: t(`curatedGoalTemplate${goalTemplate.key}Name`),
+        Description: t(`curatedGoalTemplate${goalTemplate.key}Description`),
+        ReminderFrequency: goalTemplate.reminderFrequency,
+    }));
+}
+
+/**
+* Check if goal names are same. Names are compared ignoring case and surrounding whitespace.
+* @param goalName {String} Name of goal.
+* @param otherGoalName {String} Name of other goal.
+*/
+export const isSameGoalName = (goalName: string, otherGoalName: string): boolean => {
+    return goalName.trim().toLowerCase() === otherGoalName.trim().toLowerCase();
+}
+
+/**
+* Get templates which can be added to goal list. Templates of goals already in list are skipped, and only as many templates as list has room for are returned.
+* @param goalTemplates {Object[]} Templates chosen by user.
+* @param goalNames {String[]} Names of goals already in list.
+* @param maxGoalsCount {Number} Number of goals which can still be added to list.
+*/
+export const getInsertableGoalTemplates = (goalTemplates: IGoalTemplate[], goalNames: string[], maxGoalsCount: number): IGoalTemplate[] => {
+    let insertableGoalTemplates: IGoalTemplate[] = [];
+    goalTemplates.forEach(goalTemplate => {
+        let isGoalInList = goalNames.concat(insertableGoalTemplates.map(template => template.GoalName)).some(goalName => isSameGoalName(goalName, goalTemplate.GoalName));
+        if (!isGoalInList && insertableGoalTemplates.length < maxGoalsCount) {
+            insertableGoalTemplates.push(goalTemplate);
+        }
+    });
+
+    return insertableGoalTemplates;
+}
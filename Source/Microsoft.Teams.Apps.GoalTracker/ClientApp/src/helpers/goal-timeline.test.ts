@@ -0,0 +1,41 @@
+﻿// <copyright file="goal-timeline.test.ts" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import moment from "moment";
+import { createTimelineItems, getGoalCycleEndDate, getTimelineScale, getTimelineOffset } from "./goal-timeline";
+import { createMockBackendData } from "../mock/mock-data";
+import Constants from "../constants";
+
+describe("goal timeline", () => {
+    it("creates items of personal goals with notes as milestones, followed by aligned team goals", () => {
+        let data = createMockBackendData();
+        let personalGoals = data.personalGoals.filter(goal => goal.IsActive);
+        let items = createTimelineItems(personalGoals, data.teamGoals, data.personalGoalNotes);
+
+        expect(items.map(item => item.title)).toEqual(personalGoals.map(goal => goal.GoalName).concat([data.teamGoals[0].TeamGoalName, data.teamGoals[1].TeamGoalName]));
+        expect(items[0].milestones.map(milestone => milestone.title)).toEqual(["Sent issue #12, open rate was 41%.", "Added a reader survey section."]);
+        expect(items.filter(item => item.isTeamGoal).every(item => item.milestones.length === 0)).toBe(true);
+        expect(items[0].endDate).toBe(moment(personalGoals[0].EndDate, Constants.dateTimeOffsetFormat).format(Constants.dateComparisonFormat));
+        expect(createTimelineItems(personalGoals.filter(goal => !goal.IsAligned), data.teamGoals, [])).toHaveLength(2);
+    });
+
+    it("reads goal cycle end date from UTC end date of goals", () => {
+        let personalGoal = createMockBackendData().personalGoals[0];
+
+        expect(getGoalCycleEndDate([personalGoal])).toBe(moment(personalGoal.EndDateUTC, Constants.utcDateFormat).format(Constants.dateComparisonFormat));
+        expect(getGoalCycleEndDate([])).toBeNull();
+    });
+
+    it("covers whole weeks or months of items and positions dates by day", () => {
+        let item = { key: "1", title: "Goal", startDate: "2026-03-04", endDate: "2026-04-10", isTeamGoal: false, milestones: [] };
+        let monthScale = getTimelineScale([item], "month", ["2026-05-02"]);
+        let weekScale = getTimelineScale([item], "week", []);
+
+        expect(monthScale.columns.map(column => column.label)).toEqual(["March 2026", "April 2026", "May 2026"]);
+        expect(monthScale.width).toBe((31 + 30 + 31) * Constants.timelineMonthZoomDayWidth);
+        expect(getTimelineOffset(monthScale, "2026-04-01")).toBe(31 * Constants.timelineMonthZoomDayWidth);
+        expect(weekScale.startDate).toBe(moment("2026-03-04").startOf("week").format(Constants.dateComparisonFormat));
+        expect(weekScale.columns.every(column => column.width === 7 * Constants.timelineWeekZoomDayWidth)).toBe(true);
+    });
+});
@@ -0,0 +1,112 @@
+﻿// <copyright file="goal-timeline.ts" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import moment from "moment";
+import { IPersonalGoalDetail, IPersonalGoalNoteDetail, ITeamGoalDetail, ITimelineColumn, ITimelineItem, ITimelineScale, TimelineZoom } from "../models/type";
+import { getNotePlainText } from "./note-markdown";
+import Constants from "../constants";
+
+/**
+* Get date of timeline from date of goal, which is stored with offset.
+* @param date {String} Date of goal.
+*/
+const getTimelineDate = (date: string): string => {
+    return moment(date, Constants.dateTimeOffsetFormat).format(Constants.dateComparisonFormat);
+}
+
+/**
+* Create timeline items of personal goals followed by team goals they are aligned with. Notes of personal goal are its milestones.
+* @param personalGoalDetails {Object[]} Personal goal details.
+* @param teamGoalDetails {Object[]} Team goal details of teams personal goals are aligned in.
+* @param personalGoalNoteDetails {Object[]} Notes of personal goals.
+*/
+export const createTimelineItems = (personalGoalDetails: IPersonalGoalDetail[], teamGoalDetails: ITeamGoalDetail[], personalGoalNoteDetails: IPersonalGoalNoteDetail[]): ITimelineItem[] => {
+    let personalGoalItems: ITimelineItem[] = personalGoalDetails.map(goalDetail => ({
+        key: goalDetail.PersonalGoalId,
+        title: goalDetail.GoalName,
+        startDate: getTimelineDate(goalDetail.StartDate),
+        endDate: getTimelineDate(goalDetail.EndDate),
+        isTeamGoal: false,
+        status: goalDetail.Status,
+        milestones: personalGoalNoteDetails
+            .filter(noteDetail => noteDetail.PersonalGoalId === goalDetail.PersonalGoalId)
+            .sort((noteDetail, otherNoteDetail) => moment(noteDetail.CreatedOn).diff(moment(otherNoteDetail.CreatedOn)))
+            .map(noteDetail => ({ key: noteDetail.PersonalGoalNoteId, title: getNotePlainText(noteDetail.PersonalGoalNoteDescription), date: noteDetail.CreatedOn })),
+    }));
+
+    let alignedTeamGoalIds: string[] = [];
+    personalGoalDetails.forEach((goalDetail) => {
+        if (goalDetail.IsAligned) {
+            goalDetail.TeamGoalId?.split(",").forEach(teamGoalId => alignedTeamGoalIds.push(teamGoalId));
+        }
+    });
+
+    let teamGoalItems: ITimelineItem[] = teamGoalDetails
+        .filter(teamGoalDetail => alignedTeamGoalIds.indexOf(teamGoalDetail.TeamGoalId) !== -1)
+        .map(teamGoalDetail => ({
+            key: teamGoalDetail.TeamGoalId,
+            title: teamGoalDetail.TeamGoalName,
+            startDate: getTimelineDate(teamGoalDetail.TeamGoalStartDate),
+            endDate: getTimelineDate(teamGoalDetail.TeamGoalEndDate),
+            isTeamGoal: true,
+            milestones: [],
+        }));
+
+    return personalGoalItems.concat(teamGoalItems);
+}
+
+/**
+* Get end date of goal cycle from UTC end date of its personal goals.
+* @param personalGoalDetails {Object[]} Personal goal details of goal cycle.
+* @returns End date of goal cycle, or null if there are no goals.
+*/
+export const getGoalCycleEndDate = (personalGoalDetails: IPersonalGoalDetail[]): string | null => {
+    let goalDetail = personalGoalDetails.find(goalDetail => goalDetail.EndDateUTC);
+    return goalDetail ? moment(goalDetail.EndDateUTC, Constants.utcDateFormat).format(Constants.dateComparisonFormat) : null;
+}
+
+/**
+* Get scale of timeline covering all items and marked dates. Timeline starts and ends at full week or month depending on zoom.
+* @param items {Object[]} Timeline items.
+* @param zoom {String} Zoom level of timeline.
+* @param markedDates {String[]} Dates marked on timeline, like today.
+*/
+export const getTimelineScale = (items: ITimelineItem[], zoom: TimelineZoom, markedDates: string[]): ITimelineScale => {
+    let dates = markedDates.map(date => moment(date));
+    items.forEach((item) => {
+        dates.push(moment(item.startDate), moment(item.endDate));
+        item.milestones.forEach(milestone => dates.push(moment(milestone.date)));
+    });
+
+    let startDate = moment.min(dates).startOf(zoom);
+    let endDate = moment.max(dates).endOf(zoom);
+    let dayWidth = zoom === "week" ? Constants.timelineWeekZoomDayWidth : Constants.timelineMonthZoomDayWidth;
+    let columns: ITimelineColumn[] = [];
+    for (let columnDate = moment(startDate); columnDate.isBefore(endDate); columnDate.add(1, zoom)) {
+        let columnEndDate = moment(columnDate).add(1, zoom);
+        columns.push({
+            key: columnDate.format(Constants.dateComparisonFormat),
+            label: columnDate.format(zoom === "week" ? Constants.timelineWeekFormat : Constants.timelineMonthFormat),
+            offset: columnDate.diff(startDate, "days") * dayWidth,
+            width: columnEndDate.diff(columnDate, "days") * dayWidth,
+        });
+    }
+
+    return {
+        startDate: startDate.format(Constants.dateComparisonFormat),
+        dayWidth: dayWidth,
+        width: columns.reduce((width, column) => width + column.width, 0),
+        columns: columns,
+    };
+}
+
+/**
+* Get horizontal position of start of day on timeline.
+* @param scale {Object} Scale of timeline.
+* @param date {String} Date to position.
+* @returns Offset from start of timeline in pixels.
+*/
+export const getTimelineOffset = (scale: ITimelineScale, date: string): number => {
+    return moment(date).startOf("day").diff(moment(scale.startDate, Constants.dateComparisonFormat), "days") * scale.dayWidth;
+}
@@ -0,0 +1,47 @@
+﻿// <copyright file="new-goal.test.ts" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import { TFunction } from "i18next";
+import { createNewGoal, addGoalTemplatesToNewGoals, addImportedGoalsToNewGoals, applyImportedGoalCycleDates } from "./new-goal";
+import Constants from "../constants";
+import { INewGoalHandlers } from "../models/type";
+
+const handlers: INewGoalHandlers = { localize: ((key: string) => key) as TFunction, onRemove: jest.fn(), onNameChange: jest.fn() };
+
+describe("new goal", () => {
+    it("adds goals from templates and suggests reminder frequency only for empty list", () => {
+        let goalTemplates = [
+            { GoalTemplateId: "1", GoalName: "Mentor a colleague", Description: "Pair weekly", ReminderFrequency: 2 },
+            { GoalTemplateId: "2", GoalName: "Ship a feature", ReminderFrequency: 0 },
+        ];
+
+        let result = addGoalTemplatesToNewGoals([], goalTemplates, handlers);
+        expect(result.newGoals.map(goal => [goal.goalName, goal.description])).toEqual([["Mentor a colleague", "Pair weekly"], ["Ship a feature", undefined]]);
+        expect(result.reminderFrequency).toBe(2);
+        expect(addGoalTemplatesToNewGoals([createNewGoal("Ship a feature", handlers)], goalTemplates, handlers).reminderFrequency).toBeNull();
+    });
+
+    it("adds only as many imported goals as list has room for", () => {
+        let newGoals = [createNewGoal("Write blog post", handlers)];
+        let importedGoals = Array.from({ length: Constants.maxAllowedGoals }, (value, index) => ({ goalName: `Goal ${index}`, startDate: null, endDate: null, hasInvalidDates: false }));
+
+        expect(addImportedGoalsToNewGoals(newGoals, importedGoals, handlers)).toHaveLength(Constants.maxAllowedGoals);
+        expect(newGoals).toHaveLength(1);
+    });
+
+    it("sets goal cycle dates from imported goals only when dates are not picked", () => {
+        let importedGoals = [
+            { goalName: "Ship a feature", startDate: new Date(2026, 1, 10), endDate: new Date(2026, 2, 1), hasInvalidDates: false },
+            { goalName: "Mentor a colleague", startDate: new Date(2026, 1, 1), endDate: new Date(2026, 3, 30), hasInvalidDates: false },
+        ];
+        let onStartDateChange = jest.fn();
+        let onEndDateChange = jest.fn();
+
+        applyImportedGoalCycleDates(importedGoals, "", "", onStartDateChange, onEndDateChange);
+        applyImportedGoalCycleDates(importedGoals, new Date(2026, 0, 1).toString(), "", onStartDateChange, onEndDateChange);
+
+        expect(onStartDateChange.mock.calls).toEqual([[new Date(2026, 1, 1)]]);
+        expect(onEndDateChange.mock.calls).toEqual([[new Date(2026, 3, 30)]]);
+    });
+});
@@ -0,0 +1,75 @@
+﻿// <copyright file="new-goal.tsx" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import * as React from "react";
+import { Input } from "@fluentui/react-northstar";
+import { CloseIcon } from "@fluentui/react-icons-northstar";
+import { Guid } from "guid-typescript";
+import { getInsertableGoalTemplates } from "./goal-template";
+import { getImportedGoalCycleDates } from "./goal-import";
+import Constants from "../constants";
+import { IAddNewGoal, IGoalTemplate, IImportedGoal, INewGoalHandlers } from "../models/type";
+
+/**
+* Create goal of set goals list, having input to rename goal and button to remove it.
+* @param goalName {String} Name of goal.
+* @param handlers {Object} Translation function and handlers of goal input.
+* @param goalDetails {Object} Other details of goal, e.g. description or tags.
+*/
+export const createNewGoal = (goalName: string, handlers: INewGoalHandlers, goalDetails?: Partial<IAddNewGoal>): IAddNewGoal => {
+    let goalId = Guid.create().toString();
+    return {
+        ...goalDetails,
+        key: goalId,
+        header: <Input fluid className="add-goals-input" icon={<CloseIcon outline className="remove-goal-button " aria-label={handlers.localize("removeGoalIcon")} title="Close" onClick={event => handlers.onRemove(goalId)} />} aria-label={handlers.localize("addGoalPlaceHolder")} placeholder={handlers.localize("addGoalPlaceHolder")} value={goalName} title={goalName} maxLength={Constants.maxAllowedGoalName} onChange={event => handlers.onNameChange(goalId, event)} />,
+        goalName: goalName,
+    };
+}
+
+/**
+* Add goals from templates selected by user to set goals list. Templates of goals already in list are skipped.
+* @param newGoals {Object[]} Goals already in list.
+* @param goalTemplates {Object[]} Templates selected by user.
+* @param handlers {Object} Translation function and handlers of goal input.
+* @returns Goal list with added goals, and reminder frequency suggested by first template if list was empty.
+*/
+export const addGoalTemplatesToNewGoals = (newGoals: IAddNewGoal[], goalTemplates: IGoalTemplate[], handlers: INewGoalHandlers): { newGoals: IAddNewGoal[], reminderFrequency: number | null } => {
+    let insertableGoalTemplates = getInsertableGoalTemplates(goalTemplates, newGoals.map(goal => goal.goalName), Constants.maxAllowedGoals - newGoals.length);
+    return {
+        newGoals: newGoals.concat(insertableGoalTemplates.map(goalTemplate => createNewGoal(goalTemplate.GoalName, handlers, { description: goalTemplate.Description }))),
+        reminderFrequency: newGoals.length === 0 && insertableGoalTemplates.length > 0 ? insertableGoalTemplates[0].ReminderFrequency : null,
+    };
+}
+
+/**
+* Add pasted or imported goals to set goals list, as many as list has room for.
+* @param newGoals {Object[]} Goals already in list.
+* @param importedGoals {Object[]} Goals pasted or imported by user.
+* @param handlers {Object} Translation function and handlers of goal input.
+*/
+export const addImportedGoalsToNewGoals = (newGoals: IAddNewGoal[], importedGoals: IImportedGoal[], handlers: INewGoalHandlers): IAddNewGoal[] => {
+    return newGoals.concat(importedGoals.slice(0, Constants.maxAllowedGoals - newGoals.length).map(importedGoal => createNewGoal(importedGoal.goalName, handlers)));
+}
+
+/**
+* Set goal cycle covering dates of imported goals, if user has not picked goal cycle dates yet.
+* @param importedGoals {Object[]} Goals pasted or imported by user.
+* @param startDate {String} Start date picked by user.
+* @param endDate {String} End date picked by user.
+* @param onStartDateChange {Function} Sets start date of goal cycle.
+* @param onEndDateChange {Function} Sets end date of goal cycle.
+*/
+export const applyImportedGoalCycleDates = (importedGoals: IImportedGoal[], startDate: string, endDate: string, onStartDateChange: (date: Date) => void, onEndDateChange: (date: Date) => void) => {
+    if (startDate || endDate) {
+        return;
+    }
+
+    let goalCycleDates = getImportedGoalCycleDates(importedGoals);
+    if (goalCycleDates.startDate) {
+        onStartDateChange(goalCycleDates.startDate);
+    }
+    if (goalCycleDates.endDate) {
+        onEndDateChange(goalCycleDates.endDate);
+    }
+}
@@ -0,0 +1,37 @@
+﻿// <copyright file="note-markdown.test.ts" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import { TFunction } from "i18next";
+import { parseNoteMarkdown, parseNoteInlines, toggleNoteChecklistItem, applyNoteMarkdownFormat, getNotePlainText } from "./note-markdown";
+
+const localize = ((key: string) => `<${key}>`) as TFunction;
+
+describe("note markdown", () => {
+    it("groups lines into paragraphs, lists and checklists", () => {
+        let blocks = parseNoteMarkdown("Weekly sync\nwith **design**\n\n- draft\n- review\n1. send\n- [x] book room\n- [ ] share agenda");
+
+        expect(blocks.map(block => block.type)).toEqual(["paragraph", "bulletList", "numberedList", "checklist"]);
+        expect(blocks[0].items[1].inlines).toEqual([{ type: "text", text: "with " }, { type: "bold", text: "design" }]);
+        expect(blocks[3].items.map(item => [item.lineIndex, item.isChecked])).toEqual([[6, true], [7, false]]);
+        expect(getNotePlainText("**Sent** issue\n- [ ] follow up")).toBe("Sent issue follow up");
+    });
+
+    it("keeps links which could run scripts as plain text", () => {
+        expect(parseNoteInlines("[report](https://contoso.com/q3) and *later*")).toEqual([
+            { type: "link", text: "report", url: "https://contoso.com/q3" },
+            { type: "text", text: " and " },
+            { type: "italic", text: "later" },
+        ]);
+        expect(parseNoteInlines("[click](javascript:alert(1))")[0].type).toBe("text");
+        expect(parseNoteInlines("<img src=x onerror=alert(1)>")).toEqual([{ type: "text", text: "<img src=x onerror=alert(1)>" }]);
+    });
+
+    it("ticks checklist item and formats selected text", () => {
+        expect(toggleNoteChecklistItem("Plan\n- [ ] book room\n- [x] agenda", 1)).toBe("Plan\n- [x] book room\n- [x] agenda");
+        expect(toggleNoteChecklistItem("Plan", 0)).toBe("Plan");
+        expect(applyNoteMarkdownFormat("Send report", 5, 11, "bold", localize)).toEqual({ text: "Send **report**", selectionStart: 7, selectionEnd: 13 });
+        expect(applyNoteMarkdownFormat("book room\nagenda", 2, 12, "checklist", localize).text).toBe("- [ ] book room\n- [ ] agenda");
+        expect(applyNoteMarkdownFormat("See ", 4, 4, "link", localize)).toEqual({ text: "See [<linkPlaceholderText>](https://)", selectionStart: 5, selectionEnd: 26 });
+    });
+});
@@ -0,0 +1,159 @@
+﻿// <copyright file="note-markdown.ts" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import { TFunction } from "i18next";
+import { INoteBlock, INoteBlockItem, INoteInline, INoteMarkdownEdit, NoteBlockType, NoteMarkdownFormat } from "../models/type";
+
+const checklistItemPattern = /^\s*[-*] \[( |x|X)\] ?(.*)$/;
+const bulletListItemPattern = /^\s*[-*] (.*)$/;
+const numberedListItemPattern = /^\s*\d+[.)] (.*)$/;
+const inlinePattern = /\*\*(.+?)\*\*|\[([^\]]+)\]\(([^)\s]+)\)|\*([^*\s](?:[^*]*[^*\s])?)\*|_([^_\s](?:[^_]*[^_\s])?)_/g;
+const safeLinkPattern = /^(https?:\/\/|mailto:)[^\s<>"']+$/i;
+
+/**
+* Get link URL if it can be opened safely. Only web and mail links are allowed, so scripts cannot be run from note.
+* @param url {String} URL written in note.
+* @returns URL, or null if link is not allowed.
+*/
+export const getSafeLinkUrl = (url: string): string | null => {
+    return safeLinkPattern.test(url) ? url : null;
+}
+
+/**
+* Split text of one line into plain, bold, italic and link parts. Links which are not allowed are kept as plain text.
+* @param text {String} Text of line.
+*/
+export const parseNoteInlines = (text: string): INoteInline[] => {
+    let inlines: INoteInline[] = [];
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+    let addText = (value: string) => {
+        if (value) {
+            inlines.push({ type: "text", text: value });
+        }
+    };
+
+    inlinePattern.lastIndex = 0;
+    while ((match = inlinePattern.exec(text)) !== null) {
+        addText(text.slice(lastIndex, match.index));
+        if (match[1] !== undefined) {
+            inlines.push({ type: "bold", text: match[1] });
+        }
+        else if (match[2] !== undefined) {
+            let url = getSafeLinkUrl(match[3]);
+            inlines.push(url ? { type: "link", text: match[2], url: url } : { type: "text", text: match[0] });
+        }
+        else {
+            inlines.push({ type: "italic", text: match[4] !== undefined ? match[4] : match[5] });
+        }
+
+        lastIndex = inlinePattern.lastIndex;
+    }
+
+    addText(text.slice(lastIndex));
+    return inlines;
+}
+
+/**
+* Parse markdown of note into paragraphs, bullet lists, numbered lists and checklists.
+* Consecutive lines of same kind form one block, and empty line ends paragraph.
+* @param description {String} Note description written in markdown.
+*/
+export const parseNoteMarkdown = (description: string): INoteBlock[] => {
+    let blocks: INoteBlock[] = [];
+    let addItem = (type: NoteBlockType, item: INoteBlockItem) => {
+        let lastBlock = blocks[blocks.length - 1];
+        if (lastBlock && lastBlock.type === type) {
+            lastBlock.items.push(item);
+        }
+        else {
+            blocks.push({ type: type, items: [item] });
+        }
+    };
+
+    (description || "").split(/\r?\n/).forEach((line, lineIndex) => {
+        let checklistItem = line.match(checklistItemPattern);
+        let bulletListItem = line.match(bulletListItemPattern);
+        let numberedListItem = line.match(numberedListItemPattern);
+        if (checklistItem) {
+            addItem("checklist", { lineIndex: lineIndex, inlines: parseNoteInlines(checklistItem[2]), isChecked: checklistItem[1] !== " " });
+        }
+        else if (bulletListItem) {
+            addItem("bulletList", { lineIndex: lineIndex, inlines: parseNoteInlines(bulletListItem[1]) });
+        }
+        else if (numberedListItem) {
+            addItem("numberedList", { lineIndex: lineIndex, inlines: parseNoteInlines(numberedListItem[1]) });
+        }
+        else if (!line.trim()) {
+            // Empty line ends current block, so next line starts new paragraph.
+            blocks.push({ type: "paragraph", items: [] });
+        }
+        else {
+            addItem("paragraph", { lineIndex: lineIndex, inlines: parseNoteInlines(line) });
+        }
+    });
+
+    return blocks.filter(block => block.items.length > 0);
+}
+
+/**
+* Get text of note without markdown, for places where note is shown as plain text.
+* @param description {String} Note description written in markdown.
+*/
+export const getNotePlainText = (description: string): string => {
+    return parseNoteMarkdown(description)
+        .map(block => block.items.map(item => item.inlines.map(inline => inline.text).join("")).join(" "))
+        .join(" ");
+}
+
+/**
+* Tick or untick checklist item of note.
+* @param description {String} Note description written in markdown.
+* @param lineIndex {Number} Index of line having checklist item.
+* @returns Note description with changed checklist item.
+*/
+export const toggleNoteChecklistItem = (description: string, lineIndex: number): string => {
+    let lines = description.split(/\r?\n/);
+    let checklistItem = lines[lineIndex] !== undefined ? lines[lineIndex].match(checklistItemPattern) : null;
+    if (!checklistItem) {
+        return description;
+    }
+
+    lines[lineIndex] = lines[lineIndex].replace(/\[( |x|X)\]/, checklistItem[1] === " " ? "[x]" : "[ ]");
+    return lines.join("\n");
+}
+
+/**
+* Apply formatting to selected text of note editor. Lists are applied to every selected line, other formats wrap selection.
+* @param text {String} Text of note editor.
+* @param selectionStart {Number} Start of selection.
+* @param selectionEnd {Number} End of selection.
+* @param format {String} Formatting to be applied.
+* @param localize {Function} Translation function, used for placeholder inserted when no text is selected.
+* @returns Changed text and selection placed on text user is likely to replace.
+*/
+export const applyNoteMarkdownFormat = (text: string, selectionStart: number, selectionEnd: number, format: NoteMarkdownFormat, localize: TFunction): INoteMarkdownEdit => {
+    let selectedText = text.slice(selectionStart, selectionEnd);
+    if (format === "bulletList" || format === "checklist") {
+        let lineStart = text.lastIndexOf("\n", selectionStart - 1) + 1;
+        let prefix = format === "checklist" ? "- [ ] " : "- ";
+        let lines = text.slice(lineStart, selectionEnd).split("\n").map(line => bulletListItemPattern.test(line) ? line : prefix + line);
+        let changedText = lines.join("\n");
+        return {
+            text: text.slice(0, lineStart) + changedText + text.slice(selectionEnd),
+            selectionStart: lineStart + changedText.length,
+            selectionEnd: lineStart + changedText.length
+        };
+    }
+
+    let [before, placeholder, after] = format === "bold" ? ["**", localize("boldPlaceholderText"), "**"]
+        : format === "italic" ? ["*", localize("italicPlaceholderText"), "*"]
+        : ["[", localize("linkPlaceholderText"), "](https://)"];
+    let content = selectedText || placeholder;
+    return {
+        text: text.slice(0, selectionStart) + before + content + after + text.slice(selectionEnd),
+        selectionStart: selectionStart + before.length,
+        selectionEnd: selectionStart + before.length + content.length
+    };
+}
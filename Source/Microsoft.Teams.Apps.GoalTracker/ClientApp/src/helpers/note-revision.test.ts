@@ -0,0 +1,42 @@
+﻿// <copyright file="note-revision.test.ts" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import { addNoteRevision, getNoteHistory, getNoteRevisions, getNoteWordDiff } from "./note-revision";
+import { createMockBackendData } from "../mock/mock-data";
+import Constants from "../constants";
+
+describe("note revision", () => {
+    it("shows added and removed words between two descriptions", () => {
+        let parts = getNoteWordDiff("Sent issue #12 to readers.", "Sent issue #13 to all readers.");
+
+        expect(parts).toEqual([
+            { type: "unchanged", text: "Sent issue " },
+            { type: "removed", text: "#12" },
+            { type: "added", text: "#13" },
+            { type: "unchanged", text: " to " },
+            { type: "added", text: "all " },
+            { type: "unchanged", text: "readers." },
+        ]);
+    });
+
+    it("adds stored description as revision only when description is changed", () => {
+        let storedNote = createMockBackendData().personalGoalNotes[0];
+        let unchangedNote = addNoteRevision(storedNote, { ...storedNote, Revisions: "[]" });
+        let changedNote = addNoteRevision(storedNote, { ...storedNote, PersonalGoalNoteDescription: "Changed text" });
+
+        expect(getNoteRevisions(unchangedNote)).toEqual([]);
+        expect(getNoteRevisions(changedNote).map(revision => revision.description)).toEqual([storedNote.PersonalGoalNoteDescription]);
+        expect(getNoteHistory(changedNote).map(revision => revision.description)).toEqual([storedNote.PersonalGoalNoteDescription, "Changed text"]);
+    });
+
+    it("keeps only latest revisions", () => {
+        let note = createMockBackendData().personalGoalNotes[0];
+        for (let index = 0; index <= Constants.maxNoteRevisions; index++) {
+            note = addNoteRevision(note, { ...note, PersonalGoalNoteDescription: `Text ${index}` });
+        }
+
+        expect(getNoteRevisions(note)).toHaveLength(Constants.maxNoteRevisions);
+        expect(getNoteRevisions(note)[0].description).toBe("Text 0");
+    });
+});
@@ -0,0 +1,113 @@
+﻿// <copyright file="note-revision.ts" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import Constants from "../constants";
+import { INoteDiffPart, INoteRevision, IPersonalGoalNoteDetail, NoteDiffPartType } from "../models/type";
+
+/**
+* Get earlier revisions of note, oldest first. Revisions are stored as JSON, so note without valid revisions has none.
+* @param noteDetail {Object} Personal goal note detail.
+*/
+export const getNoteRevisions = (noteDetail: IPersonalGoalNoteDetail): INoteRevision[] => {
+    if (!noteDetail.Revisions) {
+        return [];
+    }
+
+    try {
+        let revisions = JSON.parse(noteDetail.Revisions);
+        return Array.isArray(revisions) ? revisions : [];
+    }
+    catch (error) {
+        return [];
+    }
+}
+
+/**
+* Get all revisions of note, oldest first, ending with its current description.
+* @param noteDetail {Object} Personal goal note detail.
+*/
+export const getNoteHistory = (noteDetail: IPersonalGoalNoteDetail): INoteRevision[] => {
+    return [
+        ...getNoteRevisions(noteDetail),
+        {
+            description: noteDetail.PersonalGoalNoteDescription,
+            modifiedOn: noteDetail.LastModifiedOn || noteDetail.CreatedOn,
+            modifiedBy: noteDetail.LastModifiedBy || noteDetail.CreatedBy
+        }
+    ];
+}
+
+/**
+* Get note with stored note description added as its latest revision, same as service does when edited note is saved.
+* @param storedNoteDetail {Object} Note detail in storage.
+* @param noteDetail {Object} Note detail received from user.
+*/
+export const addNoteRevision = (storedNoteDetail: IPersonalGoalNoteDetail, noteDetail: IPersonalGoalNoteDetail): IPersonalGoalNoteDetail => {
+    let revisions = getNoteRevisions(storedNoteDetail);
+    if (storedNoteDetail.PersonalGoalNoteDescription === noteDetail.PersonalGoalNoteDescription) {
+        return { ...noteDetail, Revisions: storedNoteDetail.Revisions };
+    }
+
+    revisions.push(getNoteHistory(storedNoteDetail)[revisions.length]);
+    return { ...noteDetail, Revisions: JSON.stringify(revisions.slice(-Constants.maxNoteRevisions)) };
+}
+
+/**
+* Get word level differences between two note descriptions. Words and whitespace are compared as they are, so changed spacing is shown too.
+* @param oldText {String} Earlier description.
+* @param newText {String} Later description.
+* @returns Parts of both descriptions in order, each unchanged, added to or removed from earlier description.
+*/
+export const getNoteWordDiff = (oldText: string, newText: string): INoteDiffPart[] => {
+    let oldWords = oldText.split(/(\s+)/).filter(word => word);
+    let newWords = newText.split(/(\s+)/).filter(word => word);
+
+    // Length of longest common subsequence of words from each position till end of both descriptions.
+    let commonLengths: number[][] = [];
+    for (let oldIndex = oldWords.length; oldIndex >= 0; oldIndex--) {
+        commonLengths[oldIndex] = [];
+        for (let newIndex = newWords.length; newIndex >= 0; newIndex--) {
+            if (oldIndex === oldWords.length || newIndex === newWords.length) {
+                commonLengths[oldIndex][newIndex] = 0;
+            }
+            else if (oldWords[oldIndex] === newWords[newIndex]) {
+                commonLengths[oldIndex][newIndex] = commonLengths[oldIndex + 1][newIndex + 1] + 1;
+            }
+            else {
+                commonLengths[oldIndex][newIndex] = Math.max(commonLengths[oldIndex + 1][newIndex], commonLengths[oldIndex][newIndex + 1]);
+            }
+        }
+    }
+
+    let parts: INoteDiffPart[] = [];
+    let addPart = (type: NoteDiffPartType, text: string) => {
+        let lastPart = parts[parts.length - 1];
+        if (lastPart && lastPart.type === type) {
+            lastPart.text += text;
+        }
+        else {
+            parts.push({ type: type, text: text });
+        }
+    };
+
+    let oldIndex = 0;
+    let newIndex = 0;
+    while (oldIndex < oldWords.length || newIndex < newWords.length) {
+        if (oldIndex < oldWords.length && newIndex < newWords.length && oldWords[oldIndex] === newWords[newIndex]) {
+            addPart("unchanged", oldWords[oldIndex]);
+            oldIndex++;
+            newIndex++;
+        }
+        else if (newIndex === newWords.length || (oldIndex < oldWords.length && commonLengths[oldIndex + 1][newIndex] >= commonLengths[oldIndex][newIndex + 1])) {
+            addPart("removed", oldWords[oldIndex]);
+            oldIndex++;
+        }
+        else {
+            addPart("added", newWords[newIndex]);
+            newIndex++;
+        }
+    }
+
+    return parts;
+}
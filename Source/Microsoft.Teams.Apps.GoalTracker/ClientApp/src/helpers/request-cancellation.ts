@@ -0,0 +1,68 @@
+﻿// <copyright file="request-cancellation.ts" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import { useEffect, useMemo } from "react";
+import * as microsoftTeams from "@microsoft/teams-js";
+import { ApiResult, IApiFailureResult, IRequestCanceller } from "../models/type";
+
+let activeControllers: AbortController[] = [];
+
+/**
+* Create canceller for requests sent by a component. Signal is passed to API calls and cancel is called when component unmounts.
+*/
+export const createRequestCanceller = (): IRequestCanceller => {
+    let controller = new AbortController();
+    activeControllers.push(controller);
+
+    return {
+        signal: controller.signal,
+        cancel: () => {
+            activeControllers = activeControllers.filter(activeController => activeController !== controller);
+            controller.abort();
+        },
+    };
+}
+
+/**
+* Hook providing abort signal for requests sent by function component. Requests are cancelled when component unmounts.
+*/
+export const useRequestCanceller = (): AbortSignal => {
+    const requestCanceller = useMemo(() => createRequestCanceller(), []);
+    useEffect(() => requestCanceller.cancel, [requestCanceller]);
+
+    return requestCanceller.signal;
+}
+
+/**
+* Cancel all in-flight requests and close task module. Responses are not needed once task module is closed.
+* @param result {Object | String} Result to be sent to bot or tab.
+*/
+export const submitTask = (result?: string | object) => {
+    let controllers = activeControllers;
+    activeControllers = [];
+    controllers.forEach(controller => controller.abort());
+
+    microsoftTeams.tasks.submitTask(result);
+}
+
+/**
+* Check if API call failed because request was cancelled.
+* @param result {Object} Result of API call.
+*/
+export const isRequestCancelled = (result: ApiResult<any>) => {
+    return !result.isSuccess && result.errorCode === "cancelled";
+}
+
+/**
+* Creates failure result for request which was cancelled by caller.
+*/
+export const createCancelledResult = (): IApiFailureResult => {
+    return {
+        isSuccess: false,
+        status: 0,
+        errorCode: "cancelled",
+        message: "Request was cancelled.",
+        isRetryable: false
+    };
+}
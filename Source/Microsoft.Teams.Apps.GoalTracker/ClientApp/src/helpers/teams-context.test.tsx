@@ -0,0 +1,62 @@
+﻿// <copyright file="teams-context.test.tsx" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import * as React from "react";
+import * as ReactDOM from "react-dom";
+import { act } from "react-dom/test-utils";
+import { Provider, themes } from "@fluentui/react-northstar";
+import { useTeamsContext, withTeamsContext } from "./teams-context";
+import { setupTestHarness, renderRoute, cleanupRoute, waitFor } from "../mock/test-harness";
+import { ITeamsContextProps } from "../models/type";
+
+/** Component rendering Teams context values read by hook. */
+const TeamsContextValues: React.FunctionComponent<{}> = () => {
+    const teamsContext = useTeamsContext();
+    return <div className="teams-context-values">{`${teamsContext.isContextReady}|${teamsContext.theme}|${teamsContext.teamId}|${teamsContext.userObjectId}`}</div>;
+}
+
+/** Component which renders user of Teams context passed by withTeamsContext. */
+const UserDetails = withTeamsContext((props: ITeamsContextProps) => <div className="user-details">{props.teamsContext.userObjectId}</div>);
+
+describe("TeamsContextProvider", () => {
+    afterEach(cleanupRoute);
+
+    it("shares context returned by Teams with components", async () => {
+        let fakeTeamsHost = setupTestHarness({ theme: "dark", teamId: "19:test-team@thread.skype", userObjectId: "test-user" });
+        let container = await renderRoute(<TeamsContextValues />, "/");
+
+        await waitFor(() => container.textContent!.startsWith("true"));
+        expect(container.textContent).toBe(`true|dark|19:test-team@thread.skype|test-user`);
+        expect(fakeTeamsHost.context.teamId).toBe("19:test-team@thread.skype");
+    });
+
+    it("updates theme when Teams theme is changed", async () => {
+        let fakeTeamsHost = setupTestHarness({ theme: "default" });
+        let container = await renderRoute(<TeamsContextValues />, "/");
+        await waitFor(() => container.textContent!.startsWith("true|default"));
+
+        act(() => fakeTeamsHost.changeTheme("contrast"));
+
+        expect(container.textContent).toContain("|contrast|");
+    });
+
+    it("passes context to component wrapped by withTeamsContext", async () => {
+        setupTestHarness({ userObjectId: "test-user" });
+        let container = await renderRoute(<UserDetails />, "/");
+
+        await waitFor(() => container.querySelector(".user-details") !== null);
+        expect(container.textContent).toBe("test-user");
+    });
+
+    it("renders loader instead of wrapped component until context is ready", () => {
+        let container = document.createElement("div");
+        act(() => {
+            ReactDOM.render(<Provider theme={themes.teams}><UserDetails /></Provider>, container);
+        });
+
+        expect(container.querySelector(".user-details")).toBeNull();
+        expect(container.querySelector(".loader")).not.toBeNull();
+        ReactDOM.unmountComponentAtNode(container);
+    });
+});
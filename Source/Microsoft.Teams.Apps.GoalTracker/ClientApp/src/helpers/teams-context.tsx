@@ -0,0 +1,99 @@
+﻿// <copyright file="teams-context.tsx" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import * as React from "react";
+import * as microsoftTeams from "@microsoft/teams-js";
+import { Loader } from "@fluentui/react-northstar";
+import i18n from "../i18n";
+import Constants from "../constants";
+import { ITeamsContext, ITeamsContextProps } from "../models/type";
+
+/**
+* Get Teams context values known before Teams returns context. Theme is taken from query parameter of tab URL.
+*/
+const getInitialTeamsContext = (): ITeamsContext => {
+    let params = new URLSearchParams(window.location.search);
+    let theme = params.get(Constants.theme);
+
+    return {
+        isContextReady: false,
+        context: null,
+        theme: theme ? theme : Constants.default,
+        locale: i18n.language
+    };
+}
+
+const TeamsContext = React.createContext<ITeamsContext>(getInitialTeamsContext());
+
+export const TeamsContextConsumer = TeamsContext.Consumer;
+
+/** Provider which gets Teams context once and shares it with all routes of app. */
+export class TeamsContextProvider extends React.Component<{}, ITeamsContext> {
+    constructor(props: any) {
+        super(props);
+        this.state = getInitialTeamsContext();
+    }
+
+    /** Called once component is mounted. */
+    componentDidMount() {
+        microsoftTeams.initialize();
+        microsoftTeams.getContext((context: microsoftTeams.Context) => {
+            i18n.changeLanguage(context.locale);
+            this.setState({
+                isContextReady: true,
+                context: context,
+                theme: context.theme ? context.theme : this.state.theme,
+                locale: context.locale,
+                teamId: context.teamId,
+                groupId: context.groupId,
+                userObjectId: context.userObjectId,
+                userPrincipalName: context.userPrincipalName ? context.userPrincipalName : ""
+            });
+        });
+
+        microsoftTeams.registerOnThemeChangeHandler((theme: string) => {
+            this.setState({ theme: theme });
+        });
+    }
+
+    /**
+    * Renders the component
+    */
+    render() {
+        return (
+            <TeamsContext.Provider value={this.state}>
+                {this.props.children}
+            </TeamsContext.Provider>
+        );
+    }
+}
+
+/**
+* Hook which returns Teams context shared by TeamsContextProvider.
+*/
+export const useTeamsContext = (): ITeamsContext => {
+    return React.useContext(TeamsContext);
+}
+
+/**
+* Passes Teams context to class component as teamsContext prop. Loader is rendered until Teams returns context,
+* so component can read context values as soon as it is mounted.
+* @param Component {Object} Component which needs Teams context.
+*/
+export const withTeamsContext = <P extends ITeamsContextProps>(Component: React.ComponentType<P>) => {
+    const ComponentWithTeamsContext: React.FunctionComponent<Omit<P, keyof ITeamsContextProps>> = (props) => {
+        const teamsContext = useTeamsContext();
+        if (!teamsContext.isContextReady) {
+            return (
+                <div className="loader">
+                    <Loader />
+                </div>
+            );
+        }
+
+        return <Component {...props as P} teamsContext={teamsContext} />;
+    }
+
+    return ComponentWithTeamsContext;
+}
@@ -9,8 +9,21 @@ import * as ReactDOM from "react-dom";
 import { BrowserRouter as Router } from "react-router-dom";
 import App from "./app";
 
-ReactDOM.render(
-	    <Router>
-		    <App />
-        </Router>, document.getElementById("root")
-);
+const renderApp = () => {
+	ReactDOM.render(
+		<Router>
+			<App />
+		</Router>, document.getElementById("root")
+	);
+}
+
+// Mock backend is loaded on demand, so it is not part of production bundle unless enabled at build time.
+if (process.env.REACT_APP_USE_MOCK_BACKEND === "true") {
+	import("./mock/mock-backend").then((mockBackend) => {
+		mockBackend.startMockBackend();
+		renderApp();
+	});
+}
+else {
+	renderApp();
+}
@@ -0,0 +1,76 @@
+﻿// <copyright file="fake-indexed-db.ts" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+interface IFakeObjectStore {
+    records: { [key: number]: any },
+    nextKey: number
+}
+
+/**
+* Replace IndexedDB with in-memory database supporting object stores with auto incremented "id" key, as IndexedDB is not available in tests.
+* Requests succeed asynchronously and transaction completes after its requests, in same order as in browser.
+* @returns Object stores of all databases by database and store name, so tests can inspect stored records.
+*/
+export const installFakeIndexedDB = () => {
+    let databases: { [databaseName: string]: { [storeName: string]: IFakeObjectStore } } = {};
+    let clone = (record: any) => JSON.parse(JSON.stringify(record));
+
+    let createTransaction = (stores: { [storeName: string]: IFakeObjectStore }) => {
+        let requests: any[] = [];
+        let transaction: any = {
+            objectStore: (storeName: string) => {
+                let store = stores[storeName];
+                let getSortedKeys = () => Object.keys(store.records).map(Number).sort((key, otherKey) => key - otherKey);
+                let createRequest = (getResult: () => any) => {
+                    let request: any = { result: getResult() };
+                    requests.push(request);
+                    return request;
+                };
+
+                return {
+                    getAll: () => createRequest(() => getSortedKeys().map(key => clone(store.records[key]))),
+                    clear: () => createRequest(() => { store.records = {}; return undefined; }),
+                    put: (record: any) => createRequest(() => {
+                        let key = record.id !== undefined ? record.id : store.nextKey++;
+                        store.nextKey = Math.max(store.nextKey, key + 1);
+                        store.records[key] = clone({ ...record, id: key });
+                        return key;
+                    }),
+                    openCursor: () => createRequest(() => {
+                        let firstKey = getSortedKeys()[0];
+                        return firstKey === undefined ? null : { value: clone(store.records[firstKey]), delete: () => { delete store.records[firstKey]; } };
+                    }),
+                };
+            },
+        };
+
+        Promise.resolve()
+            .then(() => requests.forEach(request => request.onsuccess && request.onsuccess()))
+            .then(() => transaction.oncomplete && transaction.oncomplete());
+        return transaction;
+    };
+
+    (window as any).indexedDB = {
+        open: (databaseName: string) => {
+            let request: any = {};
+            Promise.resolve().then(() => {
+                let isNewDatabase = !databases[databaseName];
+                let stores = databases[databaseName] = databases[databaseName] || {};
+                request.result = {
+                    createObjectStore: (storeName: string) => { stores[storeName] = { records: {}, nextKey: 1 }; },
+                    transaction: () => createTransaction(stores),
+                    close: () => undefined,
+                };
+                if (isNewDatabase && request.onupgradeneeded) {
+                    request.onupgradeneeded();
+                }
+                request.onsuccess();
+            });
+
+            return request;
+        },
+    };
+
+    return databases;
+}
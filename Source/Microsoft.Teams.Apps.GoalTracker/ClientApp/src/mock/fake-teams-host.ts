@@ -0,0 +1,92 @@
+﻿// <copyright file="fake-teams-host.ts" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import * as microsoftTeams from "@microsoft/teams-js";
+import { IFakeTeamsHost } from "../models/type";
+import Constants from "../constants";
+
+/**
+* Replace Teams SDK functions used by app so it can run in a browser tab outside Microsoft Teams.
+* Task modules are opened in popup windows and result submitted by task module is passed back to opener.
+* @param context {Object} Teams context returned by getContext.
+* @param openTaskModules {Boolean} Indicates whether task modules are opened in popup windows. Calls are only recorded otherwise.
+* @returns Fake host which records task module calls.
+*/
+export const installFakeTeamsHost = (context: microsoftTeams.Context, openTaskModules: boolean = true): IFakeTeamsHost => {
+    let teamsSdk: any = microsoftTeams;
+    let themeChangeHandlers: ((theme: string) => void)[] = [];
+    let fakeTeamsHost: IFakeTeamsHost = {
+        context: context,
+        startedTasks: [],
+        submittedTasks: [],
+        changeTheme: (theme: string) => {
+            fakeTeamsHost.context.theme = theme;
+            themeChangeHandlers.forEach(handler => handler(theme));
+        }
+    };
+    let taskSubmitHandler: ((error: string, result: string | object) => void) | undefined;
+
+    teamsSdk.initialize = (callback?: () => void) => {
+        if (callback) {
+            callback();
+        }
+    };
+    teamsSdk.getContext = (callback: (context: microsoftTeams.Context) => void) => {
+        setTimeout(() => callback({ ...fakeTeamsHost.context }));
+    };
+    teamsSdk.registerOnThemeChangeHandler = (handler: (theme: string) => void) => {
+        themeChangeHandlers.push(handler);
+    };
+
+    Object.assign(microsoftTeams.authentication, {
+        getAuthToken: (authTokenRequest: microsoftTeams.authentication.AuthTokenRequest) => {
+            setTimeout(() => authTokenRequest.successCallback && authTokenRequest.successCallback(createFakeAuthToken(fakeTeamsHost.context)));
+        },
+        authenticate: (authenticateParameters: microsoftTeams.authentication.AuthenticateParameters) => {
+            setTimeout(() => authenticateParameters.successCallback && authenticateParameters.successCallback());
+        },
+        notifySuccess: () => console.info("Fake Teams host: authentication succeeded."),
+        notifyFailure: (reason?: string) => console.info("Fake Teams host: authentication failed: ", reason),
+    });
+
+    Object.assign(microsoftTeams.tasks, {
+        startTask: (taskInfo: microsoftTeams.TaskInfo, submitHandler?: (error: string, result: string | object) => void) => {
+            fakeTeamsHost.startedTasks.push(taskInfo);
+            taskSubmitHandler = submitHandler;
+            if (openTaskModules) {
+                window.open(taskInfo.url, "_blank", `width=${taskInfo.width || 600},height=${taskInfo.height || 600}`);
+            }
+        },
+        submitTask: (result?: string | object) => {
+            fakeTeamsHost.submittedTasks.push(result);
+            if (openTaskModules && window.opener) {
+                window.opener.postMessage({ type: Constants.fakeTaskSubmittedMessageType, result: result }, window.location.origin);
+                window.close();
+            }
+            else {
+                console.info("Fake Teams host: task module submitted: ", result);
+            }
+        },
+    });
+
+    window.addEventListener("message", (event: MessageEvent) => {
+        if (event.origin === window.location.origin && event.data && event.data.type === Constants.fakeTaskSubmittedMessageType && taskSubmitHandler) {
+            taskSubmitHandler("", event.data.result);
+            taskSubmitHandler = undefined;
+        }
+    });
+
+    return fakeTeamsHost;
+}
+
+/**
+* Create unsigned token which expires in an hour. Mock backend does not validate token, but token cache reads its expiry.
+* @param context {Object} Teams context of signed in user.
+*/
+const createFakeAuthToken = (context: microsoftTeams.Context) => {
+    let encode = (value: object) => btoa(JSON.stringify(value)).replace(/=+$/, "").replace(/\+/g, "-").replace(/\//g, "_");
+    let claims = { oid: context.userObjectId, upn: context.upn, exp: Math.floor(Date.now() / 1000) + 60 * 60 };
+
+    return `${encode({ alg: "none", typ: "JWT" })}.${encode(claims)}.`;
+}
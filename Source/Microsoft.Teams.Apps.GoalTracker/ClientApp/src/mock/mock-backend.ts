@@ -0,0 +1,498 @@
+﻿// <copyright file="mock-backend.ts" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import axios, { AxiosRequestConfig, AxiosResponse, AxiosError } from "axios";
+import * as microsoftTeams from "@microsoft/teams-js";
+import { IMockBackendData, IPersonalGoalDetail, IPersonalGoalBatchRequest, IPersonalGoalBatchResult, IPersonalGoalNoteDetail, ITeamGoalDetail, IGoalTemplate } from "../models/type";
+import { installFakeTeamsHost } from "./fake-teams-host";
+import { createMockBackendData, getMockTeamsContext } from "./mock-data";
+import Constants from "../constants";
+import { addNoteRevision } from "../helpers/note-revision";
+
+interface IMockRequest {
+    method: string,
+    path: string,
+    query: URLSearchParams,
+    headers: any,
+    data: any,
+}
+
+interface IMockResponse {
+    status: number,
+    data?: any,
+}
+
+/**
+* Route handler of mock backend. Match contains captured path segments.
+*/
+type MockRouteHandler = (request: IMockRequest, match: RegExpMatchArray, data: IMockBackendData, context: microsoftTeams.Context) => IMockResponse;
+
+const routes: { method: string, pattern: RegExp, handler: MockRouteHandler }[] = [
+    { method: "get", pattern: /^\/api\/personalgoals$/, handler: (request, match, data, context) => ok(getPersonalGoals(data, context)) },
+    { method: "get", pattern: /^\/api\/personalgoals\/past$/, handler: (request, match, data, context) => ok(getPastPersonalGoals(data, context)) },
+    { method: "get", pattern: /^\/api\/personalgoals\/deleted$/, handler: (request, match, data, context) => ok(getDeletedPersonalGoals(data, context)) },
+    { method: "post", pattern: /^\/api\/personalgoals\/([^/]+)\/restore$/, handler: (request, match, data, context) => restorePersonalGoal(match[1], data, context) },
+    { method: "post", pattern: /^\/api\/personalgoals$/, handler: (request, match, data) => savePersonalGoals(request, data) },
+    { method: "post", pattern: /^\/api\/personalgoals\/batch$/, handler: (request, match, data, context) => updatePersonalGoalsInBatch(request, data, context) },
+    { method: "get", pattern: /^\/api\/personalgoals\/([^/]+)$/, handler: (request, match, data, context) => getPersonalGoal(match[1], data, context) },
+    { method: "patch", pattern: /^\/api\/personalgoals\/([^/]+)$/, handler: (request, match, data, context) => updatePersonalGoal(request, match[1], data, context) },
+    { method: "delete", pattern: /^\/api\/personalgoals\/([^/]+)$/, handler: (request, match, data, context) => deletePersonalGoal(match[1], data, context) },
+    { method: "get", pattern: /^\/api\/notes$/, handler: (request, match, data, context) => ok(getUserPersonalGoalNotes(data, context)) },
+    { method: "get", pattern: /^\/api\/notes\/past$/, handler: (request, match, data, context) => ok(getPastPersonalGoalNotes(data, context)) },
+    { method: "get", pattern: /^\/api\/notes\/count$/, handler: (request, match, data, context) => ok(getPersonalGoalNotesCount(data, context)) },
+    { method: "get", pattern: /^\/api\/notes\/goal\/([^/]+)$/, handler: (request, match, data, context) => ok(getPersonalGoalNotes(match[1], data, context)) },
+    { method: "put", pattern: /^\/api\/notes$/, handler: (request, match, data) => savePersonalGoalNotes(request, data) },
+    { method: "delete", pattern: /^\/api\/notes$/, handler: (request, match, data, context) => deletePersonalGoalNotes(request, data, context) },
+    { method: "get", pattern: /^\/api\/teamgoals$/, handler: (request, match, data) => ok(getTeamGoals(request.query.get("teamId"), data)) },
+    { method: "get", pattern: /^\/api\/teamgoals\/templates$/, handler: (request, match, data) => ok(getGoalTemplates(request.query.get("teamId"), data)) },
+    { method: "post", pattern: /^\/api\/teamgoals\/([^/]+)\/templates$/, handler: (request, match, data, context) => saveGoalTemplates(request, match[1], data, context) },
+    { method: "get", pattern: /^\/api\/teamgoals\/goal$/, handler: (request, match, data) => getTeamGoal(request.query.get("teamId"), request.query.get("teamGoalId"), data) },
+    { method: "get", pattern: /^\/api\/teamgoals\/([^/]+)\/checkteamowner$/, handler: (request, match, data, context) => checkTeamOwner(match[1], data, context) },
+    { method: "post", pattern: /^\/api\/teamgoals\/([^/]+)$/, handler: (request, match, data, context) => saveTeamGoals(request, match[1], data, context) },
+    { method: "get", pattern: /^\/api\/authenticationMetadata\/consentUrl$/, handler: () => ok(`${window.location.origin}/signin-simple-end#id_token=mock&state=mock`) },
+];
+
+/**
+* Serve API requests from in-browser mock backend and replace Teams SDK with fake host, so app runs without bot, storage and Azure Active Directory.
+* Data is seeded from fixtures and kept in local storage, so changes made in task module popups are visible in tab.
+*/
+export const startMockBackend = () => {
+    let context = getMockTeamsContext();
+    installFakeTeamsHost(context);
+    installMockBackend(context);
+    console.info("Goal tracker is running against mock backend.");
+}
+
+/**
+* Serve API requests sent through axios from mock backend.
+* @param context {Object} Teams context of signed in user.
+* @param latencyInMilliseconds {Number} Delay of responses.
+*/
+export const installMockBackend = (context: microsoftTeams.Context, latencyInMilliseconds: number = Constants.mockBackendLatencyInMilliseconds) => {
+    axios.defaults.adapter = (config: AxiosRequestConfig) => handleRequest(config, context, latencyInMilliseconds);
+}
+
+/**
+* Get data currently stored by mock backend.
+*/
+export const getMockBackendData = (): IMockBackendData => {
+    return loadData();
+}
+
+/**
+* Replace data stored by mock backend.
+* @param data {Object} Data to be stored.
+*/
+export const setMockBackendData = (data: IMockBackendData) => {
+    saveData(data);
+}
+
+/**
+* Handle request sent through axios, simulating network latency and cancellation.
+* @param config {Object} Request configuration.
+* @param context {Object} Teams context of signed in user.
+* @param latencyInMilliseconds {Number} Delay of response.
+*/
+const handleRequest = (config: AxiosRequestConfig, context: microsoftTeams.Context, latencyInMilliseconds: number): Promise<AxiosResponse> => {
+    return new Promise<AxiosResponse>((resolve, reject) => {
+        let timeout = setTimeout(() => {
+            let response = createAxiosResponse(config, routeRequest(config, context));
+            if (!config.validateStatus || config.validateStatus(response.status)) {
+                resolve(response);
+            }
+            else {
+                reject(createAxiosError(config, response));
+            }
+        }, latencyInMilliseconds);
+
+        if (config.cancelToken) {
+            config.cancelToken.promise.then((cancel) => {
+                clearTimeout(timeout);
+                reject(cancel);
+            });
+        }
+    });
+}
+
+/**
+* Find route handler for request and run it against stored data.
+* @param config {Object} Request configuration.
+* @param context {Object} Teams context of signed in user.
+*/
+const routeRequest = (config: AxiosRequestConfig, context: microsoftTeams.Context): IMockResponse => {
+    let url = new URL(config.url!, window.location.origin);
+    let request: IMockRequest = {
+        method: (config.method || "get").toLowerCase(),
+        path: url.pathname,
+        query: url.searchParams,
+        headers: config.headers || {},
+        data: typeof config.data === "string" ? JSON.parse(config.data) : config.data,
+    };
+
+    for (let route of routes) {
+        let match = request.path.match(route.pattern);
+        if (match && route.method === request.method) {
+            let data = loadData();
+            let response = route.handler(request, match, data, context);
+            saveData(data);
+            return response;
+        }
+    }
+
+    return { status: 404, data: `No mock route for ${request.method.toUpperCase()} ${request.path}.` };
+}
+
+/**
+* Get active personal goals of signed in user.
+*/
+const getPersonalGoals = (data: IMockBackendData, context: microsoftTeams.Context) => {
+    return data.personalGoals.filter(goal => goal.UserAadObjectId === context.userObjectId && goal.IsActive && !goal.IsDeleted);
+}
+
+/**
+* Get personal goals of signed in user's ended goal cycles.
+*/
+const getPastPersonalGoals = (data: IMockBackendData, context: microsoftTeams.Context) => {
+    return data.personalGoals.filter(goal => goal.UserAadObjectId === context.userObjectId && !goal.IsActive && !goal.IsDeleted);
+}
+
+/**
+* Get personal goals deleted by signed in user which are not yet removed from storage.
+*/
+const getDeletedPersonalGoals = (data: IMockBackendData, context: microsoftTeams.Context) => {
+    return data.personalGoals.filter(goal => goal.UserAadObjectId === context.userObjectId && goal.IsDeleted);
+}
+
+/**
+* Get personal goal of signed in user by personal goal id.
+*/
+const getPersonalGoal = (personalGoalId: string, data: IMockBackendData, context: microsoftTeams.Context) => {
+    let personalGoal = getPersonalGoals(data, context).find(goal => goal.PersonalGoalId === personalGoalId);
+    return personalGoal ? ok(personalGoal) : notFound("The personal goal does not exist.");
+}
+
+/**
+* Save or update personal goals.
+*/
+const savePersonalGoals = (request: IMockRequest, data: IMockBackendData) => {
+    let personalGoals: IPersonalGoalDetail[] = request.data || [];
+    if (personalGoals.length === 0) {
+        return badRequest("No personal goal data received.");
+    }
+
+    personalGoals.forEach(personalGoal => upsert(data.personalGoals, "PersonalGoalId", personalGoal));
+    return ok(true);
+}
+
+/**
+* Update personal goal and return stored goal with its new last modified time.
+* Update fails with precondition failed status if If-Match header does not match last modified time of stored goal.
+*/
+const updatePersonalGoal = (request: IMockRequest, personalGoalId: string, data: IMockBackendData, context: microsoftTeams.Context) => {
+    let existingGoal = getPersonalGoals(data, context).find(goal => goal.PersonalGoalId === personalGoalId);
+    if (!existingGoal) {
+        return notFound("The personal goal user trying to update does not exist.");
+    }
+
+    let ifMatchHeader: string | undefined = request.headers["If-Match"];
+    if (ifMatchHeader && ifMatchHeader.replace(/"/g, "") !== existingGoal.LastModifiedOn) {
+        return { status: 412, data: existingGoal };
+    }
+
+    let updatedGoal: IPersonalGoalDetail = { ...request.data, LastModifiedOn: new Date().toISOString() };
+    upsert(data.personalGoals, "PersonalGoalId", updatedGoal);
+    return ok(updatedGoal);
+}
+
+/**
+* Apply batch action to each personal goal separately and return result of each goal.
+*/
+const updatePersonalGoalsInBatch = (request: IMockRequest, data: IMockBackendData, context: microsoftTeams.Context) => {
+    let batchRequest: IPersonalGoalBatchRequest = request.data;
+    if (!batchRequest || !batchRequest.PersonalGoalIds || batchRequest.PersonalGoalIds.length === 0) {
+        return badRequest("No personal goal ids received.");
+    }
+
+    let results: IPersonalGoalBatchResult[] = batchRequest.PersonalGoalIds.map((personalGoalId) => {
+        let existingGoal = getPersonalGoals(data, context).find(goal => goal.PersonalGoalId === personalGoalId);
+        if (!existingGoal) {
+            return { PersonalGoalId: personalGoalId, IsSuccess: false, ErrorMessage: "The personal goal does not exist." };
+        }
+
+        if (batchRequest.Action === Constants.changeStatusBatchAction) {
+            existingGoal.Status = batchRequest.Status!;
+        }
+        else if (batchRequest.Action === Constants.deleteBatchAction) {
+            existingGoal.IsDeleted = true;
+            existingGoal.IsActive = false;
+        }
+        else if (batchRequest.Action === Constants.setReminderBatchAction) {
+            existingGoal.IsReminderActive = batchRequest.IsReminderActive!;
+        }
+        else if (batchRequest.Action === Constants.changeReminderFrequencyBatchAction) {
+            existingGoal.ReminderFrequency = batchRequest.ReminderFrequency!;
+        }
+
+        existingGoal.LastModifiedOn = new Date().toISOString();
+        return { PersonalGoalId: personalGoalId, IsSuccess: true, ErrorMessage: null };
+    });
+
+    return ok(results);
+}
+
+/**
+* Mark personal goal as deleted.
+*/
+const deletePersonalGoal = (personalGoalId: string, data: IMockBackendData, context: microsoftTeams.Context) => {
+    let existingGoal = getPersonalGoals(data, context).find(goal => goal.PersonalGoalId === personalGoalId);
+    if (!existingGoal) {
+        return notFound("The personal goal user trying to delete does not exist.");
+    }
+
+    existingGoal.IsDeleted = true;
+    existingGoal.IsActive = false;
+    return ok(true);
+}
+
+/**
+* Restore personal goal marked as deleted.
+*/
+const restorePersonalGoal = (personalGoalId: string, data: IMockBackendData, context: microsoftTeams.Context) => {
+    let existingGoal = getDeletedPersonalGoals(data, context).find(goal => goal.PersonalGoalId === personalGoalId);
+    if (!existingGoal) {
+        return notFound("The personal goal user trying to restore does not exist.");
+    }
+    else if (getPersonalGoals(data, context).filter(goal => goal.GoalCycleId === existingGoal!.GoalCycleId).length >= Constants.maxAllowedGoals) {
+        return badRequest(`Cannot add personal goals more than ${Constants.maxAllowedGoals}.`);
+    }
+
+    existingGoal.IsDeleted = false;
+    existingGoal.IsActive = true;
+    existingGoal.LastModifiedOn = new Date().toISOString();
+    return ok(true);
+}
+
+/**
+* Get active notes of personal goal.
+*/
+const getPersonalGoalNotes = (personalGoalId: string, data: IMockBackendData, context: microsoftTeams.Context) => {
+    return data.personalGoalNotes.filter(note => note.PersonalGoalId === personalGoalId && note.UserAadObjectId === context.userObjectId && note.IsActive);
+}
+
+/**
+* Get active notes of signed in user.
+*/
+const getUserPersonalGoalNotes = (data: IMockBackendData, context: microsoftTeams.Context) => {
+    return data.personalGoalNotes.filter(note => note.UserAadObjectId === context.userObjectId && note.IsActive);
+}
+
+/**
+* Get notes of signed in user's ended goal cycles.
+*/
+const getPastPersonalGoalNotes = (data: IMockBackendData, context: microsoftTeams.Context) => {
+    return data.personalGoalNotes.filter(note => note.UserAadObjectId === context.userObjectId && !note.IsActive);
+}
+
+/**
+* Get count of active notes per personal goal of signed in user.
+*/
+const getPersonalGoalNotesCount = (data: IMockBackendData, context: microsoftTeams.Context) => {
+    let notesCount: { [personalGoalId: string]: number } = {};
+    data.personalGoalNotes
+        .filter(note => note.UserAadObjectId === context.userObjectId && note.IsActive)
+        .forEach(note => notesCount[note.PersonalGoalId] = (notesCount[note.PersonalGoalId] || 0) + 1);
+
+    return Object.keys(notesCount).map(personalGoalId => ({ personalGoalId: personalGoalId, notesCount: notesCount[personalGoalId] }));
+}
+
+/**
+* Save or update notes of personal goal.
+*/
+const savePersonalGoalNotes = (request: IMockRequest, data: IMockBackendData) => {
+    let personalGoalNotes: IPersonalGoalNoteDetail[] = request.data || [];
+    if (personalGoalNotes.length === 0) {
+        return badRequest("No personal goal note data received.");
+    }
+
+    personalGoalNotes.forEach(note => {
+        let storedNote = data.personalGoalNotes.find(existingNote => existingNote.PersonalGoalNoteId === note.PersonalGoalNoteId);
+        let savedNote = storedNote ? addNoteRevision(storedNote, note) : { ...note, Revisions: null };
+        upsert(data.personalGoalNotes, "PersonalGoalNoteId", { ...savedNote, LastModifiedOn: new Date().toISOString() });
+    });
+    return ok(true);
+}
+
+/**
+* Delete notes by note ids.
+*/
+const deletePersonalGoalNotes = (request: IMockRequest, data: IMockBackendData, context: microsoftTeams.Context) => {
+    let personalGoalNoteIds: string[] = request.data || [];
+    if (personalGoalNoteIds.length === 0) {
+        return badRequest("No personal goal note data received to be deleted from storage.");
+    }
+
+    let missingNoteId = personalGoalNoteIds.find(noteId => !data.personalGoalNotes.some(note => note.PersonalGoalNoteId === noteId && note.UserAadObjectId === context.userObjectId));
+    if (missingNoteId) {
+        return notFound(`Personal goal note with id ${missingNoteId} not found in storage.`);
+    }
+
+    data.personalGoalNotes = data.personalGoalNotes.filter(note => !personalGoalNoteIds.includes(note.PersonalGoalNoteId));
+    return ok(true);
+}
+
+/**
+* Get active team goals of team.
+*/
+const getTeamGoals = (teamId: string | null, data: IMockBackendData) => {
+    return data.teamGoals.filter(goal => goal.TeamId === teamId && goal.IsActive && !goal.IsDeleted);
+}
+
+/**
+* Get team goal by team goal id.
+*/
+const getTeamGoal = (teamId: string | null, teamGoalId: string | null, data: IMockBackendData) => {
+    let teamGoal = getTeamGoals(teamId, data).find(goal => goal.TeamGoalId === teamGoalId);
+    return teamGoal ? ok(teamGoal) : notFound("The team goal does not exist.");
+}
+
+/**
+* Check if signed in user is owner of team.
+*/
+const checkTeamOwner = (teamGroupId: string, data: IMockBackendData, context: microsoftTeams.Context) => {
+    if (teamGroupId !== context.groupId || !data.teamOwnerIds.includes(context.userObjectId!)) {
+        return { status: 403, data: "User is not a team owner." };
+    }
+
+    return ok(data.teamOwnerIds.map(teamOwnerId => ({ TeamOwnerId: teamOwnerId })));
+}
+
+/**
+* Save or update team goals. Only team owners can save team goals.
+*/
+const saveTeamGoals = (request: IMockRequest, teamGroupId: string, data: IMockBackendData, context: microsoftTeams.Context) => {
+    let teamOwnerResponse = checkTeamOwner(teamGroupId, data, context);
+    if (teamOwnerResponse.status !== 200) {
+        return teamOwnerResponse;
+    }
+
+    let teamGoals: ITeamGoalDetail[] = request.data || [];
+    if (teamGoals.length === 0) {
+        return badRequest("No team goal data received.");
+    }
+
+    teamGoals.forEach(teamGoal => upsert(data.teamGoals, "TeamGoalId", teamGoal));
+    return ok(true);
+}
+
+/**
+* Get goal templates published in team. Data stored before templates were added has no templates.
+*/
+const getGoalTemplates = (teamId: string | null, data: IMockBackendData) => {
+    return (data.goalTemplates || []).filter(goalTemplate => goalTemplate.TeamId === teamId);
+}
+
+/**
+* Replace goal templates of team. Only team owners can manage goal templates.
+*/
+const saveGoalTemplates = (request: IMockRequest, teamGroupId: string, data: IMockBackendData, context: microsoftTeams.Context) => {
+    let teamOwnerResponse = checkTeamOwner(teamGroupId, data, context);
+    if (teamOwnerResponse.status !== 200) {
+        return teamOwnerResponse;
+    }
+
+    let teamId = request.query.get("teamId");
+    let goalTemplates: IGoalTemplate[] = request.data || [];
+    if (!teamId) {
+        return badRequest("Team id is required to save goal templates.");
+    }
+    else if (teamId !== context.teamId) {
+        return { status: 403, data: "Team does not belong to AAD group of team owner." };
+    }
+    else if (goalTemplates.length > Constants.maxAllowedGoalTemplates) {
+        return badRequest(`Cannot add goal templates more than ${Constants.maxAllowedGoalTemplates}.`);
+    }
+
+    // Audit fields are set by service, creation details of existing templates are kept.
+    let existingGoalTemplates = (data.goalTemplates || []).filter(goalTemplate => goalTemplate.TeamId === teamId);
+    let modifiedOn = new Date().toISOString();
+    data.goalTemplates = (data.goalTemplates || [])
+        .filter(goalTemplate => goalTemplate.TeamId !== teamId)
+        .concat(goalTemplates.map(goalTemplate => {
+            let existingGoalTemplate = existingGoalTemplates.find(template => template.GoalTemplateId === goalTemplate.GoalTemplateId);
+            return {
+                ...goalTemplate,
+                TeamId: teamId,
+                CreatedOn: existingGoalTemplate ? existingGoalTemplate.CreatedOn : modifiedOn,
+                CreatedBy: existingGoalTemplate ? existingGoalTemplate.CreatedBy : context.userPrincipalName,
+                LastModifiedOn: modifiedOn,
+                LastModifiedBy: context.userPrincipalName,
+            };
+        }));
+    return ok(true);
+}
+
+/**
+* Replace entity with same id or add it if it does not exist.
+* @param entities {Object[]} Stored entities.
+* @param idPropertyName {String} Name of property holding unique identifier of entity.
+* @param entity {Object} Entity to be stored.
+*/
+const upsert = (entities: any[], idPropertyName: string, entity: any) => {
+    let index = entities.findIndex(existingEntity => existingEntity[idPropertyName] === entity[idPropertyName]);
+    if (index >= 0) {
+        entities[index] = entity;
+    }
+    else {
+        entities.push(entity);
+    }
+}
+
+const ok = (data: any): IMockResponse => ({ status: 200, data: data });
+const badRequest = (message: string): IMockResponse => ({ status: 400, data: message });
+const notFound = (message: string): IMockResponse => ({ status: 404, data: message });
+
+/**
+* Load stored data, seeding it from fixtures on first use.
+*/
+const loadData = (): IMockBackendData => {
+    let storedData = window.localStorage.getItem(Constants.mockBackendStorageKey);
+    return storedData ? JSON.parse(storedData) : createMockBackendData();
+}
+
+/**
+* Store data in local storage.
+*/
+const saveData = (data: IMockBackendData) => {
+    window.localStorage.setItem(Constants.mockBackendStorageKey, JSON.stringify(data));
+}
+
+/**
+* Create axios response. Data is serialized so that components never share objects with stored data.
+* @param config {Object} Request configuration.
+* @param response {Object} Response of route handler.
+*/
+const createAxiosResponse = (config: AxiosRequestConfig, response: IMockResponse): AxiosResponse => {
+    return {
+        data: response.data === undefined ? "" : JSON.stringify(response.data),
+        status: response.status,
+        statusText: "",
+        headers: { "content-type": "application/json" },
+        config: config,
+    };
+}
+
+/**
+* Create error axios rejects with when response status is not successful.
+* @param config {Object} Request configuration.
+* @param response {Object} Response with unsuccessful status.
+*/
+const createAxiosError = (config: AxiosRequestConfig, response: AxiosResponse): AxiosError => {
+    let error = new Error(`Request failed with status code ${response.status}`) as AxiosError;
+    error.config = config;
+    error.response = response;
+    error.isAxiosError = true;
+    error.toJSON = () => ({ message: error.message, status: response.status });
+
+    return error;
+}
@@ -0,0 +1,233 @@
+﻿// <copyright file="mock-data.ts" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import * as microsoftTeams from "@microsoft/teams-js";
+import moment from "moment";
+import { IMockBackendData, IPersonalGoalDetail, IPersonalGoalNoteDetail, ITeamGoalDetail, IGoalTemplate } from "../models/type";
+import Constants from "../constants";
+
+const userAadObjectId = "2f6a3c1e-8d4b-4b5e-9a7c-1d2e3f4a5b6c";
+const teamId = "19:9a1c6d2e4f5b4c3d8e7f6a5b4c3d2e1f@thread.skype";
+const teamGroupId = "5e4d3c2b-1a09-4f8e-b7d6-c5b4a3928170";
+const goalCycleId = "0b1c2d3e-4f50-4617-8293-a4b5c6d7e8f9";
+const pastGoalCycleId = "f9e8d7c6-b5a4-4392-8170-e6d5c4b3a291";
+
+/**
+* Teams context returned by fake Teams host. Theme and locale can be changed with "theme" and "locale" query parameters.
+*/
+export const getMockTeamsContext = (): microsoftTeams.Context => {
+    let params = new URLSearchParams(window.location.search);
+    return {
+        theme: params.get("theme") || Constants.default,
+        locale: params.get("locale") || "en-US",
+        teamId: teamId,
+        groupId: teamGroupId,
+        teamName: "Contoso Marketing",
+        channelId: teamId,
+        userObjectId: userAadObjectId,
+        upn: "megan.bowen@contoso.com",
+        userPrincipalName: "megan.bowen@contoso.com",
+        loginHint: "megan.bowen@contoso.com",
+        tid: "d4c3b2a1-0f9e-4d8c-b7a6-958473625140",
+        entityId: "GoalTracker",
+    };
+}
+
+/**
+* Creates data the mock backend is seeded with. Goal cycle of seeded goals always contains current date.
+*/
+export const createMockBackendData = (): IMockBackendData => {
+    let startDate = moment().startOf("month");
+    let endDate = moment().startOf("month").add(3, "months").subtract(1, "day");
+    let pastStartDate = moment(startDate).subtract(3, "months");
+    let pastEndDate = moment(startDate).subtract(1, "day");
+
+    let teamGoals: ITeamGoalDetail[] = [
+        {
+            ...createTeamGoal("6c1b2a3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d", "Grow newsletter subscribers by 20%", startDate, endDate),
+            Description: "Newsletter is our main channel to customers, so we want it to reach more of them this quarter.",
+            DefinitionOfDone: JSON.stringify([
+                { criterionId: "c1d2e3f4-a5b6-4c7d-8e9f-a0b1c2d3e4f5", text: "Subscriber count is 20% above start of quarter", isDone: false },
+                { criterionId: "d2e3f4a5-b6c7-4d8e-9fa0-b1c2d3e4f5a6", text: "Unsubscribe rate stays below 1%", isDone: false },
+            ]),
+        },
+        createTeamGoal("7d2c3b4e-5f6a-4b7c-9d8e-0f1a2b3c4d5e", "Launch spring product campaign", startDate, endDate),
+        createTeamGoal("8e3d4c5f-6a7b-4c8d-ae9f-1a2b3c4d5e6f", "Reduce campaign review time to two days", startDate, endDate),
+    ];
+
+    let goalTemplates: IGoalTemplate[] = [
+        {
+            GoalTemplateId: "a9b8c7d6-e5f4-4a3b-9c2d-1e0f9a8b7c6d",
+            TeamId: teamId,
+            GoalName: "Publish a customer case study",
+            Description: "Interview a customer about how they use our product and publish the story on the blog.",
+            ReminderFrequency: 2,
+            CreatedOn: startDate.toDate().toUTCString(),
+            CreatedBy: userAadObjectId,
+            LastModifiedOn: startDate.toISOString(),
+            LastModifiedBy: userAadObjectId,
+        },
+    ];
+
+    let personalGoals: IPersonalGoalDetail[] = [
+        {
+            ...createPersonalGoal("1a2b3c4d-5e6f-4a7b-8c9d-0e1f2a3b4c5d", "Publish weekly newsletter", 1, startDate, endDate, teamGoals[0]),
+            Progress: 67,
+            KeyResults: JSON.stringify([
+                { keyResultId: "a1b2c3d4-e5f6-4a7b-8c9d-e0f1a2b3c4d5", title: "Send newsletter issues", targetValue: 12, currentValue: 5, unit: "issues" },
+                { keyResultId: "b2c3d4e5-f6a7-4b8c-9d0e-f1a2b3c4d5e6", title: "Reach average open rate", targetValue: 45, currentValue: 41, unit: "%" },
+            ]),
+            Tags: JSON.stringify([{ name: "Delivery", color: "blue" }]),
+            Description: "One issue every Friday with product news and a customer story.",
+            DefinitionOfDone: JSON.stringify([
+                { criterionId: "e3f4a5b6-c7d8-4e9f-a0b1-c2d3e4f5a6b7", text: "Twelve issues sent", isDone: false },
+                { criterionId: "f4a5b6c7-d8e9-4fa0-b1c2-d3e4f5a6b7c8", text: "Reader survey results shared with team", isDone: true },
+            ]),
+        },
+        {
+            ...createPersonalGoal("2b3c4d5e-6f7a-4b8c-9d0e-1f2a3b4c5d6e", "Draft campaign landing page copy", 0, startDate, endDate, teamGoals[1]),
+            DueDate: moment().endOf("week").format(Constants.dateTimeOffsetFormat),
+            Priority: 2,
+        },
+        { ...createPersonalGoal("3c4d5e6f-7a8b-4c9d-8e1f-2a3b4c5d6e7f", "Complete analytics certification", 2, startDate, endDate), Tags: JSON.stringify([{ name: "Learning", color: "green" }]) },
+        { ...createPersonalGoal("4d5e6f7a-8b9c-4d0e-9f2a-3b4c5d6e7f80", "Mentor a new team member", 1, startDate, endDate), Progress: 50, Priority: 1 },
+    ];
+
+    let pastPersonalGoals: IPersonalGoalDetail[] = [
+        createPastPersonalGoal("5e6f7a8b-9c0d-4e1f-a2b3-c4d5e6f7a8b9", "Publish monthly newsletter", 2, pastStartDate, pastEndDate),
+        createPastPersonalGoal("6f7a8b9c-0d1e-4f2a-b3c4-d5e6f7a8b9c0", "Complete copywriting course", 2, pastStartDate, pastEndDate),
+        createPastPersonalGoal("7a8b9c0d-1e2f-4a3b-84d5-e6f7a8b9c0d1", "Redesign email templates", 1, pastStartDate, pastEndDate),
+        createPastPersonalGoal("8b9c0d1e-2f3a-4b4c-95e6-f7a8b9c0d1e2", "Present at marketing all-hands", 0, pastStartDate, pastEndDate),
+    ];
+
+    let personalGoalNotes: IPersonalGoalNoteDetail[] = [
+        createPersonalGoalNote("9f8e7d6c-5b4a-4392-8170-6f5e4d3c2b1a", personalGoals[0].PersonalGoalId, "Sent issue #12, open rate was 41%."),
+        createPersonalGoalNote("8e7d6c5b-4a39-4281-9f60-5e4d3c2b1a09", personalGoals[0].PersonalGoalId, "Added a reader survey section."),
+        createPersonalGoalNote("7d6c5b4a-3928-4170-8e5f-4d3c2b1a0f9e", personalGoals[2].PersonalGoalId, "Passed the final assessment."),
+        { ...createPersonalGoalNote("6c5b4a39-2817-4f60-9d4e-3c2b1a0f9e8d", pastPersonalGoals[0].PersonalGoalId, "Subscriber count reached 1,200."), IsActive: false },
+        { ...createPersonalGoalNote("5b4a3928-1706-4e5f-8c3d-2b1a0f9e8d7c", pastPersonalGoals[2].PersonalGoalId, "New header approved, footer still pending."), IsActive: false },
+    ];
+
+    return {
+        personalGoals: personalGoals.concat(pastPersonalGoals),
+        personalGoalNotes: personalGoalNotes,
+        teamGoals: teamGoals,
+        goalTemplates: goalTemplates,
+        teamOwnerIds: [userAadObjectId],
+    };
+}
+
+/**
+* Creates team goal of mock team.
+* @param teamGoalId {String} Unique identifier of team goal.
+* @param teamGoalName {String} Name of team goal.
+* @param startDate {Object} Start date of goal cycle.
+* @param endDate {Object} End date of goal cycle.
+*/
+const createTeamGoal = (teamGoalId: string, teamGoalName: string, startDate: moment.Moment, endDate: moment.Moment): ITeamGoalDetail => {
+    return {
+        CreatedOn: startDate.toDate().toUTCString(),
+        CreatedBy: userAadObjectId,
+        LastModifiedOn: startDate.toISOString(),
+        LastModifiedBy: userAadObjectId,
+        IsActive: true,
+        IsDeleted: false,
+        ReminderFrequency: 0,
+        IsReminderActive: true,
+        TeamId: teamId,
+        TeamGoalId: teamGoalId,
+        TeamGoalName: teamGoalName,
+        TeamGoalStartDate: startDate.format(Constants.dateTimeOffsetFormat),
+        TeamGoalEndDate: endDate.format(Constants.dateTimeOffsetFormat),
+        TeamGoalEndDateUTC: endDate.format(Constants.utcDateFormat),
+        AdaptiveCardActivityId: "",
+        ServiceURL: null,
+        GoalCycleId: goalCycleId,
+    };
+}
+
+/**
+* Creates personal goal of mock user.
+* @param personalGoalId {String} Unique identifier of personal goal.
+* @param goalName {String} Name of personal goal.
+* @param status {Number} Status of personal goal.
+* @param startDate {Object} Start date of goal cycle.
+* @param endDate {Object} End date of goal cycle.
+* @param alignedTeamGoal {Object | Undefined} Team goal personal goal is aligned with.
+*/
+const createPersonalGoal = (
+    personalGoalId: string,
+    goalName: string,
+    status: number,
+    startDate: moment.Moment,
+    endDate: moment.Moment,
+    alignedTeamGoal?: ITeamGoalDetail
+): IPersonalGoalDetail => {
+    return {
+        UserAadObjectId: userAadObjectId,
+        AdaptiveCardActivityId: "",
+        IsActive: true,
+        IsAligned: !!alignedTeamGoal,
+        IsDeleted: false,
+        CreatedOn: startDate.toDate().toUTCString(),
+        CreatedBy: userAadObjectId,
+        LastModifiedOn: startDate.toISOString(),
+        LastModifiedBy: userAadObjectId,
+        GoalName: goalName,
+        PersonalGoalId: personalGoalId,
+        ReminderFrequency: 0,
+        IsReminderActive: true,
+        Status: status,
+        StartDate: startDate.format(Constants.dateTimeOffsetFormat),
+        EndDate: endDate.format(Constants.dateTimeOffsetFormat),
+        ServiceURL: null,
+        TeamId: alignedTeamGoal ? alignedTeamGoal.TeamId : null,
+        TeamGoalId: alignedTeamGoal ? alignedTeamGoal.TeamGoalId : null,
+        TeamGoalName: alignedTeamGoal ? alignedTeamGoal.TeamGoalName : null,
+        EndDateUTC: endDate.format(Constants.utcDateFormat),
+        NotesCount: 0,
+        GoalCycleId: goalCycleId,
+    };
+}
+
+/**
+* Creates personal goal of mock user's ended goal cycle.
+* @param personalGoalId {String} Unique identifier of personal goal.
+* @param goalName {String} Name of personal goal.
+* @param status {Number} Final status of personal goal.
+* @param startDate {Object} Start date of goal cycle.
+* @param endDate {Object} End date of goal cycle.
+*/
+const createPastPersonalGoal = (personalGoalId: string, goalName: string, status: number, startDate: moment.Moment, endDate: moment.Moment): IPersonalGoalDetail => {
+    return {
+        ...createPersonalGoal(personalGoalId, goalName, status, startDate, endDate),
+        IsActive: false,
+        IsReminderActive: false,
+        GoalCycleId: pastGoalCycleId,
+    };
+}
+
+/**
+* Creates note of personal goal.
+* @param personalGoalNoteId {String} Unique identifier of note.
+* @param personalGoalId {String} Unique identifier of personal goal note belongs to.
+* @param description {String} Description of note.
+*/
+const createPersonalGoalNote = (personalGoalNoteId: string, personalGoalId: string, description: string): IPersonalGoalNoteDetail => {
+    let createdOn = moment().subtract(1, "day");
+    return {
+        CreatedOn: createdOn.toDate().toUTCString(),
+        CreatedBy: userAadObjectId,
+        LastModifiedOn: createdOn.toISOString(),
+        LastModifiedBy: userAadObjectId,
+        IsActive: true,
+        PersonalGoalId: personalGoalId,
+        PersonalGoalNoteId: personalGoalNoteId,
+        PersonalGoalNoteDescription: description,
+        SourceName: "Contoso Marketing",
+        UserAadObjectId: userAadObjectId,
+        NotesCount: 0,
+        IsEdited: false,
+    };
+}
@@ -0,0 +1,187 @@
+﻿// <copyright file="test-harness.tsx" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+import * as React from "react";
+import * as ReactDOM from "react-dom";
+import { act } from "react-dom/test-utils";
+import i18n from "i18next";
+import { I18nextProvider, initReactI18next } from "react-i18next";
+import { Provider, themes } from "@fluentui/react-northstar";
+import * as microsoftTeams from "@microsoft/teams-js";
+import { installFakeTeamsHost } from "./fake-teams-host";
+import { installMockBackend, setMockBackendData } from "./mock-backend";
+import { createMockBackendData, getMockTeamsContext } from "./mock-data";
+import { invalidateQueries, queryKeys } from "../api/query-cache";
+import { TeamsContextProvider } from "../helpers/teams-context";
+import { IFakeTeamsHost, IMockBackendData } from "../models/type";
+import translation from "../../public/locales/en-US/translation.json";
+
+const testI18n = i18n.createInstance();
+testI18n.use(initReactI18next).init({
+    lng: "en-US",
+    resources: { "en-US": { translation: translation } },
+    keySeparator: false,
+    interpolation: {
+        escapeValue: false
+    }
+});
+
+let container: HTMLDivElement | null = null;
+
+/**
+* Prepare fake Teams host and mock backend for a test. Stored data is reset to fixtures, optionally changed by test.
+* @param context {Object} Teams context values replacing values of mock context, e.g. theme, locale, teamId, groupId or userObjectId.
+* @param changeData {Function} Function which changes seeded data before test.
+* @returns Fake Teams host recording task module calls.
+*/
+export const setupTestHarness = (context?: Partial<microsoftTeams.Context>, changeData?: (data: IMockBackendData) => void): IFakeTeamsHost => {
+    window.localStorage.clear();
+    window.sessionStorage.clear();
+    invalidateQueries(queryKeys.personalGoals(), queryKeys.allTeamGoals(), queryKeys.allPersonalGoalNotes());
+
+    let data = createMockBackendData();
+    if (changeData) {
+        changeData(data);
+    }
+    setMockBackendData(data);
+
+    let fakeTeamsContext = { ...getMockTeamsContext(), ...context };
+    installMockBackend(fakeTeamsContext, 0);
+    return installFakeTeamsHost(fakeTeamsContext, false);
+}
+
+/**
+* Render component as a route of app.
+* @param component {Object} Component to be rendered.
+* @param url {String} URL of route including query parameters read by component.
+* @returns Element containing rendered component.
+*/
+export const renderRoute = async (component: React.ReactElement, url: string): Promise<HTMLDivElement> => {
+    window.history.replaceState(null, "", url);
+    container = document.createElement("div");
+    document.body.appendChild(container);
+
+    await act(async () => {
+        ReactDOM.render(
+            <I18nextProvider i18n={testI18n}>
+                <Provider theme={themes.teams}>
+                    <TeamsContextProvider>
+                        {component}
+                    </TeamsContextProvider>
+                </Provider>
+            </I18nextProvider>, container);
+    });
+
+    return container;
+}
+
+/**
+* Unmount component rendered by test.
+*/
+export const cleanupRoute = () => {
+    if (container) {
+        ReactDOM.unmountComponentAtNode(container);
+        container.remove();
+        container = null;
+    }
+}
+
+/**
+* Wait until condition is met, e.g. data loaded from mock backend is rendered.
+* @param condition {Function} Function returning true once condition is met.
+* @param timeoutInMilliseconds {Number} Time after which waiting fails.
+*/
+export const waitFor = async (condition: () => boolean, timeoutInMilliseconds: number = 3000) => {
+    let startedOn = Date.now();
+    while (!condition()) {
+        if (Date.now() - startedOn > timeoutInMilliseconds) {
+            throw new Error("Condition was not met in time.");
+        }
+
+        await act(() => new Promise(resolve => setTimeout(resolve, 20)));
+    }
+}
+
+/**
+* Find button by its text.
+* @param element {Object} Element containing button.
+* @param text {String} Text of button.
+*/
+export const findButton = (element: HTMLElement, text: string): HTMLButtonElement | undefined => {
+    return Array.from(element.querySelectorAll("button")).find(button => button.textContent === text);
+}
+
+/**
+* Click element and wait for state updates caused by click.
+* @param element {Object} Element to be clicked.
+* @param eventInit {Object} Additional properties of click event, e.g. pressed modifier keys.
+*/
+export const click = async (element: Element, eventInit?: MouseEventInit) => {
+    await act(async () => {
+        element.dispatchEvent(new MouseEvent("click", { ...eventInit, bubbles: true }));
+    });
+}
+
+/**
+* Change value of input or text area and wait for state updates caused by change.
+* @param input {Object} Input or text area element.
+* @param value {String} New value.
+*/
+export const changeInputValue = async (input: HTMLInputElement | HTMLTextAreaElement, value: string) => {
+    let valueSetter = Object.getOwnPropertyDescriptor(input instanceof HTMLTextAreaElement ? HTMLTextAreaElement.prototype : HTMLInputElement.prototype, "value")!.set!;
+    await act(async () => {
+        valueSetter.call(input, value);
+        input.dispatchEvent(new Event("input", { bubbles: true }));
+    });
+}
+
+/**
+* Press key on element and wait for state updates caused by key press.
+* @param element {Object} Element which has focus.
+* @param key {String} Key value, e.g. "Enter" or "ArrowRight".
+*/
+export const pressKey = async (element: Element, key: string) => {
+    await act(async () => {
+        element.dispatchEvent(new KeyboardEvent("keydown", { key: key, bubbles: true }));
+    });
+}
+
+/**
+* Choose file in file input and wait for state updates caused by change.
+* @param input {Object} File input element.
+* @param file {Object} Chosen file.
+*/
+export const chooseFile = async (input: HTMLInputElement, file: File) => {
+    Object.defineProperty(input, "files", { value: [file], configurable: true });
+    await act(async () => {
+        input.dispatchEvent(new Event("change", { bubbles: true }));
+    });
+}
+
+/**
+* Drag element and drop it on target element, and wait for state updates caused by drop.
+* @param element {Object} Dragged element.
+* @param target {Object} Element element is dropped on.
+*/
+export const dragAndDrop = async (element: Element, target: Element) => {
+    let data: { [format: string]: string } = {};
+    let dataTransfer = {
+        dropEffect: "none",
+        effectAllowed: "all",
+        setData: (format: string, value: string) => { data[format] = value; },
+        getData: (format: string) => data[format] || "",
+    };
+    let dispatchDragEvent = (eventTarget: Element, type: string) => {
+        let event = new Event(type, { bubbles: true, cancelable: true });
+        Object.defineProperty(event, "dataTransfer", { value: dataTransfer });
+        eventTarget.dispatchEvent(event);
+    }
+
+    await act(async () => {
+        dispatchDragEvent(element, "dragstart");
+        dispatchDragEvent(target, "dragover");
+        dispatchDragEvent(target, "drop");
+        dispatchDragEvent(element, "dragend");
+    });
+}
@@ -2,6 +2,9 @@
 // Copyright (c) Microsoft. All rights reserved.
 // </copyright>
 
+import * as microsoftTeams from "@microsoft/teams-js";
+import { TFunction } from "i18next";
+
 export interface ITeamGoalDetail {
     CreatedOn: string,
     CreatedBy?: string | null,
@@ -20,6 +23,8 @@ export interface ITeamGoalDetail {
     AdaptiveCardActivityId: string,
     ServiceURL: string | null,
     GoalCycleId: string,
+    Description?: string | null,
+    DefinitionOfDone?: string | null,
 }
 export interface IPersonalGoalDetail {
     UserAadObjectId?: string | null,
@@ -46,6 +51,48 @@ export interface IPersonalGoalDetail {
     EndDateUTC: string,
     NotesCount: number,
     GoalCycleId: string,
+    Progress?: number | null,
+    KeyResults?: string | null,
+    DueDate?: string | null,
+    Priority?: number | null,
+    Tags?: string | null,
+    Description?: string | null,
+    DefinitionOfDone?: string | null,
+}
+export interface IDoneCriterion {
+    criterionId: string,
+    text: string,
+    isDone: boolean
+}
+export interface IGoalTemplate {
+    GoalTemplateId: string,
+    TeamId?: string | null,
+    GoalName: string,
+    Description?: string | null,
+    ReminderFrequency: number,
+    CreatedOn?: string,
+    CreatedBy?: string | null,
+    LastModifiedOn?: string,
+    LastModifiedBy?: string | null
+}
+export interface IKeyResult {
+    keyResultId: string,
+    title: string,
+    targetValue: number,
+    currentValue: number,
+    unit: string
+}
+export interface IPersonalGoalBatchRequest {
+    Action: number,
+    PersonalGoalIds: string[],
+    Status?: number,
+    IsReminderActive?: boolean,
+    ReminderFrequency?: number
+}
+export interface IPersonalGoalBatchResult {
+    PersonalGoalId: string,
+    IsSuccess: boolean,
+    ErrorMessage?: string | null
 }
 export interface IPersonalGoalNoteDetail {
     CreatedOn: string,
@@ -59,14 +106,272 @@ export interface IPersonalGoalNoteDetail {
     SourceName: string,
     UserAadObjectId: string,
     NotesCount: number,
-    IsEdited: boolean
+    IsEdited: boolean,
+    Revisions?: string | null,
+    Tags?: string | null
+}
+export interface INoteRevision {
+    description: string,
+    modifiedOn: string,
+    modifiedBy: string
 }
 export interface IAddNewGoal {
     key: string
     header: JSX.Element,
-    goalName: string
+    goalName: string,
+    tags?: IGoalTag[],
+    description?: string | null,
+    definitionOfDone?: IDoneCriterion[],
+    carriedOverGoal?: IPersonalGoalDetail,
+    carriedOverNotes?: IPersonalGoalNoteDetail[]
+}
+
+export interface INewGoalHandlers {
+    localize: TFunction,
+    onRemove: (goalId: string) => void,
+    onNameChange: (goalId: string, event: any) => void
+}
+
+export interface IImportedGoal {
+    goalName: string,
+    startDate: Date | null,
+    endDate: Date | null,
+    hasInvalidDates: boolean
+}
+
+export type GoalImportIssue = "tooLong" | "duplicate" | "invalidDates" | "overLimit";
+
+export interface IGoalImportPreviewItem {
+    goal: IImportedGoal,
+    issue: GoalImportIssue | null
 }
 
 export interface ITeamOwnerDetail {
     TeamOwnerId: string
-}
\ No newline at end of file
+}
+export type ApiErrorCode = "networkError" | "badRequest" | "unauthorized" | "forbidden" | "notFound" | "conflict" | "tooManyRequests" | "serverError" | "cancelled" | "consentRequired" | "unknown";
+
+export interface IApiSuccessResult<T> {
+    isSuccess: true,
+    status: number,
+    data: T,
+    isQueued?: boolean
+}
+
+export interface IApiFailureResult {
+    isSuccess: false,
+    status: number,
+    errorCode: ApiErrorCode,
+    message: string,
+    isRetryable: boolean
+}
+
+export type ApiResult<T> = IApiSuccessResult<T> | IApiFailureResult;
+
+export interface IRetryPolicy {
+    maxRetries: number,
+    baseDelayInMilliseconds: number,
+    maxDelayInMilliseconds: number
+}
+
+
+export interface IQueryCacheEntry {
+    data: any,
+    cachedOn: number
+}
+
+export interface IPendingQuery {
+    result: Promise<ApiResult<any>>,
+    controller: AbortController,
+    subscriberCount: number
+}
+
+export type QueuedMutationMethod = "put" | "patch" | "delete";
+
+export interface IEntityVersionCheck {
+    url: string,
+    idPropertyName: string,
+    lastModifiedOn: { [entityId: string]: string }
+}
+
+export interface IQueuedMutation {
+    id?: number,
+    method: QueuedMutationMethod,
+    url: string,
+    data?: any,
+    headers?: { [name: string]: string },
+    personalGoalId?: string | null,
+    versionCheck?: IEntityVersionCheck,
+    invalidatedQueryKeys: string[],
+    queuedOn?: number
+}
+
+export type MutationFailureReason = "conflict" | "rejected";
+
+export interface IMutationConflict {
+    id?: number,
+    personalGoalId?: string | null,
+    conflictingEntityIds: string[],
+    detectedOn: number,
+    reason?: MutationFailureReason,
+    message?: string
+}
+
+export interface IMutationQueueState {
+    pendingMutations: IQueuedMutation[],
+    conflicts: IMutationConflict[]
+}
+
+export interface IRequestCanceller {
+    signal: AbortSignal,
+    cancel: () => void
+}
+
+export interface IMockBackendData {
+    personalGoals: IPersonalGoalDetail[],
+    personalGoalNotes: IPersonalGoalNoteDetail[],
+    teamGoals: ITeamGoalDetail[],
+    goalTemplates: IGoalTemplate[],
+    teamOwnerIds: string[]
+}
+
+export interface IFakeTeamsHost {
+    context: microsoftTeams.Context,
+    startedTasks: microsoftTeams.TaskInfo[],
+    submittedTasks: (string | object | undefined)[],
+    changeTheme: (theme: string) => void
+}
+
+export interface ITeamsContext {
+    isContextReady: boolean,
+    context: microsoftTeams.Context | null,
+    theme: string,
+    locale: string,
+    teamId?: string | null,
+    groupId?: string | null,
+    userObjectId?: string | null,
+    userPrincipalName?: string | null
+}
+
+export interface ITeamsContextProps {
+    teamsContext: ITeamsContext
+}
+
+export type GoalAlignmentFilter = "all" | "aligned" | "unaligned";
+
+export type GoalNotesFilter = "all" | "withNotes" | "withoutNotes";
+
+export type PersonalGoalSortColumn = "name" | "lastModified" | "endDate";
+
+export type SortDirection = "asc" | "desc";
+
+export type PersonalGoalView = "list" | "board" | "cycles" | "deleted";
+
+export type GoalDueState = "overdue" | "dueSoon";
+
+export type GoalGroupBy = "status" | "tag";
+
+export type GoalTagColor = "blue" | "green" | "orange" | "purple" | "red" | "teal" | "gray";
+
+export interface IGoalTag {
+    name: string,
+    color: GoalTagColor
+}
+
+export interface IGoalTagGroup {
+    tag: IGoalTag | null,
+    goals: IPersonalGoalDetail[]
+}
+
+export type NoteInlineType = "text" | "bold" | "italic" | "link";
+
+export interface INoteInline {
+    type: NoteInlineType,
+    text: string,
+    url?: string
+}
+
+export type NoteBlockType = "paragraph" | "bulletList" | "numberedList" | "checklist";
+
+export interface INoteBlockItem {
+    lineIndex: number,
+    inlines: INoteInline[],
+    isChecked?: boolean
+}
+
+export interface INoteBlock {
+    type: NoteBlockType,
+    items: INoteBlockItem[]
+}
+
+export type NoteMarkdownFormat = "bold" | "italic" | "bulletList" | "checklist" | "link";
+
+export type NoteDiffPartType = "unchanged" | "added" | "removed";
+
+export interface INoteDiffPart {
+    type: NoteDiffPartType,
+    text: string
+}
+
+export interface INoteMarkdownEdit {
+    text: string,
+    selectionStart: number,
+    selectionEnd: number
+}
+
+export interface IGoalCycle {
+    goalCycleId: string,
+    startDate: string,
+    endDate: string,
+    goals: IPersonalGoalDetail[]
+}
+
+export interface IGoalCycleCompletion {
+    totalCount: number,
+    notStartedCount: number,
+    inProgressCount: number,
+    completedCount: number,
+    completionRate: number
+}
+
+export type TimelineZoom = "week" | "month";
+
+export interface ITimelineMilestone {
+    key: string,
+    title: string,
+    date: string
+}
+
+export interface ITimelineItem {
+    key: string,
+    title: string,
+    startDate: string,
+    endDate: string,
+    isTeamGoal: boolean,
+    status?: number,
+    milestones: ITimelineMilestone[]
+}
+
+export interface ITimelineColumn {
+    key: string,
+    label: string,
+    offset: number,
+    width: number
+}
+
+export interface ITimelineScale {
+    startDate: string,
+    dayWidth: number,
+    width: number,
+    columns: ITimelineColumn[]
+}
+
+export interface IPersonalGoalFilter {
+    searchText: string,
+    alignment: GoalAlignmentFilter,
+    teamGoalId: string,
+    notes: GoalNotesFilter,
+    sortColumn: PersonalGoalSortColumn | null,
+    sortDirection: SortDirection,
+    groupBy: GoalGroupBy
+}
@@ -16,6 +16,7 @@ import SignInSimpleEnd from "../components/signin/signin-end";
 import PersonalGoal from '../components/setgoals/personal-goal'
 import TeamGoal from '../components/setgoals/team-goal'
 import AlignGoal from '../components/align-goal/align-goal';
+import GoalTimeline from '../components/goal-timeline/goal-timeline';
 
 export const AppRoute: React.FunctionComponent<{}> = () => {
 	return (
@@ -32,6 +33,7 @@ export const AppRoute: React.FunctionComponent<{}> = () => {
 					<Route exact path="/edit-goal-detail" component={EditGoal} />
                     <Route exact path="/team-goal" component={TeamGoal} />
 					<Route exact path="/align-goal" component={AlignGoal} />
+					<Route exact path="/goal-timeline" component={GoalTimeline} />
 				</Switch>
 			</BrowserRouter>
 		</Suspense>
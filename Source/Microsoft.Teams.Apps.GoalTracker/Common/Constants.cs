@@ -64,11 +64,21 @@ namespace Microsoft.Teams.Apps.GoalTracker.Common
         /// </summary>
         public const int MaximumNumberOfNotes = 10;
 
+        /// <summary>
+        /// Maximum number of earlier revisions kept for a note. Oldest revisions are removed first to keep entity within table storage property size limit.
+        /// </summary>
+        public const int MaximumNumberOfNoteRevisions = 20;
+
         /// <summary>
         /// Maximum number of goals that can be added by team owner or user.
         /// </summary>
         public const int MaximumNumberOfGoals = 15;
 
+        /// <summary>
+        /// Maximum number of goal templates that can be published by team owner in a team.
+        /// </summary>
+        public const int MaximumNumberOfGoalTemplates = 30;
+
         /// <summary>
         /// Described adaptive card version to be used. Version can be upgraded or changed using this value.
         /// </summary>
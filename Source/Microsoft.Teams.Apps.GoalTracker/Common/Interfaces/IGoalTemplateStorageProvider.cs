@@ -0,0 +1,31 @@
+﻿// <copyright file="IGoalTemplateStorageProvider.cs" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+namespace Microsoft.Teams.Apps.GoalTracker.Common
+{
+    using System.Collections.Generic;
+    using System.Threading.Tasks;
+    using Microsoft.Teams.Apps.GoalTracker.Models;
+
+    /// <summary>
+    /// Interface for provider class which helps in storing, updating, deleting goal templates of team in storage.
+    /// </summary>
+    public interface IGoalTemplateStorageProvider
+    {
+        /// <summary>
+        /// Get goal templates published in team.
+        /// </summary>
+        /// <param name="teamId">Team id for which goal templates need to be fetched.</param>
+        /// <returns>Returns collection of goal templates.</returns>
+        Task<IEnumerable<GoalTemplateDetail>> GetGoalTemplatesByTeamIdAsync(string teamId);
+
+        /// <summary>
+        /// Replaces goal templates of team with given templates. Stored templates which are not in given collection are deleted.
+        /// </summary>
+        /// <param name="teamId">Team id for which goal templates need to be stored.</param>
+        /// <param name="goalTemplateEntities">Holds collection of goal templates.</param>
+        /// <returns>A boolean that represents goal templates are saved.</returns>
+        Task<bool> ReplaceGoalTemplatesAsync(string teamId, IEnumerable<GoalTemplateDetail> goalTemplateEntities);
+    }
+}
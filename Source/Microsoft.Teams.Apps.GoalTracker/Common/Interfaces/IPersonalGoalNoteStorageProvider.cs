@@ -49,6 +49,14 @@ namespace Microsoft.Teams.Apps.GoalTracker.Common
         /// <returns><see cref="Task"/>Already saved goal note entity details.</returns>
         Task<PersonalGoalNoteDetail> GetPersonalGoalNoteDetailAsync(string personalGoalNoteId, string userAadObjectId);
 
+        /// <summary>
+        /// Sets revisions of personal goal notes from storage and adds stored description as a new revision when it is changed by user.
+        /// </summary>
+        /// <param name="personalGoalNoteDetails">Collection of personal goal note details to be saved/updated in storage.</param>
+        /// <param name="userAadObjectId">AAD object id of the user who edits personal goal notes.</param>
+        /// <returns>A task that represents the work queued to execute.</returns>
+        Task SetPersonalGoalNoteRevisionsAsync(IEnumerable<PersonalGoalNoteDetail> personalGoalNoteDetails, string userAadObjectId);
+
         /// <summary>
         /// Get number of notes added for a personal goal.
         /// </summary>
@@ -64,6 +72,13 @@ namespace Microsoft.Teams.Apps.GoalTracker.Common
         /// <returns>Returns collection of personal goal note details.</returns>
         Task<IEnumerable<PersonalGoalNoteDetail>> GetPersonalGoalNoteDetailsByUserAadObjectIdAsync(string userAadObjectId);
 
+        /// <summary>
+        /// Get personal goal note details of ended goal cycles by user AAD object id.
+        /// </summary>
+        /// <param name="userAadObjectId">AAD object id of the user for which personal goal note details need to be fetched.</param>
+        /// <returns>Returns collection of personal goal note details.</returns>
+        Task<IEnumerable<PersonalGoalNoteDetail>> GetPastPersonalGoalNoteDetailsByUserAadObjectIdAsync(string userAadObjectId);
+
         /// <summary>
         /// Get personal goal note details for specific personal goal Id.
         /// </summary>
@@ -34,6 +34,28 @@ namespace Microsoft.Teams.Apps.GoalTracker.Common
         /// <returns>Returns collection of personal goal details.</returns>
         Task<IEnumerable<PersonalGoalDetail>> GetPersonalGoalDetailsByUserAadObjectIdAsync(string userAadObjectId);
 
+        /// <summary>
+        /// Get personal goal details of ended goal cycles by AAD object id of user.
+        /// </summary>
+        /// <param name="userAadObjectId">AAD object id of the user for which personal goal details need to be fetched.</param>
+        /// <returns>Returns collection of personal goal details.</returns>
+        Task<IEnumerable<PersonalGoalDetail>> GetPastPersonalGoalDetailsByUserAadObjectIdAsync(string userAadObjectId);
+
+        /// <summary>
+        /// Get personal goal details deleted by user which are not yet removed from storage by background service.
+        /// </summary>
+        /// <param name="userAadObjectId">AAD object id of the user for which personal goal details need to be fetched.</param>
+        /// <returns>Returns collection of deleted personal goal details.</returns>
+        Task<IEnumerable<PersonalGoalDetail>> GetDeletedPersonalGoalDetailsByUserAadObjectIdAsync(string userAadObjectId);
+
+        /// <summary>
+        /// Get deleted personal goal detail by unique goal id.
+        /// </summary>
+        /// <param name="personalGoalId">Unique id of a personal goal.</param>
+        /// <param name="userAadObjectId">AAD object id of the user for which personal goal detail need to be fetched.</param>
+        /// <returns>Returns deleted personal goal detail for particular goal id.</returns>
+        Task<PersonalGoalDetail> GetDeletedPersonalGoalDetailByGoalIdAsync(string personalGoalId, string userAadObjectId);
+
         /// <summary>
         /// Get specific user's aligned goal details from personal goal detail storage table.
         /// </summary>
@@ -19,5 +19,12 @@ namespace Microsoft.Teams.Apps.GoalTracker.Helpers
         /// <param name="userId">User object id.</param>
         /// <returns>Team channel information.</returns>
         Task<TeamsChannelAccount> GetTeamMemberAsync(string teamId, string userId);
+
+        /// <summary>
+        /// To fetch AAD group id of specified team.
+        /// </summary>
+        /// <param name="teamId">Team id.</param>
+        /// <returns>AAD group id of team.</returns>
+        Task<string> GetTeamAadGroupIdAsync(string teamId);
     }
 }
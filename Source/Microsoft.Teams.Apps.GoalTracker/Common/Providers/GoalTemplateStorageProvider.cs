@@ -0,0 +1,121 @@
+﻿// <copyright file="GoalTemplateStorageProvider.cs" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+namespace Microsoft.Teams.Apps.GoalTracker.Common
+{
+    using System;
+    using System.Collections.Generic;
+    using System.Linq;
+    using System.Threading.Tasks;
+    using Microsoft.Extensions.Logging;
+    using Microsoft.Extensions.Options;
+    using Microsoft.Teams.Apps.GoalTracker.Models;
+    using Microsoft.WindowsAzure.Storage.Table;
+
+    /// <summary>
+    /// Implements storage provider which helps in storing, updating, deleting goal templates of team in storage.
+    /// </summary>
+    public class GoalTemplateStorageProvider : BaseStorageProvider, IGoalTemplateStorageProvider
+    {
+        /// <summary>
+        /// Represents goal template table name in storage.
+        /// </summary>
+        private const string GoalTemplateTableName = "GoalTemplateDetail";
+
+        /// <summary>
+        /// Instance to send logs to the Application Insights service.
+        /// </summary>
+        private readonly ILogger<GoalTemplateStorageProvider> logger;
+
+        /// <summary>
+        /// Initializes a new instance of the <see cref="GoalTemplateStorageProvider"/> class.
+        /// Handles storage read write operations.
+        /// </summary>
+        /// <param name="storageOptions">A set of key/value application configuration properties for storage.</param>
+        /// <param name="logger">Instance to send logs to the Application Insights service.</param>
+        public GoalTemplateStorageProvider(IOptionsMonitor<StorageOptions> storageOptions, ILogger<GoalTemplateStorageProvider> logger)
+            : base(storageOptions, GoalTemplateTableName)
+        {
+            this.logger = logger;
+        }
+
+        /// <summary>
+        /// Get goal templates published in team.
+        /// </summary>
+        /// <param name="teamId">Team id for which goal templates need to be fetched.</param>
+        /// <returns>Returns collection of goal templates.</returns>
+        public async Task<IEnumerable<GoalTemplateDetail>> GetGoalTemplatesByTeamIdAsync(string teamId)
+        {
+            teamId = teamId ?? throw new ArgumentNullException(nameof(teamId));
+
+            try
+            {
+                await this.EnsureInitializedAsync();
+                string teamIdFilter = TableQuery.GenerateFilterCondition(nameof(GoalTemplateDetail.PartitionKey), QueryComparisons.Equal, teamId);
+                var query = new TableQuery<GoalTemplateDetail>().Where(teamIdFilter);
+                TableContinuationToken continuationToken = null;
+                var goalTemplates = new List<GoalTemplateDetail>();
+
+                do
+                {
+                    var queryResult = await this.CloudTable.ExecuteQuerySegmentedAsync(query, continuationToken);
+                    if (queryResult?.Results != null)
+                    {
+                        goalTemplates.AddRange(queryResult.Results);
+                        continuationToken = queryResult.ContinuationToken;
+                    }
+                }
+                while (continuationToken != null);
+
+                return goalTemplates;
+            }
+            catch (Exception ex)
+            {
+                this.logger.LogError(ex, $"An error occurred in {nameof(this.GetGoalTemplatesByTeamIdAsync)} while getting goal templates by team id: {teamId}");
+                throw;
+            }
+        }
+
+        /// <summary>
+        /// Replaces goal templates of team with given templates. Stored templates which are not in given collection are deleted.
+        /// All templates of team share partition key, so they are replaced in single batch operation.
+        /// </summary>
+        /// <param name="teamId">Team id for which goal templates need to be stored.</param>
+        /// <param name="goalTemplateEntities">Holds collection of goal templates.</param>
+        /// <returns>A boolean that represents goal templates are saved.</returns>
+        public async Task<bool> ReplaceGoalTemplatesAsync(string teamId, IEnumerable<GoalTemplateDetail> goalTemplateEntities)
+        {
+            teamId = teamId ?? throw new ArgumentNullException(nameof(teamId));
+            goalTemplateEntities = goalTemplateEntities ?? throw new ArgumentNullException(nameof(goalTemplateEntities));
+
+            try
+            {
+                var storedGoalTemplates = await this.GetGoalTemplatesByTeamIdAsync(teamId);
+                TableBatchOperation tableBatchOperation = new TableBatchOperation();
+                foreach (var storedGoalTemplate in storedGoalTemplates.Where(storedGoalTemplate => !goalTemplateEntities.Any(goalTemplate => goalTemplate.GoalTemplateId == storedGoalTemplate.GoalTemplateId)))
+                {
+                    tableBatchOperation.Delete(storedGoalTemplate);
+                }
+
+                foreach (var goalTemplateEntity in goalTemplateEntities)
+                {
+                    goalTemplateEntity.TeamId = teamId;
+                    tableBatchOperation.InsertOrReplace(goalTemplateEntity);
+                }
+
+                if (tableBatchOperation.Count > 0)
+                {
+                    await this.CloudTable.ExecuteBatchAsync(tableBatchOperation);
+                }
+
+                return true;
+            }
+            catch (Exception ex)
+            {
+                this.logger.LogError(ex, $"An error occurred in {nameof(this.ReplaceGoalTemplatesAsync)} while saving goal templates of team id: {teamId}");
+                throw;
+            }
+        }
+    }
+}
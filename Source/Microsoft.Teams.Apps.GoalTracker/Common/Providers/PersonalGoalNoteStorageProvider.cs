@@ -12,6 +12,7 @@ namespace Microsoft.Teams.Apps.GoalTracker.Common
     using Microsoft.Extensions.Options;
     using Microsoft.Teams.Apps.GoalTracker.Models;
     using Microsoft.WindowsAzure.Storage.Table;
+    using Newtonsoft.Json;
 
     /// <summary>
     /// Implements storage provider which helps in storing, updating, deleting personal note detail in storage.
@@ -170,6 +171,47 @@ namespace Microsoft.Teams.Apps.GoalTracker.Common
             }
         }
 
+        /// <summary>
+        /// Sets revisions of personal goal notes from storage and adds stored description as a new revision when it is changed by user.
+        /// Revisions received from client are ignored, so note history cannot be rewritten by caller.
+        /// </summary>
+        /// <param name="personalGoalNoteDetails">Collection of personal goal note details to be saved/updated in storage.</param>
+        /// <param name="userAadObjectId">AAD object id of the user who edits personal goal notes.</param>
+        /// <returns>A task that represents the work queued to execute.</returns>
+        public async Task SetPersonalGoalNoteRevisionsAsync(IEnumerable<PersonalGoalNoteDetail> personalGoalNoteDetails, string userAadObjectId)
+        {
+            personalGoalNoteDetails = personalGoalNoteDetails ?? throw new ArgumentNullException(nameof(personalGoalNoteDetails));
+
+            foreach (var personalGoalNoteDetail in personalGoalNoteDetails)
+            {
+                var storedPersonalGoalNoteDetail = await this.GetPersonalGoalNoteDetailAsync(personalGoalNoteDetail.PersonalGoalNoteId, userAadObjectId);
+                if (storedPersonalGoalNoteDetail == null)
+                {
+                    personalGoalNoteDetail.Revisions = null;
+                    continue;
+                }
+
+                personalGoalNoteDetail.Revisions = storedPersonalGoalNoteDetail.Revisions;
+                if (storedPersonalGoalNoteDetail.PersonalGoalNoteDescription == personalGoalNoteDetail.PersonalGoalNoteDescription)
+                {
+                    continue;
+                }
+
+                var revisions = string.IsNullOrEmpty(storedPersonalGoalNoteDetail.Revisions)
+                    ? new List<PersonalGoalNoteRevision>()
+                    : JsonConvert.DeserializeObject<List<PersonalGoalNoteRevision>>(storedPersonalGoalNoteDetail.Revisions);
+
+                revisions.Add(new PersonalGoalNoteRevision
+                {
+                    Description = storedPersonalGoalNoteDetail.PersonalGoalNoteDescription,
+                    ModifiedOn = storedPersonalGoalNoteDetail.LastModifiedOn ?? storedPersonalGoalNoteDetail.CreatedOn,
+                    ModifiedBy = storedPersonalGoalNoteDetail.LastModifiedBy ?? storedPersonalGoalNoteDetail.CreatedBy,
+                });
+
+                personalGoalNoteDetail.Revisions = JsonConvert.SerializeObject(revisions.Skip(Math.Max(0, revisions.Count - Constants.MaximumNumberOfNoteRevisions)));
+            }
+        }
+
         /// <summary>
         /// Get number of notes added for a personal goal.
         /// </summary>
@@ -222,6 +264,30 @@ namespace Microsoft.Teams.Apps.GoalTracker.Common
             }
         }
 
+        /// <summary>
+        /// Get personal goal note details of ended goal cycles by user AAD object id. Notes are deactivated along with their goal when goal cycle ends.
+        /// </summary>
+        /// <param name="userAadObjectId">AAD object id of the user for which personal goal note details need to be fetched.</param>
+        /// <returns>Returns collection of personal goal note details.</returns>
+        public async Task<IEnumerable<PersonalGoalNoteDetail>> GetPastPersonalGoalNoteDetailsByUserAadObjectIdAsync(string userAadObjectId)
+        {
+            userAadObjectId = userAadObjectId ?? throw new ArgumentNullException(nameof(userAadObjectId));
+
+            try
+            {
+                await this.EnsureInitializedAsync();
+                string isActiveFilter = TableQuery.GenerateFilterConditionForBool(nameof(PersonalGoalNoteDetail.IsActive), QueryComparisons.Equal, false);
+                string userAadObjectIdFilter = TableQuery.GenerateFilterCondition(nameof(PersonalGoalNoteDetail.PartitionKey), QueryComparisons.Equal, userAadObjectId);
+                var query = new TableQuery<PersonalGoalNoteDetail>().Where($"{isActiveFilter} and {userAadObjectIdFilter}");
+                return await this.GetPersonalGoalNoteDetailsAsync(query);
+            }
+            catch (Exception ex)
+            {
+                this.logger.LogError(ex, $"An error occurred in {nameof(this.GetPastPersonalGoalNoteDetailsByUserAadObjectIdAsync)} while getting past personal goal note details by AAD object id: {userAadObjectId}");
+                throw;
+            }
+        }
+
         /// <summary>
         /// Get personal goal note details for specific personal goal Id.
         /// </summary>
@@ -147,6 +147,83 @@ namespace Microsoft.Teams.Apps.GoalTracker.Common
             }
         }
 
+        /// <summary>
+        /// Get personal goal details of ended goal cycles by AAD object id of user. Goals are deactivated when their goal cycle ends.
+        /// </summary>
+        /// <param name="userAadObjectId">AAD object id of the user for which personal goal details need to be fetched.</param>
+        /// <returns>Returns collection of personal goal details.</returns>
+        public async Task<IEnumerable<PersonalGoalDetail>> GetPastPersonalGoalDetailsByUserAadObjectIdAsync(string userAadObjectId)
+        {
+            userAadObjectId = userAadObjectId ?? throw new ArgumentNullException(nameof(userAadObjectId));
+
+            try
+            {
+                await this.EnsureInitializedAsync();
+                string isActiveFilter = TableQuery.GenerateFilterConditionForBool(nameof(PersonalGoalDetail.IsActive), QueryComparisons.Equal, false);
+                string isDeletedFilter = TableQuery.GenerateFilterConditionForBool(nameof(PersonalGoalDetail.IsDeleted), QueryComparisons.Equal, false);
+                string userAadObjectIdFilter = TableQuery.GenerateFilterCondition(nameof(PersonalGoalDetail.PartitionKey), QueryComparisons.Equal, userAadObjectId);
+                var query = new TableQuery<PersonalGoalDetail>().Where($"{isActiveFilter} and {isDeletedFilter} and {userAadObjectIdFilter}");
+                return await this.GetPersonalGoalDetailsAsync(query);
+            }
+            catch (Exception ex)
+            {
+                this.logger.LogError(ex, $"An error occurred in {nameof(this.GetPastPersonalGoalDetailsByUserAadObjectIdAsync)} while getting past personal goal details by AAD object id: {userAadObjectId}");
+                throw;
+            }
+        }
+
+        /// <summary>
+        /// Get personal goal details deleted by user which are not yet removed from storage by background service.
+        /// </summary>
+        /// <param name="userAadObjectId">AAD object id of the user for which personal goal details need to be fetched.</param>
+        /// <returns>Returns collection of deleted personal goal details.</returns>
+        public async Task<IEnumerable<PersonalGoalDetail>> GetDeletedPersonalGoalDetailsByUserAadObjectIdAsync(string userAadObjectId)
+        {
+            userAadObjectId = userAadObjectId ?? throw new ArgumentNullException(nameof(userAadObjectId));
+
+            try
+            {
+                await this.EnsureInitializedAsync();
+                string isDeletedFilter = TableQuery.GenerateFilterConditionForBool(nameof(PersonalGoalDetail.IsDeleted), QueryComparisons.Equal, true);
+                string userAadObjectIdFilter = TableQuery.GenerateFilterCondition(nameof(PersonalGoalDetail.PartitionKey), QueryComparisons.Equal, userAadObjectId);
+                var query = new TableQuery<PersonalGoalDetail>().Where($"{isDeletedFilter} and {userAadObjectIdFilter}");
+                return await this.GetPersonalGoalDetailsAsync(query);
+            }
+            catch (Exception ex)
+            {
+                this.logger.LogError(ex, $"An error occurred in {nameof(this.GetDeletedPersonalGoalDetailsByUserAadObjectIdAsync)} while getting deleted personal goal details by AAD object id: {userAadObjectId}");
+                throw;
+            }
+        }
+
+        /// <summary>
+        /// Get deleted personal goal detail by unique goal id.
+        /// </summary>
+        /// <param name="personalGoalId">Unique id of a personal goal.</param>
+        /// <param name="userAadObjectId">AAD object id of the user for which personal goal detail need to be fetched.</param>
+        /// <returns>Returns deleted personal goal detail for particular goal id.</returns>
+        public async Task<PersonalGoalDetail> GetDeletedPersonalGoalDetailByGoalIdAsync(string personalGoalId, string userAadObjectId)
+        {
+            personalGoalId = personalGoalId ?? throw new ArgumentNullException(nameof(personalGoalId));
+            userAadObjectId = userAadObjectId ?? throw new ArgumentNullException(nameof(userAadObjectId));
+
+            try
+            {
+                await this.EnsureInitializedAsync();
+                string goalIdFilter = TableQuery.GenerateFilterCondition(nameof(PersonalGoalDetail.RowKey), QueryComparisons.Equal, personalGoalId);
+                string userAadObjectIdFilter = TableQuery.GenerateFilterCondition(nameof(PersonalGoalDetail.PartitionKey), QueryComparisons.Equal, userAadObjectId);
+                string isDeletedFilter = TableQuery.GenerateFilterConditionForBool(nameof(PersonalGoalDetail.IsDeleted), QueryComparisons.Equal, true);
+                var query = new TableQuery<PersonalGoalDetail>().Where($"{goalIdFilter} and {userAadObjectIdFilter} and {isDeletedFilter}");
+                var searchResult = await this.CloudTable.ExecuteQuerySegmentedAsync(query, null);
+                return searchResult.Results.FirstOrDefault();
+            }
+            catch (Exception ex)
+            {
+                this.logger.LogError(ex, $"An error occurred in {nameof(this.GetDeletedPersonalGoalDetailByGoalIdAsync)} while getting deleted personal goal detail by goal id: {personalGoalId}");
+                throw;
+            }
+        }
+
         /// <summary>
         /// Get personal goal details by unique goal id.
         /// </summary>
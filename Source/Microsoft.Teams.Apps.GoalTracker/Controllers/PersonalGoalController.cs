@@ -15,6 +15,7 @@ namespace Microsoft.Teams.Apps.GoalTracker.Controllers
     using Microsoft.Extensions.Logging;
     using Microsoft.Extensions.Options;
     using Microsoft.Identity.Client;
+    using Microsoft.Net.Http.Headers;
     using Microsoft.Teams.Apps.GoalTracker.Common;
     using Microsoft.Teams.Apps.GoalTracker.Helpers;
     using Microsoft.Teams.Apps.GoalTracker.Models;
@@ -96,6 +97,116 @@ namespace Microsoft.Teams.Apps.GoalTracker.Controllers
             }
         }
 
+        /// <summary>
+        /// Get personal goal details of user's ended goal cycles.
+        /// </summary>
+        /// <returns>Returns personal goal details of past goal cycles.</returns>
+        [HttpGet("past")]
+        public async Task<IActionResult> GetPastPersonalGoalDetailsAsync()
+        {
+            try
+            {
+                this.logger.LogInformation("Initiated call for fetching past personal goal details from storage");
+                var personalGoalDetails = await this.personalGoalStorageProvider.GetPastPersonalGoalDetailsByUserAadObjectIdAsync(this.UserObjectId);
+                this.logger.LogInformation("GET call for fetching past personal goal details from storage is successful");
+                return this.Ok(personalGoalDetails);
+            }
+#pragma warning disable CA1031 // Catching all generic exceptions in order to log exception details in logger
+            catch (Exception ex)
+#pragma warning restore CA1031 // Catching all generic exceptions in order to log exception details in logger
+            {
+                this.logger.LogError(ex, "Error while getting past personal goal details");
+                throw;
+            }
+        }
+
+        /// <summary>
+        /// Get personal goal details deleted by user which can still be restored.
+        /// Deleted goals stay in storage until goal deletion background service removes them, but goals of ended goal cycles cannot be restored.
+        /// </summary>
+        /// <returns>Returns deleted personal goal details of current goal cycle.</returns>
+        [HttpGet("deleted")]
+        public async Task<IActionResult> GetDeletedPersonalGoalDetailsAsync()
+        {
+            try
+            {
+                this.logger.LogInformation("Initiated call for fetching deleted personal goal details from storage");
+                var personalGoalDetails = await this.personalGoalStorageProvider.GetDeletedPersonalGoalDetailsByUserAadObjectIdAsync(this.UserObjectId);
+                this.logger.LogInformation("GET call for fetching deleted personal goal details from storage is successful");
+                return this.Ok(personalGoalDetails.Where(personalGoalDetail => !this.IsGoalCycleEnded(personalGoalDetail)));
+            }
+#pragma warning disable CA1031 // Catching all generic exceptions in order to log exception details in logger
+            catch (Exception ex)
+#pragma warning restore CA1031 // Catching all generic exceptions in order to log exception details in logger
+            {
+                this.logger.LogError(ex, "Error while getting deleted personal goal details");
+                throw;
+            }
+        }
+
+        /// <summary>
+        /// Post call to restore personal goal deleted by user, before goal deletion background service removes it from storage.
+        /// </summary>
+        /// <param name="personalGoalId">Unique identifier of personal goal to be restored.</param>
+        /// <returns>Returns true for successful operation of restoring personal goal.</returns>
+        [HttpPost("{personalGoalId}/restore")]
+        public async Task<IActionResult> RestorePersonalGoalDetailAsync(string personalGoalId)
+        {
+            try
+            {
+                if (!Guid.TryParse(personalGoalId, out var validPersonalGoalId))
+                {
+                    this.logger.LogError(StatusCodes.Status400BadRequest, $"Personal goal id:{personalGoalId} is not a valid GUID.");
+                    return this.BadRequest($"Personal goal id:{personalGoalId} is not a valid GUID.");
+                }
+
+                this.logger.LogInformation("Initiated call to personal goal storage provider service to restore personal goal detail.");
+                var existingGoalDetail = await this.personalGoalStorageProvider.GetDeletedPersonalGoalDetailByGoalIdAsync(personalGoalId, this.UserObjectId);
+                if (existingGoalDetail == null)
+                {
+                    this.logger.LogError(StatusCodes.Status404NotFound, $"The deleted personal goal with personal goal id {personalGoalId} user trying to restore does not exist.");
+                    return this.NotFound("The personal goal user trying to restore does not exist.");
+                }
+
+                if (this.IsGoalCycleEnded(existingGoalDetail))
+                {
+                    this.logger.LogError(StatusCodes.Status400BadRequest, $"Goal cycle of personal goal with personal goal id {personalGoalId} has ended.");
+                    return this.BadRequest("Goal cycle of the personal goal has ended.");
+                }
+
+                var activeGoalDetails = await this.personalGoalStorageProvider.GetPersonalGoalDetailsByUserAadObjectIdAsync(this.UserObjectId);
+                if (activeGoalDetails.Count(goal => goal.GoalCycleId == existingGoalDetail.GoalCycleId && goal.IsActive && !goal.IsDeleted) >= Constants.MaximumNumberOfGoals)
+                {
+                    this.logger.LogError(StatusCodes.Status400BadRequest, $"Cannot restore personal goal with personal goal id {personalGoalId}, goal cycle already has {Constants.MaximumNumberOfGoals} goals.");
+                    return this.BadRequest($"Cannot add personal goals more than {Constants.MaximumNumberOfGoals}.");
+                }
+
+                existingGoalDetail.IsDeleted = false;
+                existingGoalDetail.IsActive = true;
+                existingGoalDetail.LastModifiedOn = DateTime.UtcNow.ToString("o", CultureInfo.InvariantCulture);
+                existingGoalDetail.LastModifiedBy = this.HttpContext.User.Identity.Name;
+                var result = await this.personalGoalStorageProvider.CreateOrUpdatePersonalGoalDetailAsync(existingGoalDetail);
+                this.logger.LogInformation("POST call for restoring personal goal detail in storage is successful");
+
+                if (!result)
+                {
+                    this.logger.LogError(StatusCodes.Status500InternalServerError, $"Could not restore goal data received with personal goal id {personalGoalId}.");
+                    return this.StatusCode(StatusCodes.Status500InternalServerError, "Could not restore goal data received.");
+                }
+
+                // Update list card of personal bot. Enqueue task to task wrapper and it will be executed by goal background service.
+                this.backgroundTaskWrapper.Enqueue(this.cardHelper.UpdatePersonalGoalListCardAsync(existingGoalDetail));
+                return this.Ok(result);
+            }
+#pragma warning disable CA1031 // Catching all generic exceptions in order to log exception details in logger
+            catch (Exception ex)
+#pragma warning restore CA1031 // Catching all generic exceptions in order to log exception details in logger
+            {
+                this.logger.LogError(ex, "Error while restoring personal goal detail.");
+                throw;
+            }
+        }
+
         /// <summary>
         /// Get details of a personal goal by personal goal Id.
         /// </summary>
@@ -128,9 +239,10 @@ namespace Microsoft.Teams.Apps.GoalTracker.Controllers
 
         /// <summary>
         /// Put call to update a personal goal detail in storage.
+        /// If-Match header, when present, must match last modified time of stored goal so that changes made by another client are not overwritten.
         /// </summary>
         /// <param name="personalGoalData">Class contains detail of personal goal to be saved or updated.</param>
-        /// <returns>Returns true for successful operation.</returns>
+        /// <returns>Returns stored personal goal detail with its new last modified time for successful operation, or stored personal goal detail with precondition failed status if goal was changed meanwhile.</returns>
         [HttpPatch("{personalGoalId}")]
         public async Task<IActionResult> UpdatePersonalGoalDetailAsync(PersonalGoalDetail personalGoalData)
         {
@@ -152,6 +264,16 @@ namespace Microsoft.Teams.Apps.GoalTracker.Controllers
                     return this.NotFound("The personal goal user trying to update does not exist.");
                 }
 
+                var ifMatchHeader = this.Request.Headers[HeaderNames.IfMatch].ToString();
+                if (!string.IsNullOrEmpty(ifMatchHeader) && !string.Equals(ifMatchHeader.Trim('"'), existingGoalDetail.LastModifiedOn, StringComparison.Ordinal))
+                {
+                    this.logger.LogInformation($"The personal goal was modified after user loaded it. Personal goal id: {personalGoalData.PersonalGoalId}");
+                    return this.StatusCode(StatusCodes.Status412PreconditionFailed, existingGoalDetail);
+                }
+
+                // Round-trip format is used so that updates made within same second can be distinguished.
+                personalGoalData.LastModifiedOn = DateTime.UtcNow.ToString("o", CultureInfo.InvariantCulture);
+
                 this.logger.LogInformation("Initiated call to personal goal storage provider.");
                 var result = await this.personalGoalStorageProvider.CreateOrUpdatePersonalGoalDetailAsync(personalGoalData);
                 this.logger.LogInformation("PATCH call for saving personal goal detail in storage is successful");
@@ -164,7 +286,9 @@ namespace Microsoft.Teams.Apps.GoalTracker.Controllers
 
                 // Update list card of personal bot. Enqueue task to task wrapper and it will be executed by goal background service.
                 this.backgroundTaskWrapper.Enqueue(this.cardHelper.UpdatePersonalGoalListCardAsync(personalGoalData));
-                return this.Ok(result);
+
+                // Stored goal is returned so client can send its new last modified time as precondition of next update.
+                return this.Ok(personalGoalData);
             }
 #pragma warning disable CA1031 // Catching all generic exceptions in order to log exception details in logger
             catch (Exception ex)
@@ -214,6 +338,104 @@ namespace Microsoft.Teams.Apps.GoalTracker.Controllers
             }
         }
 
+        /// <summary>
+        /// Post call to apply same action to multiple personal goals of user. Action is applied to each goal separately,
+        /// so goals which could not be updated do not prevent update of other goals.
+        /// </summary>
+        /// <param name="batchRequest">Class contains action and unique ids of personal goals it is applied to.</param>
+        /// <returns>Returns result of action for each personal goal.</returns>
+        [HttpPost("batch")]
+        public async Task<IActionResult> UpdatePersonalGoalDetailsInBatchAsync(PersonalGoalBatchRequest batchRequest)
+        {
+            try
+            {
+#pragma warning disable CA1062 // Post details are validated by model validations for null check and is responded with bad request status
+                var validationResponse = this.ValidatePersonalGoalBatchRequest(batchRequest);
+#pragma warning restore CA1062 // Post details are validated by model validations for null check and is responded with bad request status
+                if (validationResponse.StatusCode != StatusCodes.Status200OK)
+                {
+                    return validationResponse;
+                }
+
+                var results = new List<PersonalGoalBatchResult>();
+                PersonalGoalDetail lastUpdatedGoalDetail = null;
+                foreach (var personalGoalId in batchRequest.PersonalGoalIds.Distinct())
+                {
+                    var batchResult = new PersonalGoalBatchResult { PersonalGoalId = personalGoalId };
+                    results.Add(batchResult);
+
+                    try
+                    {
+                        var existingGoalDetail = await this.personalGoalStorageProvider.GetPersonalGoalDetailByGoalIdAsync(personalGoalId, this.UserObjectId);
+                        if (existingGoalDetail == null || existingGoalDetail.IsDeleted)
+                        {
+                            this.logger.LogInformation($"The personal goal user trying to update in batch does not exist. Personal goal id: {personalGoalId}");
+                            batchResult.ErrorMessage = "The personal goal does not exist.";
+                            continue;
+                        }
+
+                        switch (batchRequest.Action)
+                        {
+                            case PersonalGoalBatchAction.ChangeStatus:
+                                existingGoalDetail.Status = batchRequest.Status.Value;
+                                break;
+
+                            case PersonalGoalBatchAction.Delete:
+                                // Deleted goals are removed from storage by background service, same as goals deleted one by one.
+                                existingGoalDetail.IsDeleted = true;
+                                existingGoalDetail.IsActive = false;
+                                break;
+
+                            case PersonalGoalBatchAction.SetReminder:
+                                existingGoalDetail.IsReminderActive = batchRequest.IsReminderActive.Value;
+                                break;
+
+                            case PersonalGoalBatchAction.ChangeReminderFrequency:
+                                existingGoalDetail.ReminderFrequency = batchRequest.ReminderFrequency.Value;
+                                break;
+                        }
+
+                        existingGoalDetail.LastModifiedOn = DateTime.UtcNow.ToString("o", CultureInfo.InvariantCulture);
+                        existingGoalDetail.LastModifiedBy = this.HttpContext.User.Identity.Name;
+                        batchResult.IsSuccess = await this.personalGoalStorageProvider.CreateOrUpdatePersonalGoalDetailAsync(existingGoalDetail);
+                        if (batchResult.IsSuccess)
+                        {
+                            lastUpdatedGoalDetail = existingGoalDetail;
+                        }
+                        else
+                        {
+                            this.logger.LogError($"Could not update goal data in batch with personal goal id: {personalGoalId}.");
+                            batchResult.ErrorMessage = "Could not update goal data.";
+                        }
+                    }
+#pragma warning disable CA1031 // Catching all generic exceptions so that failure of one goal does not stop update of other goals
+                    catch (Exception ex)
+#pragma warning restore CA1031 // Catching all generic exceptions so that failure of one goal does not stop update of other goals
+                    {
+                        this.logger.LogError(ex, $"Error while updating personal goal detail in batch with personal goal id: {personalGoalId}.");
+                        batchResult.ErrorMessage = "Could not update goal data.";
+                    }
+                }
+
+                this.logger.LogInformation("POST call for updating personal goal details in batch is completed");
+
+                // Update list card of personal bot once, as card lists all goals of user.
+                if (lastUpdatedGoalDetail != null)
+                {
+                    this.backgroundTaskWrapper.Enqueue(this.cardHelper.UpdatePersonalGoalListCardAsync(lastUpdatedGoalDetail));
+                }
+
+                return this.Ok(results);
+            }
+#pragma warning disable CA1031 // Catching all generic exceptions in order to log exception details in logger
+            catch (Exception ex)
+#pragma warning restore CA1031 // Catching all generic exceptions in order to log exception details in logger
+            {
+                this.logger.LogError(ex, "Error while updating personal goal details in batch");
+                throw;
+            }
+        }
+
         /// <summary>
         /// Call to delete specified personal goal detail from storage.
         /// </summary>
@@ -264,6 +486,17 @@ namespace Microsoft.Teams.Apps.GoalTracker.Controllers
             }
         }
 
+        /// <summary>
+        /// Checks whether goal cycle of personal goal has ended. Goals of ended goal cycles are not restored as they are no longer active.
+        /// </summary>
+        /// <param name="personalGoalDetail">Personal goal detail.</param>
+        /// <returns>Returns true if end date of goal cycle is passed.</returns>
+        private bool IsGoalCycleEnded(PersonalGoalDetail personalGoalDetail)
+        {
+            return !string.IsNullOrEmpty(personalGoalDetail.EndDateUTC)
+                && DateTime.Parse(personalGoalDetail.EndDateUTC, CultureInfo.InvariantCulture).Date < DateTime.UtcNow.Date;
+        }
+
         /// <summary>
         /// Validates a personal goal data received from client application is valid.
         /// </summary>
@@ -301,6 +534,38 @@ namespace Microsoft.Teams.Apps.GoalTracker.Controllers
             return this.Ok("Personal goal detail received is valid.");
         }
 
+        /// <summary>
+        /// Validates batch action received from client application is valid and has value needed by action.
+        /// </summary>
+        /// <param name="batchRequest">Action and unique ids of personal goals it is applied to.</param>
+        /// <returns> Returns response representing whether data received is valid or not</returns>
+        private ObjectResult ValidatePersonalGoalBatchRequest(PersonalGoalBatchRequest batchRequest)
+        {
+            if (batchRequest.PersonalGoalIds.Count() > Constants.MaximumNumberOfGoals)
+            {
+                this.logger.LogError(StatusCodes.Status400BadRequest, $"Cannot update personal goals more than {Constants.MaximumNumberOfGoals}.");
+                return this.BadRequest($"Cannot update personal goals more than {Constants.MaximumNumberOfGoals}.");
+            }
+
+            var invalidPersonalGoalId = batchRequest.PersonalGoalIds.FirstOrDefault(personalGoalId => !Guid.TryParse(personalGoalId, out _));
+            if (invalidPersonalGoalId != null)
+            {
+                this.logger.LogError(StatusCodes.Status400BadRequest, $"Personal goal id:{invalidPersonalGoalId} is not a valid GUID.");
+                return this.BadRequest($"Personal goal id:{invalidPersonalGoalId} is not a valid GUID.");
+            }
+
+            if ((batchRequest.Action == PersonalGoalBatchAction.ChangeStatus && batchRequest.Status == null)
+                || (batchRequest.Action == PersonalGoalBatchAction.SetReminder && batchRequest.IsReminderActive == null)
+                || (batchRequest.Action == PersonalGoalBatchAction.ChangeReminderFrequency && batchRequest.ReminderFrequency == null))
+            {
+                this.logger.LogError(StatusCodes.Status400BadRequest, $"Value for batch action {batchRequest.Action} is missing.");
+                return this.BadRequest($"Value for batch action {batchRequest.Action} is missing.");
+            }
+
+            this.logger.LogInformation(StatusCodes.Status200OK, $"Personal goal batch request received is valid.");
+            return this.Ok("Personal goal batch request received is valid.");
+        }
+
         /// <summary>
         /// Validates personal goal collection received from client application is valid.
         /// </summary>
@@ -72,6 +72,29 @@ namespace Microsoft.Teams.Apps.GoalTracker.Controllers
             this.backgroundTaskWrapper = backgroundTaskWrapper;
         }
 
+        /// <summary>
+        /// Get all personal goal note details of user, used to search personal goals by note text.
+        /// </summary>
+        /// <returns>Returns personal goal note details.</returns>
+        [HttpGet]
+        public async Task<IActionResult> GetPersonalGoalNoteDetailsByUserAadObjectIdAsync()
+        {
+            try
+            {
+                this.logger.LogInformation("Initiated call for fetching personal goal note details of user from storage");
+                var personalGoalNoteDetails = await this.personalGoalNoteStorageProvider.GetPersonalGoalNoteDetailsByUserAadObjectIdAsync(this.UserObjectId);
+                this.logger.LogInformation("GET call for fetching personal goal note details of user from storage is successful");
+                return this.Ok(personalGoalNoteDetails);
+            }
+#pragma warning disable CA1031 // Catching all generic exceptions in order to log exception details in logger
+            catch (Exception ex)
+#pragma warning restore CA1031 // Catching all generic exceptions in order to log exception details in logger
+            {
+                this.logger.LogError(ex, "Error while getting personal goal note details of user");
+                throw;
+            }
+        }
+
         /// <summary>
         /// Get personal goal note count details by user object id.
         /// </summary>
@@ -108,6 +131,29 @@ namespace Microsoft.Teams.Apps.GoalTracker.Controllers
             }
         }
 
+        /// <summary>
+        /// Get personal goal note details of user's ended goal cycles.
+        /// </summary>
+        /// <returns>Returns personal goal note details of past goal cycles.</returns>
+        [HttpGet("past")]
+        public async Task<IActionResult> GetPastPersonalGoalNoteDetailsAsync()
+        {
+            try
+            {
+                this.logger.LogInformation("Initiated call for fetching past personal goal note details from storage");
+                var personalGoalNoteDetails = await this.personalGoalNoteStorageProvider.GetPastPersonalGoalNoteDetailsByUserAadObjectIdAsync(this.UserObjectId);
+                this.logger.LogInformation("GET call for fetching past personal goal note details from storage is successful");
+                return this.Ok(personalGoalNoteDetails);
+            }
+#pragma warning disable CA1031 // Catching all generic exceptions in order to log exception details in logger
+            catch (Exception ex)
+#pragma warning restore CA1031 // Catching all generic exceptions in order to log exception details in logger
+            {
+                this.logger.LogError(ex, "Error while getting past personal goal note details");
+                throw;
+            }
+        }
+
         /// <summary>
         /// Get personal goal note details added for specific personal goal.
         /// </summary>
@@ -156,6 +202,8 @@ namespace Microsoft.Teams.Apps.GoalTracker.Controllers
                     return validationResponse;
                 }
 
+                await this.personalGoalNoteStorageProvider.SetPersonalGoalNoteRevisionsAsync(personalGoalNoteDetails, this.UserObjectId);
+
                 this.logger.LogInformation("Initiated call to personal goal note storage provider.");
                 var result = await this.personalGoalNoteStorageProvider.UpdatePersonalGoalNoteDetailsAsync(personalGoalNoteDetails);
 
@@ -38,6 +38,16 @@ namespace Microsoft.Teams.Apps.GoalTracker.Controllers
         /// </summary>
         private readonly ITeamGoalStorageProvider teamGoalStorageProvider;
 
+        /// <summary>
+        /// Storage provider for working with goal templates of team in storage.
+        /// </summary>
+        private readonly IGoalTemplateStorageProvider goalTemplateStorageProvider;
+
+        /// <summary>
+        /// Provider to fetch team details from bot adapter.
+        /// </summary>
+        private readonly ITeamsInfoHelper teamsInfoHelper;
+
         /// <summary>
         /// Instance of graphUtilityHelper to access Microsoft Graph API.
         /// </summary>
@@ -50,17 +60,23 @@ namespace Microsoft.Teams.Apps.GoalTracker.Controllers
         /// <param name="logger">Instance to send logs to the Application Insights service.</param>
         /// <param name="azureAdOptions">Instance of IOptions to read data from application configuration.</param>
         /// <param name="teamGoalStorageProvider">Storage provider for working with team goal data in Microsoft Azure Table storage</param>
+        /// <param name="goalTemplateStorageProvider">Storage provider for working with goal templates of team in Microsoft Azure Table storage</param>
+        /// <param name="teamsInfoHelper">Provider to fetch team details from bot adapter.</param>
         /// <param name="tokenAcquisitionHelper">Instance of token acquisition helper to access token.</param>
         public TeamGoalController(
             IConfidentialClientApplication confidentialClientApp,
             ILogger<TeamGoalController> logger,
             IOptions<AzureAdOptions> azureAdOptions,
             ITeamGoalStorageProvider teamGoalStorageProvider,
+            IGoalTemplateStorageProvider goalTemplateStorageProvider,
+            ITeamsInfoHelper teamsInfoHelper,
             TokenAcquisitionHelper tokenAcquisitionHelper)
             : base(confidentialClientApp, azureAdOptions, logger, tokenAcquisitionHelper)
         {
             this.logger = logger;
             this.teamGoalStorageProvider = teamGoalStorageProvider;
+            this.goalTemplateStorageProvider = goalTemplateStorageProvider;
+            this.teamsInfoHelper = teamsInfoHelper;
         }
 
         /// <summary>
@@ -193,6 +209,106 @@ namespace Microsoft.Teams.Apps.GoalTracker.Controllers
             }
         }
 
+        /// <summary>
+        /// Get goal templates published by team owners in team.
+        /// </summary>
+        /// <param name="teamId">Team id for which goal templates need to be fetched.</param>
+        /// <returns>Returns goal templates of team.</returns>
+        [HttpGet("templates")]
+        [Authorize(PolicyNames.MustBePartOfTeamPolicy)]
+        public async Task<IActionResult> GetGoalTemplatesByTeamIdAsync(string teamId)
+        {
+            try
+            {
+                this.logger.LogInformation("Initiated call for fetching goal templates from storage.");
+                var goalTemplates = await this.goalTemplateStorageProvider.GetGoalTemplatesByTeamIdAsync(teamId);
+                this.logger.LogInformation("GET call for fetching goal templates from storage is successful.");
+                return this.Ok(goalTemplates);
+            }
+#pragma warning disable CA1031 // Catching all generic exceptions in order to log exception details in logger
+            catch (Exception ex)
+#pragma warning restore CA1031 // Catching all generic exceptions in order to log exception details in logger
+            {
+                this.logger.LogError(ex, "Error while getting goal templates.");
+                throw;
+            }
+        }
+
+        /// <summary>
+        /// Post call to replace goal templates of team in storage. Only team owners can manage goal templates.
+        /// Team id must belong to AAD group of which user is owner, so that owners of one team can not change templates of other teams.
+        /// </summary>
+        /// <param name="teamGroupId">AAD group id of the team in which bot is installed.</param>
+        /// <param name="teamId">Team id for which goal templates need to be stored.</param>
+        /// <param name="goalTemplates">Goal templates of team. Stored templates which are not in collection are deleted.</param>
+        /// <returns>Returns true for successful operation.</returns>
+        [HttpPost("{teamGroupId}/templates")]
+        [Authorize(PolicyNames.MustBePartOfTeamPolicy)]
+        public async Task<IActionResult> SaveGoalTemplatesAsync(string teamGroupId, string teamId, [FromBody] IEnumerable<GoalTemplateDetail> goalTemplates)
+        {
+            try
+            {
+                var teamOwnerResponse = await this.ValidateIfUserIsTeamOwnerAsync(teamGroupId);
+                if (teamOwnerResponse.StatusCode != StatusCodes.Status200OK)
+                {
+                    return teamOwnerResponse;
+                }
+
+                if (string.IsNullOrEmpty(teamId))
+                {
+                    this.logger.LogError(StatusCodes.Status400BadRequest, "Team id is required to save goal templates.");
+                    return this.BadRequest("Team id is required to save goal templates.");
+                }
+
+                var teamAadGroupId = await this.teamsInfoHelper.GetTeamAadGroupIdAsync(teamId);
+                if (!string.Equals(teamAadGroupId, teamGroupId, StringComparison.OrdinalIgnoreCase))
+                {
+                    this.logger.LogError(StatusCodes.Status403Forbidden, $"Team id:{teamId} does not belong to AAD group id:{teamGroupId}.");
+                    return this.StatusCode(StatusCodes.Status403Forbidden, "Team does not belong to AAD group of team owner.");
+                }
+
+#pragma warning disable CA1062 // Post details are validated by model validations for null check and is responded with bad request status
+                if (goalTemplates.Count() > Constants.MaximumNumberOfGoalTemplates)
+#pragma warning restore CA1062 // Post details are validated by model validations for null check and is responded with bad request status
+                {
+                    this.logger.LogError(StatusCodes.Status400BadRequest, $"Cannot add goal templates more than {Constants.MaximumNumberOfGoalTemplates}.");
+                    return this.BadRequest($"Cannot add goal templates more than {Constants.MaximumNumberOfGoalTemplates}.");
+                }
+
+                var invalidGoalTemplate = goalTemplates.FirstOrDefault(goalTemplate => !Guid.TryParse(goalTemplate.GoalTemplateId, out _));
+                if (invalidGoalTemplate != null)
+                {
+                    this.logger.LogError(StatusCodes.Status400BadRequest, $"Goal template id:{invalidGoalTemplate.GoalTemplateId} is not a valid GUID.");
+                    return this.BadRequest($"Goal template id:{invalidGoalTemplate.GoalTemplateId} is not a valid GUID.");
+                }
+
+                // Audit fields are set by service, creation details of existing templates are kept.
+                var existingGoalTemplates = await this.goalTemplateStorageProvider.GetGoalTemplatesByTeamIdAsync(teamId);
+                var modifiedOn = DateTime.UtcNow.ToString("o", CultureInfo.InvariantCulture);
+                foreach (var goalTemplate in goalTemplates)
+                {
+                    var existingGoalTemplate = existingGoalTemplates.FirstOrDefault(template => template.GoalTemplateId == goalTemplate.GoalTemplateId);
+                    goalTemplate.TeamId = teamId;
+                    goalTemplate.CreatedOn = existingGoalTemplate?.CreatedOn ?? modifiedOn;
+                    goalTemplate.CreatedBy = existingGoalTemplate?.CreatedBy ?? this.HttpContext.User.Identity.Name;
+                    goalTemplate.LastModifiedOn = modifiedOn;
+                    goalTemplate.LastModifiedBy = this.HttpContext.User.Identity.Name;
+                }
+
+                this.logger.LogInformation("Initiated call to goal template storage provider service to save goal templates.");
+                var result = await this.goalTemplateStorageProvider.ReplaceGoalTemplatesAsync(teamId, goalTemplates);
+                this.logger.LogInformation("POST call for saving goal templates in storage is successful.");
+                return this.Ok(result);
+            }
+#pragma warning disable CA1031 // Catching all generic exceptions in order to log exception details in logger
+            catch (Exception ex)
+#pragma warning restore CA1031 // Catching all generic exceptions in order to log exception details in logger
+            {
+                this.logger.LogError(ex, "Error while saving goal templates.");
+                throw;
+            }
+        }
+
         /// <summary>
         /// Validates team goal collection received from client application is valid.
         /// </summary>
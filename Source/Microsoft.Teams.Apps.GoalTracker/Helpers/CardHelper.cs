@@ -483,6 +483,7 @@ namespace Microsoft.Teams.Apps.GoalTracker.Helpers
                 savedPersonalGoalNoteDetail.PersonalGoalId = personalGoalNoteDetail.PersonalGoalId;
                 savedPersonalGoalNoteDetail.PersonalGoalNoteDescription = personalGoalNoteDetail.PersonalGoalNoteDescription;
                 savedPersonalGoalNoteDetail.SourceName = personalGoalNoteDetail.SourceName;
+                await this.personalGoalNoteStorageProvider.SetPersonalGoalNoteRevisionsAsync(new[] { savedPersonalGoalNoteDetail }, activity.From.AadObjectId);
                 savedPersonalGoalNoteDetail.LastModifiedOn = DateTime.UtcNow.ToString(Constants.Rfc3339DateTimeFormat, CultureInfo.CurrentCulture);
                 savedPersonalGoalNoteDetail.LastModifiedBy = turnContext.Activity.From.Name;
 
@@ -646,6 +647,13 @@ namespace Microsoft.Teams.Apps.GoalTracker.Helpers
         {
             personalGoalNoteDetails = personalGoalNoteDetails ?? throw new ArgumentNullException(nameof(personalGoalNoteDetails));
 
+            // Notes carried over from previous goal cycle were never sent as cards, so there is no card to update for them.
+            personalGoalNoteDetails = personalGoalNoteDetails.Where(personalGoalNoteDetail => !string.IsNullOrEmpty(personalGoalNoteDetail.AdaptiveCardActivityId)).ToList();
+            if (!personalGoalNoteDetails.Any())
+            {
+                return;
+            }
+
             var personalGoalId = personalGoalNoteDetails.First().PersonalGoalId;
             var userAadObjectId = personalGoalNoteDetails.First().UserAadObjectId;
             var personalGoalDetail = await this.personalGoalStorageProvider.GetPersonalGoalDetailByGoalIdAsync(personalGoalId, userAadObjectId);
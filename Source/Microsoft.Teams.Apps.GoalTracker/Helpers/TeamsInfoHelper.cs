@@ -103,5 +103,49 @@ namespace Microsoft.Teams.Apps.GoalTracker.Helpers
 
             return teamMember;
         }
+
+        /// <summary>
+        /// To fetch AAD group id of specified team.
+        /// Return null if team details could not be fetched.
+        /// Caller should handle null value to throw unauthorized if required
+        /// </summary>
+        /// <param name="teamId">Team id.</param>
+        /// <returns>Returns AAD group id of team.</returns>
+        public async Task<string> GetTeamAadGroupIdAsync(string teamId)
+        {
+            string aadGroupId = null;
+
+            try
+            {
+                var teamDetails = await this.teamStorageProvider.GetTeamDetailAsync(teamId);
+                string serviceUrl = teamDetails.ServiceUrl;
+
+                var conversationReference = new ConversationReference
+                {
+                    ChannelId = Constants.TeamsBotFrameworkChannelId,
+                    ServiceUrl = serviceUrl,
+                };
+                await ((BotFrameworkAdapter)this.botAdapter).ContinueConversationAsync(
+                    this.microsoftAppCredentials.MicrosoftAppId,
+                    conversationReference,
+                    async (context, token) =>
+                    {
+                        var teamInfo = await TeamsInfo.GetTeamDetailsAsync(context, teamId, CancellationToken.None);
+                        aadGroupId = teamInfo?.AadGroupId;
+                    }, default);
+            }
+            #pragma warning disable CA1031 // Catching general exceptions to log exception details in telemetry client.
+            catch (Exception ex)
+            #pragma warning restore CA1031 // Catching general exceptions to log exception details in telemetry client.
+            {
+                this.logger.LogError(ex, $"Error occurred while fetching team details for team: {teamId}");
+
+                // Return null if team details could not be fetched.
+                // Caller should handle null value to throw unauthorized if required.
+                return null;
+            }
+
+            return aadGroupId;
+        }
     }
 }
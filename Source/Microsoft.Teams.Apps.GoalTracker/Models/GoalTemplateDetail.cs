@@ -0,0 +1,84 @@
+﻿// <copyright file="GoalTemplateDetail.cs" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+namespace Microsoft.Teams.Apps.GoalTracker.Models
+{
+    using System.ComponentModel.DataAnnotations;
+    using Microsoft.WindowsAzure.Storage.Table;
+    using Newtonsoft.Json;
+
+    /// <summary>
+    /// Class containing goal template published by team owner, which team members can use to set personal or team goals.
+    /// </summary>
+    public class GoalTemplateDetail : TableEntity
+    {
+        /// <summary>
+        /// Gets or sets team id.
+        /// </summary>
+        [Required]
+        [JsonProperty("TeamId")]
+        public string TeamId
+        {
+            get { return this.PartitionKey; }
+            set { this.PartitionKey = value; }
+        }
+
+        /// <summary>
+        /// Gets or sets unique id of each goal template.
+        /// </summary>
+        [Required]
+        [JsonProperty("GoalTemplateId")]
+        public string GoalTemplateId
+        {
+            get { return this.RowKey; }
+            set { this.RowKey = value; }
+        }
+
+        /// <summary>
+        /// Gets or sets name of goal which is set from the template.
+        /// </summary>
+        [Required]
+        [MaxLength(300)]
+        [JsonProperty("GoalName")]
+        public string GoalName { get; set; }
+
+        /// <summary>
+        /// Gets or sets optional description of goal which is set from the template.
+        /// </summary>
+        [MaxLength(2000)]
+        [JsonProperty("Description")]
+        public string Description { get; set; }
+
+        /// <summary>
+        /// Gets or sets suggested reminder frequency of goal i.e. Weekly/Bi-weekly/Monthly/Quarterly.
+        /// </summary>
+        [Range(0, 3)]
+        [JsonProperty("ReminderFrequency")]
+        public int ReminderFrequency { get; set; }
+
+        /// <summary>
+        /// Gets or sets date at which template is created.
+        /// </summary>
+        [JsonProperty("CreatedOn")]
+        public string CreatedOn { get; set; }
+
+        /// <summary>
+        /// Gets or sets name of the team owner who created the template.
+        /// </summary>
+        [JsonProperty("CreatedBy")]
+        public string CreatedBy { get; set; }
+
+        /// <summary>
+        /// Gets or sets date at which template is updated.
+        /// </summary>
+        [JsonProperty("LastModifiedOn")]
+        public string LastModifiedOn { get; set; }
+
+        /// <summary>
+        /// Gets or sets name of team owner who modified the template.
+        /// </summary>
+        [JsonProperty("LastModifiedBy")]
+        public string LastModifiedBy { get; set; }
+    }
+}
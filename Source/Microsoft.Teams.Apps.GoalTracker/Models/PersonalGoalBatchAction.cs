@@ -0,0 +1,32 @@
+﻿// <copyright file="PersonalGoalBatchAction.cs" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+namespace Microsoft.Teams.Apps.GoalTracker.Models
+{
+    /// <summary>
+    /// Represents action applied to multiple personal goals at once.
+    /// </summary>
+    public enum PersonalGoalBatchAction
+    {
+        /// <summary>
+        /// Represents change of goal status.
+        /// </summary>
+        ChangeStatus = 0,
+
+        /// <summary>
+        /// Represents deletion of goals.
+        /// </summary>
+        Delete = 1,
+
+        /// <summary>
+        /// Represents turning goal reminders on or off.
+        /// </summary>
+        SetReminder = 2,
+
+        /// <summary>
+        /// Represents change of goal reminder frequency.
+        /// </summary>
+        ChangeReminderFrequency = 3,
+    }
+}
@@ -0,0 +1,51 @@
+﻿// <copyright file="PersonalGoalBatchRequest.cs" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+namespace Microsoft.Teams.Apps.GoalTracker.Models
+{
+    using System.Collections.Generic;
+    using System.ComponentModel.DataAnnotations;
+    using Newtonsoft.Json;
+
+    /// <summary>
+    /// Class containing action to be applied to multiple personal goals of user.
+    /// </summary>
+    public class PersonalGoalBatchRequest
+    {
+        /// <summary>
+        /// Gets or sets action to be applied i.e. ChangeStatus/Delete/SetReminder/ChangeReminderFrequency.
+        /// </summary>
+        [Range(0, 3)]
+        [JsonProperty("Action")]
+        public PersonalGoalBatchAction Action { get; set; }
+
+        /// <summary>
+        /// Gets or sets unique ids of personal goals action is applied to.
+        /// </summary>
+        [Required]
+        [MinLength(1)]
+        [JsonProperty("PersonalGoalIds")]
+        public IEnumerable<string> PersonalGoalIds { get; set; }
+
+        /// <summary>
+        /// Gets or sets status goals are changed to. Required for ChangeStatus action.
+        /// </summary>
+        [Range(0, 2)]
+        [JsonProperty("Status")]
+        public int? Status { get; set; }
+
+        /// <summary>
+        /// Gets or sets a value indicating whether reminders of goals are turned on. Required for SetReminder action.
+        /// </summary>
+        [JsonProperty("IsReminderActive")]
+        public bool? IsReminderActive { get; set; }
+
+        /// <summary>
+        /// Gets or sets reminder frequency goals are changed to. Required for ChangeReminderFrequency action.
+        /// </summary>
+        [Range(0, 3)]
+        [JsonProperty("ReminderFrequency")]
+        public int? ReminderFrequency { get; set; }
+    }
+}
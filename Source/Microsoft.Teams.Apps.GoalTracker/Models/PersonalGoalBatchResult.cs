@@ -0,0 +1,32 @@
+﻿// <copyright file="PersonalGoalBatchResult.cs" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+namespace Microsoft.Teams.Apps.GoalTracker.Models
+{
+    using Newtonsoft.Json;
+
+    /// <summary>
+    /// Class containing result of batch action for a single personal goal.
+    /// </summary>
+    public class PersonalGoalBatchResult
+    {
+        /// <summary>
+        /// Gets or sets unique id of personal goal.
+        /// </summary>
+        [JsonProperty("PersonalGoalId")]
+        public string PersonalGoalId { get; set; }
+
+        /// <summary>
+        /// Gets or sets a value indicating whether action was applied to personal goal.
+        /// </summary>
+        [JsonProperty("IsSuccess")]
+        public bool IsSuccess { get; set; }
+
+        /// <summary>
+        /// Gets or sets reason why action could not be applied to personal goal.
+        /// </summary>
+        [JsonProperty("ErrorMessage")]
+        public string ErrorMessage { get; set; }
+    }
+}
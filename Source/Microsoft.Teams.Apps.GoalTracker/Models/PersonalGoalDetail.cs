@@ -121,6 +121,58 @@ namespace Microsoft.Teams.Apps.GoalTracker.Models
         [JsonProperty("Status")]
         public int Status { get; set; }
 
+        /// <summary>
+        /// Gets or sets percent complete of the personal goal. Null if user does not track progress of the goal.
+        /// When goal has key results, progress is rolled up from progress of key results.
+        /// </summary>
+        [Range(0, 100)]
+        [JsonProperty("Progress")]
+        public int? Progress { get; set; }
+
+        /// <summary>
+        /// Gets or sets measurable key results of the personal goal with their target, current value and unit.
+        /// Key results are stored as JSON array as table storage does not support collection properties.
+        /// </summary>
+        [MaxLength(8000)]
+        [JsonProperty("KeyResults")]
+        public string KeyResults { get; set; }
+
+        /// <summary>
+        /// Gets or sets optional due date of the personal goal within its goal cycle.
+        /// </summary>
+        [JsonProperty("DueDate")]
+        public string DueDate { get; set; }
+
+        /// <summary>
+        /// Gets or sets optional priority of the personal goal i.e. Low/Medium/High.
+        /// </summary>
+        [Range(0, 2)]
+        [JsonProperty("Priority")]
+        public int? Priority { get; set; }
+
+        /// <summary>
+        /// Gets or sets user defined tags of the personal goal with their colour.
+        /// Tags are stored as JSON array as table storage does not support collection properties.
+        /// </summary>
+        [MaxLength(1000)]
+        [JsonProperty("Tags")]
+        public string Tags { get; set; }
+
+        /// <summary>
+        /// Gets or sets optional long description of the personal goal.
+        /// </summary>
+        [MaxLength(2000)]
+        [JsonProperty("Description")]
+        public string Description { get; set; }
+
+        /// <summary>
+        /// Gets or sets criteria which define when the personal goal is done, each with text and whether it is met.
+        /// Criteria are stored as JSON array as table storage does not support collection properties.
+        /// </summary>
+        [MaxLength(4000)]
+        [JsonProperty("DefinitionOfDone")]
+        public string DefinitionOfDone { get; set; }
+
         /// <summary>
         /// Gets or sets start date of the personal goals.
         /// </summary>
@@ -101,5 +101,19 @@ namespace Microsoft.Teams.Apps.GoalTracker.Models
         /// </summary>
         [JsonProperty("IsActive")]
         public bool IsActive { get; set; }
+
+        /// <summary>
+        /// Gets or sets earlier descriptions of the note, oldest first. Revisions are stored as JSON array as table storage does not support collection properties.
+        /// Revisions are maintained by service on update and any value received from client is ignored.
+        /// </summary>
+        [JsonProperty("Revisions")]
+        public string Revisions { get; set; }
+
+        /// <summary>
+        /// Gets or sets user defined tags of the note with their colour. Tags are stored as JSON array, same as tags of personal goal.
+        /// </summary>
+        [MaxLength(1000)]
+        [JsonProperty("Tags")]
+        public string Tags { get; set; }
     }
 }
@@ -0,0 +1,32 @@
+﻿// <copyright file="PersonalGoalNoteRevision.cs" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+namespace Microsoft.Teams.Apps.GoalTracker.Models
+{
+    using Newtonsoft.Json;
+
+    /// <summary>
+    /// Class containing earlier text of personal goal note which was replaced by an edit.
+    /// </summary>
+    public class PersonalGoalNoteRevision
+    {
+        /// <summary>
+        /// Gets or sets note description before it was edited.
+        /// </summary>
+        [JsonProperty("description")]
+        public string Description { get; set; }
+
+        /// <summary>
+        /// Gets or sets date at which note description was saved.
+        /// </summary>
+        [JsonProperty("modifiedOn")]
+        public string ModifiedOn { get; set; }
+
+        /// <summary>
+        /// Gets or sets name of user who saved note description.
+        /// </summary>
+        [JsonProperty("modifiedBy")]
+        public string ModifiedBy { get; set; }
+    }
+}
@@ -0,0 +1,27 @@
+﻿// <copyright file="PersonalGoalPriority.cs" company="Microsoft">
+// Copyright (c) Microsoft. All rights reserved.
+// </copyright>
+
+namespace Microsoft.Teams.Apps.GoalTracker.Models
+{
+    /// <summary>
+    /// Represents the priority of a personal goal.
+    /// </summary>
+    public enum PersonalGoalPriority
+    {
+        /// <summary>
+        /// Represents a goal with low priority.
+        /// </summary>
+        Low = 0,
+
+        /// <summary>
+        /// Represents a goal with medium priority.
+        /// </summary>
+        Medium = 1,
+
+        /// <summary>
+        /// Represents a goal with high priority.
+        /// </summary>
+        High = 2,
+    }
+}
@@ -138,5 +138,20 @@ namespace Microsoft.Teams.Apps.GoalTracker.Models
         [Required]
         [JsonProperty("GoalCycleId")]
         public string GoalCycleId { get; set; }
+
+        /// <summary>
+        /// Gets or sets optional long description of the team goal, shown to team members when they align their goals.
+        /// </summary>
+        [MaxLength(2000)]
+        [JsonProperty("Description")]
+        public string Description { get; set; }
+
+        /// <summary>
+        /// Gets or sets criteria which define when the team goal is done.
+        /// Criteria are stored as JSON array as table storage does not support collection properties.
+        /// </summary>
+        [MaxLength(4000)]
+        [JsonProperty("DefinitionOfDone")]
+        public string DefinitionOfDone { get; set; }
     }
 }
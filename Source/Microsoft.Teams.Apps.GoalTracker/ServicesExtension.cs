@@ -97,6 +97,8 @@ namespace Microsoft.Teams.Apps.GoalTracker
                 .AddTransient<IPersonalGoalNoteStorageProvider, PersonalGoalNoteStorageProvider>();
             services
                 .AddTransient<ITeamGoalStorageProvider, TeamGoalStorageProvider>();
+            services
+                .AddTransient<IGoalTemplateStorageProvider, GoalTemplateStorageProvider>();
             services
                 .AddSingleton<IPersonalGoalSearchService, PersonalGoalSearchService>();
             services